@@ -0,0 +1,329 @@
+/**
+ * tx-admin Tests
+ * ===============
+ *
+ * Runs the commands against an in-memory storage and in-memory files.
+ *
+ * Tests cover:
+ *   1. keygen prints fresh keys with their fingerprints, or signing keys
+ *      with their public key and id
+ *   2. inspect reads JSON, JSON array and JSON lines files and shows
+ *      metadata only, flagging invalid records
+ *   3. verify only fails on records that do not authenticate with --decrypt,
+ *      and audits those decryption checks; with signing keys set it also
+ *      checks record signatures
+ *   4. decrypt prints payloads of stored or file records, including
+ *      party-scoped ones, and audits every decryption with actor "cli"
+ *   5. rewrap moves stored records to a version and audits it; file records
+ *      are printed instead, and never get new party keys
+ *   6. export writes stored records as a signed archive in createdAt order,
+ *      optionally per party; import verifies and stores an archive, and
+ *      other commands read archives as record files
+ *   7. Unknown commands, options and records fail with exit code 1
+ */
+
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import {
+  buildKeyRegistry,
+  buildSigningKeyRegistry,
+  envelopeDecrypt,
+  envelopeEncrypt,
+  keyFingerprint,
+  registryKeyProvider,
+  signingPublicKeys,
+  type KeyProvider,
+  type SigningKeyRegistry,
+  type TxSecureRecord,
+} from "@repo/crypto";
+import { type AdminContext, parseRecordFile, runAdmin } from "./admin.js";
+import { type RecordArchive, verifyArchive } from "./archive.js";
+import { verifyAuditChain } from "./audit.js";
+import { partyKeys } from "./party-keys.js";
+import { type Storage, createMemoryStorage } from "./store/index.js";
+
+// ----- Test setup -----
+
+const KEY_V1 = randomBytes(32).toString("hex");
+const KEY_V2 = randomBytes(32).toString("hex");
+const AUDIT_KEY = randomBytes(32);
+const ARCHIVE_KEY = randomBytes(32);
+const PAYLOAD = { amount: 250, currency: "AED", merchant: "Acme" };
+
+const keysV1 = registryKeyProvider(buildKeyRegistry({ MASTER_KEY_V1: KEY_V1 }));
+const keysV1V2 = registryKeyProvider(buildKeyRegistry({ MASTER_KEY_V1: KEY_V1, MASTER_KEY_V2: KEY_V2 }));
+
+interface Harness {
+  context: AdminContext;
+  out: string[];
+  err: string[];
+  written: Record<string, string>;
+}
+
+function harness(
+  storage: Storage,
+  keys: KeyProvider,
+  files: Record<string, string> = {},
+  signing?: SigningKeyRegistry
+): Harness {
+  const h: Harness = {
+    out: [],
+    err: [],
+    written: {},
+    context: {
+      out: (line) => h.out.push(line),
+      err: (line) => h.err.push(line),
+      readFile: (path) => {
+        if (!(path in files)) throw new Error(`ENOENT: no such file, open '${path}'`);
+        return files[path];
+      },
+      writeFile: (path, content) => {
+        h.written[path] = content;
+      },
+      storage: () => storage,
+      keys: () => keys,
+      auditKey: () => AUDIT_KEY,
+      archiveKey: () => ARCHIVE_KEY,
+      signing: () => signing,
+    },
+  };
+  return h;
+}
+
+function tampered(record: TxSecureRecord): TxSecureRecord {
+  const ct = record.payload_ct;
+  return { ...record, payload_ct: (ct[0] === "0" ? "1" : "0") + ct.slice(1) };
+}
+
+// ----- Tests -----
+
+describe("tx-admin", () => {
+  let storage: Storage;
+  let first: TxSecureRecord;
+  let second: TxSecureRecord;
+
+  beforeEach(async () => {
+    storage = createMemoryStorage();
+    first = envelopeEncrypt(keysV1, "tx-1", "party_a", PAYLOAD, { expiresAt: new Date(Date.now() + 60_000) });
+    second = envelopeEncrypt(keysV1, "tx-2", "party_b", PAYLOAD, { fields: { merchant: "clear" } });
+    await storage.tx.put(second);
+    await storage.tx.put(first);
+  });
+
+  it("should generate keys", async () => {
+    const h = harness(storage, keysV1);
+    assert.equal(await runAdmin(["keygen", "--count=3"], h.context), 0);
+
+    assert.equal(h.out.length, 3);
+    for (const line of h.out) {
+      const [hex, , fingerprint] = line.split(/\s+/);
+      assert.match(hex, /^[0-9a-f]{64}$/);
+      assert.equal(fingerprint, keyFingerprint(Buffer.from(hex, "hex")));
+    }
+    assert.equal(new Set(h.out).size, 3);
+
+    assert.equal(await runAdmin(["keygen", "--count=0"], h.context), 1);
+    assert.match(h.err[0], /--count must be an integer from 1 to 100/);
+  });
+
+  it("should generate signing keys", async () => {
+    const h = harness(storage, keysV1);
+    assert.equal(await runAdmin(["keygen", "--signing"], h.context), 0);
+
+    const [seed, , publicKey, , kid] = h.out[0].split(/\s+/);
+    const [published] = signingPublicKeys(buildSigningKeyRegistry({ SIGNING_KEY_V1: seed })!);
+    assert.deepEqual([published.publicKey, published.kid], [publicKey, kid]);
+  });
+
+  it("should inspect records from files without decrypting them", async () => {
+    const broken = { ...first, id: "tx-broken", payload_tag: "00" };
+    const h = harness(storage, keysV1, {
+      "one.json": JSON.stringify(first),
+      "dump.json": JSON.stringify([second]),
+      "lines.jsonl": `${JSON.stringify(broken)}\n`,
+    });
+
+    assert.equal(await runAdmin(["inspect", "one.json", "dump.json", "lines.jsonl"], h.context), 0);
+    const [one, dump, lines] = h.out;
+
+    assert.match(one, /^tx-1\n {2}party {7}party_a\n {2}format {6}v3, AES-256-GCM\n {2}key {9}V1\n/);
+    assert.match(one, /expires {5}\S+Z\n/);
+    assert.match(one, /valid {7}yes/);
+    assert.match(dump, /clear {7}merchant\n {2}encrypted {3}amount, currency/);
+    assert.match(lines, /valid {7}no: payload_tag: expected 16 bytes, got 1 bytes/);
+    assert.doesNotMatch(h.out.join("\n"), /Acme|250/);
+
+    assert.deepEqual(parseRecordFile(" \n", "empty.json"), []);
+    assert.throws(() => parseRecordFile("{nope", "bad.json"), /bad.json: expected a JSON record/);
+    assert.throws(() => parseRecordFile("[1]", "bad.json"), /bad.json: item 1 is not a record/);
+  });
+
+  it("should verify records, authenticating them with --decrypt", async () => {
+    await storage.tx.put(tampered(first));
+    const h = harness(storage, keysV1);
+
+    // The tampered ciphertext is well-formed, so only --decrypt catches it
+    assert.equal(await runAdmin(["verify", "--store"], h.context), 0);
+    assert.equal(h.out.at(-1), "2 records, 0 failed");
+    assert.deepEqual(await storage.audit.list(), []);
+
+    assert.equal(await runAdmin(["verify", "--store", "--decrypt"], h.context), 1);
+    assert.ok(h.out.some((line) => line.startsWith("FAIL  tx-1: Decryption failed: authentication tag mismatch")));
+    assert.ok(h.out.includes("OK    tx-2"));
+    assert.equal(h.out.at(-1), "2 records, 1 failed");
+
+    const audit = await storage.audit.list();
+    assert.deepEqual(
+      audit.map(({ event, outcome, actor, txId }) => [event, outcome, actor, txId]).sort(),
+      [
+        ["decrypt", "failure", "cli", "tx-1"],
+        ["decrypt", "success", "cli", "tx-2"],
+      ]
+    );
+    assert.equal(verifyAuditChain(audit, AUDIT_KEY).valid, true);
+  });
+
+  it("should check record signatures when signing keys are set", async () => {
+    const signing = buildSigningKeyRegistry({ SIGNING_KEY_V1: randomBytes(32).toString("hex"), SIGNER_ID: "bank-a" })!;
+    const signed = envelopeEncrypt(keysV1, "tx-3", "party_a", PAYLOAD, { sign: signing });
+    const forged = { ...signed, id: "tx-4", signature: { ...signed.signature!, signer: "bank-b" } };
+    const files = { "signed.jsonl": [signed, forged].map((record) => JSON.stringify(record)).join("\n") };
+    const h = harness(storage, keysV1, files, signing);
+
+    assert.equal(await runAdmin(["inspect", "signed.jsonl"], h.context), 0);
+    assert.match(h.out[0], new RegExp(`signed {6}bank-a, key ${signed.signature!.kid}`));
+
+    h.out.length = 0;
+    assert.equal(await runAdmin(["verify", "signed.jsonl"], h.context), 1);
+    assert.deepEqual(h.out, [
+      `OK    tx-3 (signed by bank-a, key ${signed.signature!.kid})`,
+      `FAIL  tx-4: Key ${signed.signature!.kid} belongs to "bank-a", not "bank-b"`,
+      "2 records, 1 failed",
+    ]);
+  });
+
+  it("should decrypt stored and file records, and audit each decryption", async () => {
+    const master = keysV1;
+    const partyRecord = envelopeEncrypt(
+      await partyKeys(storage.partyKeys, master, "party_c", 1),
+      "tx-3",
+      "party_c",
+      PAYLOAD
+    );
+    const h = harness(storage, master, { "party.json": JSON.stringify(partyRecord) });
+
+    assert.equal(await runAdmin(["decrypt", "--store", "tx-1", "--fields=amount"], h.context), 0);
+    assert.deepEqual(JSON.parse(h.out[0]), { id: "tx-1", partyId: "party_a", payload: { amount: 250 } });
+
+    assert.equal(await runAdmin(["decrypt", "party.json"], h.context), 0);
+    assert.deepEqual(JSON.parse(h.out[1]).payload, PAYLOAD);
+
+    const audit = await storage.audit.list();
+    assert.deepEqual(
+      audit.map(({ event, outcome, actor, txId }) => [event, outcome, actor, txId]),
+      [
+        ["decrypt", "success", "cli", "tx-1"],
+        ["decrypt", "success", "cli", "tx-3"],
+      ]
+    );
+
+    assert.equal(await runAdmin(["decrypt", "--store", "tx-missing"], h.context), 1);
+    assert.equal(h.err.at(-1), "Record not found: tx-missing");
+  });
+
+  it("should re-wrap stored records in place and file records to the output", async () => {
+    const h = harness(storage, keysV1V2);
+
+    assert.equal(await runAdmin(["rewrap", "--store", "--version=2"], h.context), 0);
+    assert.equal(h.out[0], "Re-wrapped 2 records to V2, 0 failed");
+    for (const record of await storage.tx.list()) {
+      assert.equal(record.mk_version, 2);
+      assert.deepEqual(envelopeDecrypt(keysV1V2, record), PAYLOAD);
+    }
+    assert.deepEqual(
+      (await storage.audit.list()).map(({ event, detail }) => [event, detail]),
+      [
+        ["rotate", "V1 → V2"],
+        ["rotate", "V1 → V2"],
+      ]
+    );
+
+    // File records are printed; a party without a V2 key is not given one
+    const partyRecord = envelopeEncrypt(
+      await partyKeys(storage.partyKeys, keysV1, "party_c", 1),
+      "tx-3",
+      "party_c",
+      PAYLOAD
+    );
+    const files = harness(storage, keysV1V2, { "dump.json": JSON.stringify([first, partyRecord]) });
+    assert.equal(await runAdmin(["rewrap", "dump.json"], files.context), 1);
+
+    const [moved] = JSON.parse(files.out[0]) as TxSecureRecord[];
+    assert.equal(moved.mk_version, 2);
+    assert.deepEqual(envelopeDecrypt(keysV1V2, moved), PAYLOAD);
+    assert.match(files.err[0], /^tx-3: /);
+    assert.equal((await storage.partyKeys.list("party_c")).length, 1);
+
+    assert.equal(await runAdmin(["rewrap", "--store", "--version=3"], files.context), 1);
+    assert.match(files.err.at(-1) ?? "", /Master key version 3 not found/);
+  });
+
+  it("should export stored records as an archive and import it", async () => {
+    const h = harness(storage, keysV1);
+
+    assert.equal(await runAdmin(["export"], h.context), 0);
+    const archive = verifyArchive(JSON.parse(h.out[0]), ARCHIVE_KEY);
+    assert.deepEqual(
+      archive.records.map(({ id }) => id),
+      [first, second]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id))
+        .map(({ id }) => id)
+    );
+    assert.deepEqual(parseRecordFile(h.out[0], "export"), archive.records);
+
+    assert.equal(await runAdmin(["export", "--party=party_b", "--out=b.json"], h.context), 0);
+    assert.deepEqual(parseRecordFile(h.written["b.json"], "b.json"), [second]);
+    assert.equal(h.err[0], "Exported 1 records and 0 party keys to b.json");
+    assert.deepEqual(
+      (await storage.audit.list()).map(({ event, actor, partyId }) => [event, actor, partyId]),
+      [
+        ["export", "cli", undefined],
+        ["export", "cli", "party_b"],
+      ]
+    );
+
+    // Into a store on V1 and V2, moving the records to V2
+    const destination = createMemoryStorage();
+    const d = harness(destination, keysV1V2, { "all.json": h.out[0], "b.json": h.written["b.json"] });
+    assert.equal(await runAdmin(["import", "all.json", "--rewrap"], d.context), 0);
+    assert.equal(d.out[0], "Imported 2 records (2 re-wrapped), 0 party keys, skipped 0 existing");
+    for (const record of await destination.tx.list()) {
+      assert.equal(record.mk_version, 2);
+      assert.deepEqual(envelopeDecrypt(keysV1V2, record), PAYLOAD);
+    }
+    assert.equal(await runAdmin(["import", "b.json"], d.context), 0);
+    assert.equal(d.out[1], "Imported 0 records (0 re-wrapped), 0 party keys, skipped 1 existing");
+
+    // A modified archive is refused
+    const broken = JSON.parse(h.out[0]) as RecordArchive;
+    broken.records[1].payload_tag = "00";
+    const b = harness(createMemoryStorage(), keysV1, { "broken.json": JSON.stringify(broken) });
+    assert.equal(await runAdmin(["import", "broken.json"], b.context), 1);
+    assert.match(b.err.at(-1) ?? "", /Archive signature does not match/);
+  });
+
+  it("should fail on unknown commands, options and files", async () => {
+    const h = harness(storage, keysV1);
+
+    assert.equal(await runAdmin([], h.context), 1);
+    assert.match(h.err[0], /^Usage: tx-admin <command>/);
+    assert.equal(await runAdmin(["shred"], h.context), 1);
+    assert.equal(await runAdmin(["inspect", "--bogus"], h.context), 1);
+    assert.match(h.err.at(-1) ?? "", /Unknown option '--bogus'/);
+    assert.equal(await runAdmin(["inspect"], h.context), 1);
+    assert.match(h.err.at(-1) ?? "", /Give record files, or --store/);
+    assert.equal(await runAdmin(["inspect", "missing.json"], h.context), 1);
+    assert.match(h.err.at(-1) ?? "", /ENOENT/);
+  });
+});
@@ -0,0 +1,510 @@
+/**
+ * tx-admin — offline operations on records and the store
+ * ========================================================
+ *
+ * Operates the system without the HTTP routes, e.g. during an incident:
+ *
+ *   keygen  [--count=N] [--signing]             random 32-byte keys and their fingerprints, or
+ *                                               Ed25519 signing keys with their public key and id
+ *   inspect <source...>                         record metadata, without decrypting
+ *   verify  <source...> [--decrypt]             validateRecord on every record, and signatures
+ *                                               with signing keys set; with --decrypt also
+ *                                               authenticate them with the keys
+ *   decrypt <source...> [--fields=a,b]          decrypted payloads as JSON lines
+ *   rewrap  <source...> [--version=N]           re-wrap DEKs to a master key version
+ *   export  [--party=ID] [--out=FILE]           stored records as a signed archive
+ *   import  <archive> [--rewrap]                verify an archive and store its records
+ *
+ * A source is a file of records (one JSON record, a JSON array, JSON lines
+ * or an archive; "-" reads stdin), or with --store the configured store:
+ * the arguments are then record IDs, and no arguments mean every record.
+ * Archives (see archive.ts) are signed with ARCHIVE_SIGNING_KEY.
+ *
+ * Keys come from the environment as for the API (see keys.ts, and
+ * @repo/crypto signing.ts for SIGNING_KEY_V<n> / SIGNING_PUBLIC_KEY_V<n>). Party-scoped
+ * records need the party keys in the configured store, also for files.
+ *
+ * Every decryption, export, import and re-wrap written back to the store is
+ * recorded in the audit log with actor "cli", so AUDIT_HMAC_KEY must be
+ * set for those commands. Re-wrapped file records are printed, not stored;
+ * they may only move to versions their party already has a key for.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { randomBytes } from "node:crypto";
+import { parseArgs } from "node:util";
+import {
+  buildSigningKeyRegistry,
+  envelopeDecrypt,
+  generateSigningKey,
+  isExpired,
+  keyFingerprint,
+  rewrapRecord,
+  validateRecord,
+  checkRecordSignature,
+  type KeyProvider,
+  type SigningKeyRegistry,
+  type TxSecureRecord,
+} from "@repo/crypto";
+import { ARCHIVE_FORMAT, exportArchive, importArchive, readArchiveKey, verifyArchive } from "./archive.js";
+import { AuditLog, readAuditKey } from "./audit.js";
+import type { ApiError } from "./errors.js";
+import { getKeyProvider } from "./keys.js";
+import { partyKeys, recordKeys } from "./party-keys.js";
+import { type Storage, openStorage, readStoreConfig } from "./store/index.js";
+
+export const ADMIN_USAGE = `Usage: tx-admin <command> [options]
+
+  keygen  [--count=N] [--signing]
+  inspect <file...> | --store [id...]
+  verify  <file...> | --store [id...]  [--decrypt]
+  decrypt <file...> | --store [id...]  [--fields=a,b]
+  rewrap  <file...> | --store [id...]  [--version=N]
+  export  [--party=ID] [--out=FILE]
+  import  <archive> [--rewrap]
+
+A file holds one JSON record, a JSON array, JSON lines or an archive ("-" reads stdin).`;
+
+/** What the commands read from and write to */
+export interface AdminContext {
+  /** Print one line of output */
+  out(line: string): void;
+
+  /** Print one line of diagnostics */
+  err(line: string): void;
+
+  /** Read a record file ("-" for stdin) */
+  readFile(path: string): string;
+
+  /** Write an output file */
+  writeFile(path: string, content: string): void;
+
+  /** The configured storage; only opened by commands that need it */
+  storage(): Storage;
+
+  /** The configured master key provider */
+  keys(): KeyProvider;
+
+  /** The audit log key */
+  auditKey(): Buffer;
+
+  /** The archive signing key */
+  archiveKey(): Buffer;
+
+  /** The record signing keys, if any are configured */
+  signing(): SigningKeyRegistry | undefined;
+}
+
+/**
+ * Context reading the process environment and using the console.
+ * `close()` closes the storage if a command opened it.
+ */
+export function cliContext(env: Record<string, string | undefined>): AdminContext & { close(): Promise<void> } {
+  let storage: Storage | undefined;
+
+  return {
+    out: (line) => console.log(line),
+    err: (line) => console.error(line),
+    readFile: (path) => readFileSync(path === "-" ? 0 : path, "utf-8"),
+    writeFile: (path, content) => writeFileSync(path, content),
+    storage: () => (storage ??= openStorage(readStoreConfig(env))),
+    keys: () => getKeyProvider(),
+    auditKey: () => readAuditKey(env),
+    signing: () => buildSigningKeyRegistry(env),
+    archiveKey: () => {
+      const key = readArchiveKey(env);
+      if (!key) {
+        throw new Error("ARCHIVE_SIGNING_KEY must be set to export or import archives");
+      }
+      return key;
+    },
+    close: async () => {
+      await storage?.close();
+    },
+  };
+}
+
+/**
+ * Run one tx-admin command.
+ *
+ * @param argv - the command and its arguments
+ * @returns the process exit code: 0 on success, 1 on any failure
+ */
+export async function runAdmin(argv: readonly string[], context: AdminContext): Promise<number> {
+  const [command, ...args] = argv;
+  const run = command !== undefined ? COMMANDS[command] : undefined;
+  if (!run) {
+    context.err(ADMIN_USAGE);
+    return 1;
+  }
+
+  try {
+    return await run(args, context);
+  } catch (err) {
+    context.err(err instanceof Error ? err.message : String(err));
+    return 1;
+  }
+}
+
+// ----- Commands -----
+
+type Command = (args: string[], context: AdminContext) => Promise<number>;
+
+const SOURCE_OPTIONS = { store: { type: "boolean" } } as const;
+
+const COMMANDS: Record<string, Command> = {
+  async keygen(args, context) {
+    const { values } = parseArgs({ args, options: { count: { type: "string" }, signing: { type: "boolean" } } });
+    const count = values.count !== undefined ? Number(values.count) : 1;
+    if (!Number.isInteger(count) || count < 1 || count > 100) {
+      throw new Error("--count must be an integer from 1 to 100");
+    }
+
+    for (let i = 0; i < count; i++) {
+      if (values.signing) {
+        const { seed, publicKey, kid } = generateSigningKey();
+        context.out(`${seed}  public ${publicKey}  kid ${kid}`);
+        continue;
+      }
+      const key = randomBytes(32);
+      context.out(`${key.toString("hex")}  fingerprint ${keyFingerprint(key)}`);
+      key.fill(0);
+    }
+    return 0;
+  },
+
+  async inspect(args, context) {
+    const { values, positionals } = parseArgs({ args, options: SOURCE_OPTIONS, allowPositionals: true });
+    for (const record of await loadRecords(positionals, values.store, context)) {
+      context.out(describeRecord(record));
+    }
+    return 0;
+  },
+
+  async verify(args, context) {
+    const { values, positionals } = parseArgs({
+      args,
+      options: { ...SOURCE_OPTIONS, decrypt: { type: "boolean" } },
+      allowPositionals: true,
+    });
+
+    const records = await loadRecords(positionals, values.store, context);
+    const audit = values.decrypt ? auditLog(context) : undefined;
+    const signing = context.signing();
+    let failed = 0;
+
+    for (const record of records) {
+      try {
+        validateRecord(record);
+        const signer = signing ? checkRecordSignature(record, signing) : undefined;
+        if (audit) {
+          // Authenticate expired records too: decrypt as of their creation time
+          const keys = await recordKeys(context.storage().partyKeys, context.keys(), record);
+          envelopeDecrypt(keys, record, { now: new Date(record.createdAt) });
+          await auditDecrypt(audit, record, "success", "verified by tx-admin");
+        }
+        const notes = [
+          ...(signer ? [`signed by ${signer.signer}, key ${signer.kid}`] : []),
+          ...(isExpired(record) ? ["expired"] : []),
+        ];
+        context.out(`OK    ${record.id}${notes.length > 0 ? ` (${notes.join("; ")})` : ""}`);
+      } catch (err) {
+        failed++;
+        const message = err instanceof Error ? err.message : String(err);
+        if (audit) {
+          await auditDecrypt(audit, record, "failure", message);
+        }
+        context.out(`FAIL  ${record.id}: ${message}`);
+      }
+    }
+
+    context.out(`${records.length} records, ${failed} failed`);
+    return failed > 0 ? 1 : 0;
+  },
+
+  async decrypt(args, context) {
+    const { values, positionals } = parseArgs({
+      args,
+      options: { ...SOURCE_OPTIONS, fields: { type: "string" } },
+      allowPositionals: true,
+    });
+
+    const records = await loadRecords(positionals, values.store, context);
+    const audit = auditLog(context);
+    const fields = values.fields?.split(",").map((field) => field.trim());
+    let failed = 0;
+
+    for (const record of records) {
+      try {
+        const keys = await recordKeys(context.storage().partyKeys, context.keys(), record);
+        const payload = envelopeDecrypt(keys, record, { fields });
+        await auditDecrypt(audit, record, "success");
+        context.out(JSON.stringify({ id: record.id, partyId: record.partyId, payload }));
+      } catch (err) {
+        failed++;
+        const message = err instanceof Error ? err.message : String(err);
+        await auditDecrypt(audit, record, "failure", message);
+        context.err(`${record.id}: ${message}`);
+      }
+    }
+
+    return failed > 0 ? 1 : 0;
+  },
+
+  async rewrap(args, context) {
+    const { values, positionals } = parseArgs({
+      args,
+      options: { ...SOURCE_OPTIONS, version: { type: "string" } },
+      allowPositionals: true,
+    });
+
+    const master = context.keys();
+    const target = values.version !== undefined ? Number(values.version) : master.latestVersion();
+    if (!master.versions().includes(target)) {
+      throw new Error(`Master key version ${target} not found. Available versions: ${master.versions().join(", ")}`);
+    }
+
+    const records = await loadRecords(positionals, values.store, context);
+    const audit = values.store ? auditLog(context) : undefined;
+    const rewrapped: TxSecureRecord[] = [];
+    let failed = 0;
+
+    for (const record of records) {
+      let error: string | undefined;
+      try {
+        // Only the store keeps party keys created for the target version
+        const keys =
+          record.key_scope === "party"
+            ? await partyKeys(context.storage().partyKeys, master, record.partyId, values.store ? target : undefined)
+            : master;
+        const moved = rewrapRecord(keys, record, target);
+        if (values.store) {
+          await context.storage().tx.put(moved);
+        }
+        rewrapped.push(moved);
+      } catch (err) {
+        failed++;
+        error = err instanceof Error ? err.message : String(err);
+        context.err(`${record.id}: ${error}`);
+      }
+
+      await audit?.record({
+        event: "rotate",
+        outcome: error ? "failure" : "success",
+        actor: "cli",
+        txId: record.id,
+        partyId: record.partyId,
+        mk_version: error ? record.mk_version : target,
+        detail: error ?? `V${record.mk_version} → V${target}`,
+      });
+    }
+
+    if (values.store) {
+      context.out(`Re-wrapped ${rewrapped.length} records to V${target}, ${failed} failed`);
+    } else {
+      context.out(JSON.stringify(rewrapped, null, 2));
+    }
+    return failed > 0 ? 1 : 0;
+  },
+
+  async export(args, context) {
+    const { values } = parseArgs({ args, options: { party: { type: "string" }, out: { type: "string" } } });
+
+    const archive = await exportArchive(context.storage(), context.archiveKey(), {
+      partyId: values.party,
+      keys: context.keys(),
+    });
+    const { records, partyKeys: keyCount } = archive.manifest;
+    await auditLog(context).record({
+      event: "export",
+      outcome: "success",
+      actor: "cli",
+      ...(values.party !== undefined ? { partyId: values.party } : {}),
+      detail: `${records} records, ${keyCount} party keys`,
+    });
+    const json = JSON.stringify(archive, null, 2);
+
+    if (values.out !== undefined) {
+      context.writeFile(values.out, json + "\n");
+      context.err(`Exported ${records} records and ${keyCount} party keys to ${values.out}`);
+    } else {
+      context.out(json);
+    }
+    return 0;
+  },
+
+  async import(args, context) {
+    const { values, positionals } = parseArgs({
+      args,
+      options: { rewrap: { type: "boolean" } },
+      allowPositionals: true,
+    });
+    if (positionals.length !== 1) {
+      throw new Error(`Give one archive file\n\n${ADMIN_USAGE}`);
+    }
+
+    const [source] = positionals;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(context.readFile(source));
+    } catch (err) {
+      if (err instanceof SyntaxError) throw new Error(`${source}: expected a JSON archive`);
+      throw err;
+    }
+
+    let report;
+    try {
+      report = await importArchive(context.storage(), verifyArchive(parsed, context.archiveKey()), {
+        keys: context.keys(),
+        rewrap: values.rewrap,
+        audit: auditLog(context),
+        actor: "cli",
+      });
+    } catch (err) {
+      // List every invalid entry, not just the summary
+      for (const { path, message } of (err as Partial<ApiError>).violations ?? []) {
+        context.err(`${source}${path}: ${message}`);
+      }
+      throw err;
+    }
+
+    context.out(
+      `Imported ${report.imported} records (${report.rewrapped} re-wrapped), ` +
+        `${report.partyKeys} party keys, skipped ${report.skipped.length} existing`
+    );
+    if (report.shredded.length > 0) {
+      context.out(`Left out ${report.shredded.length} records of parties erased here since they were written`);
+    }
+    if (report.missingKeyVersions.length > 0) {
+      context.err(
+        `Warning: master key versions ${report.missingKeyVersions.join(", ")} are not loaded; ` +
+          "imported records under them cannot be read until they are"
+      );
+    }
+    return 0;
+  },
+};
+
+// ----- Helpers -----
+
+/**
+ * Records from files, or from the store with --store.
+ *
+ * @throws if a file is not JSON records, or a stored record is missing
+ */
+async function loadRecords(
+  sources: string[],
+  fromStore: boolean | undefined,
+  context: AdminContext
+): Promise<TxSecureRecord[]> {
+  if (fromStore) {
+    const store = context.storage().tx;
+    if (sources.length === 0) {
+      return store.list();
+    }
+
+    const records: TxSecureRecord[] = [];
+    for (const id of sources) {
+      const record = await store.get(id);
+      if (!record) {
+        throw new Error(`Record not found: ${id}`);
+      }
+      records.push(record);
+    }
+    return records;
+  }
+
+  if (sources.length === 0) {
+    throw new Error(`Give record files, or --store\n\n${ADMIN_USAGE}`);
+  }
+  return sources.flatMap((source) => parseRecordFile(context.readFile(source), source));
+}
+
+/** Parse one JSON record, a JSON array of records, JSON lines, or the records of an archive (unverified) */
+export function parseRecordFile(content: string, label: string): TxSecureRecord[] {
+  const text = content.trim();
+  if (text === "") {
+    return [];
+  }
+
+  let parsed: unknown[];
+  try {
+    const whole = JSON.parse(text) as { format?: unknown; records?: unknown[] };
+    parsed = Array.isArray(whole) ? whole : whole?.format === ARCHIVE_FORMAT ? (whole.records ?? []) : [whole];
+  } catch {
+    try {
+      parsed = text.split(/\r?\n/).filter((line) => line.trim() !== "").map((line) => JSON.parse(line) as unknown);
+    } catch {
+      throw new Error(`${label}: expected a JSON record, a JSON array or JSON lines`);
+    }
+  }
+
+  return parsed.map((record, index) => {
+    if (!record || typeof record !== "object" || typeof (record as TxSecureRecord).id !== "string") {
+      throw new Error(`${label}: item ${index + 1} is not a record`);
+    }
+    return record as TxSecureRecord;
+  });
+}
+
+/** Human-readable metadata of a record; never touches key material */
+function describeRecord(record: TxSecureRecord): string {
+  const lines = [
+    `${record.id}`,
+    `  party       ${record.partyId}`,
+    `  format      v${record.v ?? 1}, ${record.alg}`,
+    `  key         V${record.mk_version}${record.key_scope === "party" ? " (party key)" : ""}`,
+    `  created     ${record.createdAt}`,
+  ];
+
+  if (record.expiresAt !== undefined) {
+    lines.push(`  expires     ${record.expiresAt}${isExpired(record) ? " (expired)" : ""}`);
+  }
+  if (record.context !== undefined) {
+    lines.push(`  context     ${JSON.stringify(record.context)}`);
+  }
+  if (record.payload_schema !== undefined) {
+    lines.push(`  schema      ${record.payload_schema.id} v${record.payload_schema.version}`);
+  }
+  if (record.clear_fields !== undefined || record.enc_fields !== undefined) {
+    lines.push(`  clear       ${Object.keys(record.clear_fields ?? {}).join(", ") || "-"}`);
+    lines.push(`  encrypted   ${Object.keys(record.enc_fields ?? {}).join(", ") || "-"}`);
+  }
+  if (record.blind_index !== undefined) {
+    lines.push(`  indexed     ${Object.keys(record.blind_index).join(", ")}`);
+  }
+  if (record.signature !== undefined) {
+    lines.push(`  signed      ${record.signature.signer}, key ${record.signature.kid}`);
+  }
+  lines.push(`  ciphertext  ${record.payload_ct.length / 2} bytes`);
+
+  try {
+    validateRecord(record);
+    lines.push("  valid       yes");
+  } catch (err) {
+    lines.push(`  valid       no: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  return lines.join("\n");
+}
+
+function auditLog(context: AdminContext): AuditLog {
+  return new AuditLog(context.storage().audit, context.auditKey());
+}
+
+async function auditDecrypt(
+  audit: AuditLog,
+  record: TxSecureRecord,
+  outcome: "success" | "failure",
+  detail?: string
+): Promise<void> {
+  await audit.record({
+    event: "decrypt",
+    outcome,
+    actor: "cli",
+    txId: record.id,
+    partyId: record.partyId,
+    mk_version: record.mk_version,
+    ...(detail !== undefined ? { detail } : {}),
+  });
+}
@@ -0,0 +1,216 @@
+/**
+ * Fastify application factory.
+ *
+ * Builds a fully configured Fastify instance (CORS, rate limiting,
+ * transaction, batch, attachment, party erasure, payload schema, key
+ * rotation, signing key, record archive and audit routes, health check, OpenAPI document and docs)
+ * without starting a listener, so the same app can be served locally,
+ * wrapped for Vercel, or exercised in tests via app.inject().
+ */
+
+import Fastify, { type FastifyInstance } from "fastify";
+import cors from "@fastify/cors";
+import rateLimit from "@fastify/rate-limit";
+import { type BlindIndexOptions, type SigningKeyRegistry, isCryptoError } from "@repo/crypto";
+import { txRoutes } from "./routes/tx.js";
+import { batchRoutes } from "./routes/batch.js";
+import { attachmentRoutes } from "./routes/attachments.js";
+import { partyRoutes } from "./routes/parties.js";
+import { keyRoutes } from "./routes/keys.js";
+import { auditRoutes } from "./routes/audit.js";
+import { archiveRoutes } from "./routes/archive.js";
+import { signingRoutes } from "./routes/signing.js";
+import { schemaRoutes } from "./routes/schemas.js";
+import { registerOpenApi } from "./openapi.js";
+import { AuditLog } from "./audit.js";
+import { ApiError, errorBody, toApiError } from "./errors.js";
+import { IdempotencyTracker } from "./idempotency.js";
+import { type DecryptLimits, DecryptGuard, rateLimitKey, rateLimitStore } from "./limits.js";
+import { type RetentionPolicies, startSweeper } from "./retention.js";
+import { type SchemaDefinition, SchemaRegistry } from "./schemas.js";
+import type { ApiKey } from "./auth.js";
+import type { Storage } from "./store/index.js";
+
+export interface AppOptions {
+  /** Storage backend for records, attachments and the audit log (closed when the app closes) */
+  storage: Storage;
+
+  /** API keys allowed to call the /tx, /parties, /schemas, /keys and /audit routes */
+  apiKeys: readonly ApiKey[];
+
+  /** HMAC key for the audit chain (AUDIT_HMAC_KEY) */
+  auditKey: Buffer;
+
+  /** Blind index key and fields for GET /tx/search (search is disabled without it) */
+  blindIndex?: BlindIndexOptions;
+
+  /** Ed25519 keys to sign new records and verify signatures with (records are unsigned without them) */
+  signing?: SigningKeyRegistry;
+
+  /** Signing key for GET /tx/export and POST /tx/import archives (both are disabled without it) */
+  archiveKey?: Buffer;
+
+  /** Largest accepted attachment upload in bytes (default: 50 MiB) */
+  attachmentMaxBytes?: number;
+
+  /** How long Idempotency-Key entries are remembered, in ms (default: 24 hours) */
+  idempotencyTtlMs?: number;
+
+  /** Per-party retention policies giving new records their default expiresAt */
+  retention?: RetentionPolicies;
+
+  /** How often expired records are purged, in ms (default: never — the sweeper is off) */
+  sweepIntervalMs?: number;
+
+  /** JSON Schemas that payloads of each transaction type must match (default: none) */
+  payloadSchemas?: readonly SchemaDefinition[];
+
+  /** Per-party decrypt limit and failure lockout settings (default: DEFAULT_DECRYPT_LIMITS) */
+  decryptLimits?: Partial<DecryptLimits>;
+
+  /** Enable Fastify's request logger (default: true) */
+  logger?: boolean;
+}
+
+export async function buildApp(options: AppOptions): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: options.logger ?? true,
+    // Validate request types as sent — the routes reject e.g. numeric strings themselves
+    ajv: { customOptions: { coerceTypes: false } },
+  });
+
+  // Everything thrown while handling a request becomes an { error, code } body (see errors.ts)
+  app.setErrorHandler((err, request, reply) => {
+    const apiError = toApiError(err);
+    if (isCryptoError(err)) {
+      request.log.warn({ err, code: err.code }, "Crypto operation failed");
+    } else if (apiError.status >= 500) {
+      request.log.error({ err }, "Request failed");
+    }
+    return reply.status(apiError.status).send(errorBody(apiError));
+  });
+
+  app.setNotFoundHandler((request, reply) =>
+    reply.status(404).send(errorBody(new ApiError("NOT_FOUND", `Route not found: ${request.method} ${request.url}`)))
+  );
+
+  // Enable CORS for the frontend
+  await app.register(cors, {
+    origin: true, // Allow all origins in dev; configure for production
+    methods: ["GET", "POST", "DELETE"],
+  });
+
+  const { storage, apiKeys } = options;
+
+  // Register rate limiting plugin (applied per-route via route config). Counters
+  // are kept in the storage backend and keyed by caller (see limits.ts)
+  await app.register(rateLimit, {
+    global: false, // Don't apply globally — only to routes that opt-in
+    store: rateLimitStore(storage.limits),
+    keyGenerator: rateLimitKey,
+    errorResponseBuilder: (_request, context) =>
+      new ApiError("RATE_LIMITED", `Rate limit exceeded, retry in ${context.after}`),
+  });
+
+  // Shared schemas, GET /openapi.json and /docs — before the routes they document
+  await registerOpenApi(app);
+
+  // Authenticated caller, set by the auth hook of each protected route plugin
+  app.decorateRequest("caller", null);
+
+  const audit = new AuditLog(storage.audit, options.auditKey);
+  const schemas = new SchemaRegistry(options.payloadSchemas);
+  const decryptGuard = new DecryptGuard(storage.limits, options.decryptLimits);
+
+  // Register transaction routes
+  await app.register(txRoutes, {
+    store: storage.tx,
+    audit,
+    apiKeys,
+    partyKeys: storage.partyKeys,
+    idempotency: new IdempotencyTracker(storage.idempotency, options.idempotencyTtlMs),
+    blindIndex: options.blindIndex,
+    retention: options.retention,
+    schemas,
+    decryptGuard,
+    signing: options.signing,
+  });
+
+  // Register batch encrypt/decrypt routes
+  await app.register(batchRoutes, {
+    store: storage.tx,
+    audit,
+    apiKeys,
+    partyKeys: storage.partyKeys,
+    blindIndex: options.blindIndex,
+    retention: options.retention,
+    schemas,
+    decryptGuard,
+    signing: options.signing,
+  });
+
+  // Register encrypted attachment upload/download routes
+  await app.register(attachmentRoutes, {
+    store: storage.tx,
+    attachments: storage.attachments,
+    partyKeys: storage.partyKeys,
+    audit,
+    apiKeys,
+    maxBytes: options.attachmentMaxBytes,
+  });
+
+  // Register party erasure (crypto-shredding) routes
+  await app.register(partyRoutes, {
+    store: storage.tx,
+    attachments: storage.attachments,
+    partyKeys: storage.partyKeys,
+    audit,
+    apiKeys,
+  });
+
+  // Register payload schema registry routes
+  await app.register(schemaRoutes, { schemas, apiKeys });
+
+  // Register master key status / rotation routes
+  await app.register(keyRoutes, { store: storage.tx, audit, apiKeys, partyKeys: storage.partyKeys });
+
+  // Register the public signing key route
+  await app.register(signingRoutes, { signing: options.signing });
+
+  // Register record archive export/import routes
+  await app.register(archiveRoutes, { storage, audit, apiKeys, archiveKey: options.archiveKey });
+
+  // Register audit log routes
+  await app.register(auditRoutes, { audit, apiKeys });
+
+  // Health check endpoint
+  app.get(
+    "/health",
+    {
+      schema: {
+        tags: ["health"],
+        summary: "Liveness check",
+        security: [],
+        response: { 200: { type: "object", required: ["status"], properties: { status: { type: "string" } } } },
+      },
+    },
+    async () => ({ status: "ok" })
+  );
+
+  // Purge expired records in the background
+  const stopSweeper = options.sweepIntervalMs
+    ? startSweeper(
+        { store: storage.tx, attachments: storage.attachments, audit, limits: storage.limits },
+        options.sweepIntervalMs,
+        app.log
+      )
+    : undefined;
+
+  // Release storage resources on shutdown
+  app.addHook("onClose", async () => {
+    stopSweeper?.();
+    await storage.close();
+  });
+
+  return app;
+}
@@ -0,0 +1,301 @@
+/**
+ * Record Archive Tests
+ * =====================
+ *
+ * Tests cover:
+ *   1. Exports carry the records, the party keys they need and a manifest
+ *      of key versions and fingerprints; imports restore them decryptable
+ *   2. Modified archives fail the signature; re-signed archives with a
+ *      wrong manifest, invalid records or party keys are reported per entry
+ *   3. Existing records are skipped; clashing party keys and master keys
+ *      of the same version with another fingerprint are conflicts
+ *   4. rewrap moves imported DEKs to the active version, creating party
+ *      keys for it, and fails as a whole if any record cannot move
+ *   5. Imported records under versions the destination lacks are reported
+ *   6. A storage failure part-way reports how far the import got, and
+ *      importing again stores the rest
+ *   7. Erasures are compared with archived timestamps as times, whatever
+ *      their UTC offset
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac, randomBytes } from "node:crypto";
+import {
+  buildKeyRegistry,
+  canonicalJson,
+  envelopeDecrypt,
+  envelopeEncrypt,
+  keyFingerprint,
+  registryKeyProvider,
+} from "@repo/crypto";
+import { type RecordArchive, exportArchive, importArchive, readArchiveKey, verifyArchive } from "./archive.js";
+import { AuditLog } from "./audit.js";
+import { ApiError } from "./errors.js";
+import { partyKeys, recordKeys } from "./party-keys.js";
+import { type Storage, createMemoryStorage } from "./store/index.js";
+
+// ----- Test data -----
+
+const KEY_V1 = randomBytes(32).toString("hex");
+const KEY_V2 = randomBytes(32).toString("hex");
+const ARCHIVE_KEY = randomBytes(32);
+const PAYLOAD = { amount: 250, currency: "AED" };
+
+const keysV1 = registryKeyProvider(buildKeyRegistry({ MASTER_KEY_V1: KEY_V1 }));
+const keysV1V2 = registryKeyProvider(buildKeyRegistry({ MASTER_KEY_V1: KEY_V1, MASTER_KEY_V2: KEY_V2 }));
+const keysV2 = registryKeyProvider(buildKeyRegistry({ MASTER_KEY_V2: KEY_V2 }));
+
+/** Storage with a party-scoped record of party_a and a master-scoped one of party_b */
+async function sourceStorage(): Promise<Storage> {
+  const storage = createMemoryStorage();
+  await storage.tx.put(
+    envelopeEncrypt(await partyKeys(storage.partyKeys, keysV1, "party_a", 1), "tx-a", "party_a", PAYLOAD)
+  );
+  await storage.tx.put(envelopeEncrypt(keysV1, "tx-b", "party_b", PAYLOAD));
+  // Keys of a party without records stay behind
+  await partyKeys(storage.partyKeys, keysV1, "party_c", 1);
+  return storage;
+}
+
+/** Sign an archive that was modified after export */
+function resigned(archive: RecordArchive): RecordArchive {
+  const unsigned: Partial<RecordArchive> = { ...archive };
+  delete unsigned.signature;
+  return { ...archive, signature: createHmac("sha256", ARCHIVE_KEY).update(canonicalJson(unsigned)).digest("hex") };
+}
+
+/** The violations of the ApiError `fn` throws, as "path: message" */
+function violationsOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (err) {
+    assert.ok(err instanceof ApiError);
+    return (err.violations ?? []).map(({ path, message }) => `${path}: ${message}`);
+  }
+  assert.fail("expected an ApiError");
+}
+
+async function rejectsWith(promise: Promise<unknown>, code: string, message: RegExp): Promise<void> {
+  await assert.rejects(
+    promise,
+    (err: unknown) => err instanceof ApiError && err.code === code && message.test(err.message)
+  );
+}
+
+// ----- Tests -----
+
+describe("Record archives", () => {
+  it("should export records with their party keys and import them", async () => {
+    const archive = await exportArchive(await sourceStorage(), ARCHIVE_KEY, {
+      keys: keysV1,
+      now: new Date("2026-01-01T00:00:00Z"),
+    });
+
+    assert.deepEqual(archive.records.map(({ id }) => id).sort(), ["tx-a", "tx-b"]);
+    assert.deepEqual(archive.manifest, {
+      createdAt: "2026-01-01T00:00:00.000Z",
+      records: 2,
+      parties: ["party_a", "party_b"],
+      keyVersions: { 1: 2 },
+      keyFingerprints: { 1: keyFingerprint(Buffer.from(KEY_V1, "hex")) },
+      partyKeys: 1,
+    });
+    assert.deepEqual(
+      archive.partyKeys.map(({ partyId }) => partyId),
+      ["party_a"]
+    );
+
+    // Survives a round trip through JSON
+    const verified = verifyArchive(JSON.parse(JSON.stringify(archive)), ARCHIVE_KEY);
+
+    const destination = createMemoryStorage();
+    const audit = new AuditLog(destination.audit, randomBytes(32));
+    const report = await importArchive(destination, verified, { keys: keysV1, audit, actor: "admin" });
+    assert.deepEqual(report, {
+      imported: 2,
+      stored: ["tx-a", "tx-b"],
+      skipped: [],
+      shredded: [],
+      rewrapped: 0,
+      partyKeys: 1,
+      missingKeyVersions: [],
+    });
+
+    for (const record of await destination.tx.list()) {
+      assert.deepEqual(envelopeDecrypt(await recordKeys(destination.partyKeys, keysV1, record), record), PAYLOAD);
+    }
+    assert.deepEqual(
+      (await destination.audit.list()).map(({ event, actor, txId }) => [event, actor, txId]).sort(),
+      [
+        ["import", "admin", "tx-a"],
+        ["import", "admin", "tx-b"],
+      ]
+    );
+
+    const party = await exportArchive(await sourceStorage(), ARCHIVE_KEY, { partyId: "party_b" });
+    assert.deepEqual(party.manifest.parties, ["party_b"]);
+    assert.deepEqual(party.manifest.keyFingerprints, {});
+    assert.equal(party.partyKeys.length, 0);
+
+    assert.equal(readArchiveKey({}), undefined);
+    assert.throws(() => readArchiveKey({ ARCHIVE_SIGNING_KEY: "abcd" }), /ARCHIVE_SIGNING_KEY/);
+  });
+
+  it("should reject modified archives and report invalid entries", async () => {
+    const archive = await exportArchive(await sourceStorage(), ARCHIVE_KEY, { keys: keysV1 });
+    const [first] = archive.records;
+    const [partyKey] = archive.partyKeys;
+
+    assert.throws(
+      () => verifyArchive({ ...archive, records: [first] }, ARCHIVE_KEY),
+      (err: unknown) => err instanceof ApiError && err.code === "INTEGRITY_FAILURE"
+    );
+    assert.throws(() => verifyArchive(archive, randomBytes(32)), /Archive signature does not match/);
+    assert.throws(() => verifyArchive([first], ARCHIVE_KEY), /Not a tx-secure-archive/);
+    assert.throws(() => verifyArchive({ ...archive, version: 2 }, ARCHIVE_KEY), /Unsupported archive version 2/);
+
+    // Signed with the right key, but not what was exported
+    assert.deepEqual(
+      violationsOf(() => verifyArchive(resigned({ ...archive, records: [first] }), ARCHIVE_KEY)),
+      ["/manifest: Manifest does not match the archive's contents"]
+    );
+    const broken = resigned({
+      ...archive,
+      records: [first, { ...first, payload_tag: "00" }],
+      partyKeys: [{ ...partyKey, ct: "zz" }],
+    });
+    assert.deepEqual(violationsOf(() => verifyArchive(broken, ARCHIVE_KEY)), [
+      "/records/1: payload_tag: expected 16 bytes, got 1 bytes",
+      "/partyKeys/0: ct: invalid hex encoding",
+    ]);
+    assert.deepEqual(
+      violationsOf(() => verifyArchive(resigned({ ...archive, records: [first, first] }), ARCHIVE_KEY)),
+      [`/records/1: Duplicate record id ${first.id}`]
+    );
+  });
+
+  it("should skip existing records and refuse conflicting keys", async () => {
+    const source = await sourceStorage();
+    const archive = await exportArchive(source, ARCHIVE_KEY, { keys: keysV1 });
+
+    // Importing into the source changes nothing
+    assert.deepEqual(await importArchive(source, archive, { keys: keysV1 }), {
+      imported: 0,
+      stored: [],
+      skipped: archive.records.map(({ id }) => id),
+      shredded: [],
+      rewrapped: 0,
+      partyKeys: 0,
+      missingKeyVersions: [],
+    });
+
+    // party_a already has another key for V1 here
+    const clashing = createMemoryStorage();
+    await partyKeys(clashing.partyKeys, keysV1, "party_a", 1);
+    await rejectsWith(
+      importArchive(clashing, archive, { keys: keysV1 }),
+      "CONFLICT",
+      /Party party_a already has a different key for master key version 1/
+    );
+
+    // V1 here is another key
+    const otherV1 = registryKeyProvider(buildKeyRegistry({ MASTER_KEY_V1: randomBytes(32).toString("hex") }));
+    const empty = createMemoryStorage();
+    await rejectsWith(
+      importArchive(empty, archive, { keys: otherV1 }),
+      "CONFLICT",
+      /Master key version 1 here is not the archive's/
+    );
+    assert.deepEqual(await empty.tx.list(), []);
+    assert.deepEqual(await empty.partyKeys.list("party_a"), []);
+  });
+
+  it("should re-wrap imported records to the active version", async () => {
+    const archive = await exportArchive(await sourceStorage(), ARCHIVE_KEY, { keys: keysV1 });
+
+    const destination = createMemoryStorage();
+    const report = await importArchive(destination, archive, { keys: keysV1V2, rewrap: true });
+    assert.deepEqual(report, {
+      imported: 2,
+      stored: ["tx-a", "tx-b"],
+      skipped: [],
+      shredded: [],
+      rewrapped: 2,
+      partyKeys: 2,
+      missingKeyVersions: [],
+    });
+
+    // V1 can be retired: everything now reads with V2 alone
+    for (const record of await destination.tx.list()) {
+      assert.equal(record.mk_version, 2);
+      assert.deepEqual(envelopeDecrypt(await recordKeys(destination.partyKeys, keysV2, record), record), PAYLOAD);
+    }
+
+    // Without V1 here nothing can move, so nothing is stored
+    const withoutV1 = createMemoryStorage();
+    const violations = await importArchive(withoutV1, archive, { keys: keysV2, rewrap: true }).then(
+      () => assert.fail("expected an ApiError"),
+      (err: ApiError) => err.violations ?? []
+    );
+    assert.deepEqual(
+      violations.map(({ path }) => path),
+      ["/records/0", "/records/1"]
+    );
+    assert.deepEqual(await withoutV1.tx.list(), []);
+    assert.deepEqual(await withoutV1.partyKeys.list("party_a"), []);
+  });
+
+  it("should report master key versions the destination lacks", async () => {
+    const archive = await exportArchive(await sourceStorage(), ARCHIVE_KEY, { keys: keysV1 });
+
+    const destination = createMemoryStorage();
+    const report = await importArchive(destination, archive, { keys: keysV2 });
+    assert.equal(report.imported, 2);
+    assert.deepEqual(report.missingKeyVersions, [1]);
+  });
+
+  it("should report how far an import got when storing fails", async () => {
+    const archive = await exportArchive(await sourceStorage(), ARCHIVE_KEY, { keys: keysV1 });
+
+    const destination = createMemoryStorage();
+    const put = destination.tx.put.bind(destination.tx);
+    let puts = 0;
+    destination.tx.put = async (record) => {
+      if (++puts === 2) throw new Error("disk full");
+      return put(record);
+    };
+    await rejectsWith(
+      importArchive(destination, archive, { keys: keysV1 }),
+      "INTERNAL_ERROR",
+      /stopped after storing 1 of 2 records \(up to tx-a in archive order\): disk full/
+    );
+    assert.deepEqual(
+      (await destination.tx.list()).map(({ id }) => id),
+      ["tx-a"]
+    );
+
+    const retried = await importArchive(destination, archive, { keys: keysV1 });
+    assert.deepEqual(retried.stored, ["tx-b"]);
+    assert.deepEqual(retried.skipped, ["tx-a"]);
+  });
+
+  it("should compare erasures with archived times in any UTC offset", async () => {
+    const archive = await exportArchive(await sourceStorage(), ARCHIVE_KEY, { keys: keysV1 });
+    const [record] = archive.records.filter(({ id }) => id === "tx-b");
+
+    // Written 23:00 UTC, an hour before party_b was erased here
+    const offset = resigned({
+      ...archive,
+      records: [{ ...record, createdAt: "2026-01-01T03:00:00+04:00" }],
+      partyKeys: [],
+      manifest: { ...archive.manifest, records: 1, parties: ["party_b"], keyVersions: { 1: 1 }, partyKeys: 0 },
+    });
+    const destination = createMemoryStorage();
+    await destination.partyKeys.destroy("party_b", new Date("2026-01-01T00:00:00Z"));
+
+    const report = await importArchive(destination, verifyArchive(offset, ARCHIVE_KEY), { keys: keysV1 });
+    assert.deepEqual(report.shredded, ["tx-b"]);
+    assert.deepEqual(await destination.tx.list(), []);
+  });
+});
@@ -0,0 +1,481 @@
+/**
+ * Record Archives — signed export and import of encrypted records
+ * =================================================================
+ *
+ * An archive moves stored records between environments (backups,
+ * migrations) without decrypting anything:
+ *
+ *   {
+ *     "format": "tx-secure-archive",
+ *     "version": 1,
+ *     "manifest": {
+ *       "createdAt": "2026-01-01T00:00:00.000Z",
+ *       "records": 2,
+ *       "parties": ["party_a"],
+ *       "keyVersions": { "1": 2 },            records per master key version
+ *       "keyFingerprints": { "1": "3f0c…" },  of those versions, if the provider knows them
+ *       "partyKeys": 1
+ *     },
+ *     "records": [TxSecureRecord, ...],
+ *     "partyKeys": [PartyKey, ...],
+ *     "signature": "<hex>"
+ *   }
+ *
+ * Records stay encrypted, and the party keys their DEKs are wrapped under
+ * (see party-keys.ts) travel with them, wrapped under the master keys.
+ * The signature is HMAC-SHA256(ARCHIVE_SIGNING_KEY, canonicalJson(archive
+ * without signature)), so both environments share the signing key; it is
+ * separate from the master, audit and blind index keys.
+ *
+ * Import checks, before storing anything:
+ *   1. the signature, then that the manifest matches the contents
+ *   2. validateRecord on every record, and the shape of every party key
+ *   3. that master key versions the destination also holds are the same
+ *      keys (by fingerprint), and that archived party keys do not clash
+ *      with the destination's
+ *   4. with `rewrap`, that every DEK can be re-wrapped to the destination's
+ *      active master key version — which needs the archive's versions as
+ *      (decrypt-only) keys at the destination
+ * Only then are the party keys and records stored, one at a time: the
+ * stores have no transactions, so a storage failure part-way leaves what
+ * was stored so far. Importing the same archive again stores the rest.
+ * Records whose id already exists are skipped, never overwritten. Party
+ * keys and records of a party erased at the destination (DELETE
+ * /parties/:partyId) that predate the erasure are left out, so an old
+ * archive cannot undo it.
+ *
+ * Environment variables:
+ *   ARCHIVE_SIGNING_KEY=<64 hex chars>   (optional; enables GET /tx/export and POST /tx/import)
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { Buffer } from "node:buffer";
+import {
+  canonicalJson,
+  createPartyKey,
+  partyKeyProvider,
+  rewrapRecord,
+  validateHex,
+  validateRecord,
+  type KeyProvider,
+  type PartyKey,
+  type TxSecureRecord,
+} from "@repo/crypto";
+import type { AuditLog } from "./audit.js";
+import { ApiError } from "./errors.js";
+import { countByVersion } from "./rotation.js";
+import type { SchemaViolation } from "./schemas.js";
+import type { Storage } from "./store/index.js";
+
+export const ARCHIVE_FORMAT = "tx-secure-archive";
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchiveManifest {
+  /** ISO-8601 time of export */
+  createdAt: string;
+
+  /** Number of records */
+  records: number;
+
+  /** Parties of the records, sorted */
+  parties: string[];
+
+  /** Record counts per master key version */
+  keyVersions: Record<string, number>;
+
+  /** Fingerprints of those master key versions, where the provider reports them */
+  keyFingerprints: Record<string, string>;
+
+  /** Number of party keys */
+  partyKeys: number;
+}
+
+export interface RecordArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  manifest: ArchiveManifest;
+  records: TxSecureRecord[];
+  partyKeys: PartyKey[];
+
+  /** HMAC-SHA256 of the rest of the archive, hex */
+  signature: string;
+}
+
+export interface ExportOptions {
+  /** Only export this party's records (default: all) */
+  partyId?: string;
+
+  /** Master key provider, for the manifest's key fingerprints */
+  keys?: KeyProvider;
+
+  /** Export time (default: now) */
+  now?: Date;
+}
+
+export interface ImportOptions {
+  /** The destination's master key provider */
+  keys: KeyProvider;
+
+  /** Re-wrap every DEK to the destination's active master key version */
+  rewrap?: boolean;
+
+  /** Audit log to record each imported record in */
+  audit?: AuditLog;
+
+  /** Actor recorded in audit entries (default: "system") */
+  actor?: string;
+}
+
+export interface ImportReport {
+  /** Records stored */
+  imported: number;
+
+  /** IDs of the records stored, in archive order */
+  stored: string[];
+
+  /** IDs of records that already existed and were left alone */
+  skipped: string[];
+
+  /** IDs of records left out because their party was erased here after they were written */
+  shredded: string[];
+
+  /** Imported records whose DEK moved to another master key version */
+  rewrapped: number;
+
+  /** Party keys added to the destination */
+  partyKeys: number;
+
+  /** Master key versions imported records use that the destination does not hold */
+  missingKeyVersions: number[];
+}
+
+/**
+ * Read the archive signing key from the environment.
+ *
+ * @returns the key, or undefined if ARCHIVE_SIGNING_KEY is not set
+ * @throws if it is set but not 32 bytes of hex
+ */
+export function readArchiveKey(env: Record<string, string | undefined>): Buffer | undefined {
+  return env.ARCHIVE_SIGNING_KEY ? validateHex(env.ARCHIVE_SIGNING_KEY, "ARCHIVE_SIGNING_KEY", 32) : undefined;
+}
+
+// ----- Export -----
+
+/**
+ * Build a signed archive of stored records and the party keys they need.
+ *
+ * @param storage - where records and party keys are read from
+ * @param key     - ARCHIVE_SIGNING_KEY
+ */
+export async function exportArchive(
+  storage: Pick<Storage, "tx" | "partyKeys">,
+  key: Buffer,
+  options: ExportOptions = {}
+): Promise<RecordArchive> {
+  const records = (await storage.tx.list())
+    .filter((record) => options.partyId === undefined || record.partyId === options.partyId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+
+  // Only the party keys some record is wrapped under
+  const needed = new Set(
+    records.filter((record) => record.key_scope === "party").map((record) => `${record.partyId}:${record.mk_version}`)
+  );
+  const partyKeys: PartyKey[] = [];
+  for (const partyId of new Set(records.map((record) => record.partyId))) {
+    for (const partyKey of await storage.partyKeys.list(partyId)) {
+      if (needed.has(`${partyId}:${partyKey.mk_version}`)) {
+        partyKeys.push(partyKey);
+      }
+    }
+  }
+  partyKeys.sort((a, b) => a.partyId.localeCompare(b.partyId) || a.mk_version - b.mk_version);
+
+  const manifest = manifestOf(records, partyKeys, (options.now ?? new Date()).toISOString());
+  for (const version of Object.keys(manifest.keyVersions)) {
+    const fingerprint = options.keys?.keyMetadata?.(Number(version))?.fingerprint;
+    if (fingerprint) {
+      manifest.keyFingerprints[version] = fingerprint;
+    }
+  }
+
+  const unsigned = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, manifest, records, partyKeys } as const;
+  return { ...unsigned, signature: signatureOf(key, unsigned) };
+}
+
+// ----- Import -----
+
+/**
+ * Check an archive's signature, manifest, records and party keys.
+ *
+ * @param input - a parsed archive of unknown shape
+ * @param key   - ARCHIVE_SIGNING_KEY of the exporting environment
+ * @returns the archive
+ * @throws ApiError: INTEGRITY_FAILURE if the signature does not match,
+ *         INVALID_REQUEST (with violations) if the archive is malformed,
+ *         its manifest does not match, or a record or party key is invalid
+ */
+export function verifyArchive(input: unknown, key: Buffer): RecordArchive {
+  const archive = input as Partial<RecordArchive> | null;
+  if (!archive || typeof archive !== "object" || archive.format !== ARCHIVE_FORMAT) {
+    throw new ApiError("INVALID_REQUEST", `Not a ${ARCHIVE_FORMAT}`);
+  }
+  if (archive.version !== ARCHIVE_VERSION) {
+    throw new ApiError("INVALID_REQUEST", `Unsupported archive version ${String(archive.version)}`);
+  }
+  if (
+    !Array.isArray(archive.records) ||
+    !Array.isArray(archive.partyKeys) ||
+    !archive.manifest ||
+    typeof archive.signature !== "string"
+  ) {
+    throw new ApiError("INVALID_REQUEST", "Archive needs manifest, records, partyKeys and signature");
+  }
+
+  const { signature, ...unsigned } = archive;
+  if (!macEquals(signature, signatureOf(key, unsigned))) {
+    throw new ApiError("INTEGRITY_FAILURE", "Archive signature does not match (wrong key, or modified archive)");
+  }
+
+  const violations: SchemaViolation[] = [];
+  const ids = new Set<string>();
+
+  archive.records.forEach((record, index) => {
+    try {
+      validateRecord(record);
+      if (ids.has(record.id)) {
+        throw new Error(`Duplicate record id ${record.id}`);
+      }
+      ids.add(record.id);
+    } catch (err) {
+      violations.push({ path: `/records/${index}`, message: messageOf(err) });
+    }
+  });
+
+  archive.partyKeys.forEach((partyKey, index) => {
+    try {
+      validatePartyKey(partyKey);
+    } catch (err) {
+      violations.push({ path: `/partyKeys/${index}`, message: messageOf(err) });
+    }
+  });
+
+  if (violations.length === 0) {
+    // Fingerprints are not derived from the contents; everything else is
+    const { createdAt, keyFingerprints } = archive.manifest;
+    const expected = { ...manifestOf(archive.records, archive.partyKeys, createdAt), keyFingerprints };
+    if (canonicalJson(archive.manifest) !== canonicalJson(expected)) {
+      violations.push({ path: "/manifest", message: "Manifest does not match the archive's contents" });
+    }
+    if (!keyFingerprints || typeof keyFingerprints !== "object") {
+      violations.push({ path: "/manifest/keyFingerprints", message: "Expected an object" });
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new ApiError("INVALID_REQUEST", "Archive contains invalid entries", violations);
+  }
+  return archive as RecordArchive;
+}
+
+/**
+ * Store the records of a verified archive (see verifyArchive), with the
+ * party keys they need. Nothing is stored unless every entry checks out,
+ * but the writes are not atomic (see above).
+ *
+ * @throws ApiError: CONFLICT if a master key version or party key of the
+ *         archive differs from the destination's, INVALID_REQUEST (with
+ *         violations) if a party-scoped record has no party key or a DEK
+ *         cannot be re-wrapped, INTERNAL_ERROR naming the last record
+ *         stored if storing fails part-way
+ */
+export async function importArchive(
+  storage: Pick<Storage, "tx" | "partyKeys">,
+  archive: RecordArchive,
+  options: ImportOptions
+): Promise<ImportReport> {
+  const { keys } = options;
+
+  // The same version number must not name a different key here
+  for (const [version, fingerprint] of Object.entries(archive.manifest.keyFingerprints)) {
+    const local = keys.keyMetadata?.(Number(version))?.fingerprint;
+    if (local && local !== fingerprint) {
+      throw new ApiError(
+        "CONFLICT",
+        `Master key version ${version} here is not the archive's (fingerprint ${local}, archive ${fingerprint})`
+      );
+    }
+  }
+
+  // Keys and records of a party from before its erasure here stay erased
+  const shreddedAt = new Map<string, number>();
+  for (const partyId of new Set([...archive.records, ...archive.partyKeys].map((item) => item.partyId))) {
+    const at = await storage.partyKeys.shreddedAt(partyId);
+    if (at !== undefined) {
+      shreddedAt.set(partyId, Date.parse(at));
+    }
+  }
+  // Compared as times, since archived timestamps need not be in UTC
+  const erased = ({ partyId, createdAt }: { partyId: string; createdAt: string }) =>
+    Date.parse(createdAt) <= (shreddedAt.get(partyId) ?? -Infinity);
+
+  // Party keys: the destination's, plus the archive's it does not have yet
+  const partyKeys = new Map<string, PartyKey[]>();
+  const added: PartyKey[] = [];
+  for (const partyId of new Set(archive.records.map((record) => record.partyId))) {
+    partyKeys.set(partyId, await storage.partyKeys.list(partyId));
+  }
+  for (const partyKey of archive.partyKeys) {
+    if (erased(partyKey)) {
+      continue;
+    }
+    const known = partyKeys.get(partyKey.partyId) ?? [];
+    const existing = known.find((candidate) => candidate.mk_version === partyKey.mk_version);
+    if (existing && canonicalJson(existing) !== canonicalJson(partyKey)) {
+      throw new ApiError(
+        "CONFLICT",
+        `Party ${partyKey.partyId} already has a different key for master key version ${partyKey.mk_version}`
+      );
+    }
+    if (!existing) {
+      partyKeys.set(partyKey.partyId, [...known, partyKey]);
+      added.push(partyKey);
+    }
+  }
+
+  const target = options.rewrap ? keys.latestVersion() : undefined;
+  const violations: SchemaViolation[] = [];
+  const staged: { record: TxSecureRecord; from: number }[] = [];
+  const skipped: string[] = [];
+  const shredded: string[] = [];
+
+  for (const [index, record] of archive.records.entries()) {
+    if (erased(record)) {
+      shredded.push(record.id);
+      continue;
+    }
+    if (await storage.tx.get(record.id)) {
+      skipped.push(record.id);
+      continue;
+    }
+
+    try {
+      const scoped = record.key_scope === "party";
+      if (scoped && !partyKeys.get(record.partyId)?.some((key) => key.mk_version === record.mk_version)) {
+        throw new Error(`No key of party ${record.partyId} for master key version ${record.mk_version}`);
+      }
+
+      let stored = record;
+      if (target !== undefined) {
+        if (scoped && !partyKeys.get(record.partyId)?.some((key) => key.mk_version === target)) {
+          const created = createPartyKey(keys, record.partyId, target);
+          partyKeys.set(record.partyId, [...(partyKeys.get(record.partyId) ?? []), created]);
+          added.push(created);
+        }
+        const source = scoped ? partyKeyProvider(keys, record.partyId, partyKeys.get(record.partyId) ?? []) : keys;
+        stored = rewrapRecord(source, record, target);
+      }
+      staged.push({ record: stored, from: record.mk_version });
+    } catch (err) {
+      violations.push({ path: `/records/${index}`, message: messageOf(err) });
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new ApiError(
+      "INVALID_REQUEST",
+      target !== undefined
+        ? `${violations.length} records could not be imported and re-wrapped to V${target}`
+        : `${violations.length} records could not be imported`,
+      violations
+    );
+  }
+
+  // Everything checked out: store the party keys first, then the records
+  const stored: string[] = [];
+  try {
+    for (const partyKey of added) {
+      await storage.partyKeys.add(partyKey);
+    }
+    for (const { record, from } of staged) {
+      await storage.tx.put(record);
+      stored.push(record.id);
+      await options.audit?.record({
+        event: "import",
+        outcome: "success",
+        actor: options.actor ?? "system",
+        txId: record.id,
+        partyId: record.partyId,
+        mk_version: record.mk_version,
+        ...(record.mk_version !== from ? { detail: `V${from} → V${record.mk_version}` } : {}),
+      });
+    }
+  } catch (err) {
+    throw new ApiError(
+      "INTERNAL_ERROR",
+      `Import stopped after storing ${stored.length} of ${staged.length} records` +
+        (stored.length > 0 ? ` (up to ${stored[stored.length - 1]} in archive order)` : "") +
+        `: ${messageOf(err)}; importing the archive again stores the rest`
+    );
+  }
+
+  const available = keys.versions();
+  return {
+    imported: stored.length,
+    stored,
+    skipped,
+    shredded,
+    rewrapped: staged.filter(({ record, from }) => record.mk_version !== from).length,
+    partyKeys: added.length,
+    missingKeyVersions: [...new Set(staged.map(({ record }) => record.mk_version))]
+      .filter((version) => !available.includes(version))
+      .sort((a, b) => a - b),
+  };
+}
+
+// ----- Helpers -----
+
+function manifestOf(
+  records: readonly TxSecureRecord[],
+  partyKeys: readonly PartyKey[],
+  createdAt: string
+): ArchiveManifest {
+  return {
+    createdAt,
+    records: records.length,
+    parties: [...new Set(records.map((record) => record.partyId))].sort(),
+    keyVersions: Object.fromEntries(Object.entries(countByVersion([...records]))),
+    keyFingerprints: {},
+    partyKeys: partyKeys.length,
+  };
+}
+
+function signatureOf(key: Buffer, unsigned: Partial<Omit<RecordArchive, "signature">>): string {
+  return createHmac("sha256", key).update(canonicalJson(unsigned), "utf-8").digest("hex");
+}
+
+/** Constant-time comparison of two hex MACs */
+function macEquals(a: string, b: string): boolean {
+  const bufA = Buffer.from(a, "hex");
+  const bufB = Buffer.from(b, "hex");
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/** Check the shape of a stored party key; its contents are authenticated when it is used */
+function validatePartyKey(partyKey: PartyKey): void {
+  if (!partyKey || typeof partyKey !== "object" || typeof partyKey.partyId !== "string" || !partyKey.partyId) {
+    throw new Error("Party key needs a partyId");
+  }
+  if (!Number.isInteger(partyKey.mk_version) || partyKey.mk_version < 1) {
+    throw new Error("Party key needs a positive integer mk_version");
+  }
+  validateHex(partyKey.nonce, "nonce", 12);
+  validateHex(partyKey.ct, "ct", 32);
+  validateHex(partyKey.tag, "tag", 16);
+  if (typeof partyKey.createdAt !== "string" || Number.isNaN(Date.parse(partyKey.createdAt))) {
+    throw new Error("createdAt: expected an ISO-8601 timestamp");
+  }
+}
+
+function messageOf(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
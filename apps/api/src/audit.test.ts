@@ -0,0 +1,138 @@
+/**
+ * Audit Log Tests
+ * ================
+ *
+ * Tests cover:
+ *   1. Appended entries form a valid HMAC chain
+ *   2. Concurrent appends still get contiguous seq numbers
+ *   3. Editing an entry is detected
+ *   4. Deleting an entry is detected
+ *   5. Verifying with the wrong key fails
+ *   6. Encrypt/decrypt routes write audit entries visible via GET /audit
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { AuditLog, verifyAuditChain, type AuditInput } from "./audit.js";
+import { buildApp } from "./app.js";
+import { readApiKeys } from "./auth.js";
+import { MemoryAuditStore, createMemoryStorage } from "./store/index.js";
+
+// ----- Test helpers -----
+
+const AUDIT_KEY = randomBytes(32);
+
+function decryptEvent(txId: string): AuditInput {
+  return { event: "decrypt", outcome: "success", actor: "tester", txId, partyId: "party_a", mk_version: 1 };
+}
+
+/** A log with `count` entries, plus its backing store */
+async function seededLog(count: number) {
+  const store = new MemoryAuditStore();
+  const log = new AuditLog(store, AUDIT_KEY);
+  for (let i = 1; i <= count; i++) {
+    await log.record(decryptEvent(`tx-${i}`));
+  }
+  return { store, log };
+}
+
+// ----- Tests -----
+
+describe("Audit Log", () => {
+  it("should chain appended entries", async () => {
+    const { log } = await seededLog(3);
+    const entries = await log.list();
+
+    assert.deepEqual(entries.map((e) => e.seq), [1, 2, 3]);
+    assert.equal(entries[0].prev_mac, "");
+    assert.equal(entries[1].prev_mac, entries[0].mac);
+    assert.equal(entries[2].prev_mac, entries[1].mac);
+
+    const result = await log.verify();
+    assert.deepEqual(result, { valid: true, entries: 3, headSeq: 3, headMac: entries[2].mac });
+  });
+
+  it("should assign contiguous seq numbers to concurrent appends", async () => {
+    const log = new AuditLog(new MemoryAuditStore(), AUDIT_KEY);
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => log.record(decryptEvent(`tx-${i}`))));
+
+    const entries = await log.list();
+    assert.deepEqual(entries.map((e) => e.seq), Array.from({ length: 20 }, (_, i) => i + 1));
+    assert.equal((await log.verify()).valid, true);
+  });
+
+  it("should detect an edited entry", async () => {
+    const { log } = await seededLog(3);
+    const entries = await log.list();
+
+    const tampered = entries.map((e) => ({ ...e }));
+    tampered[1].partyId = "party_b";
+
+    const result = verifyAuditChain(tampered, AUDIT_KEY);
+    assert.equal(result.valid, false);
+    assert.equal(!result.valid && result.brokenAt, 2);
+  });
+
+  it("should detect a deleted entry", async () => {
+    const { log } = await seededLog(4);
+    const entries = await log.list();
+
+    const withoutSecond = entries.filter((e) => e.seq !== 2);
+
+    const result = verifyAuditChain(withoutSecond, AUDIT_KEY);
+    assert.equal(result.valid, false);
+    assert.equal(!result.valid && result.brokenAt, 3);
+  });
+
+  it("should fail verification with a different key", async () => {
+    const { log } = await seededLog(2);
+
+    const result = verifyAuditChain(await log.list(), randomBytes(32));
+    assert.equal(result.valid, false);
+    assert.equal(!result.valid && result.brokenAt, 1);
+  });
+
+  it("should record encrypt and decrypt operations from the routes", async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    const apiKeys = readApiKeys({
+      API_KEYS: JSON.stringify([
+        { id: "admin", key: "admin-key", parties: ["*"], admin: true },
+        { id: "client-b", key: "b-key", parties: ["party_b"] },
+      ]),
+    });
+    const app = await buildApp({ storage: createMemoryStorage(), apiKeys, auditKey: AUDIT_KEY, logger: false });
+
+    const created = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: { authorization: "Bearer admin-key" },
+      payload: { partyId: "party_a", payload: { amount: 1 } },
+    });
+    const { id } = created.json();
+
+    await app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: { authorization: "Bearer admin-key" } });
+    await app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: { authorization: "Bearer b-key" } });
+
+    const res = await app.inject({ method: "GET", url: "/audit", headers: { authorization: "Bearer admin-key" } });
+    const entries = res.json();
+
+    assert.deepEqual(
+      entries.map((e: AuditInput) => [e.event, e.outcome, e.actor, e.txId, e.partyId, e.mk_version]),
+      [
+        ["encrypt", "success", "admin", id, "party_a", 1],
+        ["decrypt", "success", "admin", id, "party_a", 1],
+        ["decrypt", "failure", "client-b", id, "party_a", 1],
+      ]
+    );
+
+    const verify = await app.inject({ method: "GET", url: "/audit/verify", headers: { authorization: "Bearer admin-key" } });
+    assert.equal(verify.json().valid, true);
+
+    const forbidden = await app.inject({ method: "GET", url: "/audit", headers: { authorization: "Bearer b-key" } });
+    assert.equal(forbidden.statusCode, 403);
+
+    await app.close();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tamper-Evident Audit Log
+ * ==========================
+ *
+ * Records every encrypt, decrypt (success and failure) and key rotation
+ * operation in an append-only log. Entries carry only identifiers and
+ * metadata (actor, txId, partyId, mk_version, timestamp) — never payloads.
+ *
+ * Hash chain:
+ *   - Each entry stores the MAC of the previous entry (prev_mac) and its own
+ *     MAC: HMAC-SHA256(AUDIT_HMAC_KEY, canonicalJson(entry without mac)).
+ *   - Because prev_mac is covered by the MAC, editing, reordering or deleting
+ *     any entry breaks every link after it; seq numbers are contiguous, so a
+ *     removed entry also shows up as a gap.
+ *   - Truncating the newest entries cannot be detected from the log alone —
+ *     compare the verified head (seq + mac) with a previously exported copy.
+ *
+ * Each entry is chained by the store itself, which reads the current head
+ * and inserts the next entry as one step (AuditStore.appendNext): a sqlite
+ * transaction, or a lock file for jsonl. Several API instances and the
+ * tx-admin CLI can therefore share one log without forking the chain. An
+ * in-process queue additionally keeps one instance's appends in call order.
+ *
+ * Environment variables:
+ *   AUDIT_HMAC_KEY=<64 hex chars>   (required; keep separate from master keys)
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { Buffer } from "node:buffer";
+import { canonicalJson, validateHex } from "@repo/crypto";
+import type { AuditEntry, AuditListOptions, AuditStore } from "./store/index.js";
+
+/** Fields supplied by callers; seq, timestamp and MACs are filled in by the log */
+export type AuditInput = Omit<AuditEntry, "seq" | "timestamp" | "prev_mac" | "mac">;
+
+/** Result of walking the audit chain */
+export type AuditVerification =
+  | { valid: true; entries: number; headSeq: number; headMac: string }
+  | { valid: false; entries: number; brokenAt: number; reason: string };
+
+/**
+ * Read the audit MAC key from the environment.
+ *
+ * @throws if AUDIT_HMAC_KEY is missing or not 32 bytes of hex
+ */
+export function readAuditKey(env: Record<string, string | undefined>): Buffer {
+  if (!env.AUDIT_HMAC_KEY) {
+    throw new Error("AUDIT_HMAC_KEY environment variable is required (64 hex chars)");
+  }
+  return validateHex(env.AUDIT_HMAC_KEY, "AUDIT_HMAC_KEY", 32);
+}
+
+/**
+ * Compute the MAC of an entry. The entry's own `mac` field is excluded;
+ * `prev_mac` is included, which is what links the chain.
+ */
+export function computeAuditMac(key: Buffer, entry: Omit<AuditEntry, "mac">): string {
+  return createHmac("sha256", key).update(canonicalJson(entry), "utf-8").digest("hex");
+}
+
+/** Constant-time comparison of two hex MACs */
+function macEquals(a: string, b: string): boolean {
+  const bufA = Buffer.from(a, "hex");
+  const bufB = Buffer.from(b, "hex");
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Walk an audit chain from its first entry and check every link.
+ *
+ * @param entries - the complete log in seq order (starting at seq 1)
+ * @param key     - the AUDIT_HMAC_KEY the log was written with
+ */
+export function verifyAuditChain(entries: readonly AuditEntry[], key: Buffer): AuditVerification {
+  let prevMac = "";
+
+  for (const [index, entry] of entries.entries()) {
+    const fail = (reason: string): AuditVerification => ({
+      valid: false,
+      entries: entries.length,
+      brokenAt: entry.seq,
+      reason,
+    });
+
+    if (entry.seq !== index + 1) {
+      return fail(`expected seq ${index + 1}, found ${entry.seq} (entries missing or reordered)`);
+    }
+
+    if (entry.prev_mac !== prevMac) {
+      return fail("prev_mac does not match the previous entry (chain broken)");
+    }
+
+    const { mac, ...unsigned } = entry;
+    if (!macEquals(mac, computeAuditMac(key, unsigned))) {
+      return fail("MAC mismatch (entry modified)");
+    }
+
+    prevMac = mac;
+  }
+
+  const head = entries[entries.length - 1];
+  return { valid: true, entries: entries.length, headSeq: head?.seq ?? 0, headMac: head?.mac ?? "" };
+}
+
+export class AuditLog {
+  /** Serializes this instance's appends, so entries land in call order */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly store: AuditStore,
+    private readonly key: Buffer
+  ) {}
+
+  /**
+   * Append an entry to the chain.
+   *
+   * @returns the stored entry, including its seq and MAC
+   */
+  record(input: AuditInput): Promise<AuditEntry> {
+    const appended = this.queue.then(() => this.append(input));
+    // Keep the queue alive if this append fails
+    this.queue = appended.catch(() => undefined);
+    return appended;
+  }
+
+  /** Entries in seq order */
+  list(options?: AuditListOptions): Promise<AuditEntry[]> {
+    return this.store.list(options);
+  }
+
+  /** Verify the whole stored chain */
+  async verify(): Promise<AuditVerification> {
+    return verifyAuditChain(await this.store.list(), this.key);
+  }
+
+  private append(input: AuditInput): Promise<AuditEntry> {
+    // The store reads the head and inserts the new entry in one step
+    return this.store.appendNext((last) => {
+      const unsigned: Omit<AuditEntry, "mac"> = {
+        ...input,
+        seq: (last?.seq ?? 0) + 1,
+        timestamp: new Date().toISOString(),
+        prev_mac: last?.mac ?? "",
+      };
+      return { ...unsigned, mac: computeAuditMac(this.key, unsigned) };
+    });
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * API Key Authentication & Per-Party Authorization
+ * ==================================================
+ *
+ * Every /tx and /keys request must present an API key, either as
+ *   Authorization: Bearer <key>
+ * or
+ *   X-API-Key: <key>
+ *
+ * Each key maps to a caller identity and the set of partyIds it may access.
+ * Keys are configured in the API_KEYS environment variable as a JSON array:
+ *
+ *   API_KEYS='[
+ *     { "id": "web",       "key": "<secret>",         "parties": ["*"], "admin": true },
+ *     { "id": "partner-a", "keySha256": "<hex hash>", "parties": ["party_a"] }
+ *   ]'
+ *
+ *   - id         caller name, used in logs
+ *   - key        the raw secret, or
+ *   - keySha256  SHA-256 of the secret (hex) so the secret itself is not in config
+ *   - parties    partyIds the caller may encrypt/read/decrypt; "*" means all
+ *   - admin      may call key management routes (rotation, status) and erase parties
+ *
+ * Presented keys are hashed and compared in constant time against every
+ * configured hash, so response timing does not reveal which key (or how
+ * much of a key) matched.
+ *
+ * Responses:
+ *   401 — missing or unknown API key
+ *   403 — valid key, but not allowed to access the requested partyId / route
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { FastifyRequest } from "fastify";
+import { ApiError } from "./errors.js";
+
+// ----- Types -----
+
+/** An authenticated API caller */
+export interface Caller {
+  /** Caller name from the API key configuration */
+  id: string;
+
+  /** PartyIds this caller may access, or "*" for all parties */
+  parties: "*" | ReadonlySet<string>;
+
+  /** Whether this caller may use key management routes */
+  admin: boolean;
+}
+
+/** A configured API key (secret stored as its SHA-256 hash) */
+export interface ApiKey {
+  id: string;
+  keySha256: Buffer;
+  parties: "*" | ReadonlySet<string>;
+  admin: boolean;
+}
+
+interface ApiKeyConfigEntry {
+  id?: unknown;
+  key?: unknown;
+  keySha256?: unknown;
+  parties?: unknown;
+  admin?: unknown;
+}
+
+declare module "fastify" {
+  interface FastifyRequest {
+    /** Set by the authentication hook on every protected route */
+    caller: Caller | null;
+  }
+}
+
+// ----- Configuration -----
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value, "utf-8").digest();
+}
+
+/**
+ * Parse API keys from the API_KEYS environment variable.
+ *
+ * @throws if API_KEYS is missing, not valid JSON, or any entry is malformed
+ */
+export function readApiKeys(env: Record<string, string | undefined>): ApiKey[] {
+  if (!env.API_KEYS) {
+    throw new Error("No API keys found. Set the API_KEYS environment variable.");
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(env.API_KEYS);
+  } catch {
+    throw new Error("API_KEYS must be a JSON array of API key entries");
+  }
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error("API_KEYS must be a non-empty JSON array of API key entries");
+  }
+
+  return entries.map((item: unknown, index) => {
+    const label = `API_KEYS[${index}]`;
+
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      throw new Error(`${label}: expected an object with id, key or keySha256 and parties`);
+    }
+    const entry = item as ApiKeyConfigEntry;
+
+    if (typeof entry.id !== "string" || entry.id.length === 0) {
+      throw new Error(`${label}: id is required`);
+    }
+
+    let keySha256: Buffer;
+    if (typeof entry.key === "string" && entry.key.length > 0) {
+      keySha256 = sha256(entry.key);
+    } else if (typeof entry.keySha256 === "string" && /^[0-9a-f]{64}$/i.test(entry.keySha256)) {
+      keySha256 = Buffer.from(entry.keySha256, "hex");
+    } else {
+      throw new Error(`${label}: either key or keySha256 (64 hex chars) is required`);
+    }
+
+    if (!Array.isArray(entry.parties) || !entry.parties.every((p) => typeof p === "string")) {
+      throw new Error(`${label}: parties must be an array of partyIds (or ["*"])`);
+    }
+
+    return {
+      id: entry.id,
+      keySha256,
+      parties: entry.parties.includes("*") ? "*" : new Set(entry.parties as string[]),
+      admin: entry.admin === true,
+    };
+  });
+}
+
+// ----- Authentication -----
+
+/** Extract the presented API key from the request headers */
+function presentedKey(request: FastifyRequest): string | undefined {
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+
+  const apiKey = request.headers["x-api-key"];
+  return typeof apiKey === "string" ? apiKey.trim() : undefined;
+}
+
+/**
+ * Resolve a presented API key to a caller.
+ * Compares against every configured key so timing is independent of which matched.
+ */
+export function authenticateKey(apiKeys: readonly ApiKey[], key: string): Caller | null {
+  const hash = sha256(key);
+  let match: ApiKey | null = null;
+
+  for (const apiKey of apiKeys) {
+    if (timingSafeEqual(hash, apiKey.keySha256) && !match) {
+      match = apiKey;
+    }
+  }
+
+  return match ? { id: match.id, parties: match.parties, admin: match.admin } : null;
+}
+
+/**
+ * Create an onRequest hook that authenticates the caller and sets request.caller.
+ * Rejects the request with UNAUTHORIZED (401) if the key is missing or unknown.
+ */
+export function createAuthHook(apiKeys: readonly ApiKey[]) {
+  return async function authenticate(request: FastifyRequest) {
+    const key = presentedKey(request);
+    const caller = key ? authenticateKey(apiKeys, key) : null;
+
+    if (!caller) {
+      throw new ApiError("UNAUTHORIZED", "A valid API key is required");
+    }
+
+    request.caller = caller;
+  };
+}
+
+/**
+ * Get the authenticated caller for a request on a protected route.
+ *
+ * @throws if called on a route without the authentication hook
+ */
+export function getCaller(request: FastifyRequest): Caller {
+  if (!request.caller) {
+    throw new Error("Route is missing the authentication hook");
+  }
+  return request.caller;
+}
+
+// ----- Authorization -----
+
+/** Whether the caller may access records of the given party */
+export function canAccessParty(caller: Caller, partyId: string): boolean {
+  return caller.parties === "*" || caller.parties.has(partyId);
+}
+
+/**
+ * Create an onRequest hook (run after authentication) that only admits admin callers.
+ * Rejects authenticated non-admin callers with FORBIDDEN (403).
+ */
+export function requireAdmin() {
+  return async function authorizeAdmin(request: FastifyRequest) {
+    if (!request.caller?.admin) {
+      throw new ApiError("FORBIDDEN", "This operation requires an admin API key");
+    }
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Blind index configuration for the API process.
+ *
+ * Environment variables:
+ *   BLIND_INDEX_KEY=<64 hex chars>       (optional; enables GET /tx/search)
+ *   BLIND_INDEX_FIELDS=merchant,amount   (payload fields to index; required with the key)
+ *
+ * The key must be separate from the master and audit keys. Changing it or
+ * the field list only affects records encrypted afterwards.
+ */
+
+import { type BlindIndexOptions, validateHex } from "@repo/crypto";
+
+/**
+ * Read the blind index configuration from the environment.
+ *
+ * @returns undefined if blind indexing is not configured
+ * @throws if only one of the variables is set, or the key is not 32 bytes of hex
+ */
+export function readBlindIndexConfig(env: Record<string, string | undefined>): BlindIndexOptions | undefined {
+  const fields = (env.BLIND_INDEX_FIELDS ?? "")
+    .split(",")
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+
+  if (!env.BLIND_INDEX_KEY) {
+    if (fields.length > 0) {
+      throw new Error("BLIND_INDEX_FIELDS requires BLIND_INDEX_KEY (64 hex chars)");
+    }
+    return undefined;
+  }
+
+  if (fields.length === 0) {
+    throw new Error("BLIND_INDEX_KEY requires BLIND_INDEX_FIELDS (comma-separated payload field names)");
+  }
+
+  return { key: validateHex(env.BLIND_INDEX_KEY, "BLIND_INDEX_KEY", 32), fields: [...new Set(fields)] };
+}
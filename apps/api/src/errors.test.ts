@@ -0,0 +1,157 @@
+/**
+ * Error Model Tests
+ * ==================
+ *
+ * Exercises toApiError and the error responses of the app through
+ * app.inject() with an in-memory store.
+ *
+ * Tests cover:
+ *   1. toApiError keeps ApiErrors and Fastify client errors, maps crypto
+ *      errors to 422 (an expired record to 410) with their code and a fixed
+ *      message, and hides anything else behind INTERNAL_ERROR
+ *   2. Stored records that cannot be decrypted, or are in a format that
+ *      cannot be read, are answered with 422 and their crypto error code,
+ *      never the library's message
+ *   3. Authentication, unknown routes and rate limiting use the same
+ *      { error, code } body
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import {
+  ContextMismatchError,
+  IntegrityFailureError,
+  RecordExpiredError,
+  UnknownKeyVersionError,
+} from "@repo/crypto";
+import { buildApp } from "./app.js";
+import { readApiKeys } from "./auth.js";
+import { ApiError, errorBody, toApiError } from "./errors.js";
+import { type Storage, createMemoryStorage } from "./store/index.js";
+
+// ----- Test setup -----
+
+const PARTY_A_KEY = "party-a-secret";
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([{ id: "client-a", key: PARTY_A_KEY, parties: ["party_a"] }]),
+});
+
+const headers = { authorization: `Bearer ${PARTY_A_KEY}` };
+
+// ----- Tests -----
+
+describe("toApiError", () => {
+  it("should map thrown errors to codes without leaking internal messages", () => {
+    const notFound = new ApiError("NOT_FOUND", "Record not found: tx-1");
+    assert.equal(toApiError(notFound), notFound);
+    assert.equal(notFound.status, 404);
+    assert.deepEqual(errorBody(notFound), { error: "Record not found: tx-1", code: "NOT_FOUND" });
+
+    const tampered = toApiError(new IntegrityFailureError("Decryption failed: authentication tag mismatch"));
+    assert.equal(tampered.status, 422);
+    assert.equal(tampered.code, "INTEGRITY_FAILURE");
+    assert.doesNotMatch(tampered.message, /tag/);
+
+    const missingKey = toApiError(new UnknownKeyVersionError(9, "Master key version 9 not found"));
+    assert.equal(missingKey.code, "UNKNOWN_KEY_VERSION");
+    assert.doesNotMatch(missingKey.message, /9/);
+
+    const expired = toApiError(new RecordExpiredError("2026-01-01T00:00:00.000Z", "Record tx-1 expired at ..."));
+    assert.deepEqual([expired.status, expired.code], [410, "EXPIRED"]);
+    const mismatch = toApiError(new ContextMismatchError("purpose", "Encryption context mismatch: purpose"));
+    assert.deepEqual([mismatch.status, mismatch.code], [422, "CONTEXT_MISMATCH"]);
+    assert.doesNotMatch(mismatch.message, /purpose/);
+
+    const tooLarge = toApiError(Object.assign(new Error("Request body is too large"), { statusCode: 413 }));
+    assert.deepEqual(errorBody(tooLarge), { error: "Request body is too large", code: "PAYLOAD_TOO_LARGE" });
+
+    const unexpected = toApiError(new Error("ENOENT: /var/lib/secrets"));
+    assert.deepEqual(errorBody(unexpected), { error: "Internal server error", code: "INTERNAL_ERROR" });
+    assert.equal(unexpected.status, 500);
+  });
+});
+
+describe("Error responses", () => {
+  let app: FastifyInstance;
+  let storage: Storage;
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    storage = createMemoryStorage();
+    app = await buildApp({ storage, apiKeys, auditKey: randomBytes(32), logger: false });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  /** Encrypt a record, then replace the stored copy with an edited one */
+  async function storeEdited(edit: (record: Record<string, unknown>) => void): Promise<string> {
+    const res = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers,
+      payload: { partyId: "party_a", payload: { amount: 10 } },
+    });
+    const record = res.json();
+    edit(record);
+    await storage.tx.put(record);
+    return record.id;
+  }
+
+  it("should answer undecryptable records with 422 and a crypto error code", async () => {
+    const tamperedId = await storeEdited((record) => {
+      const ct = record.payload_ct as string;
+      record.payload_ct = (ct[0] === "0" ? "1" : "0") + ct.slice(1);
+    });
+    const tampered = await app.inject({ method: "POST", url: `/tx/${tamperedId}/decrypt`, headers });
+    assert.equal(tampered.statusCode, 422);
+    assert.deepEqual(tampered.json(), {
+      error: "Stored encrypted data failed integrity verification",
+      code: "INTEGRITY_FAILURE",
+    });
+
+    const orphanedId = await storeEdited((record) => {
+      record.mk_version = 9;
+    });
+    const orphaned = await app.inject({ method: "POST", url: `/tx/${orphanedId}/decrypt`, headers });
+    assert.equal(orphaned.statusCode, 422);
+    assert.equal(orphaned.json().code, "UNKNOWN_KEY_VERSION");
+
+    const unreadableId = await storeEdited((record) => {
+      record.v = 99;
+    });
+    const unreadable = await app.inject({ method: "POST", url: `/tx/${unreadableId}/decrypt`, headers });
+    assert.equal(unreadable.statusCode, 422);
+    assert.deepEqual(unreadable.json(), {
+      error: "Stored record is in a format this service cannot read",
+      code: "UNSUPPORTED_FORMAT",
+    });
+
+    // The audit log keeps the underlying cause
+    const failures = (await storage.audit.list()).filter((entry) => entry.outcome === "failure");
+    assert.match(failures[0].detail ?? "", /authentication tag mismatch/);
+  });
+
+  it("should use the same error body for authentication, unknown routes and rate limiting", async () => {
+    const unauthenticated = await app.inject({ method: "GET", url: "/tx" });
+    assert.equal(unauthenticated.statusCode, 401);
+    assert.deepEqual(unauthenticated.json(), { error: "A valid API key is required", code: "UNAUTHORIZED" });
+
+    const unknown = await app.inject({ method: "GET", url: "/nope", headers });
+    assert.equal(unknown.statusCode, 404);
+    assert.deepEqual(unknown.json(), { error: "Route not found: GET /nope", code: "NOT_FOUND" });
+
+    // Three decrypts were used above; the limit is 5 per minute
+    let limited;
+    for (let i = 0; i < 3; i++) {
+      limited = await app.inject({ method: "POST", url: "/tx/missing/decrypt", headers });
+    }
+    assert.equal(limited?.statusCode, 429);
+    assert.equal(limited?.json().code, "RATE_LIMITED");
+    assert.match(limited?.json().error, /Rate limit exceeded/);
+  });
+});
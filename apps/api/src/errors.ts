@@ -0,0 +1,144 @@
+/**
+ * API Errors — one error model with stable codes
+ * ================================================
+ *
+ * Every error response has the same body:
+ *
+ *   { "error": "Record not found: 3f2c…", "code": "NOT_FOUND" }
+ *
+ * `error` is a human-readable message and may change between releases;
+ * `code` is stable and meant for programs. Payload schema failures add a
+ * `violations` list (see schemas.ts).
+ *
+ * Routes throw (and operations return) ApiErrors; the app's error handler
+ * turns anything thrown into a response with toApiError:
+ *
+ *   ApiError                        its own code and message
+ *   CryptoError (@repo/crypto)      422 with the error's code and a fixed
+ *                                   message — stored data that cannot be
+ *                                   decrypted is a data problem, and crypto
+ *                                   messages (key versions, field labels,
+ *                                   "authentication tag mismatch") stay in
+ *                                   the logs and the audit log. KEY_NOT_ACTIVE
+ *                                   is 503: no master key may encrypt, which
+ *                                   the key configuration has to fix; EXPIRED
+ *                                   is 410, as when a route finds it first
+ *   Fastify errors with a 4xx       that status, and the code for it (e.g.
+ *   status (validation, bodies)     schema validation → INVALID_REQUEST)
+ *   anything else                   500 INTERNAL_ERROR, "Internal server error"
+ */
+
+import { type CryptoErrorCode, isCryptoError } from "@repo/crypto";
+import type { SchemaViolation } from "./schemas.js";
+
+// ----- Error codes -----
+
+/** HTTP status of each error code */
+const STATUS_BY_CODE = {
+  INVALID_REQUEST: 400,
+  SCHEMA_VIOLATION: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  NOT_ACCEPTABLE: 406,
+  CONFLICT: 409,
+  EXPIRED: 410,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  IDEMPOTENCY_KEY_REUSED: 422,
+  INVALID_HEX: 422,
+  UNKNOWN_KEY_VERSION: 422,
+  INTEGRITY_FAILURE: 422,
+  CORRUPT_PAYLOAD: 422,
+  UNSUPPORTED_FORMAT: 422,
+  KEY_REVOKED: 422,
+  INVALID_SIGNATURE: 422,
+  CONTEXT_MISMATCH: 422,
+  RATE_LIMITED: 429,
+  LOCKED_OUT: 429,
+  INTERNAL_ERROR: 500,
+  NOT_IMPLEMENTED: 501,
+  KEY_NOT_ACTIVE: 503,
+} as const satisfies Record<string, number>;
+
+/** Stable, machine-readable error codes */
+export type ErrorCode = keyof typeof STATUS_BY_CODE;
+
+/** Every error code, for documentation */
+export const ERROR_CODES = Object.keys(STATUS_BY_CODE) as ErrorCode[];
+
+/** What clients are told about crypto failures, in place of the library's message */
+const CRYPTO_MESSAGES: Record<CryptoErrorCode, string> = {
+  INVALID_HEX: "Stored encrypted data is malformed",
+  UNKNOWN_KEY_VERSION: "Stored data is encrypted under a key that is not available",
+  INTEGRITY_FAILURE: "Stored encrypted data failed integrity verification",
+  CORRUPT_PAYLOAD: "Stored encrypted data is corrupt",
+  UNSUPPORTED_FORMAT: "Stored record is in a format this service cannot read",
+  KEY_REVOKED: "Stored data is encrypted under a key that has been revoked",
+  KEY_NOT_ACTIVE: "No master key is active for encryption",
+  INVALID_SIGNATURE: "Stored record's signature could not be verified",
+  EXPIRED: "Record has expired",
+  CONTEXT_MISMATCH: "Stored record's encryption context does not match",
+};
+
+/** The code Fastify's own client errors are reported with, by status */
+const CODE_BY_STATUS: Partial<Record<number, ErrorCode>> = {
+  400: "INVALID_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  406: "NOT_ACCEPTABLE",
+  409: "CONFLICT",
+  413: "PAYLOAD_TOO_LARGE",
+  415: "UNSUPPORTED_MEDIA_TYPE",
+  429: "RATE_LIMITED",
+};
+
+// ----- Errors -----
+
+/** An error response: an HTTP status (implied by the code), code and message */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly violations?: SchemaViolation[]
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+/** Response body of an error */
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  violations?: SchemaViolation[];
+}
+
+export function errorBody({ message, code, violations }: ApiError): ErrorBody {
+  return violations ? { error: message, code, violations } : { error: message, code };
+}
+
+/**
+ * Map anything thrown while handling a request to the error clients see.
+ * Only ApiErrors and Fastify's client errors keep their message.
+ */
+export function toApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) {
+    return err;
+  }
+
+  if (isCryptoError(err)) {
+    return new ApiError(err.code, CRYPTO_MESSAGES[err.code]);
+  }
+
+  const status = (err as { statusCode?: unknown } | null)?.statusCode;
+  if (err instanceof Error && typeof status === "number" && status >= 400 && status < 500) {
+    return new ApiError(CODE_BY_STATUS[status] ?? "INVALID_REQUEST", err.message);
+  }
+
+  return new ApiError("INTERNAL_ERROR", "Internal server error");
+}
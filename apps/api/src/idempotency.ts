@@ -0,0 +1,129 @@
+/**
+ * Idempotency Keys for POST /tx/encrypt
+ * =======================================
+ *
+ * A client that retries after a timeout cannot tell whether its first
+ * request created a record. Sending the same `Idempotency-Key` header on
+ * every attempt makes the retry safe:
+ *
+ *   - First request: the key is reserved in the store before anything is
+ *     encrypted; once the record is created the key is remembered together
+ *     with a hash of the request body and the new record id.
+ *   - Replay with the same body: the original record is returned (201,
+ *     `Idempotent-Replayed: true`) and nothing new is encrypted or stored.
+ *   - Replay with a different body: 422 — the key was reused for another
+ *     request.
+ *   - Replay while the first request is still running: 409. A reservation
+ *     left by a request that never finished stops blocking after a minute.
+ *
+ * Keys are scoped per caller and remembered for a retention window
+ * (default 24 hours); expired entries are purged as new requests arrive.
+ * Failed requests are not remembered, so they can be retried with the same key.
+ *
+ * Entries and reservations live in the configured storage backend next to
+ * the records (see store/types.ts IdempotencyStore). The store reserves a
+ * key atomically, so API instances sharing a backend cannot both accept
+ * the same key and create two records.
+ *
+ * Environment variables:
+ *   IDEMPOTENCY_TTL_SECONDS=<seconds>   (optional; default 86400)
+ */
+
+import { createHash } from "node:crypto";
+import { canonicalJson } from "@repo/crypto";
+import type { IdempotencyEntry, IdempotencyStore } from "./store/index.js";
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/** Age after which a reservation whose request never finished no longer blocks the key */
+const ABANDONED_AFTER_MS = 60 * 1000;
+
+/** What to do with a request that carries an Idempotency-Key */
+export type IdempotencyCheck =
+  | { kind: "new"; reservation: IdempotencyEntry }
+  | { kind: "replay"; txId: string }
+  | { kind: "mismatch" }
+  | { kind: "in_progress" };
+
+/**
+ * Read the retention window from the environment.
+ *
+ * @returns the window in milliseconds, or undefined for the default
+ * @throws if IDEMPOTENCY_TTL_SECONDS is not a positive integer
+ */
+export function readIdempotencyTtl(env: Record<string, string | undefined>): number | undefined {
+  if (!env.IDEMPOTENCY_TTL_SECONDS) {
+    return undefined;
+  }
+
+  const seconds = Number(env.IDEMPOTENCY_TTL_SECONDS);
+  if (!Number.isInteger(seconds) || seconds < 1) {
+    throw new Error("IDEMPOTENCY_TTL_SECONDS must be a positive integer");
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Validate an Idempotency-Key header value: 1-255 visible ASCII characters.
+ *
+ * @throws with a client-facing message if it is malformed
+ */
+export function validateIdempotencyKey(value: unknown): string {
+  if (typeof value !== "string" || !KEY_PATTERN.test(value)) {
+    throw new Error("Idempotency-Key must be 1-255 visible ASCII characters");
+  }
+  return value;
+}
+
+export class IdempotencyTracker {
+  /**
+   * @param store - where entries and reservations are kept
+   * @param ttlMs - retention window (default: 24 hours)
+   */
+  constructor(
+    private readonly store: IdempotencyStore,
+    private readonly ttlMs: number = DEFAULT_IDEMPOTENCY_TTL_MS
+  ) {}
+
+  /**
+   * Classify a request. A "new" result holds a reservation of the key in the
+   * store until complete() or release() is called with it.
+   */
+  async begin(actor: string, key: string, body: unknown): Promise<IdempotencyCheck> {
+    const requestHash = createHash("sha256").update(canonicalJson(body ?? null), "utf-8").digest("hex");
+    const now = Date.now();
+
+    // Expired entries no longer count, so a key can be used again
+    await this.store.deleteBefore(new Date(now - this.ttlMs).toISOString());
+
+    const reservation: IdempotencyEntry = { actor, key, requestHash, createdAt: new Date(now).toISOString() };
+    let existing = await this.store.add(reservation);
+
+    // A reservation that was never completed (e.g. its process crashed) is given up
+    if (existing && existing.txId === undefined && Date.parse(existing.createdAt) <= now - ABANDONED_AFTER_MS) {
+      await this.store.delete(existing);
+      existing = await this.store.add(reservation);
+    }
+
+    if (!existing) {
+      return { kind: "new", reservation };
+    }
+    if (existing.txId === undefined) {
+      return { kind: "in_progress" };
+    }
+    return existing.requestHash === requestHash ? { kind: "replay", txId: existing.txId } : { kind: "mismatch" };
+  }
+
+  /** Remember the record a "new" request created */
+  async complete(reservation: IdempotencyEntry, txId: string): Promise<void> {
+    await this.store.put({ ...reservation, txId, createdAt: new Date().toISOString() });
+  }
+
+  /** Give up a reservation without remembering anything (the request failed) */
+  async release(reservation: IdempotencyEntry): Promise<void> {
+    await this.store.delete(reservation);
+  }
+}
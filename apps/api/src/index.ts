@@ -1,38 +1,80 @@
 /**
  * Fastify API Server — Entry Point
  *
- * Starts a Fastify server with CORS, rate limiting, and transaction routes.
+ * Starts a Fastify server with CORS, rate limiting, and transaction routes
+ * backed by the configured storage backend.
  * Also exports a Vercel serverless handler for deployment.
  */
 
 import "dotenv/config";
-import Fastify from "fastify";
-import cors from "@fastify/cors";
-import rateLimit from "@fastify/rate-limit";
-import { txRoutes } from "./routes/tx.js";
+import { buildSigningKeyRegistry } from "@repo/crypto";
+import { buildApp } from "./app.js";
+import { readArchiveKey } from "./archive.js";
+import { readApiKeys } from "./auth.js";
+import { readAuditKey } from "./audit.js";
+import { readBlindIndexConfig } from "./blind-index.js";
+import { readIdempotencyTtl } from "./idempotency.js";
+import { readDecryptLimits } from "./limits.js";
+import { readRetentionPolicies, readSweepInterval } from "./retention.js";
+import { readPayloadSchemas } from "./schemas.js";
+import { openStorage, readStoreConfig } from "./store/index.js";
 
 // ----- Create Fastify instance -----
 
-const app = Fastify({
-  logger: true,
-});
+const env = process.env as Record<string, string | undefined>;
 
-// Enable CORS for the frontend
-await app.register(cors, {
-  origin: true, // Allow all origins in dev; configure for production
-  methods: ["GET", "POST"],
-});
+// Storage backend is selected by TX_STORE / TX_STORE_PATH
+const storage = openStorage(readStoreConfig(env));
 
-// Register rate limiting plugin (applied per-route via route config)
-await app.register(rateLimit, {
-  global: false, // Don't apply globally — only to routes that opt-in
-});
+// Callers and their permitted partyIds come from API_KEYS
+const apiKeys = readApiKeys(env);
+
+// Audit chain MAC key comes from AUDIT_HMAC_KEY
+const auditKey = readAuditKey(env);
 
-// Register transaction routes
-await app.register(txRoutes);
+// Optional searchable fields, from BLIND_INDEX_KEY / BLIND_INDEX_FIELDS
+const blindIndex = readBlindIndexConfig(env);
 
-// Health check endpoint
-app.get("/health", async () => ({ status: "ok" }));
+// Optional Ed25519 record signing keys, from SIGNING_KEY_V<n> / SIGNING_PUBLIC_KEY_V<n> / SIGNER_ID /
+// SIGNING_REQUIRED_FROM
+const signing = buildSigningKeyRegistry(env);
+
+// Optional record archive signing key, from ARCHIVE_SIGNING_KEY
+const archiveKey = readArchiveKey(env);
+
+// Optional upload size limit for encrypted attachments
+const attachmentMaxBytes = env.ATTACHMENT_MAX_BYTES ? Number(env.ATTACHMENT_MAX_BYTES) : undefined;
+if (attachmentMaxBytes !== undefined && (!Number.isInteger(attachmentMaxBytes) || attachmentMaxBytes < 1)) {
+  throw new Error("ATTACHMENT_MAX_BYTES must be a positive integer");
+}
+
+// Retention window for Idempotency-Key entries (IDEMPOTENCY_TTL_SECONDS)
+const idempotencyTtlMs = readIdempotencyTtl(env);
+
+// Record expiry: per-party retention (RETENTION_POLICIES) and the purge interval
+const retention = readRetentionPolicies(env);
+const sweepIntervalMs = readSweepInterval(env);
+
+// JSON Schemas per transaction type, from the files in PAYLOAD_SCHEMAS_DIR
+const payloadSchemas = readPayloadSchemas(env);
+
+// Per-party decrypt limit and failure lockouts (DECRYPT_PARTY_LIMIT, DECRYPT_LOCKOUT_*)
+const decryptLimits = readDecryptLimits(env);
+
+const app = await buildApp({
+  storage,
+  apiKeys,
+  auditKey,
+  blindIndex,
+  signing,
+  archiveKey,
+  attachmentMaxBytes,
+  idempotencyTtlMs,
+  retention,
+  sweepIntervalMs,
+  payloadSchemas,
+  decryptLimits,
+});
 
 // ----- Local development server -----
 
@@ -0,0 +1,47 @@
+/**
+ * Master key provider for the API process.
+ *
+ * Environment variables:
+ *   KEY_PROVIDER=env|mock-kms          (default: env)
+ *   MASTER_KEY_V1, MASTER_KEY_V2, ...  (env provider; or fallback to MASTER_KEY)
+ *   MASTER_KEY_KDF, MASTER_KEY_PASSPHRASE | MASTER_KEY_SEED, MASTER_KEY_V<n>_SHARES
+ *                                      (env provider; keys derived from a passphrase or
+ *                                      seed, or combined from Shamir shares — see
+ *                                      @repo/crypto keys.ts and `pnpm master-key`)
+ *   MASTER_KEY_CONFIG=<JSON>           (env provider; optional key states, validity
+ *                                      windows, fingerprints and active version —
+ *                                      see @repo/crypto keys.ts)
+ *   MOCK_KMS_PATH=<file path>          (mock-kms provider; default: ./data/mock-kms.json)
+ *
+ * The provider is rebuilt on each call so key changes (e.g. adding a
+ * rotation key to the environment) are picked up without a code change.
+ */
+
+import {
+  buildKeyRegistry,
+  registryKeyProvider,
+  MockKmsProvider,
+  type KeyProvider,
+} from "@repo/crypto";
+
+const DEFAULT_MOCK_KMS_PATH = "./data/mock-kms.json";
+
+/**
+ * Build the configured key provider.
+ *
+ * @throws if KEY_PROVIDER is unknown, the provider has no usable keys, or
+ *         MASTER_KEY_CONFIG is invalid or does not match the keys
+ */
+export function getKeyProvider(): KeyProvider {
+  const env = process.env as Record<string, string | undefined>;
+  const kind = (env.KEY_PROVIDER || "env").trim().toLowerCase();
+
+  switch (kind) {
+    case "env":
+      return registryKeyProvider(buildKeyRegistry(env));
+    case "mock-kms":
+      return new MockKmsProvider(env.MOCK_KMS_PATH || DEFAULT_MOCK_KMS_PATH);
+    default:
+      throw new Error(`Unknown KEY_PROVIDER "${kind}". Expected env or mock-kms.`);
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Decrypt Limit Tests
+ * ====================
+ *
+ * Exercises DecryptGuard directly against an in-memory LimitStore, and the
+ * limits of the decrypt routes through app.inject().
+ *
+ * Tests cover:
+ *   1. readDecryptLimits accepts positive integers and rejects anything else
+ *   2. Repeated failures lock a caller out of one record, for twice as long
+ *      on each further lockout (up to the maximum); a success clears the
+ *      failure count, and other callers and records are unaffected
+ *   3. The per-party limit counts every decryption, per caller and party,
+ *      and the caller limit every decryption of a caller, over all parties
+ *   4. Route limits are counted per caller, not per IP; every batch item
+ *      counts against the caller limit, as a single decrypt does
+ *   5. The default limits fit a full decrypt batch, and one party's records
+ *      run out before the caller limit
+ *   6. A record that keeps failing to decrypt answers 429 LOCKED_OUT
+ *   7. With the sqlite backend, route limits are shared by app instances
+ *      on one database file and survive a restart
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { randomBytes } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import { buildApp } from "./app.js";
+import { readApiKeys } from "./auth.js";
+import { DEFAULT_DECRYPT_LIMITS, DecryptGuard, readDecryptLimits } from "./limits.js";
+import { MAX_BATCH_DECRYPT_ITEMS } from "./routes/batch.js";
+import { type Storage, createMemoryStorage, openStorage } from "./store/index.js";
+
+// ----- Test setup -----
+
+const KEY_A = "client-a-secret";
+const KEY_B = "client-b-secret";
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([
+    { id: "client-a", key: KEY_A, parties: ["party_a", "party_b"] },
+    { id: "client-b", key: KEY_B, parties: ["party_a"] },
+  ]),
+});
+
+const asA = { authorization: `Bearer ${KEY_A}` };
+const asB = { authorization: `Bearer ${KEY_B}` };
+
+const MINUTE = 60 * 1000;
+
+async function encrypt(app: FastifyInstance, partyId = "party_a"): Promise<Record<string, unknown>> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/tx/encrypt",
+    headers: asA,
+    payload: { partyId, payload: { amount: 10 } },
+  });
+  assert.equal(res.statusCode, 201);
+  return res.json();
+}
+
+// ----- Tests -----
+
+describe("readDecryptLimits", () => {
+  it("should read positive integers and reject other values", () => {
+    assert.equal(readDecryptLimits({}), undefined);
+    assert.deepEqual(
+      readDecryptLimits({
+        DECRYPT_CALLER_LIMIT: "40",
+        DECRYPT_PARTY_LIMIT: "10",
+        DECRYPT_LOCKOUT_THRESHOLD: "5",
+        DECRYPT_LOCKOUT_SECONDS: "30",
+      }),
+      { callerLimit: 40, partyLimit: 10, lockoutThreshold: 5, lockoutMs: 30_000 }
+    );
+    assert.throws(() => readDecryptLimits({ DECRYPT_PARTY_LIMIT: "0" }), /DECRYPT_PARTY_LIMIT/);
+    assert.throws(() => readDecryptLimits({ DECRYPT_LOCKOUT_SECONDS: "1.5" }), /DECRYPT_LOCKOUT_SECONDS/);
+  });
+});
+
+describe("DecryptGuard", () => {
+  let guard: DecryptGuard;
+  const start = new Date("2024-01-01T00:00:00.000Z");
+  const at = (ms: number) => new Date(start.getTime() + ms);
+
+  beforeEach(() => {
+    guard = new DecryptGuard(createMemoryStorage().limits, {
+      callerLimit: 5,
+      partyLimit: 3,
+      lockoutMs: MINUTE,
+      maxLockoutMs: 3 * MINUTE,
+    });
+  });
+
+  it("should lock a caller out of a record after repeated failures, longer each time", async () => {
+    assert.equal(await guard.recordFailure("client-a", "tx-1", start), undefined);
+    assert.equal(await guard.recordFailure("client-a", "tx-1", start), undefined);
+    assert.equal(await guard.recordFailure("client-a", "tx-1", start), at(MINUTE).getTime());
+
+    const locked = await guard.admit("client-a", "party_a", "tx-1", at(1000));
+    assert.equal(locked?.code, "LOCKED_OUT");
+    assert.match(locked?.message ?? "", /retry in 59 seconds/);
+
+    // Only this caller and this record are locked
+    assert.equal(await guard.admit("client-b", "party_a", "tx-1", at(1000)), undefined);
+    assert.equal(await guard.admit("client-a", "party_a", "tx-2", at(1000)), undefined);
+
+    // The second lockout lasts twice as long, the third is capped
+    for (let i = 0; i < 3; i++) await guard.recordFailure("client-a", "tx-1", at(MINUTE));
+    assert.equal((await guard.admit("client-a", "party_b", "tx-1", at(3 * MINUTE - 1)))?.code, "LOCKED_OUT");
+    assert.equal(await guard.admit("client-a", "party_b", "tx-1", at(3 * MINUTE)), undefined);
+    for (let i = 0; i < 2; i++) await guard.recordFailure("client-a", "tx-1", at(3 * MINUTE));
+    assert.equal(await guard.recordFailure("client-a", "tx-1", at(3 * MINUTE)), at(6 * MINUTE).getTime());
+  });
+
+  it("should clear the failure count on success", async () => {
+    await guard.recordFailure("client-a", "tx-1", start);
+    await guard.recordFailure("client-a", "tx-1", start);
+    await guard.recordSuccess("client-a", "tx-1");
+    assert.equal(await guard.recordFailure("client-a", "tx-1", start), undefined);
+  });
+
+  it("should limit decryptions per caller and party", async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal(await guard.admit("client-a", "party_a", `tx-${i}`, start), undefined);
+    }
+    const limited = await guard.admit("client-a", "party_a", "tx-3", start);
+    assert.equal(limited?.code, "RATE_LIMITED");
+    assert.equal(limited?.status, 429);
+
+    assert.equal(await guard.admit("client-a", "party_b", "tx-3", start), undefined);
+    assert.equal(await guard.admit("client-b", "party_a", "tx-3", start), undefined);
+    assert.equal(await guard.admit("client-a", "party_a", "tx-3", at(MINUTE)), undefined);
+  });
+
+  it("should limit decryptions per caller over every party", async () => {
+    for (const partyId of ["party_a", "party_b", "party_c", "party_d", "party_e"]) {
+      assert.equal(await guard.admit("client-a", partyId, "tx-1", start), undefined);
+    }
+    const limited = await guard.admit("client-a", "party_f", "tx-1", start);
+    assert.equal(limited?.code, "RATE_LIMITED");
+    assert.match(limited?.message ?? "", /^Decrypt limit exceeded, retry in 60 seconds/);
+
+    assert.equal(await guard.admit("client-b", "party_f", "tx-1", start), undefined);
+    assert.equal(await guard.admit("client-a", "party_f", "tx-1", at(MINUTE)), undefined);
+  });
+});
+
+describe("Decrypt limits (app)", () => {
+  let app: FastifyInstance;
+  let storage: Storage;
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    storage = createMemoryStorage();
+    app = await buildApp({
+      storage,
+      apiKeys,
+      auditKey: randomBytes(32),
+      logger: false,
+      decryptLimits: { partyLimit: 6, callerLimit: 20 },
+    });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("should count route limits per caller and party limits across routes", async () => {
+    const { id } = await encrypt(app);
+    const decrypt = (headers: Record<string, string>) =>
+      app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers });
+
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await decrypt(asA)).statusCode, 200);
+    }
+    const limited = await decrypt(asA);
+    assert.equal(limited.statusCode, 429);
+    assert.equal(limited.json().code, "RATE_LIMITED");
+
+    // Another caller from the same IP has their own route limit
+    assert.equal((await decrypt(asB)).statusCode, 200);
+
+    // The batch route has its own route limit, but shares the party limit (6)
+    const batch = await app.inject({
+      method: "POST",
+      url: "/tx/batch/decrypt",
+      headers: asA,
+      payload: { items: [{ id }, { id }] },
+    });
+    assert.deepEqual(
+      batch.json().results.map((result: { status: number; code?: string }) => [result.status, result.code]),
+      [
+        [200, undefined],
+        [429, "RATE_LIMITED"],
+      ]
+    );
+  });
+
+  it("should lock a caller out of a record that keeps failing to decrypt", async () => {
+    const record = await encrypt(app, "party_b");
+    const ct = record.payload_ct as string;
+    await storage.tx.put({ ...record, payload_ct: (ct[0] === "0" ? "1" : "0") + ct.slice(1) } as never);
+
+    const items = Array.from({ length: 4 }, () => ({ id: record.id }));
+    const res = await app.inject({ method: "POST", url: "/tx/batch/decrypt", headers: asA, payload: { items } });
+    assert.deepEqual(
+      res.json().results.map((result: { code: string }) => result.code),
+      ["INTEGRITY_FAILURE", "INTEGRITY_FAILURE", "INTEGRITY_FAILURE", "LOCKED_OUT"]
+    );
+    assert.equal(res.json().results[3].status, 429);
+
+    const audit = await storage.audit.list();
+    assert.equal(audit.at(-1)?.detail, "caller locked out of record");
+  });
+
+  it("should count every batch item against the caller limit, as single decrypts are", async () => {
+    const limited = await buildApp({
+      storage: createMemoryStorage(),
+      apiKeys,
+      auditKey: randomBytes(32),
+      logger: false,
+      decryptLimits: { callerLimit: 5 },
+    });
+    const first = await encrypt(limited);
+    const second = await encrypt(limited, "party_b");
+
+    const single = await limited.inject({ method: "POST", url: `/tx/${first.id}/decrypt`, headers: asA });
+    assert.equal(single.statusCode, 200);
+
+    // A caller limit of 5 leaves room for 4 of the 6 items
+    const items = [first, second, first, second, first, second].map(({ id }) => ({ id }));
+    const batch = await limited.inject({ method: "POST", url: "/tx/batch/decrypt", headers: asA, payload: { items } });
+    assert.deepEqual(
+      batch.json().results.map((result: { status: number }) => result.status),
+      [200, 200, 200, 200, 429, 429]
+    );
+    const after = await limited.inject({ method: "POST", url: `/tx/${second.id}/decrypt`, headers: asA });
+    assert.equal(after.statusCode, 429);
+    await limited.close();
+  });
+
+  it("should fit a full batch at the default limits and stop at the party limit first", async () => {
+    const { callerLimit, partyLimit } = DEFAULT_DECRYPT_LIMITS;
+    assert.ok(partyLimit < callerLimit);
+    assert.ok(partyLimit >= MAX_BATCH_DECRYPT_ITEMS);
+
+    const defaults = await buildApp({
+      storage: createMemoryStorage(),
+      apiKeys,
+      auditKey: randomBytes(32),
+      logger: false,
+    });
+    const first = await encrypt(defaults);
+    const second = await encrypt(defaults, "party_b");
+    const batch = (id: unknown) =>
+      defaults.inject({
+        method: "POST",
+        url: "/tx/batch/decrypt",
+        headers: asA,
+        payload: { items: Array.from({ length: MAX_BATCH_DECRYPT_ITEMS }, () => ({ id })) },
+      });
+
+    const full = await batch(first.id);
+    assert.equal(full.json().succeeded, MAX_BATCH_DECRYPT_ITEMS);
+
+    // party_a is used up, while the caller may still read party_b
+    const over = await defaults.inject({ method: "POST", url: `/tx/${first.id}/decrypt`, headers: asA });
+    assert.equal(over.statusCode, 429);
+    assert.match(over.json().error, /Decrypt limit for party party_a exceeded/);
+    assert.equal((await batch(second.id)).json().succeeded, MAX_BATCH_DECRYPT_ITEMS);
+    await defaults.close();
+  });
+});
+
+describe("Decrypt limits (sqlite, several instances)", () => {
+  let dir: string;
+
+  before(() => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    dir = mkdtempSync(join(tmpdir(), "tx-limits-"));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should share route limits between instances and across restarts", async () => {
+    const path = join(dir, "tx.db");
+    const auditKey = randomBytes(32);
+    const start = () =>
+      buildApp({ storage: openStorage({ driver: "sqlite", path }), apiKeys, auditKey, logger: false });
+    const decrypt = (app: FastifyInstance) =>
+      app.inject({ method: "POST", url: "/tx/missing/decrypt", headers: asA });
+
+    const first = await start();
+    const second = await start();
+    for (let i = 0; i < 3; i++) assert.equal((await decrypt(first)).statusCode, 404);
+    for (let i = 0; i < 2; i++) assert.equal((await decrypt(second)).statusCode, 404);
+    assert.equal((await decrypt(second)).statusCode, 429);
+    await first.close();
+    await second.close();
+
+    const restarted = await start();
+    assert.equal((await decrypt(restarted)).statusCode, 429);
+    await restarted.close();
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Decrypt Limits — shared rate limits and lockouts
+ * ==================================================
+ *
+ * Decryption is the sensitive direction, so it is limited four ways:
+ *
+ *   1. Per route: POST /tx/:id/decrypt and POST /tx/batch/decrypt allow a
+ *      few requests per minute (see routes/tx.ts and routes/batch.ts).
+ *      @fastify/rate-limit enforces these, keyed by the authenticated
+ *      caller (by IP only before authentication).
+ *   2. Per caller: at most `callerLimit` records are decrypted by one caller
+ *      per minute, across both routes. Every batch item counts, so a batch
+ *      saves round-trips but not quota.
+ *   3. Per caller and party: at most `partyLimit` records of one party are
+ *      decrypted by one caller per minute, counting every batch item.
+ *
+ * The defaults keep the two in order: the party limit (20) is below the
+ * caller limit (60), so one party's records run out first while others can
+ * still be read, and both fit a full decrypt batch (MAX_BATCH_DECRYPT_ITEMS,
+ * 20 items). A caller limit below the batch size fails the rest of a full
+ * batch with 429, and a party limit at or above the caller limit never
+ * applies.
+ *
+ *   4. Per caller and record: after `lockoutThreshold` failed decryptions
+ *      of the same record (integrity failures, unknown key versions, ...),
+ *      the caller is locked out of that record for `lockoutMs`. Each
+ *      further lockout within a day doubles the duration, up to an hour.
+ *      A successful decryption clears the failure count.
+ *
+ * Every counter lives in the storage backend's LimitStore (see
+ * store/types.ts), not in process memory, so limits hold across restarts,
+ * serverless cold starts and several instances sharing one sqlite file.
+ * With TX_STORE=memory they are per process, as before.
+ *
+ * Environment variables:
+ *   DECRYPT_CALLER_LIMIT=<n>           (optional; default 60 decryptions per caller per minute)
+ *   DECRYPT_PARTY_LIMIT=<n>            (optional; default 20 decryptions per caller and party per minute)
+ *   DECRYPT_LOCKOUT_THRESHOLD=<n>      (optional; default 3 failures of one record)
+ *   DECRYPT_LOCKOUT_SECONDS=<seconds>  (optional; default 60, the first lockout's duration)
+ */
+
+import type { FastifyRequest } from "fastify";
+import type {
+  FastifyRateLimitOptions,
+  FastifyRateLimitStore,
+  FastifyRateLimitStoreCtor,
+} from "@fastify/rate-limit";
+import { ApiError } from "./errors.js";
+import type { LimitStore } from "./store/index.js";
+
+export interface DecryptLimits {
+  /** Decryptions per caller per window, over every party and both decrypt routes */
+  callerLimit: number;
+
+  /** Decryptions per caller and party per window */
+  partyLimit: number;
+
+  /** Window of the per-party limit, in ms */
+  windowMs: number;
+
+  /** Failed decryptions of one record that lock a caller out of it */
+  lockoutThreshold: number;
+
+  /** Duration of the first lockout, in ms; doubles with each further lockout */
+  lockoutMs: number;
+
+  /** Longest lockout, in ms */
+  maxLockoutMs: number;
+}
+
+export const DEFAULT_DECRYPT_LIMITS: DecryptLimits = {
+  callerLimit: 60,
+  partyLimit: 20,
+  windowMs: 60 * 1000,
+  lockoutThreshold: 3,
+  lockoutMs: 60 * 1000,
+  maxLockoutMs: 60 * 60 * 1000,
+};
+
+/** How long lockouts are remembered for escalation, in ms */
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read decrypt limits from the environment.
+ *
+ * @returns the limits that are set, or undefined if none are
+ * @throws if a value is not a positive integer
+ */
+export function readDecryptLimits(env: Record<string, string | undefined>): Partial<DecryptLimits> | undefined {
+  const limits: Partial<DecryptLimits> = {};
+
+  const callerLimit = positiveInteger(env, "DECRYPT_CALLER_LIMIT");
+  if (callerLimit !== undefined) limits.callerLimit = callerLimit;
+
+  const partyLimit = positiveInteger(env, "DECRYPT_PARTY_LIMIT");
+  if (partyLimit !== undefined) limits.partyLimit = partyLimit;
+
+  const threshold = positiveInteger(env, "DECRYPT_LOCKOUT_THRESHOLD");
+  if (threshold !== undefined) limits.lockoutThreshold = threshold;
+
+  const seconds = positiveInteger(env, "DECRYPT_LOCKOUT_SECONDS");
+  if (seconds !== undefined) limits.lockoutMs = seconds * 1000;
+
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+function positiveInteger(env: Record<string, string | undefined>, name: string): number | undefined {
+  if (!env[name]) {
+    return undefined;
+  }
+
+  const value = Number(env[name]);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+// ----- Per-party limits and lockouts -----
+
+export class DecryptGuard {
+  private readonly limits: DecryptLimits;
+
+  /**
+   * @param store - where counters are kept
+   * @param limits - overrides of DEFAULT_DECRYPT_LIMITS
+   */
+  constructor(
+    private readonly store: LimitStore,
+    limits: Partial<DecryptLimits> = {}
+  ) {
+    this.limits = { ...DEFAULT_DECRYPT_LIMITS, ...limits };
+  }
+
+  /**
+   * Admit one decryption of a record by a caller, counting it against the
+   * caller's per-party and overall limits.
+   *
+   * @returns undefined if it may go ahead, or the error to answer with:
+   *          LOCKED_OUT while the caller is locked out of the record,
+   *          RATE_LIMITED once the party or caller limit is used up
+   */
+  async admit(callerId: string, partyId: string, txId: string, now: Date = new Date()): Promise<ApiError | undefined> {
+    const lock = await this.store.get(lockKey(callerId, txId), now);
+    if (lock) {
+      return new ApiError(
+        "LOCKED_OUT",
+        `Too many failed decryptions of this record, retry in ${secondsUntil(lock.resetAt, now)} seconds`
+      );
+    }
+
+    const used = await this.store.hit(partyKey(callerId, partyId), this.limits.windowMs, now);
+    if (used.count > this.limits.partyLimit) {
+      return new ApiError(
+        "RATE_LIMITED",
+        `Decrypt limit for party ${partyId} exceeded, retry in ${secondsUntil(used.resetAt, now)} seconds`
+      );
+    }
+
+    const total = await this.store.hit(callerKey(callerId), this.limits.windowMs, now);
+    if (total.count > this.limits.callerLimit) {
+      return new ApiError(
+        "RATE_LIMITED",
+        `Decrypt limit exceeded, retry in ${secondsUntil(total.resetAt, now)} seconds`
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Count a failed decryption. Locks the caller out of the record once the
+   * threshold is reached.
+   *
+   * @returns the end of the lockout (epoch ms) if this failure started one
+   */
+  async recordFailure(callerId: string, txId: string, now: Date = new Date()): Promise<number | undefined> {
+    const failures = await this.store.hit(failureKey(callerId, txId), this.limits.maxLockoutMs, now);
+    if (failures.count < this.limits.lockoutThreshold) {
+      return undefined;
+    }
+
+    // The n-th lockout within a day lasts lockoutMs * 2^(n-1)
+    const level = await this.store.hit(levelKey(callerId, txId), LOCKOUT_MEMORY_MS, now);
+    const duration = Math.min(this.limits.lockoutMs * 2 ** (level.count - 1), this.limits.maxLockoutMs);
+
+    await this.store.delete(failureKey(callerId, txId));
+    await this.store.delete(lockKey(callerId, txId));
+    const lock = await this.store.hit(lockKey(callerId, txId), duration, now);
+    return lock.resetAt;
+  }
+
+  /** Clear the failure count after a successful decryption */
+  async recordSuccess(callerId: string, txId: string): Promise<void> {
+    await this.store.delete(failureKey(callerId, txId));
+  }
+}
+
+function callerKey(callerId: string): string {
+  return `decrypt:caller:${JSON.stringify(callerId)}`;
+}
+
+function partyKey(callerId: string, partyId: string): string {
+  return `decrypt:party:${JSON.stringify([callerId, partyId])}`;
+}
+
+function failureKey(callerId: string, txId: string): string {
+  return `decrypt:failures:${JSON.stringify([callerId, txId])}`;
+}
+
+function levelKey(callerId: string, txId: string): string {
+  return `decrypt:lockouts:${JSON.stringify([callerId, txId])}`;
+}
+
+function lockKey(callerId: string, txId: string): string {
+  return `decrypt:lock:${JSON.stringify([callerId, txId])}`;
+}
+
+function secondsUntil(resetAt: number, now: Date): number {
+  return Math.max(1, Math.ceil((resetAt - now.getTime()) / 1000));
+}
+
+// ----- @fastify/rate-limit integration -----
+
+/**
+ * Rate limit key of a request: the authenticated caller on protected
+ * routes (their auth hook runs before the rate limit hook), else the IP.
+ */
+export function rateLimitKey(request: FastifyRequest): string {
+  return request.caller ? `caller:${request.caller.id}` : `ip:${request.ip}`;
+}
+
+/**
+ * What @fastify/rate-limit actually passes to a store's constructor and
+ * child(): its merged settings, with timeWindow in ms. The published types
+ * declare the raw plugin and route options instead.
+ */
+interface RouteLimitParams {
+  timeWindow?: number;
+  routeInfo?: { method?: string | string[]; url?: string };
+}
+
+/**
+ * A store for @fastify/rate-limit (its `store` option) that keeps the
+ * route counters in a LimitStore, so they are shared like the others.
+ */
+export function rateLimitStore(limits: LimitStore): FastifyRateLimitStoreCtor {
+  return class SharedRateLimitStore implements FastifyRateLimitStore {
+    private readonly prefix: string;
+    private readonly timeWindow: number;
+
+    constructor(options: FastifyRateLimitOptions, prefix = "rate:global:") {
+      const { timeWindow } = options as RouteLimitParams;
+      this.prefix = prefix;
+      this.timeWindow = typeof timeWindow === "number" ? timeWindow : 60 * 1000;
+    }
+
+    incr(key: string, callback: (error: Error | null, result?: { current: number; ttl: number }) => void): void {
+      limits.hit(this.prefix + key, this.timeWindow).then(
+        ({ count, resetAt }) => callback(null, { current: count, ttl: Math.max(0, resetAt - Date.now()) }),
+        (err: Error) => callback(err)
+      );
+    }
+
+    /** A store for one route, counting separately from the other routes */
+    child(routeOptions: Parameters<FastifyRateLimitStore["child"]>[0]): SharedRateLimitStore {
+      const { method, url } = (routeOptions as RouteLimitParams).routeInfo ?? {};
+      return new SharedRateLimitStore(routeOptions, `rate:${[method].flat().join(",")} ${url ?? ""}:`);
+    }
+  };
+}
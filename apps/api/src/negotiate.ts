@@ -0,0 +1,61 @@
+/**
+ * Content negotiation for encrypted record representations.
+ *
+ * GET /tx/:id can return a record in three forms, chosen by the Accept header:
+ *
+ *   application/json                         — TxSecureRecord JSON (default)
+ *   application/vnd.txsecure.record          — compact binary (serializeRecord)
+ *   application/vnd.txsecure.record+base64url — compact binary as a base64url token
+ *
+ * application/octet-stream is accepted as an alias for the binary form.
+ */
+
+export type RecordFormat = "json" | "binary" | "base64url";
+
+export const RECORD_MEDIA_TYPES: Record<RecordFormat, string> = {
+  json: "application/json",
+  binary: "application/vnd.txsecure.record",
+  base64url: "application/vnd.txsecure.record+base64url",
+};
+
+const FORMAT_BY_MEDIA_TYPE: Record<string, RecordFormat> = {
+  "application/json": "json",
+  "application/*": "json",
+  "*/*": "json",
+  "application/vnd.txsecure.record": "binary",
+  "application/octet-stream": "binary",
+  "application/vnd.txsecure.record+base64url": "base64url",
+};
+
+/**
+ * Pick the record format for an Accept header.
+ * Media ranges are tried in order of their q-value (ties keep header order);
+ * ranges with q=0 are ignored.
+ *
+ * @returns the chosen format, or null if nothing acceptable is offered (406)
+ */
+export function negotiateRecordFormat(accept: string | undefined): RecordFormat | null {
+  if (!accept || accept.trim().length === 0) {
+    return "json";
+  }
+
+  const ranges = accept
+    .split(",")
+    .map((part, index) => {
+      const [type, ...params] = part.split(";").map((piece) => piece.trim().toLowerCase());
+      const qParam = params.find((param) => param.startsWith("q="));
+      const q = qParam ? Number(qParam.slice(2)) : 1;
+      return { type, q: Number.isFinite(q) ? q : 0, index };
+    })
+    .filter((range) => range.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { type } of ranges) {
+    const format = FORMAT_BY_MEDIA_TYPE[type];
+    if (format) {
+      return format;
+    }
+  }
+
+  return null;
+}
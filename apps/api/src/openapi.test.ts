@@ -0,0 +1,115 @@
+/**
+ * OpenAPI Tests
+ * ==============
+ *
+ * Exercises the OpenAPI document, the docs route and schema validation
+ * through app.inject() with an in-memory store.
+ *
+ * Tests cover:
+ *   1. GET /openapi.json serves every route, with the shared schemas as
+ *      components, without authentication
+ *   2. GET /docs serves the interactive documentation
+ *   3. Requests that fail their route schema are rejected with 400 and an
+ *      { error, code } body, before authorization-sensitive work
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import { buildApp } from "./app.js";
+import { readApiKeys } from "./auth.js";
+import { createMemoryStorage } from "./store/index.js";
+
+// ----- Test setup -----
+
+const PARTY_A_KEY = "party-a-secret";
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([{ id: "client-a", key: PARTY_A_KEY, parties: ["party_a"] }]),
+});
+
+const headers = { authorization: `Bearer ${PARTY_A_KEY}` };
+
+// ----- Tests -----
+
+describe("OpenAPI document", () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    app = await buildApp({
+      storage: createMemoryStorage(),
+      apiKeys,
+      auditKey: randomBytes(32),
+      logger: false,
+    });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("should serve the specification without authentication", async () => {
+    const res = await app.inject({ method: "GET", url: "/openapi.json" });
+    assert.equal(res.statusCode, 200);
+
+    const spec = res.json();
+    assert.match(spec.openapi, /^3\./);
+
+    for (const path of [
+      "/tx/encrypt",
+      "/tx",
+      "/tx/search",
+      "/tx/{id}",
+      "/tx/{id}/decrypt",
+      "/tx/batch/encrypt",
+      "/tx/batch/decrypt",
+      "/tx/{id}/attachments",
+      "/parties/{partyId}",
+      "/schemas",
+      "/keys/rotate",
+      "/audit/verify",
+      "/health",
+    ]) {
+      assert.ok(spec.paths[path], `missing path ${path}`);
+    }
+    assert.equal(spec.paths["/openapi.json"], undefined);
+
+    // Shared schemas become named components, referenced from the routes
+    assert.ok(spec.components.schemas.TxSecureRecord);
+    assert.ok(spec.components.schemas.ErrorResponse);
+    assert.deepEqual(spec.paths["/tx/encrypt"].post.responses["201"].content["application/json"].schema, {
+      $ref: "#/components/schemas/TxSecureRecord",
+    });
+    assert.ok(spec.components.securitySchemes.bearerAuth);
+    assert.deepEqual(spec.paths["/health"].get.security, []);
+  });
+
+  it("should serve the interactive documentation", async () => {
+    const res = await app.inject({ method: "GET", url: "/docs" });
+    assert.equal(res.statusCode, 200);
+    assert.match(res.headers["content-type"] as string, /text\/html/);
+  });
+
+  it("should reject requests that fail their schema with a 400 error body", async () => {
+    const wrongType = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers,
+      payload: { partyId: 42, payload: { amount: 1 } },
+    });
+    assert.equal(wrongType.statusCode, 400);
+    assert.equal(wrongType.json().code, "INVALID_REQUEST");
+    assert.match(wrongType.json().error, /partyId/);
+
+    const badFields = await app.inject({
+      method: "POST",
+      url: "/tx/some-id/decrypt",
+      headers,
+      payload: { fields: "amount" },
+    });
+    assert.equal(badFields.statusCode, 400);
+    assert.deepEqual(Object.keys(badFields.json()).sort(), ["code", "error"]);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * OpenAPI Specification
+ * ======================
+ *
+ * Every route declares JSON Schemas for its params, query string, body and
+ * responses (next to its TypeScript interfaces, under "Request/Response
+ * schemas"). Fastify validates requests against them, and @fastify/swagger
+ * assembles them into an OpenAPI 3 document:
+ *
+ *   GET /openapi.json — the specification
+ *   GET /docs         — interactive documentation (Swagger UI)
+ *
+ * Schemas shared between routes are registered here with app.addSchema and
+ * referenced by $id (e.g. { $ref: "TxSecureRecord#" }); they become the
+ * document's components. The typed client in packages/client is generated
+ * from this document (see scripts/export-openapi.ts).
+ *
+ * Routes keep their own checks — schemas describe the shape of a request,
+ * while rules such as party access, limits and cross-field constraints stay
+ * in the handlers, with their own error messages.
+ */
+
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import swagger from "@fastify/swagger";
+import swaggerUi from "@fastify/swagger-ui";
+import { supportedAlgorithms } from "@repo/crypto";
+import { ERROR_CODES } from "./errors.js";
+
+// ----- Shared schemas -----
+
+const SchemaViolation = {
+  $id: "SchemaViolation",
+  type: "object",
+  required: ["path", "message"],
+  properties: {
+    path: { type: "string", description: "JSON Pointer to the offending value" },
+    message: { type: "string" },
+  },
+} as const;
+
+const ErrorResponse = {
+  $id: "ErrorResponse",
+  type: "object",
+  required: ["error", "code"],
+  properties: {
+    error: { type: "string", description: "Human-readable message; may change" },
+    code: { type: "string", enum: ERROR_CODES, description: "Stable, machine-readable error code" },
+    violations: {
+      type: "array",
+      description: "Present when a payload does not match its schema, or an archive has invalid entries",
+      items: { $ref: "SchemaViolation#" },
+    },
+  },
+} as const;
+
+const PayloadAlgorithm = {
+  $id: "PayloadAlgorithm",
+  type: "string",
+  enum: supportedAlgorithms(),
+} as const;
+
+const PayloadSchemaRef = {
+  $id: "PayloadSchemaRef",
+  type: "object",
+  required: ["id", "version"],
+  properties: {
+    id: { type: "string" },
+    version: { type: "integer" },
+  },
+} as const;
+
+const hex = { type: "string", description: "Hex-encoded bytes" } as const;
+
+const TxSecureRecord = {
+  $id: "TxSecureRecord",
+  type: "object",
+  description: "An envelope-encrypted transaction record (see @repo/crypto types.ts)",
+  required: [
+    "id",
+    "partyId",
+    "createdAt",
+    "payload_nonce",
+    "payload_ct",
+    "payload_tag",
+    "dek_wrap_nonce",
+    "dek_wrapped",
+    "dek_wrap_tag",
+    "alg",
+    "mk_version",
+  ],
+  properties: {
+    v: { type: "integer" },
+    id: { type: "string" },
+    partyId: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+    expiresAt: { type: "string", format: "date-time" },
+    payload_nonce: hex,
+    payload_ct: hex,
+    payload_tag: hex,
+    clear_fields: { type: "object", additionalProperties: true },
+    enc_fields: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        required: ["nonce", "ct", "tag"],
+        properties: { nonce: hex, ct: hex, tag: hex },
+      },
+    },
+    dek_wrap_nonce: hex,
+    dek_wrapped: hex,
+    dek_wrap_tag: hex,
+    alg: { $ref: "PayloadAlgorithm#" },
+    context: { type: "object", additionalProperties: { type: "string" } },
+    payload_schema: { $ref: "PayloadSchemaRef#" },
+    blind_index: { type: "object", additionalProperties: hex },
+    mk_version: { type: "integer" },
+    key_scope: { type: "string", enum: ["party"] },
+    signature: {
+      type: "object",
+      description: "Ed25519 signature of the record's content (see GET /signing-keys)",
+      required: ["alg", "signer", "kid", "sig"],
+      properties: {
+        alg: { type: "string", enum: ["Ed25519"] },
+        signer: { type: "string" },
+        kid: { type: "string" },
+        sig: hex,
+      },
+    },
+  },
+  additionalProperties: true,
+} as const;
+
+const TxSummary = {
+  $id: "TxSummary",
+  type: "object",
+  required: ["id", "partyId", "createdAt", "alg", "mk_version"],
+  properties: {
+    id: { type: "string" },
+    partyId: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+    expiresAt: { type: "string", format: "date-time" },
+    alg: { $ref: "PayloadAlgorithm#" },
+    mk_version: { type: "integer" },
+  },
+} as const;
+
+const EncryptRequest = {
+  $id: "EncryptRequest",
+  type: "object",
+  required: ["partyId", "payload"],
+  properties: {
+    partyId: { type: "string" },
+    payload: { type: "object", additionalProperties: true },
+    alg: { $ref: "PayloadAlgorithm#" },
+    context: {
+      type: "object",
+      description: "Encryption context, stored on the record and bound as AAD",
+      additionalProperties: { type: "string" },
+    },
+    fields: {
+      type: "object",
+      description: "Field-level encryption: how each top-level payload field is stored (unlisted fields are encrypted)",
+      additionalProperties: { type: "string", enum: ["encrypt", "clear"] },
+    },
+    expiresAt: { type: "string", description: "ISO-8601 time the record expires" },
+    type: { type: "string", description: "Registered transaction type the payload must match (see GET /schemas)" },
+  },
+} as const;
+
+const SignatureVerification = {
+  $id: "SignatureVerification",
+  type: "object",
+  description: "Who signed a record whose signature was verified",
+  required: ["signer", "kid", "version"],
+  properties: {
+    signer: { type: "string" },
+    kid: { type: "string" },
+    version: { type: "integer", description: "Signing key version" },
+  },
+} as const;
+
+const DecryptResult = {
+  $id: "DecryptResult",
+  type: "object",
+  required: ["id", "partyId", "payload"],
+  properties: {
+    id: { type: "string" },
+    partyId: { type: "string" },
+    payload: { type: "object", additionalProperties: true },
+    signature: { $ref: "SignatureVerification#" },
+  },
+} as const;
+
+const AttachmentMeta = {
+  $id: "AttachmentMeta",
+  type: "object",
+  required: ["id", "txId", "partyId", "filename", "contentType", "size", "mk_version", "createdAt"],
+  properties: {
+    id: { type: "string" },
+    txId: { type: "string" },
+    partyId: { type: "string" },
+    filename: { type: "string" },
+    contentType: { type: "string" },
+    size: { type: "integer", description: "Plaintext size in bytes" },
+    mk_version: { type: "integer" },
+    key_scope: { type: "string", enum: ["party"] },
+    createdAt: { type: "string", format: "date-time" },
+  },
+} as const;
+
+const AuditEntry = {
+  $id: "AuditEntry",
+  type: "object",
+  required: ["seq", "timestamp", "event", "outcome", "actor", "prev_mac", "mac"],
+  properties: {
+    seq: { type: "integer" },
+    timestamp: { type: "string", format: "date-time" },
+    event: { type: "string", enum: ["encrypt", "decrypt", "rotate", "shred", "expire", "export", "import"] },
+    outcome: { type: "string", enum: ["success", "failure"] },
+    actor: { type: "string" },
+    txId: { type: "string" },
+    partyId: { type: "string" },
+    mk_version: { type: "integer" },
+    detail: { type: "string" },
+    prev_mac: { type: "string" },
+    mac: { type: "string" },
+  },
+} as const;
+
+const SchemaDefinition = {
+  $id: "SchemaDefinition",
+  type: "object",
+  required: ["type", "version", "schema"],
+  properties: {
+    type: { type: "string" },
+    version: { type: "integer" },
+    schema: { type: "object", additionalProperties: true, description: "JSON Schema for the payload" },
+  },
+} as const;
+
+const RecordArchive = {
+  $id: "RecordArchive",
+  type: "object",
+  description: "A signed archive of encrypted records and their party keys (see archive.ts)",
+  required: ["format", "version", "manifest", "records", "partyKeys", "signature"],
+  properties: {
+    format: { type: "string", enum: ["tx-secure-archive"] },
+    version: { type: "integer" },
+    manifest: {
+      type: "object",
+      required: ["createdAt", "records", "parties", "keyVersions", "keyFingerprints", "partyKeys"],
+      properties: {
+        createdAt: { type: "string", format: "date-time" },
+        records: { type: "integer" },
+        parties: { type: "array", items: { type: "string" } },
+        keyVersions: {
+          type: "object",
+          description: "Record counts per master key version",
+          additionalProperties: { type: "integer" },
+        },
+        keyFingerprints: {
+          type: "object",
+          description: "Fingerprints of those master key versions",
+          additionalProperties: { type: "string" },
+        },
+        partyKeys: { type: "integer" },
+      },
+      additionalProperties: true,
+    },
+    records: { type: "array", items: { $ref: "TxSecureRecord#" } },
+    partyKeys: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["partyId", "mk_version", "nonce", "ct", "tag", "createdAt"],
+        properties: {
+          partyId: { type: "string" },
+          mk_version: { type: "integer" },
+          nonce: hex,
+          ct: hex,
+          tag: hex,
+          createdAt: { type: "string", format: "date-time" },
+        },
+        additionalProperties: true,
+      },
+    },
+    signature: { type: "string", description: "HMAC-SHA256 of the rest of the archive (ARCHIVE_SIGNING_KEY), hex" },
+  },
+  additionalProperties: true,
+} as const;
+
+const SHARED_SCHEMAS = [
+  SchemaViolation,
+  ErrorResponse,
+  PayloadAlgorithm,
+  PayloadSchemaRef,
+  TxSecureRecord,
+  TxSummary,
+  EncryptRequest,
+  SignatureVerification,
+  DecryptResult,
+  AttachmentMeta,
+  AuditEntry,
+  SchemaDefinition,
+  RecordArchive,
+];
+
+/** Reference to a shared schema by $id */
+export function ref(id: (typeof SHARED_SCHEMAS)[number]["$id"]): { $ref: string } {
+  return { $ref: `${id}#` };
+}
+
+/** Response schemas for the given error statuses */
+export function errors(...statuses: number[]): Record<number, { $ref: string }> {
+  return Object.fromEntries(statuses.map((status) => [status, ref("ErrorResponse")]));
+}
+
+/**
+ * preValidation hook for routes whose body is optional: an absent body is
+ * validated (and handled) as an empty object.
+ */
+export async function optionalBody(request: FastifyRequest): Promise<void> {
+  request.body ??= {};
+}
+
+// ----- Registration -----
+
+/**
+ * Register the shared schemas, the OpenAPI generator and the docs routes.
+ * Must run before the route plugins so their schemas are collected.
+ */
+export async function registerOpenApi(app: FastifyInstance): Promise<void> {
+  for (const schema of SHARED_SCHEMAS) {
+    app.addSchema(schema);
+  }
+
+  await app.register(swagger, {
+    openapi: {
+      openapi: "3.1.0",
+      info: {
+        title: "Secure Transactions API",
+        description: "Envelope-encrypted transaction storage",
+        version: "1.0.0",
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: "http", scheme: "bearer", description: "API key from API_KEYS" },
+          apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+        },
+      },
+      security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    },
+    // Name components after the shared schemas' $id
+    refResolver: {
+      buildLocalReference: (json, _baseUri, _fragment, i) => (typeof json.$id === "string" ? json.$id : `def-${i}`),
+    },
+  });
+
+  await app.register(swaggerUi, { routePrefix: "/docs" });
+
+  app.get("/openapi.json", { schema: { hide: true } }, async () => app.swagger());
+}
@@ -0,0 +1,431 @@
+/**
+ * Transaction Operations — encrypt and decrypt one transaction
+ * ==============================================================
+ *
+ * The per-transaction logic behind POST /tx/encrypt, POST /tx/:id/decrypt
+ * and their batch counterparts (see routes/tx.ts and routes/batch.ts):
+ * input validation, party authorization, envelope encryption/decryption,
+ * payload schema validation, storage, structured security logging and
+ * audit entries. Decryption also goes through the per-party limit and the
+ * per-record lockout (see limits.ts). With signing keys, new records are
+ * signed and signed records are verified when they are decrypted; from
+ * SIGNING_REQUIRED_FROM on, records must be signed.
+ *
+ * Operations never throw for per-transaction problems; they return an
+ * OperationResult carrying the error code and HTTP status a single-item
+ * route would answer with (see errors.ts), so batch routes can report each
+ * item independently. Unexpected failures are reported like the error
+ * handler would: crypto errors by code, anything else as INTERNAL_ERROR —
+ * their own messages only reach the logs and the audit log.
+ */
+
+import type { FastifyRequest } from "fastify";
+import { randomUUID } from "node:crypto";
+import {
+  envelopeEncrypt,
+  envelopeDecrypt,
+  isExpired,
+  isSupportedAlgorithm,
+  supportedAlgorithms,
+  validateContext,
+  validateFieldSchema,
+  checkRecordSignature,
+  type BlindIndexOptions,
+  type DecryptResult,
+  type FieldSchema,
+  type PayloadAlgorithm,
+  type PayloadSchemaRef,
+  type SignatureVerification,
+  type SigningKeyRegistry,
+  type TxSecureRecord,
+} from "@repo/crypto";
+import { getKeyProvider } from "./keys.js";
+import { getCaller, canAccessParty } from "./auth.js";
+import type { AuditLog } from "./audit.js";
+import type { DecryptGuard } from "./limits.js";
+import { ApiError, type ErrorCode, toApiError } from "./errors.js";
+import { partyKeys, recordKeys } from "./party-keys.js";
+import { type RetentionPolicies, resolveExpiry } from "./retention.js";
+import { SchemaRegistry, type SchemaViolation } from "./schemas.js";
+import type { PartyKeyStore, TxStore } from "./store/index.js";
+
+/** Body of POST /tx/encrypt, and one item of a batch encrypt */
+export interface EncryptRequest {
+  partyId: string;
+  payload: Record<string, unknown>;
+  alg?: PayloadAlgorithm;
+  context?: Record<string, string>;
+  fields?: FieldSchema;
+  expiresAt?: string;
+  type?: string;
+}
+
+/** What the operations need from the route plugin */
+export interface OperationDeps {
+  store: TxStore;
+  audit: AuditLog;
+  partyKeys: PartyKeyStore;
+  blindIndex?: BlindIndexOptions;
+  retention?: RetentionPolicies;
+  schemas?: SchemaRegistry;
+
+  /** Per-party decrypt limits and failure lockouts; without it decryption is not limited here */
+  decryptGuard?: DecryptGuard;
+
+  /** Signing keys; without them records are neither signed nor verified */
+  signing?: SigningKeyRegistry;
+}
+
+/** A failed operation; payload schema failures also list their violations */
+export type OperationFailure = {
+  ok: false;
+  status: number;
+  code: ErrorCode;
+  error: string;
+  violations?: SchemaViolation[];
+};
+
+/** Outcome of one operation; `status` is the HTTP status a single-item route uses */
+export type OperationResult<T> = { ok: true; status: number; value: T } | OperationFailure;
+
+/** Used when no schemas are configured: every transaction type is unknown */
+const NO_SCHEMAS = new SchemaRegistry();
+
+function failed(code: ErrorCode, error: string, violations?: SchemaViolation[]): OperationFailure {
+  return fromError(new ApiError(code, error, violations));
+}
+
+/** A failed operation for anything thrown, as the client should see it */
+function fromError(err: unknown): OperationFailure {
+  const { status, code, message, violations } = toApiError(err);
+  return { ok: false, status, code, error: message, ...(violations ? { violations } : {}) };
+}
+
+/** Response body for a failed operation: the error and its code, plus any schema violations */
+export function failureBody({ error, code, violations }: OperationFailure) {
+  return violations ? { error, code, violations } : { error, code };
+}
+
+/**
+ * Check the shape of an encrypt request.
+ *
+ * @returns an error message, or undefined if the request is valid
+ */
+function invalidEncryptRequest(input: Partial<EncryptRequest> | undefined): string | undefined {
+  const { partyId, payload, alg, context, fields, type } = input ?? {};
+
+  if (!partyId || typeof partyId !== "string" || partyId.trim().length === 0) {
+    return "partyId is required and must be a non-empty string";
+  }
+
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return "payload is required and must be a JSON object";
+  }
+
+  if (type !== undefined && (typeof type !== "string" || type.length === 0)) {
+    return "type must be a non-empty string";
+  }
+
+  if (alg !== undefined && !isSupportedAlgorithm(alg)) {
+    return `alg must be one of: ${supportedAlgorithms().join(", ")}`;
+  }
+
+  try {
+    if (context !== undefined) validateContext(context);
+    if (fields !== undefined) validateFieldSchema(fields);
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid request";
+  }
+
+  return undefined;
+}
+
+/**
+ * Check the `fields` selection of a decrypt request.
+ *
+ * @returns an error message, or undefined if it is absent or valid
+ */
+export function invalidFieldSelection(fields: unknown): string | undefined {
+  if (
+    fields !== undefined &&
+    (!Array.isArray(fields) || fields.length === 0 || !fields.every((name) => typeof name === "string"))
+  ) {
+    return "fields must be a non-empty array of field names";
+  }
+  return undefined;
+}
+
+/**
+ * Validate, encrypt and store one transaction for the calling client.
+ *
+ * Wraps the DEK under the party's key for the latest master key version
+ * (creating that key on the party's first record under it). Binds the record
+ * metadata and context as AAD, and adds blind index tokens for the
+ * configured search fields. The requested expiresAt, or the party's
+ * retention policy, sets when the record expires (see retention.ts). With a
+ * `type`, the payload must match that type's schema (see schemas.ts). With
+ * signing keys the record is signed by the active one.
+ *
+ * @returns the stored record (201), or INVALID_REQUEST / SCHEMA_VIOLATION
+ *          (with violations) / FORBIDDEN / INTERNAL_ERROR
+ */
+export async function encryptTransaction(
+  deps: OperationDeps,
+  request: FastifyRequest,
+  input: Partial<EncryptRequest> | undefined
+): Promise<OperationResult<TxSecureRecord>> {
+  const invalid = invalidEncryptRequest(input);
+  if (invalid) {
+    return failed("INVALID_REQUEST", invalid);
+  }
+
+  const { payload, alg, context, fields, type } = input as EncryptRequest;
+  const partyId = (input as EncryptRequest).partyId.trim();
+
+  const caller = getCaller(request);
+  if (!canAccessParty(caller, partyId)) {
+    return failed("FORBIDDEN", `Not allowed to access party: ${partyId}`);
+  }
+
+  // Validate the payload against its type's schema before anything is encrypted
+  let payloadSchema: PayloadSchemaRef | undefined;
+  if (type !== undefined) {
+    const check = (deps.schemas ?? NO_SCHEMAS).validate(type, payload);
+    if (!check.ok) {
+      return check.violations.length > 0
+        ? failed("SCHEMA_VIOLATION", check.error, check.violations)
+        : failed("INVALID_REQUEST", check.error);
+    }
+    payloadSchema = check.ref;
+  }
+
+  let expiresAt: string | undefined;
+  try {
+    expiresAt = resolveExpiry(deps.retention, partyId, (input as EncryptRequest).expiresAt);
+  } catch (err) {
+    return failed("INVALID_REQUEST", err instanceof Error ? err.message : "Invalid expiresAt");
+  }
+
+  const id = randomUUID();
+  let record: TxSecureRecord;
+
+  try {
+    const master = getKeyProvider();
+    const keys = await partyKeys(deps.partyKeys, master, partyId, master.latestVersion());
+
+    // Perform envelope encryption: DEK encrypts payload, party key wraps DEK
+    // Record metadata (incl. partyId and context) is bound as AAD to both layers
+    record = envelopeEncrypt(keys, id, partyId, payload, {
+      alg,
+      context,
+      fields,
+      index: deps.blindIndex,
+      expiresAt,
+      payloadSchema,
+      sign: deps.signing,
+    });
+
+    // Persist the encrypted record
+    await deps.store.put(record);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Encryption failed";
+
+    // The client only sees the error code — keep the cause in the logs (never payload data)
+    request.log.error(
+      {
+        event: "encryption_failure",
+        txId: id,
+        caller: caller.id,
+        timestamp: new Date().toISOString(),
+        error: message,
+      },
+      "Encryption failed for transaction"
+    );
+
+    await deps.audit.record({
+      event: "encrypt",
+      outcome: "failure",
+      actor: caller.id,
+      txId: id,
+      partyId,
+      detail: message,
+    });
+
+    return fromError(err);
+  }
+
+  await deps.audit.record({
+    event: "encrypt",
+    outcome: "success",
+    actor: caller.id,
+    txId: id,
+    partyId: record.partyId,
+    mk_version: record.mk_version,
+  });
+
+  return { ok: true, status: 201, value: record };
+}
+
+/**
+ * Decrypt one stored transaction for the calling client.
+ *
+ * Unwraps the DEK using the party's key (or the Master Key, for records
+ * from before party keys), then decrypts the payload with the DEK. With
+ * `fields`, only those top-level payload fields are returned.
+ * With signing keys, a signed record's signature must verify too, and the
+ * result names its signer; an unsigned record decrypts without one unless
+ * it was created after the signing cutover (SIGNING_REQUIRED_FROM).
+ * Cross-party attempts and decryption failures are logged (never with
+ * payload data) and audited. Each decryption counts against the caller's
+ * limit for the party, and repeated failures lock the caller out of the
+ * record (see limits.ts).
+ *
+ * @returns id, partyId, payload and any verified signature (200), or
+ *          NOT_FOUND / FORBIDDEN / LOCKED_OUT / EXPIRED / RATE_LIMITED, a
+ *          crypto error code (422) for records that cannot be decrypted or
+ *          whose signature does not verify, or INTERNAL_ERROR
+ */
+export async function decryptTransaction(
+  deps: OperationDeps,
+  request: FastifyRequest,
+  id: string,
+  fields?: string[]
+): Promise<OperationResult<DecryptResult>> {
+  const record = await deps.store.get(id);
+  if (!record) {
+    return failed("NOT_FOUND", `Record not found: ${id}`);
+  }
+
+  const caller = getCaller(request);
+  if (!canAccessParty(caller, record.partyId)) {
+    // Cross-party decrypt attempts are security-relevant — log without payload data
+    request.log.warn(
+      {
+        event: "decryption_forbidden",
+        txId: id,
+        caller: caller.id,
+        ip: request.ip,
+        timestamp: new Date().toISOString(),
+      },
+      "Caller not allowed to decrypt transaction"
+    );
+
+    await deps.audit.record({
+      event: "decrypt",
+      outcome: "failure",
+      actor: caller.id,
+      txId: id,
+      partyId: record.partyId,
+      mk_version: record.mk_version,
+      detail: "caller not allowed to access party",
+    });
+
+    return failed("FORBIDDEN", `Not allowed to access record: ${id}`);
+  }
+
+  const refused = await deps.decryptGuard?.admit(caller.id, record.partyId, id);
+  if (refused) {
+    await deps.audit.record({
+      event: "decrypt",
+      outcome: "failure",
+      actor: caller.id,
+      txId: id,
+      partyId: record.partyId,
+      mk_version: record.mk_version,
+      detail: refused.code === "LOCKED_OUT" ? "caller locked out of record" : "decrypt limit exceeded",
+    });
+
+    return fromError(refused);
+  }
+
+  if (isExpired(record)) {
+    await deps.audit.record({
+      event: "decrypt",
+      outcome: "failure",
+      actor: caller.id,
+      txId: id,
+      partyId: record.partyId,
+      mk_version: record.mk_version,
+      detail: "record expired",
+    });
+
+    return failed("EXPIRED", `Record expired: ${id}`);
+  }
+
+  let payload: Record<string, unknown>;
+  let signature: SignatureVerification | undefined;
+
+  try {
+    const keys = await recordKeys(deps.partyKeys, getKeyProvider(), record);
+
+    // Envelope decryption: unwrap DEK, then decrypt payload with DEK
+    // AAD (record metadata) is verified during both decryption steps
+    payload = envelopeDecrypt(keys, record, { fields });
+
+    // A signature that does not verify fails the decryption like a bad tag,
+    // and so does a missing one on a record created since the cutover
+    if (deps.signing) {
+      signature = checkRecordSignature(record, deps.signing);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Decryption failed";
+
+    // Structured security logging — log context for audit, NEVER log payloads
+    request.log.warn(
+      {
+        event: "decryption_failure",
+        txId: id,
+        caller: caller.id,
+        ip: request.ip,
+        mk_version: record.mk_version,
+        timestamp: new Date().toISOString(),
+        error: message,
+      },
+      "Decryption failed for transaction"
+    );
+
+    await deps.audit.record({
+      event: "decrypt",
+      outcome: "failure",
+      actor: caller.id,
+      txId: id,
+      partyId: record.partyId,
+      mk_version: record.mk_version,
+      detail: message,
+    });
+
+    const lockedUntil = await deps.decryptGuard?.recordFailure(caller.id, id);
+    if (lockedUntil !== undefined) {
+      request.log.warn(
+        {
+          event: "decryption_lockout",
+          txId: id,
+          caller: caller.id,
+          ip: request.ip,
+          lockedUntil: new Date(lockedUntil).toISOString(),
+        },
+        "Caller locked out of transaction after repeated decryption failures"
+      );
+    }
+
+    return fromError(err);
+  }
+
+  await deps.decryptGuard?.recordSuccess(caller.id, id);
+
+  await deps.audit.record({
+    event: "decrypt",
+    outcome: "success",
+    actor: caller.id,
+    txId: id,
+    partyId: record.partyId,
+    mk_version: record.mk_version,
+    ...(fields ? { detail: `fields: ${fields.join(", ")}` } : {}),
+  });
+
+  return {
+    ok: true,
+    status: 200,
+    value: { id: record.id, partyId: record.partyId, payload, ...(signature ? { signature } : {}) },
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Query parsing and cursor pagination for GET /tx.
+ *
+ * Query parameters (all optional):
+ *   limit       — page size, 1-200 (default 50)
+ *   cursor      — nextCursor from the previous page
+ *   order       — "desc" (newest first, default) or "asc"
+ *   partyId, mk_version, alg        — exact-match filters
+ *   createdFrom, createdTo          — createdAt range; from inclusive, to exclusive
+ *
+ * Cursors are opaque to clients: the base64url-encoded sort position
+ * ({ createdAt, id }) of the last record on a page. A cursor only makes
+ * sense with the same filters and order it was issued for.
+ */
+
+import type { TxCursor, TxQuery } from "./store/index.js";
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+/** Raw GET /tx query string */
+export interface ListQuery {
+  limit?: string;
+  cursor?: string;
+  order?: string;
+  partyId?: string;
+  mk_version?: string;
+  alg?: string;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+export function encodeCursor(cursor: TxCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id]), "utf-8").toString("base64url");
+}
+
+/**
+ * @throws if the value is not a cursor issued by encodeCursor
+ */
+export function decodeCursor(value: string): TxCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error("cursor is invalid");
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 2 || !decoded.every((part) => typeof part === "string")) {
+    throw new Error("cursor is invalid");
+  }
+
+  return { createdAt: decoded[0], id: decoded[1] };
+}
+
+/** Normalize a timestamp parameter to the form records store */
+function parseTimestamp(value: string, label: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${label} must be an ISO-8601 timestamp`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Turn GET /tx query parameters into a store query (without party scoping).
+ *
+ * @throws with a client-facing message on any invalid parameter
+ */
+export function parseListQuery(params: ListQuery): Omit<TxQuery, "partyIds"> {
+  const limit = params.limit === undefined ? DEFAULT_PAGE_LIMIT : Number(params.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw new Error(`limit must be an integer from 1 to ${MAX_PAGE_LIMIT}`);
+  }
+
+  if (params.order !== undefined && params.order !== "asc" && params.order !== "desc") {
+    throw new Error('order must be "asc" or "desc"');
+  }
+
+  const mkVersion = params.mk_version === undefined ? undefined : Number(params.mk_version);
+  if (mkVersion !== undefined && (!Number.isInteger(mkVersion) || mkVersion < 1)) {
+    throw new Error("mk_version must be a positive integer");
+  }
+
+  return {
+    limit,
+    order: params.order,
+    mk_version: mkVersion,
+    alg: params.alg,
+    createdFrom: params.createdFrom === undefined ? undefined : parseTimestamp(params.createdFrom, "createdFrom"),
+    createdTo: params.createdTo === undefined ? undefined : parseTimestamp(params.createdTo, "createdTo"),
+    after: params.cursor === undefined ? undefined : decodeCursor(params.cursor),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Per-party key resolution for the API.
+ *
+ * New records are wrapped under their party's key (see @repo/crypto
+ * party-keys.ts), which is created on first use for each master key
+ * version and kept in the PartyKeyStore. Records written before party keys
+ * existed are still wrapped directly under the master key and keep working.
+ *
+ * Destroying a party's keys (DELETE /parties/:partyId) crypto-shreds every
+ * record wrapped under them.
+ */
+
+import {
+  createPartyKey,
+  partyKeyProvider,
+  type KeyProvider,
+  type TxSecureRecord,
+} from "@repo/crypto";
+import type { PartyKeyStore } from "./store/index.js";
+
+/**
+ * Key provider for a party's records.
+ *
+ * @param store   - where party keys are kept
+ * @param master  - master key provider the party keys are wrapped under
+ * @param partyId - owning party
+ * @param version - master key version the party must have a key for; it is
+ *                  created and stored if missing (omit to only read keys)
+ */
+export async function partyKeys(
+  store: PartyKeyStore,
+  master: KeyProvider,
+  partyId: string,
+  version?: number
+): Promise<KeyProvider> {
+  const stored = await store.list(partyId);
+
+  if (version !== undefined && !stored.some((key) => key.mk_version === version)) {
+    // add() resolves whichever key won if another request created one meanwhile
+    stored.push(await store.add(createPartyKey(master, partyId, version)));
+  }
+
+  return partyKeyProvider(master, partyId, stored);
+}
+
+/**
+ * Key provider able to unwrap a stored record: its party's keys for
+ * party-scoped records, the master key provider otherwise.
+ */
+export async function recordKeys(
+  store: PartyKeyStore,
+  master: KeyProvider,
+  record: TxSecureRecord
+): Promise<KeyProvider> {
+  return record.key_scope === "party" ? partyKeys(store, master, record.partyId) : master;
+}
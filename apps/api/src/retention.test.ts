@@ -0,0 +1,92 @@
+/**
+ * Retention Tests
+ * ================
+ *
+ * Tests cover:
+ *   1. Retention policies are read from the environment and validated
+ *   2. expiresAt defaults to the party's policy and may not exceed it
+ *   3. The sweeper deletes expired records and their attachments, and audits each
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { Readable } from "node:stream";
+import { buildKeyRegistry, envelopeEncrypt } from "@repo/crypto";
+import { AuditLog, verifyAuditChain } from "./audit.js";
+import { readRetentionPolicies, resolveExpiry, sweepExpired } from "./retention.js";
+import { createMemoryStorage } from "./store/index.js";
+
+// ----- Test data -----
+
+const registry = buildKeyRegistry({ MASTER_KEY_V1: randomBytes(32).toString("hex") });
+const NOW = new Date("2024-01-01T00:00:00.000Z");
+const POLICIES = { party_a: 30, "*": 365 };
+
+// ----- Tests -----
+
+describe("Retention", () => {
+  it("should read and validate retention policies", () => {
+    assert.equal(readRetentionPolicies({}), undefined);
+    assert.deepEqual(readRetentionPolicies({ RETENTION_POLICIES: JSON.stringify(POLICIES) }), POLICIES);
+
+    assert.throws(() => readRetentionPolicies({ RETENTION_POLICIES: "{" }), /must be valid JSON/);
+    assert.throws(() => readRetentionPolicies({ RETENTION_POLICIES: "[30]" }), /must be an object/);
+    assert.throws(
+      () => readRetentionPolicies({ RETENTION_POLICIES: '{"party_a":0}' }),
+      /RETENTION_POLICIES.party_a must be a positive integer/
+    );
+  });
+
+  it("should resolve expiresAt from the request and the party's policy", () => {
+    assert.equal(resolveExpiry(undefined, "party_a", undefined, NOW), undefined);
+    assert.equal(resolveExpiry(POLICIES, "party_a", undefined, NOW), "2024-01-31T00:00:00.000Z");
+    assert.equal(resolveExpiry(POLICIES, "party_b", undefined, NOW), "2024-12-31T00:00:00.000Z");
+
+    assert.equal(resolveExpiry(POLICIES, "party_a", "2024-01-02T00:00:00Z", NOW), "2024-01-02T00:00:00.000Z");
+    assert.equal(resolveExpiry(undefined, "party_a", "2030-01-01T00:00:00Z", NOW), "2030-01-01T00:00:00.000Z");
+
+    assert.throws(() => resolveExpiry(POLICIES, "party_a", "2024-03-01T00:00:00Z", NOW), /at most 30 days ahead/);
+    assert.throws(() => resolveExpiry(POLICIES, "party_a", "2023-12-31T00:00:00Z", NOW), /must be in the future/);
+    assert.throws(() => resolveExpiry(POLICIES, "party_a", 1704067200000, NOW), /must be an ISO-8601 timestamp/);
+  });
+
+  it("should purge expired records and their attachments", async () => {
+    const storage = createMemoryStorage();
+    const auditKey = randomBytes(32);
+    const audit = new AuditLog(storage.audit, auditKey);
+    const soon = new Date(Date.now() + 60_000);
+
+    const expiring = envelopeEncrypt(registry, "tx-expiring", "party_a", { amount: 1 }, { expiresAt: soon });
+    await storage.tx.put(expiring);
+    await storage.tx.put(envelopeEncrypt(registry, "tx-kept", "party_a", { amount: 2 }));
+    await storage.attachments.writeContent("att-1", Readable.from([Buffer.from("ciphertext")]));
+    await storage.attachments.put({
+      id: "att-1",
+      txId: "tx-expiring",
+      partyId: "party_a",
+      filename: "receipt.pdf",
+      contentType: "application/pdf",
+      size: 10,
+      mk_version: 1,
+      createdAt: expiring.createdAt,
+    });
+
+    // Nothing has expired yet
+    assert.deepEqual((await sweepExpired({ store: storage.tx, attachments: storage.attachments, audit })).purged, []);
+
+    const later = new Date(soon.getTime() + 1);
+    const report = await sweepExpired({ store: storage.tx, attachments: storage.attachments, audit }, later);
+    assert.deepEqual(report, { purged: ["tx-expiring"], attachments: ["att-1"] });
+
+    assert.equal(await storage.tx.get("tx-expiring"), undefined);
+    assert.ok(await storage.tx.get("tx-kept"));
+    assert.equal(await storage.attachments.get("att-1"), undefined);
+
+    const entries = await storage.audit.list();
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].event, "expire");
+    assert.equal(entries[0].txId, "tx-expiring");
+    assert.equal(verifyAuditChain(entries, auditKey).valid, true);
+  });
+});
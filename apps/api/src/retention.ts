@@ -0,0 +1,209 @@
+/**
+ * Record Expiry and Retention
+ * ============================
+ *
+ * A record can carry an `expiresAt` time, bound into its AAD (see
+ * @repo/crypto envelope.ts). From that time on it is refused by every route
+ * (410 Gone) and envelopeDecrypt, and the sweeper deletes it — with its
+ * attachments — writing an "expire" audit entry per record.
+ *
+ * Where expiresAt comes from:
+ *   - The encrypt request's optional `expiresAt` (ISO-8601, in the future).
+ *   - Otherwise the party's retention policy: createdAt + N days.
+ *   - A requested expiresAt may not be later than the policy allows.
+ *   - With neither, the record does not expire.
+ *
+ * Policies only apply to records encrypted while they are configured;
+ * existing records keep the expiresAt they were written with.
+ *
+ * Environment variables:
+ *   RETENTION_POLICIES={"party_a":30,"*":365}   (optional; days per partyId, "*" for all other parties)
+ *   RETENTION_SWEEP_INTERVAL_SECONDS=<seconds>  (optional; default 3600, 0 disables the sweeper)
+ */
+
+import type { FastifyBaseLogger } from "fastify";
+import type { AuditLog } from "./audit.js";
+import type { AttachmentStore, LimitStore, TxStore } from "./store/index.js";
+
+/** Days to keep records, per partyId; "*" applies to parties without their own entry */
+export type RetentionPolicies = Readonly<Record<string, number>>;
+
+export const DEFAULT_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Records purged per store query while sweeping */
+const SWEEP_BATCH = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read retention policies from the environment.
+ *
+ * @returns the policies, or undefined if RETENTION_POLICIES is not set
+ * @throws if it is not a JSON object of positive integer day counts
+ */
+export function readRetentionPolicies(env: Record<string, string | undefined>): RetentionPolicies | undefined {
+  if (!env.RETENTION_POLICIES) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(env.RETENTION_POLICIES);
+  } catch {
+    throw new Error("RETENTION_POLICIES must be valid JSON");
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error('RETENTION_POLICIES must be an object of partyId (or "*") to days');
+  }
+
+  for (const [partyId, days] of Object.entries(parsed)) {
+    if (!Number.isInteger(days) || (days as number) < 1) {
+      throw new Error(`RETENTION_POLICIES.${partyId} must be a positive integer number of days`);
+    }
+  }
+
+  return parsed as RetentionPolicies;
+}
+
+/**
+ * Read the sweep interval from the environment.
+ *
+ * @returns the interval in milliseconds (0 = sweeper disabled)
+ * @throws if RETENTION_SWEEP_INTERVAL_SECONDS is not a non-negative integer
+ */
+export function readSweepInterval(env: Record<string, string | undefined>): number {
+  if (env.RETENTION_SWEEP_INTERVAL_SECONDS === undefined || env.RETENTION_SWEEP_INTERVAL_SECONDS === "") {
+    return DEFAULT_SWEEP_INTERVAL_MS;
+  }
+
+  const seconds = Number(env.RETENTION_SWEEP_INTERVAL_SECONDS);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    throw new Error("RETENTION_SWEEP_INTERVAL_SECONDS must be a non-negative integer");
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Work out the expiresAt of a new record.
+ *
+ * @param policies  - configured retention policies, if any
+ * @param partyId   - owning party of the record
+ * @param requested - expiresAt from the encrypt request, if any
+ * @param now       - creation time to count retention from
+ * @returns the ISO-8601 expiry, or undefined if the record does not expire
+ * @throws with a client-facing message if `requested` is malformed, not in
+ *         the future, or later than the party's policy allows
+ */
+export function resolveExpiry(
+  policies: RetentionPolicies | undefined,
+  partyId: string,
+  requested: unknown,
+  now: Date = new Date()
+): string | undefined {
+  const days = policies?.[partyId] ?? policies?.["*"];
+  const limit = days !== undefined ? new Date(now.getTime() + days * DAY_MS) : undefined;
+
+  if (requested === undefined) {
+    return limit?.toISOString();
+  }
+
+  const expiresAt = typeof requested === "string" ? new Date(requested) : new Date(Number.NaN);
+  if (Number.isNaN(expiresAt.getTime())) {
+    throw new Error("expiresAt must be an ISO-8601 timestamp");
+  }
+  if (expiresAt.getTime() <= now.getTime()) {
+    throw new Error("expiresAt must be in the future");
+  }
+  if (limit && expiresAt > limit) {
+    throw new Error(`expiresAt may be at most ${days} days ahead for party ${partyId}`);
+  }
+
+  return expiresAt.toISOString();
+}
+
+// ----- Sweeper -----
+
+export interface SweepDeps {
+  store: TxStore;
+  attachments: AttachmentStore;
+  audit: AuditLog;
+
+  /** Rate limit and lockout counters, whose ended windows are dropped on each sweep */
+  limits?: LimitStore;
+}
+
+export interface SweepReport {
+  /** Expired records deleted */
+  purged: string[];
+
+  /** Attachments of those records, deleted with them */
+  attachments: string[];
+}
+
+/**
+ * Delete every record that has expired by `now`, with its attachments, and
+ * audit each deletion.
+ */
+export async function sweepExpired(deps: SweepDeps, now: Date = new Date()): Promise<SweepReport> {
+  const report: SweepReport = { purged: [], attachments: [] };
+
+  for (;;) {
+    const expired = await deps.store.query({ expiredBy: now.toISOString(), order: "asc", limit: SWEEP_BATCH });
+
+    for (const record of expired) {
+      for (const meta of await deps.attachments.listByTx(record.id)) {
+        await deps.attachments.delete(meta.id);
+        report.attachments.push(meta.id);
+      }
+
+      await deps.store.delete(record.id);
+      report.purged.push(record.id);
+
+      await deps.audit.record({
+        event: "expire",
+        outcome: "success",
+        actor: "system",
+        txId: record.id,
+        partyId: record.partyId,
+        mk_version: record.mk_version,
+        detail: `expired at ${record.expiresAt}`,
+      });
+    }
+
+    if (expired.length < SWEEP_BATCH) {
+      await deps.limits?.deleteExpired(now);
+      return report;
+    }
+  }
+}
+
+/**
+ * Run sweepExpired every `intervalMs` until the returned stop function is
+ * called. Runs never overlap; the timer does not keep the process alive.
+ */
+export function startSweeper(deps: SweepDeps, intervalMs: number, log: FastifyBaseLogger): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const report = await sweepExpired(deps);
+      if (report.purged.length > 0) {
+        log.info(
+          { event: "retention_sweep", purged: report.purged.length, attachments: report.attachments.length },
+          "Expired records purged"
+        );
+      }
+    } catch (err) {
+      log.error({ event: "retention_sweep_failed", err }, "Retention sweep failed");
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
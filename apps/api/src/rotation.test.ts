@@ -0,0 +1,164 @@
+/**
+ * Master Key Rotation Tests
+ * ==========================
+ *
+ * Tests cover:
+ *   1. All records are re-wrapped to the latest version and still decrypt
+ *   2. A batch limit leaves the rest pending and reports what remains
+ *   3. Tampered records are reported as failures and left unchanged
+ *   4. Limited runs continue after a failed record through the returned cursor
+ *   5. An unknown target version is rejected
+ *   6. Party-scoped records move to the party's key for the target version
+ *   7. No party key is created for records of a party erased since
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import {
+  buildKeyRegistry,
+  createPartyKey,
+  envelopeEncrypt,
+  envelopeDecrypt,
+  partyKeyProvider,
+} from "@repo/crypto";
+import { MemoryPartyKeyStore, MemoryTxStore } from "./store/index.js";
+import { rotateRecords } from "./rotation.js";
+
+// ----- Test data -----
+
+const KEY_V1 = randomBytes(32).toString("hex");
+const KEY_V2 = randomBytes(32).toString("hex");
+const registryV1 = buildKeyRegistry({ MASTER_KEY_V1: KEY_V1 });
+const registryV1V2 = buildKeyRegistry({ MASTER_KEY_V1: KEY_V1, MASTER_KEY_V2: KEY_V2 });
+const registryV2Only = buildKeyRegistry({ MASTER_KEY_V2: KEY_V2 });
+const PAYLOAD = { amount: 250, currency: "AED" };
+
+/** Store holding `count` records encrypted under V1 */
+async function seededStore(count: number): Promise<MemoryTxStore> {
+  const store = new MemoryTxStore();
+  for (let i = 0; i < count; i++) {
+    await store.put(envelopeEncrypt(registryV1, `tx-${i}`, "party-1", PAYLOAD));
+  }
+  return store;
+}
+
+// ----- Tests -----
+
+describe("Master Key Rotation", () => {
+  it("should re-wrap every record to the latest version", async () => {
+    const store = await seededStore(3);
+    const progress: number[] = [];
+
+    const report = await rotateRecords(store, registryV1V2, {
+      onProgress: ({ processed }) => progress.push(processed),
+    });
+
+    assert.equal(report.targetVersion, 2);
+    assert.equal(report.rewrapped, 3);
+    assert.equal(report.remaining, 0);
+    assert.deepEqual(report.versions, { 2: 3 });
+    assert.deepEqual(progress, [1, 2, 3]);
+
+    // Records decrypt without the retired V1 key
+    for (const record of await store.list()) {
+      assert.deepEqual(envelopeDecrypt(registryV2Only, record), PAYLOAD);
+    }
+  });
+
+  it("should process at most `limit` records per run", async () => {
+    const store = await seededStore(5);
+
+    const first = await rotateRecords(store, registryV1V2, { limit: 2 });
+    assert.equal(first.rewrapped, 2);
+    assert.equal(first.remaining, 3);
+    assert.deepEqual(first.versions, { 1: 3, 2: 2 });
+
+    const second = await rotateRecords(store, registryV1V2);
+    assert.equal(second.rewrapped, 3);
+    assert.equal(second.remaining, 0);
+  });
+
+  it("should report tampered records as failures and leave them unchanged", async () => {
+    const store = await seededStore(2);
+    const victim = (await store.get("tx-0"))!;
+    await store.put({ ...victim, partyId: "attacker-party" });
+
+    const report = await rotateRecords(store, registryV1V2);
+
+    assert.equal(report.rewrapped, 1);
+    assert.equal(report.failed.length, 1);
+    assert.equal(report.failed[0].id, "tx-0");
+    assert.equal(report.remaining, 1);
+    assert.equal((await store.get("tx-0"))!.mk_version, 1);
+  });
+
+  it("should continue past a failed record with the returned cursor", async () => {
+    const store = await seededStore(3);
+    const victim = (await store.get("tx-0"))!;
+    await store.put({ ...victim, partyId: "attacker-party" });
+
+    const first = await rotateRecords(store, registryV1V2, { limit: 1 });
+    assert.equal(first.rewrapped, 0);
+    assert.equal(first.failed[0].id, "tx-0");
+    assert.equal(first.remaining, 3);
+    assert.equal(first.nextCursor?.id, "tx-0");
+
+    // The failed record is not retried, so each run makes progress
+    const second = await rotateRecords(store, registryV1V2, { limit: 1, after: first.nextCursor });
+    assert.equal(second.rewrapped, 1);
+    assert.equal(second.remaining, 2);
+    assert.equal(second.nextCursor?.id, "tx-1");
+
+    const third = await rotateRecords(store, registryV1V2, { limit: 1, after: second.nextCursor });
+    assert.equal(third.rewrapped, 1);
+    assert.equal(third.remaining, 1);
+    assert.equal(third.nextCursor, undefined);
+  });
+
+  it("should reject an unknown target version", async () => {
+    const store = await seededStore(1);
+
+    await assert.rejects(
+      () => rotateRecords(store, registryV1V2, { targetVersion: 7 }),
+      /Master key version 7 not found/
+    );
+  });
+
+  it("should re-wrap party-scoped records under the party's key for the target version", async () => {
+    const store = new MemoryTxStore();
+    const partyKeys = new MemoryPartyKeyStore();
+    const v1Key = await partyKeys.add(createPartyKey(registryV1, "party-1"));
+    await store.put(envelopeEncrypt(partyKeyProvider(registryV1, "party-1", [v1Key]), "tx-0", "party-1", PAYLOAD));
+
+    // Without the party key store the record cannot be rotated
+    const refused = await rotateRecords(store, registryV1V2);
+    assert.match(refused.failed[0].error, /no party key store was given/);
+
+    const report = await rotateRecords(store, registryV1V2, { partyKeys });
+    assert.equal(report.rewrapped, 1);
+
+    const rotated = (await store.get("tx-0"))!;
+    assert.equal(rotated.mk_version, 2);
+    assert.equal(rotated.key_scope, "party");
+
+    // A V2 party key was created, and V1 is no longer needed to decrypt
+    const stored = await partyKeys.list("party-1");
+    assert.deepEqual(stored.map((key) => key.mk_version).sort(), [1, 2]);
+    const v2Only = partyKeyProvider(registryV2Only, "party-1", stored);
+    assert.deepEqual(envelopeDecrypt(v2Only, rotated), PAYLOAD);
+  });
+
+  it("should not create party keys for records of an erased party", async () => {
+    const store = new MemoryTxStore();
+    const partyKeys = new MemoryPartyKeyStore();
+    const v1Key = await partyKeys.add(createPartyKey(registryV1, "party-1"));
+    await store.put(envelopeEncrypt(partyKeyProvider(registryV1, "party-1", [v1Key]), "tx-0", "party-1", PAYLOAD));
+    await partyKeys.destroy("party-1");
+
+    const report = await rotateRecords(store, registryV1V2, { partyKeys });
+    assert.equal(report.rewrapped, 0);
+    assert.match(report.failed[0].error, /Party party-1 was erased at/);
+    assert.deepEqual(await partyKeys.list("party-1"), []);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Master Key Rotation — batch DEK re-wrapping over the TxStore
+ * ==============================================================
+ *
+ * Moves stored records onto a target master key version (normally the
+ * latest) using rewrapRecord from @repo/crypto. Payload ciphertext is
+ * never decrypted; only the wrapped DEK and mk_version change.
+ *
+ * Rotation is online and resumable:
+ *   - Records already on the target version are skipped, so a run can be
+ *     repeated or interrupted at any point.
+ *   - An optional limit caps how many records one run re-wraps, so large
+ *     stores can be migrated in small batches (e.g. per serverless call).
+ *     Records are visited oldest first, and a limited run reports where it
+ *     stopped (nextCursor); passing that back as `after` continues past
+ *     records that failed instead of retrying them on every batch.
+ *   - The store is read a page at a time (ROTATION_PAGE_SIZE records), never
+ *     loaded whole.
+ *   - The report includes how many records remain on each version, which
+ *     tells operators when an old MASTER_KEY_V* can be retired.
+ *   - When an AuditLog is supplied, every re-wrap (and failure) is recorded.
+ *
+ * Records wrapped under a party key (key_scope "party") are re-wrapped under
+ * the same party's key for the target version, which is created if the
+ * party has none yet; this needs the PartyKeyStore. Records of a party from
+ * before its erasure (DELETE /parties/:partyId) fail instead, so rotation
+ * never creates a key for a party that was erased.
+ */
+
+import { rewrapRecord, toKeyProvider, type KeySource, type TxSecureRecord } from "@repo/crypto";
+import type { AuditLog } from "./audit.js";
+import { partyKeys } from "./party-keys.js";
+import type { PartyKeyStore, TxCursor, TxStore } from "./store/index.js";
+
+/** Records read from the store per query */
+export const ROTATION_PAGE_SIZE = 200;
+
+export interface RotationProgress {
+  /** Records processed so far in this run (re-wrapped or failed) */
+  processed: number;
+
+  /** Records this run will process in total */
+  total: number;
+
+  /** ID of the record that was just processed */
+  lastId: string;
+}
+
+export interface RotationOptions {
+  /** Master key version to move records to (default: latest in the registry) */
+  targetVersion?: number;
+
+  /** Maximum number of records to re-wrap in this run (default: all) */
+  limit?: number;
+
+  /** Start after this record (nextCursor of the previous run; default: the oldest record) */
+  after?: TxCursor;
+
+  /** Called after each record is processed */
+  onProgress?: (progress: RotationProgress) => void;
+
+  /** Audit log to record each re-wrap in */
+  audit?: AuditLog;
+
+  /** Actor recorded in audit entries (default: "system") */
+  actor?: string;
+
+  /** Where party keys are kept — required to rotate party-scoped records */
+  partyKeys?: PartyKeyStore;
+}
+
+export interface RotationFailure {
+  id: string;
+  mk_version: number;
+  error: string;
+}
+
+export interface RotationReport {
+  targetVersion: number;
+
+  /** Records re-wrapped to the target version in this run */
+  rewrapped: number;
+
+  /** Records that could not be re-wrapped (left unchanged) */
+  failed: RotationFailure[];
+
+  /** Record counts per master key version after this run */
+  versions: Record<number, number>;
+
+  /** Records still not on the target version after this run */
+  remaining: number;
+
+  /**
+   * Position of the last record this run processed, when `limit` stopped it
+   * before the end of the store; pass it as `after` to continue there.
+   * Undefined once a run reaches the end.
+   */
+  nextCursor?: TxCursor;
+}
+
+/**
+ * Count records per master key version.
+ */
+export function countByVersion(records: TxSecureRecord[]): Record<number, number> {
+  const counts: Record<number, number> = {};
+  for (const record of records) {
+    counts[record.mk_version] = (counts[record.mk_version] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Re-wrap stored records to the target master key version.
+ *
+ * @param store    - record storage backend
+ * @param keys     - master key registry or KeyProvider holding both old and target versions
+ * @param options  - target version, batch limit and progress callback
+ * @returns a report of what was re-wrapped, what failed, and what remains
+ * @throws if the target version is not in the registry
+ */
+export async function rotateRecords(
+  store: TxStore,
+  keys: KeySource,
+  options: RotationOptions = {}
+): Promise<RotationReport> {
+  const provider = toKeyProvider(keys);
+  const targetVersion = options.targetVersion ?? provider.latestVersion();
+
+  // Fail fast on an unknown target instead of failing every record
+  if (!provider.versions().includes(targetVersion)) {
+    throw new Error(
+      `Master key version ${targetVersion} not found. Available versions: ${provider.versions().join(", ")}`
+    );
+  }
+
+  // Collect this run's batch, oldest first from `after`
+  const batch: TxSecureRecord[] = [];
+  const limit = options.limit ?? Infinity;
+  let nextCursor: TxCursor | undefined;
+  for await (const record of scan(store, options.after)) {
+    if (batch.length === limit) {
+      const { createdAt, id } = batch[batch.length - 1];
+      nextCursor = { createdAt, id };
+      break;
+    }
+    if (record.mk_version !== targetVersion) {
+      batch.push(record);
+    }
+  }
+
+  let rewrapped = 0;
+  const failed: RotationFailure[] = [];
+
+  const actor = options.actor ?? "system";
+
+  const keysFor = async (record: TxSecureRecord) => {
+    if (record.key_scope !== "party") {
+      return provider;
+    }
+    if (!options.partyKeys) {
+      throw new Error("Record is wrapped under a party key, but no party key store was given");
+    }
+    // A key created for a record of an erased party would outlive the erasure
+    const shreddedAt = await options.partyKeys.shreddedAt(record.partyId);
+    if (shreddedAt !== undefined && Date.parse(record.createdAt) <= Date.parse(shreddedAt)) {
+      throw new Error(`Party ${record.partyId} was erased at ${shreddedAt}; its earlier records stay unreadable`);
+    }
+    return partyKeys(options.partyKeys, provider, record.partyId, targetVersion);
+  };
+
+  for (const [index, record] of batch.entries()) {
+    let error: string | undefined;
+
+    try {
+      await store.put(rewrapRecord(await keysFor(record), record, targetVersion));
+      rewrapped++;
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Re-wrap failed";
+      failed.push({ id: record.id, mk_version: record.mk_version, error });
+    }
+
+    await options.audit?.record({
+      event: "rotate",
+      outcome: error ? "failure" : "success",
+      actor,
+      txId: record.id,
+      partyId: record.partyId,
+      mk_version: error ? record.mk_version : targetVersion,
+      detail: error ?? `V${record.mk_version} → V${targetVersion}`,
+    });
+
+    options.onProgress?.({ processed: index + 1, total: batch.length, lastId: record.id });
+  }
+
+  const versions: Record<number, number> = {};
+  for await (const record of scan(store)) {
+    versions[record.mk_version] = (versions[record.mk_version] ?? 0) + 1;
+  }
+  const remaining = Object.entries(versions)
+    .filter(([version]) => Number(version) !== targetVersion)
+    .reduce((sum, [, count]) => sum + count, 0);
+
+  return { targetVersion, rewrapped, failed, versions, remaining, ...(nextCursor ? { nextCursor } : {}) };
+}
+
+/** Every stored record, oldest first from `after`, read a page at a time */
+async function* scan(store: TxStore, after?: TxCursor): AsyncGenerator<TxSecureRecord> {
+  let cursor = after;
+  for (;;) {
+    const page = await store.query({ order: "asc", after: cursor, limit: ROTATION_PAGE_SIZE });
+    yield* page;
+    if (page.length < ROTATION_PAGE_SIZE) {
+      return;
+    }
+    const { createdAt, id } = page[page.length - 1];
+    cursor = { createdAt, id };
+  }
+}
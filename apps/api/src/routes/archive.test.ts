@@ -0,0 +1,272 @@
+/**
+ * Archive Route Tests
+ * ====================
+ *
+ * Exercises GET /tx/export and POST /tx/import through app.inject() with
+ * in-memory stores.
+ *
+ * Tests cover:
+ *   1. Only admin callers may export or import (403 otherwise), and both
+ *      routes are 501 without ARCHIVE_SIGNING_KEY
+ *   2. An export imported into another app decrypts there, keeps its party
+ *      keys, and is audited on both sides; importing it again skips every record
+ *   3. ?rewrap=true moves imported records to the active master key version
+ *   4. Importing an archive taken before a party was erased leaves its keys
+ *      and records out, so they stay undecryptable
+ *   5. Modified archives are 422; re-signed invalid ones are 400 with violations
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac, randomBytes } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import { canonicalJson } from "@repo/crypto";
+import { buildApp } from "../app.js";
+import type { RecordArchive } from "../archive.js";
+import { readApiKeys } from "../auth.js";
+import { createMemoryStorage, type Storage } from "../store/index.js";
+
+// ----- Test setup -----
+
+const ADMIN_KEY = "admin-secret";
+const PARTY_A_KEY = "party-a-secret";
+const ARCHIVE_KEY = randomBytes(32);
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([
+    { id: "admin", key: ADMIN_KEY, parties: ["*"], admin: true },
+    { id: "client-a", key: PARTY_A_KEY, parties: ["party_a"] },
+  ]),
+});
+
+function auth(key: string) {
+  return { authorization: `Bearer ${key}` };
+}
+
+const PAYLOAD = { amount: 100, currency: "AED" };
+
+async function createApp(storage: Storage, archiveKey?: Buffer): Promise<FastifyInstance> {
+  return buildApp({ storage, apiKeys, auditKey: randomBytes(32), archiveKey, logger: false });
+}
+
+// ----- Tests -----
+
+describe("Archive routes", () => {
+  let source: FastifyInstance;
+  let destination: FastifyInstance;
+  let destinationStorage: Storage;
+  let ids: string[];
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    source = await createApp(createMemoryStorage(), ARCHIVE_KEY);
+    destinationStorage = createMemoryStorage();
+    destination = await createApp(destinationStorage, ARCHIVE_KEY);
+
+    ids = [];
+    for (const partyId of ["party_a", "party_a", "party_b"]) {
+      const response = await source.inject({
+        method: "POST",
+        url: "/tx/encrypt",
+        headers: auth(ADMIN_KEY),
+        payload: { partyId, payload: PAYLOAD },
+      });
+      assert.equal(response.statusCode, 201);
+      ids.push(response.json().id);
+    }
+  });
+
+  after(async () => {
+    await source.close();
+    await destination.close();
+  });
+
+  async function exportFrom(app: FastifyInstance, query = ""): Promise<RecordArchive> {
+    const response = await app.inject({ method: "GET", url: `/tx/export${query}`, headers: auth(ADMIN_KEY) });
+    assert.equal(response.statusCode, 200);
+    return response.json();
+  }
+
+  it("should require an admin key and ARCHIVE_SIGNING_KEY", async () => {
+    const forbidden = await source.inject({ method: "GET", url: "/tx/export", headers: auth(PARTY_A_KEY) });
+    assert.equal(forbidden.statusCode, 403);
+
+    const disabled = await createApp(createMemoryStorage());
+    try {
+      const exported = await disabled.inject({ method: "GET", url: "/tx/export", headers: auth(ADMIN_KEY) });
+      assert.equal(exported.statusCode, 501);
+      assert.equal(exported.json().code, "NOT_IMPLEMENTED");
+
+      const imported = await disabled.inject({
+        method: "POST",
+        url: "/tx/import",
+        headers: auth(ADMIN_KEY),
+        payload: await exportFrom(source),
+      });
+      assert.equal(imported.statusCode, 501);
+    } finally {
+      await disabled.close();
+    }
+  });
+
+  it("should import an export into another environment", async () => {
+    const archive = await exportFrom(source);
+    assert.equal(archive.manifest.records, 3);
+    assert.deepEqual(archive.manifest.parties, ["party_a", "party_b"]);
+    assert.equal(archive.partyKeys.length, 2);
+
+    const response = await destination.inject({
+      method: "POST",
+      url: "/tx/import",
+      headers: auth(ADMIN_KEY),
+      payload: archive,
+    });
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(response.json(), {
+      imported: 3,
+      stored: archive.records.map(({ id }) => id),
+      skipped: [],
+      shredded: [],
+      rewrapped: 0,
+      partyKeys: 2,
+      missingKeyVersions: [],
+    });
+
+    const decrypted = await destination.inject({
+      method: "POST",
+      url: `/tx/${ids[0]}/decrypt`,
+      headers: auth(PARTY_A_KEY),
+    });
+    assert.equal(decrypted.statusCode, 200);
+    assert.deepEqual(decrypted.json().payload, PAYLOAD);
+
+    const audit = await destinationStorage.audit.list();
+    assert.deepEqual(
+      audit.filter(({ event }) => event === "import").map(({ txId }) => txId).sort(),
+      [...ids].sort()
+    );
+
+    const sourceAudit = await source.inject({ method: "GET", url: "/audit", headers: auth(ADMIN_KEY) });
+    const exports = sourceAudit.json().filter(({ event }: { event: string }) => event === "export");
+    assert.equal(exports.at(-1).detail, "3 records, 2 party keys");
+
+    const again = await destination.inject({
+      method: "POST",
+      url: "/tx/import",
+      headers: auth(ADMIN_KEY),
+      payload: archive,
+    });
+    assert.equal(again.json().imported, 0);
+    assert.deepEqual([...again.json().skipped].sort(), [...ids].sort());
+  });
+
+  it("should re-wrap imported records with ?rewrap=true", async (t) => {
+    const archive = await exportFrom(source, "?partyId=party_b");
+    assert.equal(archive.manifest.records, 1);
+
+    process.env.MASTER_KEY_V2 = randomBytes(32).toString("hex");
+    t.after(() => {
+      delete process.env.MASTER_KEY_V2;
+    });
+
+    const storage = createMemoryStorage();
+    const app = await createApp(storage, ARCHIVE_KEY);
+    try {
+      const response = await app.inject({
+        method: "POST",
+        url: "/tx/import?rewrap=true",
+        headers: auth(ADMIN_KEY),
+        payload: archive,
+      });
+      assert.equal(response.statusCode, 200);
+      assert.equal(response.json().rewrapped, 1);
+      assert.equal(response.json().partyKeys, 2);
+
+      const [record] = await storage.tx.list();
+      assert.equal(record.mk_version, 2);
+
+      const decrypted = await app.inject({ method: "POST", url: `/tx/${record.id}/decrypt`, headers: auth(ADMIN_KEY) });
+      assert.deepEqual(decrypted.json().payload, PAYLOAD);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("should not revive an erased party from an earlier archive", async () => {
+    const storage = createMemoryStorage();
+    const app = await createApp(storage, ARCHIVE_KEY);
+    try {
+      const encrypted = await app.inject({
+        method: "POST",
+        url: "/tx/encrypt",
+        headers: auth(ADMIN_KEY),
+        payload: { partyId: "party_a", payload: PAYLOAD },
+      });
+      const { id } = encrypted.json();
+      const archive = await exportFrom(app);
+
+      const erased = await app.inject({ method: "DELETE", url: "/parties/party_a", headers: auth(ADMIN_KEY) });
+      assert.equal(erased.statusCode, 200);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/tx/import",
+        headers: auth(ADMIN_KEY),
+        payload: archive,
+      });
+      assert.equal(response.statusCode, 200);
+      assert.equal(response.json().imported, 0);
+      assert.equal(response.json().partyKeys, 0);
+      assert.deepEqual(response.json().shredded, [id]);
+
+      assert.deepEqual(await storage.partyKeys.list("party_a"), []);
+      const decrypted = await app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: auth(ADMIN_KEY) });
+      assert.equal(decrypted.statusCode, 404);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("should reject modified and invalid archives", async () => {
+    const archive = await exportFrom(source);
+    const [first] = archive.records;
+
+    const modified = await destination.inject({
+      method: "POST",
+      url: "/tx/import",
+      headers: auth(ADMIN_KEY),
+      payload: { ...archive, records: [{ ...first, partyId: "party_b" }, ...archive.records.slice(1)] },
+    });
+    assert.equal(modified.statusCode, 422);
+    assert.equal(modified.json().code, "INTEGRITY_FAILURE");
+
+    // Signed with the right key, but with a malformed record
+    const unsigned: Partial<RecordArchive> = {
+      ...archive,
+      records: [{ ...first, dek_wrapped: "abc" }, ...archive.records.slice(1)],
+    };
+    delete unsigned.signature;
+    const signature = createHmac("sha256", ARCHIVE_KEY).update(canonicalJson(unsigned)).digest("hex");
+
+    const invalid = await destination.inject({
+      method: "POST",
+      url: "/tx/import",
+      headers: auth(ADMIN_KEY),
+      payload: { ...unsigned, signature },
+    });
+    assert.equal(invalid.statusCode, 400);
+    assert.equal(invalid.json().code, "INVALID_REQUEST");
+    assert.deepEqual(
+      invalid.json().violations.map(({ path }: { path: string }) => path),
+      ["/records/0"]
+    );
+
+    const notArchive = await destination.inject({
+      method: "POST",
+      url: "/tx/import",
+      headers: auth(ADMIN_KEY),
+      payload: { records: [] },
+    });
+    assert.equal(notArchive.statusCode, 400);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Record archive routes for the Fastify API.
+ *
+ * GET  /tx/export — Signed archive of stored records and the party keys they need
+ * POST /tx/import — Verify an archive and store its records (optionally re-wrapping
+ *                   their DEKs to this environment's active master key version)
+ *
+ * Records are never decrypted: an archive carries the encrypted records, so
+ * the destination needs the master key versions they are wrapped under —
+ * as decrypt-only keys at least — to read or re-wrap them. See ../archive.ts
+ * for the format and the checks an import makes.
+ *
+ * Both routes require an admin API key (see ../auth.ts) and ARCHIVE_SIGNING_KEY.
+ * Exports and imported records are recorded in the audit log.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { getKeyProvider } from "../keys.js";
+import { type ApiKey, createAuthHook, getCaller, requireAdmin } from "../auth.js";
+import type { AuditLog } from "../audit.js";
+import { exportArchive, importArchive, verifyArchive } from "../archive.js";
+import { ApiError } from "../errors.js";
+import { errors, ref } from "../openapi.js";
+import type { Storage } from "../store/index.js";
+
+// ----- Request/Response schemas -----
+
+interface ExportQuery {
+  partyId?: string;
+}
+
+interface ImportQuery {
+  rewrap?: string;
+}
+
+const exportSchema = {
+  tags: ["archive"],
+  summary: "Export stored records as a signed archive",
+  querystring: {
+    type: "object",
+    properties: { partyId: { type: "string", description: "Only this party's records (default: all)" } },
+  },
+  response: { 200: ref("RecordArchive"), ...errors(401, 403, 501) },
+} as const;
+
+const importSchema = {
+  tags: ["archive"],
+  summary: "Verify a signed archive and store its records",
+  querystring: {
+    type: "object",
+    properties: {
+      rewrap: {
+        type: "string",
+        enum: ["true", "false"],
+        description: "Re-wrap every DEK to the active master key version (default: false)",
+      },
+    },
+  },
+  body: ref("RecordArchive"),
+  response: {
+    200: {
+      type: "object",
+      required: ["imported", "stored", "skipped", "shredded", "rewrapped", "partyKeys", "missingKeyVersions"],
+      properties: {
+        imported: { type: "integer" },
+        stored: { type: "array", items: { type: "string" }, description: "IDs of the records stored" },
+        skipped: { type: "array", items: { type: "string" }, description: "IDs that already existed" },
+        shredded: {
+          type: "array",
+          items: { type: "string" },
+          description: "IDs left out because their party was erased here after they were written",
+        },
+        rewrapped: { type: "integer" },
+        partyKeys: { type: "integer", description: "Party keys added" },
+        missingKeyVersions: {
+          type: "array",
+          items: { type: "integer" },
+          description: "Master key versions imported records need that are not loaded here",
+        },
+      },
+    },
+    ...errors(400, 401, 403, 409, 422, 501),
+  },
+} as const;
+
+export interface ArchiveRoutesOptions {
+  storage: Pick<Storage, "tx" | "partyKeys">;
+  audit: AuditLog;
+  apiKeys: readonly ApiKey[];
+
+  /** ARCHIVE_SIGNING_KEY; without it both routes respond 501 */
+  archiveKey?: Buffer;
+
+  /** Largest accepted archive in bytes (default: 64 MiB) */
+  maxBytes?: number;
+}
+
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+// ----- Route registration -----
+
+export async function archiveRoutes(app: FastifyInstance, opts: ArchiveRoutesOptions): Promise<void> {
+  const { storage, audit } = opts;
+
+  // Archives hold every party's records, so only admins may move them
+  app.addHook("onRequest", createAuthHook(opts.apiKeys));
+  app.addHook("onRequest", requireAdmin());
+
+  const archiveKey = (): Buffer => {
+    if (!opts.archiveKey) {
+      throw new ApiError("NOT_IMPLEMENTED", "Archives are not enabled (ARCHIVE_SIGNING_KEY is not set)");
+    }
+    return opts.archiveKey;
+  };
+
+  /**
+   * GET /tx/export[?partyId=...]
+   *
+   * Returns every stored record (or one party's) in createdAt order, with
+   * the party keys they are wrapped under and a signed manifest.
+   */
+  app.get<{ Querystring: ExportQuery }>(
+    "/tx/export",
+    { schema: exportSchema },
+    async (request: FastifyRequest<{ Querystring: ExportQuery }>, reply: FastifyReply) => {
+      const key = archiveKey();
+      const { partyId } = request.query;
+
+      const archive = await exportArchive(storage, key, { partyId, keys: getKeyProvider() });
+
+      await audit.record({
+        event: "export",
+        outcome: "success",
+        actor: getCaller(request).id,
+        ...(partyId !== undefined ? { partyId } : {}),
+        detail: `${archive.manifest.records} records, ${archive.manifest.partyKeys} party keys`,
+      });
+
+      return reply.send(archive);
+    }
+  );
+
+  /**
+   * POST /tx/import[?rewrap=true]
+   *
+   * Checks the archive's signature, manifest and every record before
+   * storing anything. Records whose id exists are skipped, and records of
+   * parties erased here since they were written are left out. The response
+   * lists master key versions the imported records need that this
+   * environment does not hold.
+   */
+  app.post<{ Querystring: ImportQuery; Body: unknown }>(
+    "/tx/import",
+    { schema: importSchema, bodyLimit: opts.maxBytes ?? DEFAULT_MAX_BYTES },
+    async (request: FastifyRequest<{ Querystring: ImportQuery; Body: unknown }>, reply: FastifyReply) => {
+      const archive = verifyArchive(request.body, archiveKey());
+
+      const report = await importArchive(storage, archive, {
+        keys: getKeyProvider(),
+        rewrap: request.query.rewrap === "true",
+        audit,
+        actor: getCaller(request).id,
+      });
+
+      return reply.send(report);
+    }
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Attachment Route Tests
+ * =======================
+ *
+ * Exercises the attachment routes through app.inject() with an in-memory store.
+ *
+ * Tests cover:
+ *   1. Upload → download round-trip of a multi-chunk file
+ *   2. Stored content is encrypted, not the uploaded bytes
+ *   3. Another party cannot upload to or download from a record (403)
+ *   4. Uploads over the size limit are rejected (413) and nothing is kept
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import { buildApp } from "../app.js";
+import { readApiKeys } from "../auth.js";
+import { createMemoryStorage, type Storage } from "../store/index.js";
+
+// ----- Test setup -----
+
+const PARTY_A_KEY = "party-a-secret";
+const PARTY_B_KEY = "party-b-secret";
+const MAX_BYTES = 256 * 1024;
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([
+    { id: "client-a", key: PARTY_A_KEY, parties: ["party_a"] },
+    { id: "client-b", key: PARTY_B_KEY, parties: ["party_b"] },
+  ]),
+});
+
+function auth(key: string) {
+  return { authorization: `Bearer ${key}` };
+}
+
+/** Build a multipart/form-data body with a single file field */
+function multipartBody(filename: string, contentType: string, content: Buffer) {
+  const boundary = `----test${randomBytes(8).toString("hex")}`;
+  const body = Buffer.concat([
+    Buffer.from(
+      `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="file"; filename="${filename}"\r\n` +
+        `Content-Type: ${contentType}\r\n\r\n`
+    ),
+    content,
+    Buffer.from(`\r\n--${boundary}--\r\n`),
+  ]);
+  return { body, headers: { "content-type": `multipart/form-data; boundary=${boundary}` } };
+}
+
+// ----- Tests -----
+
+describe("Attachment routes", () => {
+  let app: FastifyInstance;
+  let storage: Storage;
+  let txId: string;
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    storage = createMemoryStorage();
+    app = await buildApp({
+      storage,
+      apiKeys,
+      auditKey: randomBytes(32),
+      attachmentMaxBytes: MAX_BYTES,
+      logger: false,
+    });
+
+    const created = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: { partyId: "party_a", payload: { amount: 100 } },
+    });
+    txId = created.json().id;
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  async function upload(key: string, content: Buffer) {
+    const { body, headers } = multipartBody("invoice.pdf", "application/pdf", content);
+    return app.inject({
+      method: "POST",
+      url: `/tx/${txId}/attachments`,
+      headers: { ...auth(key), ...headers },
+      payload: body,
+    });
+  }
+
+  it("should upload and download an encrypted attachment", async () => {
+    const content = randomBytes(150 * 1024); // spans several 64 KiB chunks
+
+    const uploaded = await upload(PARTY_A_KEY, content);
+    assert.equal(uploaded.statusCode, 201);
+    const meta = uploaded.json();
+    assert.equal(meta.txId, txId);
+    assert.equal(meta.size, content.length);
+    assert.equal(meta.filename, "invoice.pdf");
+
+    const downloaded = await app.inject({
+      method: "GET",
+      url: `/tx/${txId}/attachments/${meta.id}`,
+      headers: auth(PARTY_A_KEY),
+    });
+    assert.equal(downloaded.statusCode, 200);
+    assert.equal(downloaded.headers["content-type"], "application/pdf");
+    assert.match(String(downloaded.headers["content-disposition"]), /filename="invoice.pdf"/);
+    assert.deepEqual(downloaded.rawPayload, content);
+
+    // What the store holds is ciphertext
+    const stored: Buffer[] = [];
+    for await (const chunk of storage.attachments.readContent(meta.id)) stored.push(chunk);
+    assert.equal(Buffer.concat(stored).includes(content.subarray(0, 64)), false);
+  });
+
+  it("should not let another party upload or download", async () => {
+    const uploaded = await upload(PARTY_A_KEY, randomBytes(100));
+    const { id } = uploaded.json();
+
+    const forbiddenUpload = await upload(PARTY_B_KEY, randomBytes(100));
+    assert.equal(forbiddenUpload.statusCode, 403);
+
+    const forbiddenDownload = await app.inject({
+      method: "GET",
+      url: `/tx/${txId}/attachments/${id}`,
+      headers: auth(PARTY_B_KEY),
+    });
+    assert.equal(forbiddenDownload.statusCode, 403);
+  });
+
+  it("should reject uploads over the size limit", async () => {
+    const before = await storage.attachments.listByTx(txId);
+
+    const res = await upload(PARTY_A_KEY, randomBytes(MAX_BYTES + 1));
+    assert.equal(res.statusCode, 413);
+
+    assert.equal((await storage.attachments.listByTx(txId)).length, before.length);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Attachment routes for the Fastify API.
+ *
+ * POST /tx/:id/attachments                — Upload a file (multipart/form-data), encrypted as it streams in
+ * GET  /tx/:id/attachments/:attachmentId  — Download a file, decrypted as it streams out
+ *
+ * Files never sit fully in memory: the upload is piped through a chunked
+ * encryption stream (see @repo/crypto createEncryptStream) straight into the
+ * AttachmentStore, and downloads are piped back through createDecryptStream.
+ * Each attachment gets its own DEK, wrapped under the party's key like the
+ * record's (see ../party-keys.ts), and is bound to its id and the record's
+ * partyId. Erasing the party (DELETE /parties/:partyId) shreds it too.
+ *
+ * Security features:
+ *   - Authentication and per-party authorization, as for the record itself
+ *   - Upload size limit (ATTACHMENT_MAX_BYTES, default 50 MiB) → 413
+ *   - Downloads are rate limited like POST /tx/:id/decrypt
+ *   - Attachments of an expired record can no longer be uploaded or downloaded (410)
+ *   - Audit log: uploads are recorded as "encrypt" and downloads as
+ *     "decrypt" events, with the attachment id in the entry's detail
+ *
+ * A download's plaintext is authenticated chunk by chunk, so tampering with
+ * the stored content is only detected when the affected chunk is reached;
+ * the response is then aborted and the failure is logged and audited.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import multipart from "@fastify/multipart";
+import { randomUUID } from "node:crypto";
+import { Transform } from "node:stream";
+import { finished, pipeline } from "node:stream/promises";
+import { createDecryptStream, createEncryptStream, isExpired } from "@repo/crypto";
+import { getKeyProvider } from "../keys.js";
+import { partyKeys } from "../party-keys.js";
+import { type ApiKey, createAuthHook, getCaller, canAccessParty } from "../auth.js";
+import type { AuditLog } from "../audit.js";
+import { ApiError } from "../errors.js";
+import { errors, optionalBody, ref } from "../openapi.js";
+import type { AttachmentMeta, AttachmentStore, PartyKeyStore, TxStore } from "../store/index.js";
+
+// ----- Request/Response schemas -----
+
+interface TxParam {
+  id: string;
+}
+
+interface AttachmentParams {
+  id: string;
+  attachmentId: string;
+}
+
+const uploadSchema = {
+  tags: ["attachments"],
+  summary: "Upload a file to a record, encrypted as it streams in",
+  consumes: ["multipart/form-data"],
+  params: {
+    type: "object",
+    required: ["id"],
+    properties: { id: { type: "string" } },
+  },
+  // Parsed by @fastify/multipart in the handler; documents the form field only
+  body: {
+    type: "object",
+    properties: { file: { type: "string", format: "binary", description: "The one file field" } },
+  },
+  response: { 201: ref("AttachmentMeta"), ...errors(400, 401, 403, 404, 410, 413, 500, 503) },
+} as const;
+
+const downloadSchema = {
+  tags: ["attachments"],
+  summary: "Download a file, decrypted as it streams out",
+  params: {
+    type: "object",
+    required: ["id", "attachmentId"],
+    properties: { id: { type: "string" }, attachmentId: { type: "string" } },
+  },
+  response: {
+    200: { type: "string", format: "binary", description: "The file, with its original content type" },
+    ...errors(401, 403, 404, 410, 429),
+  },
+} as const;
+
+export interface AttachmentRoutesOptions {
+  store: TxStore;
+  attachments: AttachmentStore;
+  partyKeys: PartyKeyStore;
+  audit: AuditLog;
+  apiKeys: readonly ApiKey[];
+
+  /** Largest accepted upload in bytes (default: 50 MiB) */
+  maxBytes?: number;
+}
+
+export const DEFAULT_ATTACHMENT_MAX_BYTES = 50 * 1024 * 1024;
+
+// ----- Helpers -----
+
+/** Pass-through stream that counts the bytes flowing through it */
+function byteCounter(): Transform & { bytes: number } {
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      counter.bytes += chunk.length;
+      callback(null, chunk);
+    },
+  }) as Transform & { bytes: number };
+  counter.bytes = 0;
+  return counter;
+}
+
+/** Content-Disposition header value that is safe for any uploaded file name */
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\w.\- ]/g, "_") || "attachment";
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// ----- Route registration -----
+
+export async function attachmentRoutes(app: FastifyInstance, opts: AttachmentRoutesOptions): Promise<void> {
+  const { store, attachments, audit } = opts;
+  const maxBytes = opts.maxBytes ?? DEFAULT_ATTACHMENT_MAX_BYTES;
+
+  // Only one file per request; larger uploads are cut off and answered with 413
+  await app.register(multipart, {
+    limits: { files: 1, fileSize: maxBytes },
+  });
+
+  // All attachment routes require an authenticated caller
+  app.addHook("onRequest", createAuthHook(opts.apiKeys));
+
+  /**
+   * POST /tx/:id/attachments
+   *
+   * Accepts a single multipart file field, encrypts it while streaming into
+   * storage, and returns the attachment metadata.
+   * The caller must be allowed to access the record's partyId (403 otherwise).
+   */
+  app.post<{ Params: TxParam }>(
+    "/tx/:id/attachments",
+    { schema: uploadSchema, preValidation: optionalBody },
+    async (request: FastifyRequest<{ Params: TxParam }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      const record = await store.get(id);
+      if (!record) {
+        throw new ApiError("NOT_FOUND", `Record not found: ${id}`);
+      }
+
+      const caller = getCaller(request);
+      if (!canAccessParty(caller, record.partyId)) {
+        throw new ApiError("FORBIDDEN", `Not allowed to access record: ${id}`);
+      }
+
+      if (isExpired(record)) {
+        throw new ApiError("EXPIRED", `Record expired: ${id}`);
+      }
+
+      if (!request.isMultipart()) {
+        throw new ApiError("INVALID_REQUEST", "Request must be multipart/form-data with one file field");
+      }
+
+      const file = await request.file();
+      if (!file) {
+        throw new ApiError("INVALID_REQUEST", "A file field is required");
+      }
+
+      const attachmentId = randomUUID();
+      const counter = byteCounter();
+      let mkVersion: number;
+      let tooLarge = false;
+
+      try {
+        const master = getKeyProvider();
+        mkVersion = master.latestVersion();
+        const keys = await partyKeys(opts.partyKeys, master, record.partyId, mkVersion);
+
+        // Encrypt with the record's algorithm, bound to the attachment id and party
+        const encrypted = createEncryptStream(keys, {
+          id: attachmentId,
+          partyId: record.partyId,
+          alg: record.alg,
+        });
+
+        await Promise.all([
+          pipeline(file.file, counter, encrypted),
+          attachments.writeContent(attachmentId, encrypted),
+        ]);
+
+        // The multipart parser ends the file stream early at the size limit
+        if (file.file.truncated) {
+          tooLarge = true;
+          throw new Error(`Attachment exceeds the ${maxBytes} byte limit`);
+        }
+      } catch (err) {
+        await attachments.delete(attachmentId);
+
+        const message = err instanceof Error ? err.message : "Encryption failed";
+
+        await audit.record({
+          event: "encrypt",
+          outcome: "failure",
+          actor: caller.id,
+          txId: id,
+          partyId: record.partyId,
+          detail: `attachment ${attachmentId}: ${message}`,
+        });
+
+        throw tooLarge ? new ApiError("PAYLOAD_TOO_LARGE", message) : err;
+      }
+
+      const meta: AttachmentMeta = {
+        id: attachmentId,
+        txId: id,
+        partyId: record.partyId,
+        filename: file.filename,
+        contentType: file.mimetype || "application/octet-stream",
+        size: counter.bytes,
+        mk_version: mkVersion,
+        key_scope: "party",
+        createdAt: new Date().toISOString(),
+      };
+      await attachments.put(meta);
+
+      await audit.record({
+        event: "encrypt",
+        outcome: "success",
+        actor: caller.id,
+        txId: id,
+        partyId: record.partyId,
+        mk_version: mkVersion,
+        detail: `attachment ${attachmentId}`,
+      });
+
+      return reply.status(201).send(meta);
+    }
+  );
+
+  /**
+   * GET /tx/:id/attachments/:attachmentId
+   *
+   * Streams the decrypted attachment with its original content type and
+   * file name. The caller must be allowed to access the record's partyId.
+   */
+  app.get<{ Params: AttachmentParams }>(
+    "/tx/:id/attachments/:attachmentId",
+    {
+      schema: downloadSchema,
+      config: {
+        rateLimit: {
+          max: 5,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: AttachmentParams }>, reply: FastifyReply) => {
+      const { id, attachmentId } = request.params;
+
+      const meta = await attachments.get(attachmentId);
+      if (!meta || meta.txId !== id) {
+        throw new ApiError("NOT_FOUND", `Attachment not found: ${attachmentId}`);
+      }
+
+      const caller = getCaller(request);
+      const entry = {
+        event: "decrypt" as const,
+        actor: caller.id,
+        txId: id,
+        partyId: meta.partyId,
+        mk_version: meta.mk_version,
+      };
+
+      if (!canAccessParty(caller, meta.partyId)) {
+        await audit.record({
+          ...entry,
+          outcome: "failure",
+          detail: `attachment ${attachmentId}: caller not allowed to access party`,
+        });
+        throw new ApiError("FORBIDDEN", `Not allowed to access record: ${id}`);
+      }
+
+      // Attachments go with their record once it expires
+      const record = await store.get(id);
+      if (record && isExpired(record)) {
+        throw new ApiError("EXPIRED", `Record expired: ${id}`);
+      }
+
+      // Attachments from before party keys existed are wrapped under the master key
+      const keys =
+        meta.key_scope === "party" ? await partyKeys(opts.partyKeys, getKeyProvider(), meta.partyId) : getKeyProvider();
+      const decrypted = createDecryptStream(keys, { id: attachmentId, partyId: meta.partyId });
+      const content = attachments.readContent(attachmentId);
+      content.on("error", (err) => decrypted.destroy(err));
+      content.pipe(decrypted);
+
+      // Outcome is only known once the last chunk has been authenticated
+      finished(decrypted).then(
+        () => audit.record({ ...entry, outcome: "success", detail: `attachment ${attachmentId}` }),
+        async (err: Error) => {
+          request.log.warn(
+            {
+              event: "attachment_decryption_failure",
+              txId: id,
+              attachmentId,
+              caller: caller.id,
+              ip: request.ip,
+              mk_version: meta.mk_version,
+              timestamp: new Date().toISOString(),
+              error: err.message,
+            },
+            "Decryption failed for attachment"
+          );
+          await audit.record({ ...entry, outcome: "failure", detail: `attachment ${attachmentId}: ${err.message}` });
+        }
+      ).catch((err) => request.log.error({ err }, "Failed to audit attachment download"));
+
+      return reply
+        .type(meta.contentType)
+        .header("content-disposition", contentDisposition(meta.filename))
+        .send(decrypted);
+    }
+  );
+}
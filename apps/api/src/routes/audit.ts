@@ -0,0 +1,113 @@
+/**
+ * Audit log routes for the Fastify API.
+ *
+ * GET /audit        — List audit entries in seq order (paged by afterSeq/limit)
+ * GET /audit/verify — Walk the whole HMAC chain and report whether it is intact
+ *
+ * Both routes require an admin API key (see ../auth.ts).
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { type ApiKey, createAuthHook, requireAdmin } from "../auth.js";
+import type { AuditLog } from "../audit.js";
+import { ApiError } from "../errors.js";
+import { errors, ref } from "../openapi.js";
+
+// ----- Request/Response schemas -----
+
+interface AuditQuery {
+  afterSeq?: string;
+  limit?: string;
+}
+
+const listSchema = {
+  tags: ["audit"],
+  summary: "List audit entries in seq order",
+  querystring: {
+    type: "object",
+    properties: {
+      afterSeq: { type: "string", description: "Only entries with a greater seq (default 0)" },
+      limit: { type: "string", description: "1-1000 (default 100)" },
+    },
+  },
+  response: { 200: { type: "array", items: ref("AuditEntry") }, ...errors(400, 401, 403) },
+} as const;
+
+const verifySchema = {
+  tags: ["audit"],
+  summary: "Verify the whole audit HMAC chain",
+  response: {
+    200: {
+      type: "object",
+      required: ["valid", "entries"],
+      description: "headSeq and headMac when valid; brokenAt and reason when not",
+      properties: {
+        valid: { type: "boolean" },
+        entries: { type: "integer" },
+        headSeq: { type: "integer" },
+        headMac: { type: "string" },
+        brokenAt: { type: "integer" },
+        reason: { type: "string" },
+      },
+    },
+    ...errors(401, 403),
+  },
+} as const;
+
+export interface AuditRoutesOptions {
+  audit: AuditLog;
+  apiKeys: readonly ApiKey[];
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// ----- Route registration -----
+
+export async function auditRoutes(app: FastifyInstance, opts: AuditRoutesOptions): Promise<void> {
+  const { audit } = opts;
+
+  // The audit trail is restricted to authenticated admin callers
+  app.addHook("onRequest", createAuthHook(opts.apiKeys));
+  app.addHook("onRequest", requireAdmin());
+
+  /**
+   * GET /audit
+   *
+   * Returns up to `limit` entries (default 100, max 1000) with seq > `afterSeq`.
+   * Pass the last returned seq as `afterSeq` to fetch the next page.
+   */
+  app.get<{ Querystring: AuditQuery }>(
+    "/audit",
+    { schema: listSchema },
+    async (request: FastifyRequest<{ Querystring: AuditQuery }>, reply: FastifyReply) => {
+      const afterSeq = Number(request.query.afterSeq ?? 0);
+      const limit = Number(request.query.limit ?? DEFAULT_LIMIT);
+
+      // Input validation
+      if (!Number.isInteger(afterSeq) || afterSeq < 0) {
+        throw new ApiError("INVALID_REQUEST", "afterSeq must be a non-negative integer");
+      }
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw new ApiError("INVALID_REQUEST", `limit must be an integer between 1 and ${MAX_LIMIT}`);
+      }
+
+      return reply.send(await audit.list({ afterSeq, limit }));
+    }
+  );
+
+  /**
+   * GET /audit/verify
+   *
+   * Verifies every MAC and link in the chain. Returns the head (seq + mac)
+   * when intact, or the first broken seq and the reason when not.
+   */
+  app.get(
+    "/audit/verify",
+    { schema: verifySchema },
+    async (_request, reply) => {
+      return reply.send(await audit.verify());
+    }
+  );
+}
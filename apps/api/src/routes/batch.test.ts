@@ -0,0 +1,140 @@
+/**
+ * Batch Route Tests
+ * ==================
+ *
+ * Exercises the batch routes through app.inject() with an in-memory store.
+ *
+ * Tests cover:
+ *   1. Batch encrypt stores valid items and reports invalid or forbidden ones per item
+ *   2. Batch decrypt returns payloads per item, with 404 / 403 / 400 items alongside
+ *   3. Each item is audited like a single-item call
+ *   4. Empty and oversized batches are rejected as a whole (400)
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import { buildApp } from "../app.js";
+import { readApiKeys } from "../auth.js";
+import { createMemoryStorage, type Storage } from "../store/index.js";
+import { MAX_BATCH_DECRYPT_ITEMS } from "./batch.js";
+
+// ----- Test setup -----
+
+const PARTY_A_KEY = "party-a-secret";
+const PARTY_B_KEY = "party-b-secret";
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([
+    { id: "client-a", key: PARTY_A_KEY, parties: ["party_a"] },
+    { id: "client-b", key: PARTY_B_KEY, parties: ["party_b"] },
+  ]),
+});
+
+function auth(key: string) {
+  return { authorization: `Bearer ${key}` };
+}
+
+// ----- Tests -----
+
+describe("Batch routes", () => {
+  let app: FastifyInstance;
+  let storage: Storage;
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    storage = createMemoryStorage();
+    app = await buildApp({ storage, apiKeys, auditKey: randomBytes(32), logger: false });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("should encrypt and decrypt batches with per-item results", async () => {
+    const encrypted = await app.inject({
+      method: "POST",
+      url: "/tx/batch/encrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: {
+        items: [
+          { partyId: "party_a", payload: { amount: 1 } },
+          { partyId: "party_a", payload: "not an object" },
+          { partyId: "party_b", payload: { amount: 3 } },
+          { partyId: "party_a", payload: { amount: 4, currency: "AED" }, fields: { currency: "clear" } },
+        ],
+      },
+    });
+    assert.equal(encrypted.statusCode, 200);
+
+    const { results, succeeded, failed } = encrypted.json();
+    assert.deepEqual(
+      results.map((result: { index: number; status: number }) => [result.index, result.status]),
+      [[0, 201], [1, 400], [2, 403], [3, 201]]
+    );
+    assert.equal(succeeded, 2);
+    assert.equal(failed, 2);
+    assert.match(results[1].error, /payload is required/);
+
+    const ids = [results[0].record.id, results[3].record.id];
+    assert.equal((await storage.tx.list()).length, 2);
+
+    const foreign = await app.inject({
+      method: "POST",
+      url: "/tx/batch/encrypt",
+      headers: auth(PARTY_B_KEY),
+      payload: { items: [{ partyId: "party_b", payload: { amount: 5 } }] },
+    });
+    const foreignId = foreign.json().results[0].record.id;
+
+    const decrypted = await app.inject({
+      method: "POST",
+      url: "/tx/batch/decrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: {
+        items: [
+          { id: ids[0] },
+          { id: ids[1], fields: ["currency"] },
+          { id: "missing" },
+          { id: foreignId },
+          { id: ids[0], fields: [] },
+        ],
+      },
+    });
+    assert.equal(decrypted.statusCode, 200);
+
+    const decryptResults = decrypted.json().results;
+    assert.deepEqual(
+      decryptResults.map((result: { status: number }) => result.status),
+      [200, 200, 404, 403, 400]
+    );
+    assert.deepEqual(decryptResults[0].payload, { amount: 1 });
+    assert.deepEqual(decryptResults[1].payload, { currency: "AED" });
+    assert.equal(decryptResults[3].payload, undefined);
+
+    // One audit entry per attempted item
+    const entries = await storage.audit.list();
+    assert.equal(entries.filter((entry) => entry.event === "encrypt").length, 3);
+    assert.equal(entries.filter((entry) => entry.event === "decrypt").length, 3);
+  });
+
+  it("should reject empty and oversized batches", async () => {
+    const empty = await app.inject({
+      method: "POST",
+      url: "/tx/batch/encrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: { items: [] },
+    });
+    assert.equal(empty.statusCode, 400);
+
+    const oversized = await app.inject({
+      method: "POST",
+      url: "/tx/batch/decrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: { items: Array.from({ length: MAX_BATCH_DECRYPT_ITEMS + 1 }, () => ({ id: "x" })) },
+    });
+    assert.equal(oversized.statusCode, 400);
+    assert.match(oversized.json().error, /at most 20 items/);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Batch transaction routes for the Fastify API.
+ *
+ * POST /tx/batch/encrypt — Encrypt & store up to 500 payloads in one request
+ * POST /tx/batch/decrypt — Decrypt up to 20 stored records in one request (rate-limited)
+ *
+ * Each item goes through the same operation as its single-item route (see
+ * ../operations.ts): the same validation, authorization, logging and one
+ * audit entry per item. Items succeed or fail independently — the response
+ * is 200 with one result per item, in request order, carrying the status
+ * the single-item route would have answered with:
+ *
+ *   { results: [{ index, status, ... }], succeeded, failed }
+ *
+ * Only a malformed batch as a whole (not an array, empty, or too many
+ * items) is rejected with 400.
+ *
+ * Rate limiting: the route limiter counts requests, not items, so each
+ * batch route has its own per-caller limit and a cap on items per batch.
+ * Decrypt is the sensitive direction, so each of its items also counts
+ * against the same per-caller and per-party decrypt limits as a single
+ * decrypt (DecryptGuard, see ../limits.ts): items over a limit, or of a
+ * record the caller is locked out of, fail with 429. A batch therefore
+ * decrypts no more records per minute than single requests would. The
+ * default limits leave room for one full batch of a single party's records.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import type { BlindIndexOptions, SigningKeyRegistry } from "@repo/crypto";
+import { type ApiKey, createAuthHook } from "../auth.js";
+import type { AuditLog } from "../audit.js";
+import type { DecryptGuard } from "../limits.js";
+import {
+  type EncryptRequest,
+  decryptTransaction,
+  encryptTransaction,
+  failureBody,
+  invalidFieldSelection,
+} from "../operations.js";
+import { ApiError } from "../errors.js";
+import { errors, ref } from "../openapi.js";
+import type { RetentionPolicies } from "../retention.js";
+import type { SchemaRegistry } from "../schemas.js";
+import type { PartyKeyStore, TxStore } from "../store/index.js";
+
+// ----- Request/Response schemas -----
+
+interface BatchEncryptBody {
+  items: Partial<EncryptRequest>[];
+}
+
+interface BatchDecryptItem {
+  id: string;
+  fields?: string[];
+}
+
+interface BatchDecryptBody {
+  items: Partial<BatchDecryptItem>[];
+}
+
+/** Items are checked one by one by the handler, so the body schema only requires objects */
+function batchBodySchema(description: string) {
+  return {
+    type: "object",
+    required: ["items"],
+    properties: { items: { type: "array", items: { type: "object", additionalProperties: true, description } } },
+  } as const;
+}
+
+/** { results, succeeded, failed }, with `properties` on successful results */
+function batchResponseSchema(properties: Record<string, unknown>) {
+  return {
+    type: "object",
+    required: ["results", "succeeded", "failed"],
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["index", "status"],
+          properties: {
+            index: { type: "integer" },
+            status: { type: "integer", description: "Status the single-item route would have answered with" },
+            ...properties,
+            error: { type: "string" },
+            code: { type: "string", description: "Error code, as in ErrorResponse" },
+            violations: { type: "array", items: ref("SchemaViolation") },
+          },
+        },
+      },
+      succeeded: { type: "integer" },
+      failed: { type: "integer" },
+    },
+  } as const;
+}
+
+const batchEncryptSchema = {
+  tags: ["batch"],
+  summary: "Encrypt and store up to 500 payloads",
+  body: batchBodySchema("An EncryptRequest, as for POST /tx/encrypt"),
+  response: { 200: batchResponseSchema({ record: ref("TxSecureRecord") }), ...errors(400, 401, 429) },
+} as const;
+
+const batchDecryptSchema = {
+  tags: ["batch"],
+  summary: "Decrypt up to 20 stored records",
+  body: batchBodySchema("{ id, fields? }, as for POST /tx/:id/decrypt"),
+  response: {
+    200: batchResponseSchema({
+      id: { type: "string" },
+      payload: { type: "object", additionalProperties: true },
+      signature: ref("SignatureVerification"),
+    }),
+    ...errors(400, 401, 429),
+  },
+} as const;
+
+export interface BatchRoutesOptions {
+  store: TxStore;
+  audit: AuditLog;
+  apiKeys: readonly ApiKey[];
+  partyKeys: PartyKeyStore;
+  blindIndex?: BlindIndexOptions;
+  retention?: RetentionPolicies;
+  schemas?: SchemaRegistry;
+  decryptGuard?: DecryptGuard;
+  signing?: SigningKeyRegistry;
+}
+
+export const MAX_BATCH_ENCRYPT_ITEMS = 500;
+export const MAX_BATCH_DECRYPT_ITEMS = 20;
+
+/** Room for a full encrypt batch of typical payloads (Fastify's default is 1 MiB) */
+const BATCH_BODY_LIMIT = 10 * 1024 * 1024;
+
+type ItemResult = { index: number; status: number } & Record<string, unknown>;
+
+// ----- Helpers -----
+
+/**
+ * Check that a batch body holds 1..max items.
+ *
+ * @returns an error message, or undefined if the batch is well-formed
+ */
+function invalidBatch(body: { items?: unknown } | undefined, max: number): string | undefined {
+  const items = body?.items;
+  if (!Array.isArray(items) || items.length === 0) {
+    return "items is required and must be a non-empty array";
+  }
+  if (items.length > max) {
+    return `A batch may hold at most ${max} items, got ${items.length}`;
+  }
+  return undefined;
+}
+
+function batchResponse(results: ItemResult[]) {
+  const succeeded = results.filter((result) => result.status < 400).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
+
+// ----- Route registration -----
+
+export async function batchRoutes(app: FastifyInstance, opts: BatchRoutesOptions): Promise<void> {
+  // Batch routes require an authenticated caller, like the single-item routes
+  app.addHook("onRequest", createAuthHook(opts.apiKeys));
+
+  /**
+   * POST /tx/batch/encrypt
+   *
+   * Body: { items: [{ partyId, payload, alg?, context?, fields? }, ...] }
+   * Each successful item returns { index, status: 201, record }.
+   */
+  app.post<{ Body: BatchEncryptBody }>(
+    "/tx/batch/encrypt",
+    {
+      schema: batchEncryptSchema,
+      bodyLimit: BATCH_BODY_LIMIT,
+      config: {
+        rateLimit: {
+          max: 30,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: BatchEncryptBody }>, reply: FastifyReply) => {
+      const invalid = invalidBatch(request.body, MAX_BATCH_ENCRYPT_ITEMS);
+      if (invalid) {
+        throw new ApiError("INVALID_REQUEST", invalid);
+      }
+
+      const results: ItemResult[] = [];
+      for (const [index, item] of request.body.items.entries()) {
+        const result = await encryptTransaction(opts, request, item);
+        results.push(
+          result.ok
+            ? { index, status: result.status, record: result.value }
+            : { index, status: result.status, ...failureBody(result) }
+        );
+      }
+
+      return reply.send(batchResponse(results));
+    }
+  );
+
+  /**
+   * POST /tx/batch/decrypt
+   *
+   * Body: { items: [{ id, fields? }, ...] }
+   * Each successful item returns { index, status: 200, id, partyId, payload }.
+   * Sensitive payloads are never logged.
+   */
+  app.post<{ Body: BatchDecryptBody }>(
+    "/tx/batch/decrypt",
+    {
+      schema: batchDecryptSchema,
+      config: {
+        rateLimit: {
+          max: 5,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: BatchDecryptBody }>, reply: FastifyReply) => {
+      const invalid = invalidBatch(request.body, MAX_BATCH_DECRYPT_ITEMS);
+      if (invalid) {
+        throw new ApiError("INVALID_REQUEST", invalid);
+      }
+
+      const results: ItemResult[] = [];
+      for (const [index, item] of request.body.items.entries()) {
+        const id = item?.id;
+        if (!id || typeof id !== "string") {
+          results.push({ index, status: 400, code: "INVALID_REQUEST", error: "id is required and must be a string" });
+          continue;
+        }
+
+        const invalidFields = invalidFieldSelection(item.fields);
+        if (invalidFields) {
+          results.push({ index, id, status: 400, code: "INVALID_REQUEST", error: invalidFields });
+          continue;
+        }
+
+        const result = await decryptTransaction(opts, request, id, item.fields);
+        results.push(
+          result.ok
+            ? { index, status: result.status, ...result.value }
+            : { index, id, status: result.status, ...failureBody(result) }
+        );
+      }
+
+      return reply.send(batchResponse(results));
+    }
+  );
+}
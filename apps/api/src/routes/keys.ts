@@ -0,0 +1,246 @@
+/**
+ * Master key management routes for the Fastify API.
+ *
+ * GET  /keys/status — Master key versions with their state, validity window and
+ *                     fingerprint, the active version, and record counts per version
+ * POST /keys/rotate — Re-wrap stored DEKs to the active (or a given) key version
+ *
+ * Rotation never decrypts payloads: only the wrapped DEK and mk_version of
+ * each record change. Runs are resumable — pass `limit` to migrate a large
+ * store in several smaller calls, passing each response's `nextCursor` back
+ * as `cursor` until none is returned, and watch `remaining` reach zero before
+ * removing an old MASTER_KEY_V* from the environment. Only a version that may
+ * encrypt now (see MASTER_KEY_CONFIG in ../keys.ts) can be a rotation target.
+ *
+ * Both routes require an admin API key (see ../auth.ts). Every re-wrap is
+ * recorded in the audit log.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { type KeyProvider, assertKeyUsable, isCryptoError } from "@repo/crypto";
+import { getKeyProvider } from "../keys.js";
+import { type ApiKey, createAuthHook, getCaller, requireAdmin } from "../auth.js";
+import type { AuditLog } from "../audit.js";
+import { countByVersion, rotateRecords } from "../rotation.js";
+import { decodeCursor, encodeCursor } from "../pagination.js";
+import { ApiError } from "../errors.js";
+import { errors, optionalBody } from "../openapi.js";
+import type { PartyKeyStore, TxStore } from "../store/index.js";
+
+// ----- Request/Response schemas -----
+
+interface RotateBody {
+  targetVersion?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+/** Record counts keyed by master key version */
+const versionCounts = { type: "object", additionalProperties: { type: "integer" } } as const;
+
+const keyMetadataSchema = {
+  type: "object",
+  required: ["version", "state", "fingerprint"],
+  properties: {
+    version: { type: "integer" },
+    state: { type: "string", enum: ["active", "decrypt-only", "revoked"] },
+    notBefore: { type: "string", format: "date-time" },
+    notAfter: { type: "string", format: "date-time" },
+    fingerprint: { type: "string", description: "Key checksum, safe to compare and log" },
+  },
+} as const;
+
+const statusSchema = {
+  tags: ["keys"],
+  summary: "Master key versions, their states and record counts per version",
+  response: {
+    200: {
+      type: "object",
+      required: ["provider", "activeVersion", "availableVersions", "keys", "records"],
+      properties: {
+        provider: { type: "string" },
+        activeVersion: {
+          type: ["integer", "null"],
+          description: "Version new records are encrypted under; null if no key may encrypt now",
+        },
+        availableVersions: { type: "array", items: { type: "integer" } },
+        keys: {
+          type: "array",
+          items: keyMetadataSchema,
+          description: "Metadata per version, for providers that track it",
+        },
+        records: versionCounts,
+      },
+    },
+    ...errors(401, 403),
+  },
+} as const;
+
+const rotateSchema = {
+  tags: ["keys"],
+  summary: "Re-wrap stored DEKs to the active (or a given) master key version",
+  body: {
+    type: "object",
+    properties: {
+      targetVersion: { type: "integer" },
+      limit: { type: "integer", description: "Most records to process in this call" },
+      cursor: { type: "string", description: "nextCursor from the previous call" },
+    },
+  },
+  response: {
+    200: {
+      type: "object",
+      required: ["targetVersion", "rewrapped", "failed", "versions", "remaining"],
+      properties: {
+        targetVersion: { type: "integer" },
+        rewrapped: { type: "integer" },
+        failed: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["id", "mk_version", "error"],
+            properties: { id: { type: "string" }, mk_version: { type: "integer" }, error: { type: "string" } },
+          },
+        },
+        versions: versionCounts,
+        remaining: { type: "integer" },
+        nextCursor: {
+          type: "string",
+          description: "Pass as `cursor` to continue after this call's records; absent once the end is reached",
+        },
+      },
+    },
+    ...errors(400, 401, 403, 503),
+  },
+} as const;
+
+export interface KeyRoutesOptions {
+  store: TxStore;
+  audit: AuditLog;
+  apiKeys: readonly ApiKey[];
+  partyKeys: PartyKeyStore;
+}
+
+/** Log rotation progress every N records */
+const PROGRESS_LOG_INTERVAL = 100;
+
+// ----- Helpers -----
+
+/** The active version, or null while no master key may encrypt */
+function activeVersionOf(keys: KeyProvider): number | null {
+  try {
+    return keys.latestVersion();
+  } catch (err) {
+    if (isCryptoError(err) && err.code === "KEY_NOT_ACTIVE") {
+      return null;
+    }
+    throw err;
+  }
+}
+
+// ----- Route registration -----
+
+export async function keyRoutes(app: FastifyInstance, opts: KeyRoutesOptions): Promise<void> {
+  const { store, audit } = opts;
+
+  // Key management is restricted to authenticated admin callers
+  app.addHook("onRequest", createAuthHook(opts.apiKeys));
+  app.addHook("onRequest", requireAdmin());
+
+  /**
+   * GET /keys/status
+   *
+   * Reports which master key versions are loaded with their state,
+   * validity window and fingerprint, which one new records are encrypted
+   * with, and how many stored records use each version.
+   */
+  app.get(
+    "/keys/status",
+    { schema: statusSchema },
+    async (_request, reply) => {
+      const keys = getKeyProvider();
+
+      const versions = keys.versions();
+
+      return reply.send({
+        provider: keys.name,
+        activeVersion: activeVersionOf(keys),
+        availableVersions: versions,
+        keys: versions.flatMap((version) => keys.keyMetadata?.(version) ?? []),
+        records: countByVersion(await store.list()),
+      });
+    }
+  );
+
+  /**
+   * POST /keys/rotate
+   *
+   * Re-wraps every record not yet on the target version (default: the
+   * active one), which must be a version that may encrypt now.
+   * Optional `limit` caps how many records are processed in this call, and
+   * `cursor` continues where the previous call stopped.
+   * Progress is logged; the response reports the outcome and what remains.
+   */
+  app.post<{ Body: RotateBody }>(
+    "/keys/rotate",
+    { schema: rotateSchema, preValidation: optionalBody },
+    async (request: FastifyRequest<{ Body: RotateBody }>, reply: FastifyReply) => {
+      const { targetVersion, limit, cursor } = request.body ?? {};
+      const keys = getKeyProvider();
+
+      // Input validation
+      if (targetVersion !== undefined && !keys.versions().includes(targetVersion)) {
+        throw new ApiError(
+          "INVALID_REQUEST",
+          `targetVersion must be one of the loaded master key versions: ${keys.versions().join(", ")}`
+        );
+      }
+
+      const target = targetVersion !== undefined ? keys.keyMetadata?.(targetVersion) : undefined;
+      try {
+        if (target) assertKeyUsable(target, "encrypt");
+      } catch (err) {
+        throw new ApiError("INVALID_REQUEST", `targetVersion: ${(err as Error).message}`);
+      }
+
+      if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+        throw new ApiError("INVALID_REQUEST", "limit must be a positive integer");
+      }
+
+      let after;
+      try {
+        after = cursor !== undefined ? decodeCursor(cursor) : undefined;
+      } catch (err) {
+        throw new ApiError("INVALID_REQUEST", (err as Error).message);
+      }
+
+      const report = await rotateRecords(store, keys, {
+        targetVersion,
+        limit,
+        after,
+        audit,
+        actor: getCaller(request).id,
+        partyKeys: opts.partyKeys,
+        onProgress: ({ processed, total, lastId }) => {
+          if (processed % PROGRESS_LOG_INTERVAL === 0 || processed === total) {
+            request.log.info(
+              { event: "key_rotation_progress", processed, total, lastId },
+              "Key rotation progress"
+            );
+          }
+        },
+      });
+
+      // Failures usually mean tampered records — log ids and versions, never payloads
+      if (report.failed.length > 0) {
+        request.log.warn(
+          { event: "key_rotation_failures", failed: report.failed },
+          "Some records could not be re-wrapped"
+        );
+      }
+
+      const { nextCursor, ...rest } = report;
+      return reply.send({ ...rest, ...(nextCursor ? { nextCursor: encodeCursor(nextCursor) } : {}) });
+    }
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * Party Route Tests
+ * ==================
+ *
+ * Exercises DELETE /parties/:partyId through app.inject() with an in-memory store.
+ *
+ * Tests cover:
+ *   1. Only admin callers may erase a party (403 otherwise)
+ *   2. Erasure destroys the party's keys, so copies of its records and
+ *      attachments no longer decrypt, and removes them with a report of ids
+ *   3. Records wrapped under the master key are reported as deleted only
+ *   4. Other parties are untouched; a shredded party can start over with a new key
+ *   5. Erasing a party with no keys or records replies 404
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { FastifyInstance } from "fastify";
+import { buildKeyRegistry, createDecryptStream, envelopeDecrypt, envelopeEncrypt } from "@repo/crypto";
+import { buildApp } from "../app.js";
+import { readApiKeys } from "../auth.js";
+import { getKeyProvider } from "../keys.js";
+import { partyKeys, recordKeys } from "../party-keys.js";
+import { createMemoryStorage, type Storage } from "../store/index.js";
+
+// ----- Test setup -----
+
+const ADMIN_KEY = "admin-secret";
+const PARTY_A_KEY = "party-a-secret";
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([
+    { id: "admin", key: ADMIN_KEY, parties: ["*"], admin: true },
+    { id: "client-a", key: PARTY_A_KEY, parties: ["party_a"] },
+  ]),
+});
+
+function auth(key: string) {
+  return { authorization: `Bearer ${key}` };
+}
+
+// ----- Tests -----
+
+describe("Party routes", () => {
+  let app: FastifyInstance;
+  let storage: Storage;
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    storage = createMemoryStorage();
+    app = await buildApp({ storage, apiKeys, auditKey: randomBytes(32), logger: false });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  async function encrypt(partyId: string, key = ADMIN_KEY): Promise<string> {
+    const response = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(key),
+      payload: { partyId, payload: { amount: 100 } },
+    });
+    assert.equal(response.statusCode, 201);
+    return response.json().id;
+  }
+
+  it("should crypto-shred a party and report the affected ids", async () => {
+    const shreddedIds = [await encrypt("party_a"), await encrypt("party_a", PARTY_A_KEY)];
+    const otherId = await encrypt("party_b");
+
+    // A record from before party keys, wrapped directly under the master key
+    const legacy = envelopeEncrypt(buildKeyRegistry(process.env), "tx-legacy", "party_a", { amount: 1 });
+    await storage.tx.put(legacy);
+
+    const boundary = "----erasure";
+    const uploaded = await app.inject({
+      method: "POST",
+      url: `/tx/${shreddedIds[0]}/attachments`,
+      headers: { ...auth(PARTY_A_KEY), "content-type": `multipart/form-data; boundary=${boundary}` },
+      payload:
+        `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="receipt.txt"\r\n` +
+        `Content-Type: text/plain\r\n\r\npaid in full\r\n--${boundary}--\r\n`,
+    });
+    assert.equal(uploaded.statusCode, 201);
+    const attachment = uploaded.json();
+    assert.equal(attachment.key_scope, "party");
+
+    // Backup copies taken before erasure
+    const backup = (await storage.tx.get(shreddedIds[0]))!;
+    assert.equal(backup.key_scope, "party");
+    const chunks: Buffer[] = [];
+    for await (const chunk of storage.attachments.readContent(attachment.id)) chunks.push(chunk);
+
+    const forbidden = await app.inject({ method: "DELETE", url: "/parties/party_a", headers: auth(PARTY_A_KEY) });
+    assert.equal(forbidden.statusCode, 403);
+
+    const response = await app.inject({ method: "DELETE", url: "/parties/party_a", headers: auth(ADMIN_KEY) });
+    assert.equal(response.statusCode, 200);
+
+    const report = response.json();
+    assert.equal(report.partyId, "party_a");
+    assert.equal(report.keysDestroyed, 1);
+    assert.deepEqual([...report.shredded].sort(), [...shreddedIds].sort());
+    assert.deepEqual(report.deletedOnly, ["tx-legacy"]);
+    assert.deepEqual(report.attachments, [attachment.id]);
+
+    // Nothing of party_a is left, and the backup copy no longer decrypts
+    assert.equal((await storage.tx.query({ partyIds: ["party_a"], limit: 10 })).length, 0);
+    assert.equal(await storage.attachments.get(attachment.id), undefined);
+    assert.deepEqual(await storage.partyKeys.list("party_a"), []);
+    const keys = await recordKeys(storage.partyKeys, getKeyProvider(), backup);
+    assert.throws(() => envelopeDecrypt(keys, backup), /No key for party "party_a"/);
+    const shreddedKeys = await partyKeys(storage.partyKeys, getKeyProvider(), "party_a");
+    await assert.rejects(
+      pipeline(Readable.from(chunks), createDecryptStream(shreddedKeys, { id: attachment.id, partyId: "party_a" })),
+      /No key for party "party_a"/
+    );
+
+    // Other parties are untouched
+    assert.ok(await storage.tx.get(otherId));
+    assert.equal((await storage.partyKeys.list("party_b")).length, 1);
+
+    const entries = await storage.audit.list();
+    const shred = entries.find((entry) => entry.event === "shred");
+    assert.equal(shred?.partyId, "party_a");
+    assert.equal(shred?.actor, "admin");
+  });
+
+  it("should start a shredded party over with a new key and 404 when there is nothing to erase", async () => {
+    const missing = await app.inject({ method: "DELETE", url: "/parties/nobody", headers: auth(ADMIN_KEY) });
+    assert.equal(missing.statusCode, 404);
+
+    const id = await encrypt("party_a");
+    const decrypted = await app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: auth(PARTY_A_KEY) });
+    assert.equal(decrypted.statusCode, 200);
+    assert.deepEqual(decrypted.json().payload, { amount: 100 });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Party routes for the Fastify API.
+ *
+ * DELETE /parties/:partyId — Crypto-shred a party: destroy its keys and remove its data
+ *
+ * Every record and attachment a party writes has its DEK wrapped under the
+ * party's own key (see ../party-keys.ts). Destroying those keys makes them
+ * permanently undecryptable wherever copies of them live — backups,
+ * replicas, the append-only jsonl log — without having to find them.
+ *
+ * The party's records and attachments are then removed from live storage
+ * as well. Records and attachments from before party keys existed are
+ * wrapped directly under the master key and cannot be shredded; they are
+ * deleted too, and such records are reported separately, since copies
+ * elsewhere remain decryptable.
+ *
+ * The time of erasure is kept (see PartyKeyStore.shreddedAt): importing an
+ * archive taken before it leaves the party's keys and records out (see
+ * ../archive.ts).
+ *
+ * Erasure cannot be undone, so the route requires an admin API key (see
+ * ../auth.ts) and is audited. Repeating it for the same party is safe and
+ * removes anything written since.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { type ApiKey, createAuthHook, getCaller, requireAdmin } from "../auth.js";
+import type { AuditLog } from "../audit.js";
+import { ApiError } from "../errors.js";
+import { errors } from "../openapi.js";
+import type { AttachmentStore, PartyKeyStore, TxStore } from "../store/index.js";
+
+// ----- Request/Response schemas -----
+
+interface PartyParam {
+  partyId: string;
+}
+
+export interface PartyRoutesOptions {
+  store: TxStore;
+  attachments: AttachmentStore;
+  partyKeys: PartyKeyStore;
+  audit: AuditLog;
+  apiKeys: readonly ApiKey[];
+}
+
+/** What DELETE /parties/:partyId did */
+export interface ShredReport {
+  partyId: string;
+
+  /** Party keys destroyed (one per master key version the party used) */
+  keysDestroyed: number;
+
+  /** Records wrapped under the party's keys — undecryptable everywhere, and removed */
+  shredded: string[];
+
+  /** Records wrapped under a master key — removed, but copies elsewhere still decrypt */
+  deletedOnly: string[];
+
+  /** Attachments of the party's records, removed with their encrypted content */
+  attachments: string[];
+}
+
+const idList = { type: "array", items: { type: "string" } } as const;
+
+const shredSchema = {
+  tags: ["parties"],
+  summary: "Crypto-shred a party: destroy its keys and remove its data",
+  params: {
+    type: "object",
+    required: ["partyId"],
+    properties: { partyId: { type: "string" } },
+  },
+  response: {
+    200: {
+      type: "object",
+      required: ["partyId", "keysDestroyed", "shredded", "deletedOnly", "attachments"],
+      properties: {
+        partyId: { type: "string" },
+        keysDestroyed: { type: "integer" },
+        shredded: idList,
+        deletedOnly: idList,
+        attachments: idList,
+      },
+    },
+    ...errors(401, 403, 404),
+  },
+} as const;
+
+// ----- Route registration -----
+
+export async function partyRoutes(app: FastifyInstance, opts: PartyRoutesOptions): Promise<void> {
+  const { store, attachments, partyKeys, audit } = opts;
+
+  // Erasure is restricted to authenticated admin callers
+  app.addHook("onRequest", createAuthHook(opts.apiKeys));
+  app.addHook("onRequest", requireAdmin());
+
+  /**
+   * DELETE /parties/:partyId
+   *
+   * Destroys the party's keys first — that alone shreds its records — then
+   * deletes its records and their attachments, and reports the affected ids.
+   * Replies 404 if the party has neither keys nor records.
+   */
+  app.delete<{ Params: PartyParam }>(
+    "/parties/:partyId",
+    { schema: shredSchema },
+    async (request: FastifyRequest<{ Params: PartyParam }>, reply: FastifyReply) => {
+      const { partyId } = request.params;
+      const caller = getCaller(request);
+
+      const records = await store.query({ partyIds: [partyId], order: "asc", limit: Number.MAX_SAFE_INTEGER });
+      if (records.length === 0 && (await partyKeys.list(partyId)).length === 0) {
+        throw new ApiError("NOT_FOUND", `No keys or records for party: ${partyId}`);
+      }
+
+      // Also remembered, so importing an earlier archive cannot revive the party
+      const keysDestroyed = await partyKeys.destroy(partyId);
+
+      const report: ShredReport = { partyId, keysDestroyed, shredded: [], deletedOnly: [], attachments: [] };
+
+      for (const record of records) {
+        for (const meta of await attachments.listByTx(record.id)) {
+          await attachments.delete(meta.id);
+          report.attachments.push(meta.id);
+        }
+
+        await store.delete(record.id);
+        (record.key_scope === "party" ? report.shredded : report.deletedOnly).push(record.id);
+      }
+
+      request.log.info(
+        {
+          event: "party_shredded",
+          partyId,
+          caller: caller.id,
+          keysDestroyed,
+          shredded: report.shredded.length,
+          deletedOnly: report.deletedOnly.length,
+          attachments: report.attachments.length,
+        },
+        "Party keys destroyed and party data removed"
+      );
+
+      await audit.record({
+        event: "shred",
+        outcome: "success",
+        actor: caller.id,
+        partyId,
+        detail:
+          `${keysDestroyed} keys destroyed, ${report.shredded.length} records shredded, ` +
+          `${report.deletedOnly.length} deleted, ${report.attachments.length} attachments deleted`,
+      });
+
+      return reply.send(report);
+    }
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Payload Schema Route Tests
+ * ===========================
+ *
+ * Exercises the /schemas routes and typed encrypt requests through
+ * app.inject() with an in-memory store.
+ *
+ * Tests cover:
+ *   1. GET /schemas and GET /schemas/:type list and fetch registered schemas
+ *   2. A typed payload that matches its schema is encrypted, and the schema
+ *      reference is stored on the record
+ *   3. A typed payload that does not match is rejected with its violations,
+ *      individually within a batch
+ *   4. Unknown transaction types are rejected
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import { buildApp } from "../app.js";
+import { readApiKeys } from "../auth.js";
+import type { SchemaDefinition } from "../schemas.js";
+import { createMemoryStorage } from "../store/index.js";
+
+// ----- Test setup -----
+
+const PARTY_A_KEY = "party-a-secret";
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([{ id: "client-a", key: PARTY_A_KEY, parties: ["party_a"] }]),
+});
+
+const headers = { authorization: `Bearer ${PARTY_A_KEY}` };
+
+const PAYMENT: SchemaDefinition = {
+  type: "payment",
+  version: 1,
+  schema: {
+    type: "object",
+    required: ["amount", "currency"],
+    properties: {
+      amount: { type: "number" },
+      currency: { type: "string", pattern: "^[A-Z]{3}$" },
+    },
+  },
+};
+
+// ----- Tests -----
+
+describe("Payload schema routes", () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    app = await buildApp({
+      storage: createMemoryStorage(),
+      apiKeys,
+      auditKey: randomBytes(32),
+      payloadSchemas: [PAYMENT],
+      logger: false,
+    });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  it("should list and fetch registered schemas", async () => {
+    const unauthenticated = await app.inject({ method: "GET", url: "/schemas" });
+    assert.equal(unauthenticated.statusCode, 401);
+
+    const list = await app.inject({ method: "GET", url: "/schemas", headers });
+    assert.deepEqual(list.json(), { items: [PAYMENT] });
+
+    const latest = await app.inject({ method: "GET", url: "/schemas/payment", headers });
+    assert.deepEqual(latest.json(), PAYMENT);
+
+    const missing = await app.inject({ method: "GET", url: "/schemas/payment?version=2", headers });
+    assert.equal(missing.statusCode, 404);
+
+    const invalid = await app.inject({ method: "GET", url: "/schemas/payment?version=latest", headers });
+    assert.equal(invalid.statusCode, 400);
+  });
+
+  it("should store the schema reference on typed records", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers,
+      payload: { partyId: "party_a", type: "payment", payload: { amount: 10, currency: "AED" } },
+    });
+
+    assert.equal(res.statusCode, 201);
+    assert.deepEqual(res.json().payload_schema, { id: "payment", version: 1 });
+  });
+
+  it("should reject payloads that do not match their schema", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers,
+      payload: { partyId: "party_a", type: "payment", payload: { amount: "10", currency: "aed" } },
+    });
+
+    assert.equal(res.statusCode, 400);
+    assert.equal(res.json().error, "payload does not match schema payment v1");
+    assert.equal(res.json().code, "SCHEMA_VIOLATION");
+    assert.deepEqual(
+      res.json().violations.map((violation: { path: string }) => violation.path).sort(),
+      ["/amount", "/currency"]
+    );
+
+    const batch = await app.inject({
+      method: "POST",
+      url: "/tx/batch/encrypt",
+      headers,
+      payload: {
+        items: [
+          { partyId: "party_a", type: "payment", payload: { amount: 1, currency: "AED" } },
+          { partyId: "party_a", type: "payment", payload: { currency: "AED" } },
+        ],
+      },
+    });
+
+    const [ok, rejected] = batch.json().results;
+    assert.equal(ok.status, 201);
+    assert.equal(rejected.status, 400);
+    assert.equal(rejected.code, "SCHEMA_VIOLATION");
+    assert.deepEqual(rejected.violations, [{ path: "/amount", message: "must have required property 'amount'" }]);
+  });
+
+  it("should reject unknown transaction types", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers,
+      payload: { partyId: "party_a", type: "refund", payload: { amount: 10 } },
+    });
+
+    assert.equal(res.statusCode, 400);
+    assert.deepEqual(res.json(), { error: "Unknown transaction type: refund", code: "INVALID_REQUEST" });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Payload schema registry routes for the Fastify API.
+ *
+ * GET /schemas       — List every registered schema version
+ * GET /schemas/:type — Fetch a transaction type's latest schema, or ?version=N
+ *
+ * Lets clients discover which transaction `type`s POST /tx/encrypt accepts
+ * and what their payloads must look like. Schemas are loaded from
+ * PAYLOAD_SCHEMAS_DIR at startup (see ../schemas.ts); there is no route to
+ * change them. Any authenticated caller may read them.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { type ApiKey, createAuthHook } from "../auth.js";
+import { ApiError } from "../errors.js";
+import { errors, ref } from "../openapi.js";
+import type { SchemaRegistry } from "../schemas.js";
+
+// ----- Request/Response schemas -----
+
+interface TypeParam {
+  type: string;
+}
+
+interface VersionQuery {
+  version?: string;
+}
+
+export interface SchemaRoutesOptions {
+  schemas: SchemaRegistry;
+  apiKeys: readonly ApiKey[];
+}
+
+const listSchema = {
+  tags: ["schemas"],
+  summary: "List every registered payload schema version",
+  response: {
+    200: {
+      type: "object",
+      required: ["items"],
+      properties: { items: { type: "array", items: ref("SchemaDefinition") } },
+    },
+    ...errors(401),
+  },
+} as const;
+
+const getSchema = {
+  tags: ["schemas"],
+  summary: "Fetch a transaction type's latest payload schema, or a given version",
+  params: {
+    type: "object",
+    required: ["type"],
+    properties: { type: { type: "string" } },
+  },
+  querystring: {
+    type: "object",
+    properties: { version: { type: "string", description: "Positive integer (default: the latest)" } },
+  },
+  response: { 200: ref("SchemaDefinition"), ...errors(400, 401, 404) },
+} as const;
+
+// ----- Route registration -----
+
+export async function schemaRoutes(app: FastifyInstance, opts: SchemaRoutesOptions): Promise<void> {
+  const { schemas } = opts;
+
+  app.addHook("onRequest", createAuthHook(opts.apiKeys));
+
+  /**
+   * GET /schemas
+   *
+   * Returns { items: [{ type, version, schema }] }, by type then version.
+   */
+  app.get("/schemas", { schema: listSchema }, async () => ({ items: schemas.list() }));
+
+  /**
+   * GET /schemas/:type
+   *
+   * Returns the latest { type, version, schema } of a transaction type — the
+   * one new payloads are validated against — or the given ?version.
+   * Replies 404 if the type or version is not registered.
+   */
+  app.get<{ Params: TypeParam; Querystring: VersionQuery }>(
+    "/schemas/:type",
+    { schema: getSchema },
+    async (request: FastifyRequest<{ Params: TypeParam; Querystring: VersionQuery }>, reply: FastifyReply) => {
+      const { type } = request.params;
+      const version = request.query.version !== undefined ? Number(request.query.version) : undefined;
+
+      if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+        throw new ApiError("INVALID_REQUEST", "version must be a positive integer");
+      }
+
+      const definition = schemas.get(type, version);
+      if (!definition) {
+        const what = version !== undefined ? `${type} v${version}` : type;
+        throw new ApiError("NOT_FOUND", `No schema registered for ${what}`);
+      }
+
+      return reply.send(definition);
+    }
+  );
+}
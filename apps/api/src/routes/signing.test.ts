@@ -0,0 +1,186 @@
+/**
+ * Signing Route Tests
+ * ====================
+ *
+ * Exercises GET /signing-keys and signed records through app.inject() with
+ * in-memory stores.
+ *
+ * Tests cover:
+ *   1. GET /signing-keys is 501 without signing keys; with them it lists the
+ *      public keys to any caller, no API key needed
+ *   2. Encrypted records are signed and verify with the published keys alone,
+ *      and decrypt reports who signed them
+ *   3. A stored record whose signature no longer matches, or was stripped
+ *      from a record created since SIGNING_REQUIRED_FROM, fails to decrypt
+ *      with 422 INVALID_SIGNATURE
+ *   4. Turning signing on for a store of unsigned records keeps them
+ *      decryptable, while records written from then on must stay signed
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import { buildSigningKeyRegistry, generateSigningKey, verifyRecordSignature } from "@repo/crypto";
+import { buildApp } from "../app.js";
+import { readApiKeys } from "../auth.js";
+import { createMemoryStorage, type Storage } from "../store/index.js";
+
+// ----- Test setup -----
+
+const ADMIN_KEY = "admin-secret";
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([{ id: "admin", key: ADMIN_KEY, parties: ["*"], admin: true }]),
+});
+
+function auth(key: string) {
+  return { authorization: `Bearer ${key}` };
+}
+
+const PAYLOAD = { amount: 100, currency: "AED" };
+
+// V1 is retired to its public key; V2 signs new records
+const V1 = generateSigningKey();
+const V2 = generateSigningKey();
+const signing = buildSigningKeyRegistry({
+  SIGNING_PUBLIC_KEY_V1: V1.publicKey,
+  SIGNING_KEY_V2: V2.seed,
+  SIGNER_ID: "bank-a",
+  SIGNING_REQUIRED_FROM: "2024-01-01T00:00:00Z",
+})!;
+
+// ----- Tests -----
+
+describe("Signing routes", () => {
+  let app: FastifyInstance;
+  let storage: Storage;
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    storage = createMemoryStorage();
+    app = await buildApp({ storage, apiKeys, auditKey: randomBytes(32), signing, logger: false });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  async function encrypt(): Promise<string> {
+    const response = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(ADMIN_KEY),
+      payload: { partyId: "party_a", payload: PAYLOAD },
+    });
+    assert.equal(response.statusCode, 201);
+    return response.json().id;
+  }
+
+  it("should publish the signing public keys without authentication", async () => {
+    const response = await app.inject({ method: "GET", url: "/signing-keys" });
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(response.json(), {
+      signer: "bank-a",
+      activeKid: V2.kid,
+      keys: [
+        { kid: V1.kid, version: 1, signer: "bank-a", alg: "Ed25519", publicKey: V1.publicKey, active: false },
+        { kid: V2.kid, version: 2, signer: "bank-a", alg: "Ed25519", publicKey: V2.publicKey, active: true },
+      ],
+    });
+
+    const unsigned = await buildApp({
+      storage: createMemoryStorage(),
+      apiKeys,
+      auditKey: randomBytes(32),
+      logger: false,
+    });
+    const disabled = await unsigned.inject({ method: "GET", url: "/signing-keys" });
+    assert.equal(disabled.statusCode, 501);
+    assert.equal(disabled.json().code, "NOT_IMPLEMENTED");
+    await unsigned.close();
+  });
+
+  it("should sign encrypted records and report the signer on decrypt", async () => {
+    const id = await encrypt();
+
+    const fetched = await app.inject({ method: "GET", url: `/tx/${id}`, headers: auth(ADMIN_KEY) });
+    assert.equal(fetched.statusCode, 200);
+    assert.equal(fetched.json().signature.kid, V2.kid);
+
+    const published = (await app.inject({ method: "GET", url: "/signing-keys" })).json().keys;
+    const expected = { signer: "bank-a", kid: V2.kid, version: 2 };
+    assert.deepEqual(verifyRecordSignature(fetched.json(), published), expected);
+
+    const decrypted = await app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: auth(ADMIN_KEY) });
+    assert.equal(decrypted.statusCode, 200);
+    assert.deepEqual(decrypted.json().payload, PAYLOAD);
+    assert.deepEqual(decrypted.json().signature, expected);
+  });
+
+  it("should refuse to decrypt records whose signature does not verify", async () => {
+    const id = await encrypt();
+    const record = (await storage.tx.get(id))!;
+    await storage.tx.put({ ...record, signature: { ...record.signature!, sig: randomBytes(64).toString("hex") } });
+
+    const decrypted = await app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: auth(ADMIN_KEY) });
+    assert.equal(decrypted.statusCode, 422);
+    assert.equal(decrypted.json().code, "INVALID_SIGNATURE");
+    assert.equal(decrypted.json().error, "Stored record's signature could not be verified");
+  });
+
+  it("should refuse to decrypt records whose signature was stripped", async () => {
+    const id = await encrypt();
+    const stripped = { ...(await storage.tx.get(id))! };
+    delete stripped.signature;
+    await storage.tx.put(stripped);
+
+    const decrypted = await app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: auth(ADMIN_KEY) });
+    assert.equal(decrypted.statusCode, 422);
+    assert.equal(decrypted.json().code, "INVALID_SIGNATURE");
+  });
+
+  it("should keep unsigned records decryptable when signing is turned on later", async () => {
+    const upgraded = createMemoryStorage();
+    const auditKey = randomBytes(32);
+    const encryptWith = (target: FastifyInstance) =>
+      target.inject({
+        method: "POST",
+        url: "/tx/encrypt",
+        headers: auth(ADMIN_KEY),
+        payload: { partyId: "party_a", payload: PAYLOAD },
+      });
+    const decryptWith = (target: FastifyInstance, id: string) =>
+      target.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: auth(ADMIN_KEY) });
+
+    const before = await buildApp({ storage: upgraded, apiKeys, auditKey, logger: false });
+    const legacy = (await encryptWith(before)).json();
+    assert.equal(legacy.signature, undefined);
+    await before.close();
+
+    // Signing is turned on, with signatures required from now on
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const cutover = new Date().toISOString();
+    const after = await buildApp({
+      storage: upgraded,
+      apiKeys,
+      auditKey,
+      signing: buildSigningKeyRegistry({ SIGNING_KEY_V1: V2.seed, SIGNING_REQUIRED_FROM: cutover })!,
+      logger: false,
+    });
+    try {
+      const old = await decryptWith(after, legacy.id);
+      assert.equal(old.statusCode, 200);
+      assert.deepEqual(old.json().payload, PAYLOAD);
+      assert.equal(old.json().signature, undefined);
+
+      const { id } = (await encryptWith(after)).json();
+      const stripped = { ...(await upgraded.tx.get(id))! };
+      delete stripped.signature;
+      await upgraded.tx.put(stripped);
+      assert.equal((await decryptWith(after, id)).json().code, "INVALID_SIGNATURE");
+    } finally {
+      await after.close();
+    }
+  });
+});
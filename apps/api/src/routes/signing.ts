@@ -0,0 +1,75 @@
+/**
+ * Signing key routes for the Fastify API.
+ *
+ * GET /signing-keys — The public keys records are signed with
+ *
+ * Partners verify a record they received with @repo/crypto's
+ * verifyRecordSignature and the `keys` of this response, without any
+ * master key. Public keys are not secret, so the route needs no API key;
+ * it lists verify-only (retired) versions too, so older signatures stay
+ * checkable.
+ */
+
+import type { FastifyInstance, FastifyReply } from "fastify";
+import { type SigningKeyRegistry, signingPublicKeys } from "@repo/crypto";
+import { ApiError } from "../errors.js";
+import { errors } from "../openapi.js";
+
+// ----- Request/Response schemas -----
+
+const signingKeysSchema = {
+  tags: ["keys"],
+  summary: "Public keys of the record signer",
+  security: [],
+  response: {
+    200: {
+      type: "object",
+      required: ["signer", "keys"],
+      properties: {
+        signer: { type: "string" },
+        activeKid: { type: "string", description: "Key new records are signed with; absent if none signs" },
+        keys: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["kid", "version", "signer", "alg", "publicKey", "active"],
+            properties: {
+              kid: { type: "string" },
+              version: { type: "integer" },
+              signer: { type: "string" },
+              alg: { type: "string", enum: ["Ed25519"] },
+              publicKey: { type: "string", description: "Raw 32-byte Ed25519 public key, hex-encoded" },
+              active: { type: "boolean" },
+            },
+          },
+        },
+      },
+    },
+    ...errors(501),
+  },
+} as const;
+
+export interface SigningRoutesOptions {
+  /** Signing keys; without them the route responds 501 */
+  signing?: SigningKeyRegistry;
+}
+
+// ----- Route registration -----
+
+export async function signingRoutes(app: FastifyInstance, opts: SigningRoutesOptions): Promise<void> {
+  /**
+   * GET /signing-keys
+   *
+   * Lists every signing key version's public key and id, oldest first.
+   */
+  app.get("/signing-keys", { schema: signingKeysSchema }, async (_request, reply: FastifyReply) => {
+    const { signing } = opts;
+    if (!signing) {
+      throw new ApiError("NOT_IMPLEMENTED", "Record signing is not enabled (no SIGNING_KEY_V* is set)");
+    }
+
+    const keys = signingPublicKeys(signing);
+    const active = keys.find((key) => key.active);
+    return reply.send({ signer: signing.signer, ...(active ? { activeKid: active.kid } : {}), keys });
+  });
+}
@@ -0,0 +1,491 @@
+/**
+ * Transaction Route Tests
+ * ========================
+ *
+ * Exercises the /tx routes through app.inject() with an in-memory store.
+ *
+ * Tests cover:
+ *   1. Requests without a valid API key are rejected (401); X-API-Key is accepted
+ *   2. Encrypt → fetch → decrypt round-trip for the owning party
+ *   3. A caller cannot encrypt for, fetch, or decrypt another party's records (403)
+ *   4. GET /tx only lists the caller's own parties
+ *   5. Key management routes require an admin key
+ *   6. The payload algorithm can be chosen per record; unknown values are rejected
+ *   7. GET /tx/:id serves JSON, compact binary or base64url by Accept header
+ *   8. An encryption context is stored on the record; malformed context is rejected
+ *   9. Field-level records keep cleartext fields readable and decrypt only requested fields
+ *  10. GET /tx/search finds records by blind-indexed value within the caller's parties
+ *  11. GET /tx pages through records by cursor and validates its filters
+ *  12. Idempotency-Key replays return the original record; a changed body is 422,
+ *      and a key another instance has reserved in the shared storage is 409
+ *  13. Expired records are gone (410) and no longer listed; bad expiresAt is 400
+ *  14. MASTER_KEY_CONFIG key states: the pinned version encrypts, revoked keys
+ *      no longer decrypt (422), no active key is 503, and GET /keys/status
+ *      reports each version's state and fingerprint
+ *  15. readApiKeys names the API_KEYS entry that is not a valid key object
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, randomBytes } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import { parseRecord } from "@repo/crypto";
+import { buildApp } from "../app.js";
+import { readApiKeys } from "../auth.js";
+import { createMemoryStorage } from "../store/index.js";
+
+// ----- Test setup -----
+
+const ADMIN_KEY = "admin-secret";
+const PARTY_A_KEY = "party-a-secret";
+const PARTY_B_KEY = "party-b-secret";
+
+const apiKeys = readApiKeys({
+  API_KEYS: JSON.stringify([
+    { id: "admin", key: ADMIN_KEY, parties: ["*"], admin: true },
+    { id: "client-a", key: PARTY_A_KEY, parties: ["party_a"] },
+    // Hashed form — the raw secret never appears in configuration
+    {
+      id: "client-b",
+      keySha256: createHash("sha256").update(PARTY_B_KEY).digest("hex"),
+      parties: ["party_b"],
+    },
+  ]),
+});
+
+function auth(key: string) {
+  return { authorization: `Bearer ${key}` };
+}
+
+const PAYLOAD = { amount: 100, currency: "AED" };
+
+// ----- Tests -----
+
+describe("Transaction routes", () => {
+  let app: FastifyInstance;
+
+  before(async () => {
+    process.env.MASTER_KEY_V1 = randomBytes(32).toString("hex");
+    app = await buildApp({
+      storage: createMemoryStorage(),
+      apiKeys,
+      auditKey: randomBytes(32),
+      blindIndex: { key: randomBytes(32), fields: ["amount"] },
+      logger: false,
+    });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  async function encryptAs(key: string, partyId: string) {
+    return app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(key),
+      payload: { partyId, payload: PAYLOAD },
+    });
+  }
+
+  it("should reject requests without a valid API key", async () => {
+    const missing = await app.inject({ method: "GET", url: "/tx" });
+    assert.equal(missing.statusCode, 401);
+
+    const wrong = await app.inject({ method: "GET", url: "/tx", headers: auth("not-a-key") });
+    assert.equal(wrong.statusCode, 401);
+
+    const health = await app.inject({ method: "GET", url: "/health" });
+    assert.equal(health.statusCode, 200);
+  });
+
+  it("should accept the X-API-Key header", async () => {
+    const res = await app.inject({ method: "GET", url: "/tx", headers: { "x-api-key": PARTY_A_KEY } });
+    assert.equal(res.statusCode, 200);
+  });
+
+  it("should encrypt, fetch and decrypt for the owning party", async () => {
+    const created = await encryptAs(PARTY_A_KEY, "party_a");
+    assert.equal(created.statusCode, 201);
+    const { id } = created.json();
+
+    const fetched = await app.inject({ method: "GET", url: `/tx/${id}`, headers: auth(PARTY_A_KEY) });
+    assert.equal(fetched.statusCode, 200);
+    assert.equal(fetched.json().partyId, "party_a");
+
+    const decrypted = await app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: auth(PARTY_A_KEY) });
+    assert.equal(decrypted.statusCode, 200);
+    assert.deepEqual(decrypted.json().payload, PAYLOAD);
+  });
+
+  it("should not let one party encrypt for, fetch, or decrypt another party's records", async () => {
+    const created = await encryptAs(PARTY_A_KEY, "party_a");
+    const { id } = created.json();
+
+    const encrypt = await encryptAs(PARTY_B_KEY, "party_a");
+    assert.equal(encrypt.statusCode, 403);
+
+    const fetched = await app.inject({ method: "GET", url: `/tx/${id}`, headers: auth(PARTY_B_KEY) });
+    assert.equal(fetched.statusCode, 403);
+
+    const decrypted = await app.inject({ method: "POST", url: `/tx/${id}/decrypt`, headers: auth(PARTY_B_KEY) });
+    assert.equal(decrypted.statusCode, 403);
+    assert.equal(decrypted.json().payload, undefined);
+  });
+
+  it("should only list records of the caller's parties", async () => {
+    await encryptAs(PARTY_A_KEY, "party_a");
+    await encryptAs(PARTY_B_KEY, "party_b");
+
+    const listB = await app.inject({ method: "GET", url: "/tx", headers: auth(PARTY_B_KEY) });
+    const partiesB = new Set(listB.json().items.map((tx: { partyId: string }) => tx.partyId));
+    assert.deepEqual([...partiesB], ["party_b"]);
+
+    const listAdmin = await app.inject({ method: "GET", url: "/tx", headers: auth(ADMIN_KEY) });
+    const partiesAdmin = new Set(listAdmin.json().items.map((tx: { partyId: string }) => tx.partyId));
+    assert.deepEqual([...partiesAdmin].sort(), ["party_a", "party_b"]);
+  });
+
+  it("should restrict key management routes to admin callers", async () => {
+    const asParty = await app.inject({ method: "GET", url: "/keys/status", headers: auth(PARTY_A_KEY) });
+    assert.equal(asParty.statusCode, 403);
+
+    const asAdmin = await app.inject({ method: "GET", url: "/keys/status", headers: auth(ADMIN_KEY) });
+    assert.equal(asAdmin.statusCode, 200);
+  });
+
+  it("should encrypt with a requested algorithm and reject unknown ones", async () => {
+    const created = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: { partyId: "party_a", payload: PAYLOAD, alg: "ChaCha20-Poly1305" },
+    });
+    assert.equal(created.statusCode, 201);
+    assert.equal(created.json().alg, "ChaCha20-Poly1305");
+
+    const decrypted = await app.inject({
+      method: "POST",
+      url: `/tx/${created.json().id}/decrypt`,
+      headers: auth(PARTY_A_KEY),
+    });
+    assert.deepEqual(decrypted.json().payload, PAYLOAD);
+
+    const rejected = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: { partyId: "party_a", payload: PAYLOAD, alg: "DES" },
+    });
+    assert.equal(rejected.statusCode, 400);
+  });
+
+  it("should negotiate the record representation on GET /tx/:id", async () => {
+    const created = await encryptAs(PARTY_A_KEY, "party_a");
+    const record = created.json();
+    const url = `/tx/${record.id}`;
+
+    const binary = await app.inject({
+      method: "GET",
+      url,
+      headers: { ...auth(PARTY_A_KEY), accept: "application/vnd.txsecure.record" },
+    });
+    assert.equal(binary.statusCode, 200);
+    assert.equal(binary.headers["content-type"], "application/vnd.txsecure.record");
+    assert.deepEqual(parseRecord(binary.rawPayload), record);
+
+    const token = await app.inject({
+      method: "GET",
+      url,
+      headers: { ...auth(PARTY_A_KEY), accept: "application/json;q=0.5, application/vnd.txsecure.record+base64url" },
+    });
+    assert.deepEqual(parseRecord(token.body), record);
+
+    const json = await app.inject({ method: "GET", url, headers: { ...auth(PARTY_A_KEY), accept: "*/*" } });
+    assert.deepEqual(json.json(), record);
+
+    const unsupported = await app.inject({
+      method: "GET",
+      url,
+      headers: { ...auth(PARTY_A_KEY), accept: "text/html" },
+    });
+    assert.equal(unsupported.statusCode, 406);
+  });
+
+  it("should store an encryption context and reject malformed ones", async () => {
+    const created = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: { partyId: "party_a", payload: PAYLOAD, context: { purpose: "refund" } },
+    });
+    assert.equal(created.statusCode, 201);
+    assert.deepEqual(created.json().context, { purpose: "refund" });
+
+    const rejected = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: { partyId: "party_a", payload: PAYLOAD, context: { purpose: 42 } },
+    });
+    assert.equal(rejected.statusCode, 400);
+  });
+
+  it("should encrypt fields individually and decrypt only the requested ones", async () => {
+    const created = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: { partyId: "party_a", payload: PAYLOAD, fields: { currency: "clear" } },
+    });
+    assert.equal(created.statusCode, 201);
+    const record = created.json();
+    assert.equal(record.v, 4);
+    assert.deepEqual(record.clear_fields, { currency: "AED" });
+    assert.deepEqual(Object.keys(record.enc_fields), ["amount"]);
+
+    const decrypted = await app.inject({
+      method: "POST",
+      url: `/tx/${record.id}/decrypt`,
+      headers: auth(PARTY_A_KEY),
+      payload: { fields: ["amount"] },
+    });
+    assert.equal(decrypted.statusCode, 200);
+    assert.deepEqual(decrypted.json().payload, { amount: 100 });
+
+    const badSchema = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(PARTY_A_KEY),
+      payload: { partyId: "party_a", payload: PAYLOAD, fields: { amount: "hidden" } },
+    });
+    assert.equal(badSchema.statusCode, 400);
+
+    const badFields = await app.inject({
+      method: "POST",
+      url: `/tx/${record.id}/decrypt`,
+      headers: auth(PARTY_A_KEY),
+      payload: { fields: "amount" },
+    });
+    assert.equal(badFields.statusCode, 400);
+  });
+
+  it("should find records by blind-indexed value within the caller's parties", async () => {
+    const ids: string[] = [];
+    for (const [key, partyId] of [[PARTY_A_KEY, "party_a"], [PARTY_B_KEY, "party_b"]]) {
+      const created = await app.inject({
+        method: "POST",
+        url: "/tx/encrypt",
+        headers: auth(key),
+        payload: { partyId, payload: { amount: 4242, currency: "AED" } },
+      });
+      assert.ok(created.json().blind_index.amount);
+      ids.push(created.json().id);
+    }
+
+    const search = (key: string, query: string) =>
+      app.inject({ method: "GET", url: `/tx/search?${query}`, headers: auth(key) });
+
+    const found = await search(PARTY_A_KEY, "field=amount&value=4242");
+    assert.equal(found.statusCode, 200);
+    assert.deepEqual(found.json().map((record: { id: string }) => record.id), [ids[0]]);
+
+    const byAdmin = await search(ADMIN_KEY, "field=amount&value=4242&partyId=party_b");
+    assert.deepEqual(byAdmin.json().map((record: { id: string }) => record.id), [ids[1]]);
+
+    assert.deepEqual((await search(PARTY_A_KEY, "field=amount&value=4243")).json(), []);
+    assert.equal((await search(ADMIN_KEY, "field=amount&value=4242")).statusCode, 400);
+    assert.equal((await search(PARTY_A_KEY, "field=currency&value=AED")).statusCode, 400);
+    assert.equal((await search(PARTY_A_KEY, "field=amount&value=4242&partyId=party_b")).statusCode, 403);
+  });
+
+  it("should page through GET /tx by cursor and validate filters", async () => {
+    for (let i = 0; i < 3; i++) {
+      await encryptAs(PARTY_B_KEY, "party_b");
+    }
+    const list = (query: string, key = PARTY_B_KEY) =>
+      app.inject({ method: "GET", url: `/tx?${query}`, headers: auth(key) });
+
+    const all = (await list("limit=200")).json();
+    assert.equal(all.nextCursor, null);
+
+    // Walking the pages yields the same records in the same order
+    const seen: string[] = [];
+    let cursor: string | null = "";
+    while (cursor !== null) {
+      const page = await list(`limit=2${cursor ? `&cursor=${cursor}` : ""}`);
+      assert.equal(page.statusCode, 200);
+      assert.ok(page.json().items.length <= 2);
+      seen.push(...page.json().items.map((tx: { id: string }) => tx.id));
+      cursor = page.json().nextCursor;
+    }
+    assert.deepEqual(seen, all.items.map((tx: { id: string }) => tx.id));
+
+    const filtered = (await list("partyId=party_b&mk_version=1&alg=AES-256-GCM&createdFrom=2000-01-01")).json();
+    assert.ok(filtered.items.length >= 3);
+    assert.deepEqual((await list("createdTo=2000-01-01")).json().items, []);
+
+    assert.equal((await list("partyId=party_a")).statusCode, 403);
+    assert.equal((await list("limit=0")).statusCode, 400);
+    assert.equal((await list("order=sideways")).statusCode, 400);
+    assert.equal((await list("cursor=not-a-cursor")).statusCode, 400);
+    assert.equal((await list("createdFrom=yesterday")).statusCode, 400);
+  });
+
+  it("should replay POST /tx/encrypt by Idempotency-Key", async () => {
+    const send = (key: string, payload: Record<string, unknown>, apiKey = PARTY_A_KEY) =>
+      app.inject({
+        method: "POST",
+        url: "/tx/encrypt",
+        headers: { ...auth(apiKey), "idempotency-key": key },
+        payload: { partyId: apiKey === PARTY_A_KEY ? "party_a" : "party_b", payload },
+      });
+
+    const first = await send("order-7", PAYLOAD);
+    assert.equal(first.statusCode, 201);
+    assert.equal(first.headers["idempotent-replayed"], undefined);
+
+    const retry = await send("order-7", { currency: "AED", amount: 100 });
+    assert.equal(retry.statusCode, 201);
+    assert.equal(retry.headers["idempotent-replayed"], "true");
+    assert.deepEqual(retry.json(), first.json());
+
+    const changed = await send("order-7", { ...PAYLOAD, amount: 101 });
+    assert.equal(changed.statusCode, 422);
+
+    // Keys are scoped per caller
+    const otherCaller = await send("order-7", PAYLOAD, PARTY_B_KEY);
+    assert.equal(otherCaller.statusCode, 201);
+    assert.notEqual(otherCaller.json().id, first.json().id);
+
+    // Failed requests are not remembered
+    const invalid = await send("order-8", "not an object" as never);
+    assert.equal(invalid.statusCode, 400);
+    assert.equal((await send("order-8", PAYLOAD)).statusCode, 201);
+
+    assert.equal((await send("", PAYLOAD)).statusCode, 400);
+  });
+
+  it("should refuse an Idempotency-Key that another instance sharing the storage reserved", async () => {
+    const storage = createMemoryStorage();
+    const instance = await buildApp({ storage, apiKeys, auditKey: randomBytes(32), logger: false });
+    const send = (key: string) =>
+      instance.inject({
+        method: "POST",
+        url: "/tx/encrypt",
+        headers: { ...auth(PARTY_A_KEY), "idempotency-key": key },
+        payload: { partyId: "party_a", payload: PAYLOAD },
+      });
+    const reserve = (key: string, createdAt: Date) =>
+      storage.idempotency.put({ actor: "client-a", key, requestHash: "ab", createdAt: createdAt.toISOString() });
+
+    // Another instance's request with this key is still running
+    await reserve("order-9", new Date());
+    const racing = await send("order-9");
+    assert.equal(racing.statusCode, 409);
+    assert.equal((await storage.tx.list()).length, 0);
+
+    // A reservation whose request never finished stops blocking the key
+    await reserve("order-10", new Date(Date.now() - 5 * 60 * 1000));
+    assert.equal((await send("order-10")).statusCode, 201);
+    assert.equal((await storage.idempotency.get("client-a", "order-10"))?.txId, (await storage.tx.list())[0].id);
+
+    await instance.close();
+  });
+
+  it("should refuse expired records and validate expiresAt", async () => {
+    const created = await app.inject({
+      method: "POST",
+      url: "/tx/encrypt",
+      headers: auth(PARTY_B_KEY),
+      payload: { partyId: "party_b", payload: PAYLOAD, expiresAt: new Date(Date.now() + 50).toISOString() },
+    });
+    assert.equal(created.statusCode, 201);
+    const { id, expiresAt } = created.json();
+    assert.ok(expiresAt);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const fetched = await app.inject({ method: "GET", url: `/tx/${id}`, headers: auth(PARTY_B_KEY) });
+    assert.equal(fetched.statusCode, 410);
+
+    const listed = await app.inject({ method: "GET", url: "/tx", headers: auth(PARTY_B_KEY) });
+    assert.ok(!listed.json().items.some((item: { id: string }) => item.id === id));
+
+    for (const bad of ["2000-01-01T00:00:00Z", "tomorrow"]) {
+      const rejected = await app.inject({
+        method: "POST",
+        url: "/tx/encrypt",
+        headers: auth(PARTY_B_KEY),
+        payload: { partyId: "party_b", payload: PAYLOAD, expiresAt: bad },
+      });
+      assert.equal(rejected.statusCode, 400);
+    }
+  });
+
+  it("should honor master key states from MASTER_KEY_CONFIG", async (t) => {
+    process.env.MASTER_KEY_V2 = randomBytes(32).toString("hex");
+    t.after(() => {
+      delete process.env.MASTER_KEY_V2;
+      delete process.env.MASTER_KEY_CONFIG;
+    });
+
+    // V2 is loaded but not configured: V1 stays the active key
+    process.env.MASTER_KEY_CONFIG = JSON.stringify({ active: 1 });
+    const created = await encryptAs(ADMIN_KEY, "party_a");
+    assert.equal(created.json().mk_version, 1);
+
+    const status = await app.inject({ method: "GET", url: "/keys/status", headers: auth(ADMIN_KEY) });
+    assert.equal(status.json().activeVersion, 1);
+    assert.deepEqual(
+      status.json().keys.map(({ version, state }: { version: number; state: string }) => [version, state]),
+      [
+        [1, "active"],
+        [2, "decrypt-only"],
+      ]
+    );
+    assert.match(status.json().keys[1].fingerprint, /^[0-9a-f]{16}$/);
+
+    const rotate = await app.inject({
+      method: "POST",
+      url: "/keys/rotate",
+      headers: auth(ADMIN_KEY),
+      payload: { targetVersion: 2 },
+    });
+    assert.equal(rotate.statusCode, 400);
+    assert.match(rotate.json().error, /Master key version 2 is decrypt-only/);
+
+    // Revoked keys no longer decrypt
+    process.env.MASTER_KEY_CONFIG = JSON.stringify({ active: 2, keys: { "1": { state: "revoked" } } });
+    const revoked = await app.inject({
+      method: "POST",
+      url: `/tx/${created.json().id}/decrypt`,
+      headers: auth(ADMIN_KEY),
+    });
+    assert.equal(revoked.statusCode, 422);
+    assert.equal(revoked.json().code, "KEY_REVOKED");
+
+    // With no key allowed to encrypt, encryption is unavailable
+    process.env.MASTER_KEY_CONFIG = JSON.stringify({ keys: { "1": { state: "decrypt-only" } } });
+    const unavailable = await encryptAs(ADMIN_KEY, "party_a");
+    assert.equal(unavailable.statusCode, 503);
+    assert.equal(unavailable.json().code, "KEY_NOT_ACTIVE");
+
+    const noneActive = await app.inject({ method: "GET", url: "/keys/status", headers: auth(ADMIN_KEY) });
+    assert.equal(noneActive.json().activeVersion, null);
+  });
+});
+
+describe("readApiKeys", () => {
+  it("should name the entry that is not a valid API key", () => {
+    const valid = { id: "client-a", key: PARTY_A_KEY, parties: ["party_a"] };
+    const read = (entries: unknown[]) => () => readApiKeys({ API_KEYS: JSON.stringify(entries) });
+
+    for (const entry of [null, "client-b", 42, ["client-b"]]) {
+      assert.throws(read([valid, entry]), /API_KEYS\[1\]: expected an object/);
+    }
+    assert.throws(read([{ ...valid, id: "" }]), /API_KEYS\[0\]: id is required/);
+    assert.throws(read([{ ...valid, parties: "party_a" }]), /API_KEYS\[0\]: parties must be an array/);
+    assert.equal(read([valid])().length, 1);
+  });
+});
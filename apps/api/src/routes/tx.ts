@@ -2,108 +2,415 @@
  * Transaction routes for the Fastify API.
  *
  * POST /tx/encrypt     — Encrypt & store a payload using envelope encryption
- * GET  /tx/:id         — Retrieve an encrypted record by ID
- * POST /tx/:id/decrypt — Decrypt and return the original payload (rate-limited)
+ * GET  /tx           — List record summaries, filtered and cursor-paginated
+ * GET  /tx/search     — Find records by exact payload field value via blind indexes
+ * GET  /tx/:id         — Retrieve an encrypted record by ID (JSON or compact form)
+ * POST /tx/:id/decrypt — Decrypt and return the original payload, or only requested fields (rate-limited)
  *
- * Storage is an in-memory Map (non-persistent, suitable for demo/dev).
+ * Storage is a pluggable TxStore (memory, SQLite or JSON-lines file),
+ * passed in as a plugin option — see ../store/index.ts.
  *
  * Security features:
+ *   - Authentication: every route requires an API key (see ../auth.ts)
+ *   - Authorization: callers only see and decrypt records of their own partyIds
  *   - Key versioning: supports multiple master keys for rotation
- *   - AAD: partyId is cryptographically bound to ciphertext
- *   - Rate limiting: decrypt endpoint is limited to 5 req/min per IP
+ *   - Key providers: DEK wrapping is delegated to the configured KeyProvider
+ *   - Party keys: DEKs are wrapped under a per-party key, so a party's
+ *     records can be crypto-shredded (see ../party-keys.ts, ./parties.ts)
+ *   - AAD: the record's id, partyId, createdAt, alg and optional context are
+ *     cryptographically bound to the ciphertext
+ *   - Field-level encryption: payload fields can be encrypted individually or
+ *     kept in (authenticated) cleartext, and decrypted selectively
+ *   - Search: configured payload fields get keyed blind index tokens at
+ *     encrypt time, so lookups never decrypt payloads
+ *   - Rate limiting: decrypt endpoint is limited to 5 req/min per caller,
+ *     plus a per-party limit and a lockout after repeated failures on one
+ *     record, all shared through the storage backend (see ../limits.ts)
  *   - Structured logging: decryption failures are logged with context
+ *   - Audit log: every encrypt and decrypt attempt is appended to the
+ *     tamper-evident audit chain (see ../audit.ts)
+ *   - Idempotency: retries of POST /tx/encrypt with the same Idempotency-Key
+ *     return the original record instead of a duplicate (see ../idempotency.ts)
+ *   - Payload schemas: payloads of a named transaction type are validated
+ *     against its JSON Schema before encryption (see ../schemas.ts)
+ *   - Expiry: records past their expiresAt are refused (410) and left out of
+ *     list and search results until the sweeper deletes them (see ../retention.ts)
+ *   - Signatures: with signing keys, new records are signed with Ed25519 and
+ *     signed records are verified on decrypt, which reports the signer
+ *     (see @repo/crypto signing.ts, ./signing.ts)
+ *
+ * Encrypting and decrypting a single transaction is implemented in
+ * ../operations.ts, shared with the batch routes (./batch.ts).
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
-import { randomUUID } from "node:crypto";
 import {
-  envelopeEncrypt,
-  envelopeDecrypt,
-  buildKeyRegistry,
+  blindIndexToken,
+  isExpired,
+  serializeRecord,
+  type BlindIndexOptions,
+  type SigningKeyRegistry,
   type TxSecureRecord,
 } from "@repo/crypto";
-
-// In-memory store — records are lost on server restart
-const store = new Map<string, TxSecureRecord>();
-
-/**
- * Build the master key registry from environment variables.
- * Supports MASTER_KEY_V1, MASTER_KEY_V2, ... or fallback to MASTER_KEY.
- */
-function getKeyRegistry() {
-  return buildKeyRegistry(process.env as Record<string, string | undefined>);
-}
+import { type ApiKey, createAuthHook, getCaller, canAccessParty } from "../auth.js";
+import type { AuditLog } from "../audit.js";
+import type { DecryptGuard } from "../limits.js";
+import { IDEMPOTENCY_HEADER, type IdempotencyTracker, validateIdempotencyKey } from "../idempotency.js";
+import {
+  type EncryptRequest,
+  type OperationResult,
+  decryptTransaction,
+  encryptTransaction,
+  failureBody,
+  invalidFieldSelection,
+} from "../operations.js";
+import { RECORD_MEDIA_TYPES, negotiateRecordFormat } from "../negotiate.js";
+import { ApiError } from "../errors.js";
+import { errors, optionalBody, ref } from "../openapi.js";
+import { type ListQuery, encodeCursor, parseListQuery } from "../pagination.js";
+import type { RetentionPolicies } from "../retention.js";
+import type { SchemaRegistry } from "../schemas.js";
+import type { PartyKeyStore, TxQuery, TxStore } from "../store/index.js";
 
 // ----- Request/Response schemas -----
 
-interface EncryptBody {
-  partyId: string;
-  payload: Record<string, unknown>;
+interface DecryptBody {
+  fields?: string[];
 }
 
 interface IdParam {
   id: string;
 }
 
+interface SearchQuery {
+  field?: string;
+  value?: string;
+  partyId?: string;
+}
+
+const idParamSchema = {
+  type: "object",
+  required: ["id"],
+  properties: { id: { type: "string" } },
+} as const;
+
+const summaryPageSchema = {
+  type: "object",
+  required: ["items", "nextCursor"],
+  properties: {
+    items: { type: "array", items: ref("TxSummary") },
+    nextCursor: { type: ["string", "null"], description: "Pass as `cursor` for the next page; null on the last page" },
+  },
+} as const;
+
+const encryptSchema = {
+  tags: ["transactions"],
+  summary: "Encrypt and store a payload",
+  headers: {
+    type: "object",
+    properties: {
+      "idempotency-key": { type: "string", description: "Replays the original record when the request is retried" },
+    },
+  },
+  body: ref("EncryptRequest"),
+  response: { 201: ref("TxSecureRecord"), ...errors(400, 401, 403, 409, 410, 422, 500, 503) },
+} as const;
+
+const listSchema = {
+  tags: ["transactions"],
+  summary: "List record summaries, filtered and cursor-paginated",
+  querystring: {
+    type: "object",
+    properties: {
+      limit: { type: "string", description: "Page size, 1-200 (default 50)" },
+      cursor: { type: "string", description: "nextCursor from the previous page" },
+      order: { type: "string", enum: ["asc", "desc"] },
+      partyId: { type: "string" },
+      mk_version: { type: "string" },
+      alg: { type: "string" },
+      createdFrom: { type: "string", description: "ISO-8601; inclusive" },
+      createdTo: { type: "string", description: "ISO-8601; exclusive" },
+    },
+  },
+  response: { 200: summaryPageSchema, ...errors(400, 401, 403) },
+} as const;
+
+const searchSchema = {
+  tags: ["transactions"],
+  summary: "Find records by exact payload field value via blind indexes",
+  querystring: {
+    type: "object",
+    required: ["field", "value"],
+    properties: {
+      field: { type: "string", description: "A blind-indexed payload field (BLIND_INDEX_FIELDS)" },
+      value: { type: "string" },
+      partyId: { type: "string", description: "Required for callers with access to all parties" },
+    },
+  },
+  response: { 200: { type: "array", items: ref("TxSummary") }, ...errors(400, 401, 403, 501) },
+} as const;
+
+const getSchema = {
+  tags: ["transactions"],
+  summary: "Retrieve an encrypted record (JSON or compact form, by Accept header)",
+  params: idParamSchema,
+  response: {
+    200: {
+      description: "The encrypted record",
+      content: {
+        [RECORD_MEDIA_TYPES.json]: { schema: ref("TxSecureRecord") },
+        [RECORD_MEDIA_TYPES.binary]: { schema: { type: "string", format: "binary" } },
+        [RECORD_MEDIA_TYPES.base64url]: { schema: { type: "string" } },
+      },
+    },
+    ...errors(401, 403, 404, 406, 410),
+  },
+} as const;
+
+const decryptSchema = {
+  tags: ["transactions"],
+  summary: "Decrypt a record, or only some of its fields",
+  params: idParamSchema,
+  body: {
+    type: "object",
+    properties: {
+      fields: { type: "array", items: { type: "string" }, description: "Top-level payload fields to return" },
+    },
+  },
+  response: { 200: ref("DecryptResult"), ...errors(400, 401, 403, 404, 410, 422, 429, 500) },
+} as const;
+
+export interface TxRoutesOptions {
+  store: TxStore;
+  audit: AuditLog;
+  apiKeys: readonly ApiKey[];
+  partyKeys: PartyKeyStore;
+  idempotency: IdempotencyTracker;
+
+  /** Blind index key and fields; without it records are not indexed and search is disabled */
+  blindIndex?: BlindIndexOptions;
+
+  /** Per-party retention policies giving new records their default expiresAt */
+  retention?: RetentionPolicies;
+
+  /** Payload schemas per transaction type; without it every `type` is unknown */
+  schemas?: SchemaRegistry;
+
+  /** Per-party decrypt limits and failure lockouts */
+  decryptGuard?: DecryptGuard;
+
+  /** Signing keys; new records are signed and signed records verified on decrypt */
+  signing?: SigningKeyRegistry;
+}
+
+// ----- Helpers -----
+
+/** The non-sensitive summary of a record returned by list and search routes */
+function summaryOf({ id, partyId, createdAt, expiresAt, alg, mk_version }: TxSecureRecord) {
+  return { id, partyId, createdAt, expiresAt, alg, mk_version };
+}
+
+/** Newest records first */
+function byNewest(a: { createdAt: string }, b: { createdAt: string }): number {
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+}
+
 // ----- Route registration -----
 
-export async function txRoutes(app: FastifyInstance): Promise<void> {
+export async function txRoutes(app: FastifyInstance, opts: TxRoutesOptions): Promise<void> {
+  const { store, blindIndex, idempotency } = opts;
+
+  // All transaction routes require an authenticated caller
+  app.addHook("onRequest", createAuthHook(opts.apiKeys));
+
   /**
    * POST /tx/encrypt
    *
    * Accepts a partyId and JSON payload, performs envelope encryption,
    * stores the record, and returns the full TxSecureRecord.
+   * An optional `alg` selects the payload cipher (default AES-256-GCM), and an
+   * optional `context` (flat object of strings) is stored on the record.
+   * An optional `fields` schema ({ name: "encrypt" | "clear" }) switches to
+   * field-level encryption; fields it does not list are encrypted.
+   * Blind index tokens are added for the configured search fields.
+   * An optional `expiresAt` (ISO-8601) sets when the record expires; without
+   * it the party's retention policy applies, if one is configured.
+   * An optional `type` names a registered transaction type: the payload must
+   * match its schema (400 listing the violations otherwise), and the schema
+   * id and version are stored on the record as `payload_schema`.
    *
    * Uses the latest master key version for encryption.
-   * Binds partyId as AAD (Additional Authenticated Data).
+   * Binds the record metadata and context as AAD (Additional Authenticated Data).
+   * The caller must be allowed to access partyId (403 otherwise).
+   *
+   * With an Idempotency-Key header, a retry with the same body returns the
+   * originally created record (Idempotent-Replayed: true); reusing the key
+   * for a different body is 422, and a retry racing the original is 409.
    */
-  app.post<{ Body: EncryptBody }>(
+  app.post<{ Body: EncryptRequest }>(
     "/tx/encrypt",
-    async (request: FastifyRequest<{ Body: EncryptBody }>, reply: FastifyReply) => {
-      const { partyId, payload } = request.body;
+    { schema: encryptSchema },
+    async (request: FastifyRequest<{ Body: EncryptRequest }>, reply: FastifyReply) => {
+      const header = request.headers[IDEMPOTENCY_HEADER];
+      if (header === undefined) {
+        const result = await encryptTransaction(opts, request, request.body);
+        if (!result.ok) {
+          return reply.status(result.status).send(failureBody(result));
+        }
+        return reply.status(201).send(result.value);
+      }
 
-      // Input validation
-      if (!partyId || typeof partyId !== "string" || partyId.trim().length === 0) {
-        return reply.status(400).send({ error: "partyId is required and must be a non-empty string" });
+      let key: string;
+      try {
+        key = validateIdempotencyKey(header);
+      } catch (err) {
+        throw new ApiError("INVALID_REQUEST", err instanceof Error ? err.message : "Invalid Idempotency-Key");
       }
 
-      if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
-        return reply.status(400).send({ error: "payload is required and must be a JSON object" });
+      const caller = getCaller(request);
+      const check = await idempotency.begin(caller.id, key, request.body);
+
+      switch (check.kind) {
+        case "replay": {
+          const record = await store.get(check.txId);
+          if (!record) {
+            throw new ApiError("CONFLICT", "The record created with this Idempotency-Key no longer exists");
+          }
+          if (!canAccessParty(caller, record.partyId)) {
+            throw new ApiError("FORBIDDEN", `Not allowed to access party: ${record.partyId}`);
+          }
+          if (isExpired(record)) {
+            throw new ApiError("EXPIRED", `Record expired: ${record.id}`);
+          }
+          return reply.status(201).header("idempotent-replayed", "true").send(record);
+        }
+        case "mismatch":
+          throw new ApiError(
+            "IDEMPOTENCY_KEY_REUSED",
+            "Idempotency-Key was already used with a different request body"
+          );
+        case "in_progress":
+          throw new ApiError("CONFLICT", "A request with this Idempotency-Key is still in progress");
       }
 
+      let result: OperationResult<TxSecureRecord>;
       try {
-        const id = randomUUID();
-        const registry = getKeyRegistry();
+        result = await encryptTransaction(opts, request, request.body);
+      } catch (err) {
+        await idempotency.release(check.reservation);
+        throw err;
+      }
+
+      if (!result.ok) {
+        await idempotency.release(check.reservation);
+        return reply.status(result.status).send(failureBody(result));
+      }
 
-        // Perform envelope encryption: DEK encrypts payload, MK wraps DEK
-        // partyId is bound as AAD to both layers
-        const record = envelopeEncrypt(registry, id, partyId.trim(), payload);
+      await idempotency.complete(check.reservation, result.value.id);
+      return reply.status(201).send(result.value);
+    }
+  );
 
-        // Store in memory
-        store.set(id, record);
+  /**
+   * GET /tx
+   *
+   * Lists stored transaction records (summary only) for the caller's parties,
+   * newest first by default. Returns { items, nextCursor }: each item has id,
+   * partyId, createdAt, alg and mk_version; pass nextCursor back as `cursor`
+   * for the next page (null on the last page).
+   *
+   * Filters, order and page size come from the query string (see
+   * ../pagination.ts). Filtering by a partyId the caller cannot access is 403.
+   * Expired records are left out.
+   */
+  app.get<{ Querystring: ListQuery }>(
+    "/tx",
+    { schema: listSchema },
+    async (request: FastifyRequest<{ Querystring: ListQuery }>, reply: FastifyReply) => {
+      const caller = getCaller(request);
+      const { partyId } = request.query;
 
-        return reply.status(201).send(record);
+      let query: TxQuery;
+      try {
+        query = parseListQuery(request.query);
       } catch (err) {
-        const message = err instanceof Error ? err.message : "Encryption failed";
-        return reply.status(500).send({ error: message });
+        throw new ApiError("INVALID_REQUEST", err instanceof Error ? err.message : "Invalid query");
+      }
+
+      if (partyId !== undefined) {
+        if (!canAccessParty(caller, partyId)) {
+          throw new ApiError("FORBIDDEN", `Not allowed to access party: ${partyId}`);
+        }
+        query.partyIds = [partyId];
+      } else if (caller.parties !== "*") {
+        query.partyIds = [...caller.parties];
       }
+
+      // One extra record tells whether another page follows
+      const records = await store.query({ ...query, activeAt: new Date().toISOString(), limit: query.limit + 1 });
+      const page = records.slice(0, query.limit);
+      const last = page[page.length - 1];
+
+      return reply.send({
+        items: page.map(summaryOf),
+        nextCursor: records.length > query.limit ? encodeCursor(last) : null,
+      });
     }
   );
 
   /**
-   * GET /tx
+   * GET /tx/search?field=merchant&value=Acme%20Corp[&partyId=...]
+   *
+   * Exact-match lookup on a blind-indexed payload field. The server hashes
+   * the value with the index key and compares tokens — no record is
+   * decrypted. Returns record summaries like GET /tx, newest first.
    *
-   * Lists all stored transaction records (summary only).
-   * Returns id, partyId, createdAt, and alg for each record.
+   * Tokens are scoped per party, so the search runs over the caller's
+   * parties (or just `partyId`, which callers with access to all parties
+   * must give). 501 if blind indexing is not configured.
    */
-  app.get(
-    "/tx",
-    async (_request, reply) => {
-      const records = Array.from(store.values())
-        .map(({ id, partyId, createdAt, alg }) => ({ id, partyId, createdAt, alg }))
-        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  app.get<{ Querystring: SearchQuery }>(
+    "/tx/search",
+    { schema: searchSchema },
+    async (request: FastifyRequest<{ Querystring: SearchQuery }>, reply: FastifyReply) => {
+      if (!blindIndex) {
+        throw new ApiError("NOT_IMPLEMENTED", "Search is not enabled (BLIND_INDEX_KEY is not set)");
+      }
+
+      const { field, value, partyId } = request.query;
+
+      if (!field || !blindIndex.fields.includes(field)) {
+        throw new ApiError("INVALID_REQUEST", `field must be one of: ${blindIndex.fields.join(", ")}`);
+      }
+
+      if (typeof value !== "string" || value.length === 0) {
+        throw new ApiError("INVALID_REQUEST", "value is required");
+      }
+
+      const caller = getCaller(request);
+      let parties: string[];
+
+      if (partyId !== undefined) {
+        if (!canAccessParty(caller, partyId)) {
+          throw new ApiError("FORBIDDEN", `Not allowed to access party: ${partyId}`);
+        }
+        parties = [partyId];
+      } else if (caller.parties === "*") {
+        throw new ApiError("INVALID_REQUEST", "partyId is required when the caller can access all parties");
+      } else {
+        parties = [...caller.parties];
+      }
+
+      const matches: TxSecureRecord[] = [];
+      for (const party of parties) {
+        const token = blindIndexToken(blindIndex.key, party, field, value);
+        if (token === undefined) continue;
 
-      return reply.send(records);
+        const found = await store.findByIndex(field, token);
+        matches.push(...found.filter((record) => record.partyId === party && !isExpired(record)));
+      }
+
+      return reply.send(matches.map(summaryOf).sort(byNewest));
     }
   );
 
@@ -112,18 +419,48 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
    *
    * Retrieves the encrypted record by its ID.
    * Returns the full TxSecureRecord (still encrypted).
+   * The caller must be allowed to access the record's partyId (403 otherwise);
+   * expired records are 410.
+   *
+   * The Accept header selects the representation — JSON (default), compact
+   * binary, or a base64url token of the binary form (see ../negotiate.ts).
+   * Unsupported Accept values get 406.
    */
   app.get<{ Params: IdParam }>(
     "/tx/:id",
+    { schema: getSchema },
     async (request: FastifyRequest<{ Params: IdParam }>, reply: FastifyReply) => {
       const { id } = request.params;
 
-      const record = store.get(id);
+      const record = await store.get(id);
       if (!record) {
-        return reply.status(404).send({ error: `Record not found: ${id}` });
+        throw new ApiError("NOT_FOUND", `Record not found: ${id}`);
+      }
+
+      if (!canAccessParty(getCaller(request), record.partyId)) {
+        throw new ApiError("FORBIDDEN", `Not allowed to access record: ${id}`);
+      }
+
+      if (isExpired(record)) {
+        throw new ApiError("EXPIRED", `Record expired: ${id}`);
       }
 
-      return reply.send(record);
+      const format = negotiateRecordFormat(request.headers.accept);
+      reply.header("vary", "Accept");
+
+      switch (format) {
+        case "json":
+          return reply.send(record);
+        case "binary":
+          return reply.type(RECORD_MEDIA_TYPES.binary).send(serializeRecord(record));
+        case "base64url":
+          return reply.type(RECORD_MEDIA_TYPES.base64url).send(serializeRecord(record, "base64url"));
+        case null:
+          throw new ApiError(
+            "NOT_ACCEPTABLE",
+            `Not acceptable. Supported types: ${Object.values(RECORD_MEDIA_TYPES).join(", ")}`
+          );
+      }
     }
   );
 
@@ -132,15 +469,24 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
    *
    * Decrypts the stored record and returns the original payload.
    * This unwraps the DEK using the Master Key, then decrypts the payload with the DEK.
+   * An optional body `{ fields: [...] }` returns only those top-level fields;
+   * on field-level records the other encrypted fields are never decrypted.
    *
    * Security:
-   *   - Rate limited: max 5 requests per minute per IP
+   *   - Caller must be allowed to access the record's partyId (403 otherwise)
+   *   - Expired records are not decrypted (410)
+   *   - Rate limited: max 5 requests per minute per caller, and the
+   *     caller's per-party limit (429 RATE_LIMITED)
+   *   - Repeated decryption failures lock the caller out of the record
+   *     (429 LOCKED_OUT)
    *   - Structured logging on failure (txId, IP, mk_version, timestamp)
    *   - Sensitive payloads are NEVER logged
    */
-  app.post<{ Params: IdParam }>(
+  app.post<{ Params: IdParam; Body: DecryptBody | undefined }>(
     "/tx/:id/decrypt",
     {
+      schema: decryptSchema,
+      preValidation: optionalBody,
       config: {
         rateLimit: {
           max: 5,
@@ -148,44 +494,20 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
         },
       },
     },
-    async (request: FastifyRequest<{ Params: IdParam }>, reply: FastifyReply) => {
-      const { id } = request.params;
+    async (request: FastifyRequest<{ Params: IdParam; Body: DecryptBody | undefined }>, reply: FastifyReply) => {
+      const fields = request.body?.fields;
 
-      const record = store.get(id);
-      if (!record) {
-        return reply.status(404).send({ error: `Record not found: ${id}` });
+      const invalid = invalidFieldSelection(fields);
+      if (invalid) {
+        throw new ApiError("INVALID_REQUEST", invalid);
       }
 
-      try {
-        const registry = getKeyRegistry();
-
-        // Envelope decryption: unwrap DEK with MK, then decrypt payload with DEK
-        // AAD (partyId) is verified during both decryption steps
-        const payload = envelopeDecrypt(registry, record);
-
-        return reply.send({
-          id: record.id,
-          partyId: record.partyId,
-          payload,
-        });
-      } catch (err) {
-        const message = err instanceof Error ? err.message : "Decryption failed";
-
-        // Structured security logging — log context for audit, NEVER log payloads
-        request.log.warn(
-          {
-            event: "decryption_failure",
-            txId: id,
-            ip: request.ip,
-            mk_version: record.mk_version,
-            timestamp: new Date().toISOString(),
-            error: message,
-          },
-          "Decryption failed for transaction"
-        );
-
-        return reply.status(500).send({ error: message });
+      const result = await decryptTransaction(opts, request, request.params.id, fields);
+      if (!result.ok) {
+        return reply.status(result.status).send(failureBody(result));
       }
+
+      return reply.send(result.value);
     }
   );
 }
@@ -0,0 +1,112 @@
+/**
+ * Payload Schema Tests
+ * =====================
+ *
+ * Tests cover:
+ *   1. Schema files are read from PAYLOAD_SCHEMAS_DIR and checked for shape
+ *   2. Duplicate or uncompilable schemas are rejected when the registry is built
+ *   3. Payloads are validated against the latest version of their type, with
+ *      a JSON Pointer and message per violation
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type SchemaDefinition, SchemaRegistry, readPayloadSchemas } from "./schemas.js";
+
+// ----- Test data -----
+
+const PAYMENT_V1: SchemaDefinition = {
+  type: "payment",
+  version: 1,
+  schema: {
+    type: "object",
+    required: ["amount"],
+    properties: { amount: { type: "number" } },
+  },
+};
+
+const PAYMENT_V2: SchemaDefinition = {
+  type: "payment",
+  version: 2,
+  schema: {
+    type: "object",
+    required: ["amount", "currency"],
+    properties: {
+      amount: { type: "number", exclusiveMinimum: 0 },
+      currency: { type: "string", pattern: "^[A-Z]{3}$" },
+      bookedAt: { type: "string", format: "date-time" },
+    },
+    additionalProperties: false,
+  },
+};
+
+// ----- Tests -----
+
+describe("Payload schemas", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "schemas-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should read schema files from PAYLOAD_SCHEMAS_DIR", () => {
+    assert.deepEqual(readPayloadSchemas({}), []);
+
+    writeFileSync(join(dir, "payment.v2.json"), JSON.stringify(PAYMENT_V2));
+    writeFileSync(join(dir, "payment.v1.json"), JSON.stringify(PAYMENT_V1));
+    writeFileSync(join(dir, "README.md"), "not a schema");
+    assert.deepEqual(readPayloadSchemas({ PAYLOAD_SCHEMAS_DIR: dir }), [PAYMENT_V1, PAYMENT_V2]);
+
+    writeFileSync(join(dir, "broken.json"), "{");
+    assert.throws(() => readPayloadSchemas({ PAYLOAD_SCHEMAS_DIR: dir }), /broken.json: not valid JSON/);
+
+    writeFileSync(join(dir, "broken.json"), JSON.stringify({ ...PAYMENT_V1, version: "1" }));
+    assert.throws(() => readPayloadSchemas({ PAYLOAD_SCHEMAS_DIR: dir }), /version must be a positive integer/);
+  });
+
+  it("should reject duplicate and invalid schemas", () => {
+    assert.throws(() => new SchemaRegistry([PAYMENT_V1, PAYMENT_V1]), /Schema payment v1 is registered twice/);
+    assert.throws(
+      () => new SchemaRegistry([{ type: "refund", version: 1, schema: { type: "nonsense" } }]),
+      /Schema refund v1 is invalid/
+    );
+    assert.throws(() => new SchemaRegistry([{ ...PAYMENT_V1, type: "no spaces" }]), /type must be/);
+  });
+
+  it("should validate payloads against the latest version of their type", () => {
+    const registry = new SchemaRegistry([PAYMENT_V2, PAYMENT_V1]);
+
+    assert.deepEqual(registry.list(), [PAYMENT_V1, PAYMENT_V2]);
+    assert.equal(registry.get("payment")?.version, 2);
+    assert.equal(registry.get("payment", 1)?.version, 1);
+    assert.equal(registry.get("payment", 3), undefined);
+
+    assert.deepEqual(registry.validate("payment", { amount: 10, currency: "AED" }), {
+      ok: true,
+      ref: { id: "payment", version: 2 },
+    });
+
+    const check = registry.validate("payment", { amount: -1, bookedAt: "yesterday", "a/b": true });
+    assert.ok(!check.ok);
+    assert.equal(check.error, "payload does not match schema payment v2");
+    assert.deepEqual(check.violations.map((violation) => violation.path).sort(), [
+      "/amount",
+      "/a~1b",
+      "/bookedAt",
+      "/currency",
+    ]);
+
+    assert.deepEqual(registry.validate("refund", {}), {
+      ok: false,
+      error: "Unknown transaction type: refund",
+      violations: [],
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Payload Schemas — JSON Schema validation per transaction type
+ * ===============================================================
+ *
+ * An encrypt request may name a transaction `type`. Its payload is then
+ * validated against the latest registered JSON Schema for that type before
+ * it is encrypted, and the schema's id and version are stored on the record
+ * as `payload_schema` — bound as AAD (see @repo/crypto envelope.ts), so a
+ * record cannot be relabelled as another type. A payload that does not
+ * match is rejected (400) with the list of violations. Requests without a
+ * type are not validated.
+ *
+ * Schemas are loaded at startup from the *.json files in a directory, one
+ * schema version per file:
+ *
+ *   { "type": "payment", "version": 1, "schema": { "type": "object", ... } }
+ *
+ * Several versions of a type may be registered; new records are validated
+ * against the highest. Older versions stay listed (GET /schemas) so records
+ * that reference them can still be interpreted.
+ *
+ * Environment variables:
+ *   PAYLOAD_SCHEMAS_DIR=./schemas   (optional; without it no types are registered)
+ */
+
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import type { PayloadSchemaRef } from "@repo/crypto";
+
+/** One registered version of a transaction type's payload schema */
+export interface SchemaDefinition {
+  /** Transaction type, e.g. "payment" — stored on records as payload_schema.id */
+  type: string;
+
+  /** Positive integer; the highest version of a type validates new records */
+  version: number;
+
+  /** JSON Schema the payload must match */
+  schema: Record<string, unknown>;
+}
+
+/** One way a payload fails its schema */
+export interface SchemaViolation {
+  /** JSON Pointer to the offending value ("" for the payload itself) */
+  path: string;
+  message: string;
+}
+
+/** Outcome of validating a payload against its type's schema */
+export type SchemaCheck =
+  | { ok: true; ref: PayloadSchemaRef }
+  | { ok: false; error: string; violations: SchemaViolation[] };
+
+const TYPE_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+// ----- Configuration -----
+
+/**
+ * Check the shape of one schema file's contents.
+ *
+ * @throws naming `source` if the type, version or schema is missing or malformed
+ */
+function parseDefinition(value: unknown, source: string): SchemaDefinition {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${source}: expected an object with type, version and schema`);
+  }
+
+  const { type, version, schema } = value as Record<string, unknown>;
+
+  if (typeof type !== "string" || !TYPE_PATTERN.test(type)) {
+    throw new Error(`${source}: type must be 1-64 letters, digits, "_", "." or "-"`);
+  }
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new Error(`${source}: version must be a positive integer`);
+  }
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error(`${source}: schema must be a JSON Schema object`);
+  }
+
+  return { type, version: version as number, schema: schema as Record<string, unknown> };
+}
+
+/**
+ * Read payload schemas from the *.json files in PAYLOAD_SCHEMAS_DIR.
+ *
+ * @returns the definitions, or an empty list if PAYLOAD_SCHEMAS_DIR is not set
+ * @throws if the directory cannot be read, or a file is not a valid definition
+ */
+export function readPayloadSchemas(env: Record<string, string | undefined>): SchemaDefinition[] {
+  const dir = env.PAYLOAD_SCHEMAS_DIR;
+  if (!dir) {
+    return [];
+  }
+
+  const files = readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort();
+
+  return files.map((name) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(join(dir, name), "utf-8"));
+    } catch {
+      throw new Error(`PAYLOAD_SCHEMAS_DIR/${name}: not valid JSON`);
+    }
+    return parseDefinition(parsed, `PAYLOAD_SCHEMAS_DIR/${name}`);
+  });
+}
+
+// ----- Registry -----
+
+/**
+ * The registered payload schemas, compiled once at startup.
+ */
+export class SchemaRegistry {
+  private readonly ajv = new Ajv({ allErrors: true, strict: true });
+  private readonly definitions = new Map<string, SchemaDefinition[]>();
+  private readonly validators = new Map<string, ValidateFunction>();
+
+  /**
+   * @throws if a definition is malformed, registered twice, or its schema
+   *         does not compile
+   */
+  constructor(definitions: readonly SchemaDefinition[] = []) {
+    addFormats(this.ajv);
+
+    for (const definition of definitions) {
+      const { type, version, schema } = parseDefinition(definition, `Schema ${definition?.type}`);
+      const key = `${type}@${version}`;
+
+      if (this.validators.has(key)) {
+        throw new Error(`Schema ${type} v${version} is registered twice`);
+      }
+
+      try {
+        this.validators.set(key, this.ajv.compile(schema));
+      } catch (err) {
+        throw new Error(`Schema ${type} v${version} is invalid: ${err instanceof Error ? err.message : err}`);
+      }
+
+      const versions = this.definitions.get(type) ?? [];
+      versions.push({ type, version, schema });
+      versions.sort((a, b) => a.version - b.version);
+      this.definitions.set(type, versions);
+    }
+  }
+
+  /** Every registered schema version, by type then version */
+  list(): SchemaDefinition[] {
+    return [...this.definitions.keys()].sort().flatMap((type) => this.definitions.get(type)!);
+  }
+
+  /**
+   * Look up a schema.
+   *
+   * @param version - a specific version (default: the latest)
+   * @returns the definition, or undefined if the type or version is not registered
+   */
+  get(type: string, version?: number): SchemaDefinition | undefined {
+    const versions = this.definitions.get(type);
+    if (!versions) return undefined;
+    return version === undefined ? versions[versions.length - 1] : versions.find((d) => d.version === version);
+  }
+
+  /**
+   * Validate a payload against the latest schema of its transaction type.
+   *
+   * @returns the schema reference to store on the record, or an error and
+   *          the violations found (none for an unknown type)
+   */
+  validate(type: string, payload: Record<string, unknown>): SchemaCheck {
+    const definition = this.get(type);
+    if (!definition) {
+      return { ok: false, error: `Unknown transaction type: ${type}`, violations: [] };
+    }
+
+    const validator = this.validators.get(`${definition.type}@${definition.version}`)!;
+    if (validator(payload)) {
+      return { ok: true, ref: { id: definition.type, version: definition.version } };
+    }
+
+    return {
+      ok: false,
+      error: `payload does not match schema ${definition.type} v${definition.version}`,
+      violations: (validator.errors ?? []).map(violationOf),
+    };
+  }
+}
+
+/** Escape a property name for use as a JSON Pointer segment (RFC 6901) */
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/** A client-facing violation from an Ajv error */
+function violationOf(error: ErrorObject): SchemaViolation {
+  // Name the missing or unexpected property in the path, not just its parent
+  const property =
+    error.keyword === "required"
+      ? (error.params as { missingProperty: string }).missingProperty
+      : error.keyword === "additionalProperties"
+        ? (error.params as { additionalProperty: string }).additionalProperty
+        : undefined;
+
+  return {
+    path: property !== undefined ? `${error.instancePath}/${escapePointer(property)}` : error.instancePath,
+    message: error.message ?? "is invalid",
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * OpenAPI export command.
+ *
+ * Builds the app (in-memory storage, no API keys — nothing is served) and
+ * writes its OpenAPI document, the same one GET /openapi.json serves, to a
+ * file. The typed client in packages/client is generated from it, so run
+ * this after changing any route schema:
+ *
+ * Usage:
+ *   pnpm --filter @repo/api openapi [outFile]   (default: ../../packages/client/openapi.json)
+ */
+
+import { randomBytes } from "node:crypto";
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { buildApp } from "../app.js";
+import { createMemoryStorage } from "../store/index.js";
+
+const outFile = resolve(process.argv[2] ?? "../../packages/client/openapi.json");
+
+const app = await buildApp({
+  storage: createMemoryStorage(),
+  apiKeys: [],
+  auditKey: randomBytes(32),
+  logger: false,
+});
+
+try {
+  await app.ready();
+  writeFileSync(outFile, JSON.stringify(app.swagger(), null, 2) + "\n");
+  console.log(`OpenAPI document written to ${outFile}`);
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+} finally {
+  await app.close();
+}
@@ -0,0 +1,138 @@
+/**
+ * Master key custody command.
+ *
+ * Generates master keys, splits them into Shamir shares for several
+ * operators to hold, checks a set of shares, and creates the parameters
+ * for deriving keys from a passphrase or seed (see @repo/crypto keys.ts
+ * and kdf.ts for the environment variables that consume the output).
+ *
+ * Keys are only printed when asked for: split output is shares only, and
+ * combine prints the fingerprint unless --reveal is given.
+ *
+ * Usage:
+ *   pnpm --filter @repo/api master-key generate [--shares=N --threshold=K]
+ *   pnpm --filter @repo/api master-key split <version> --shares=N --threshold=K
+ *   pnpm --filter @repo/api master-key combine <share> <share> ... [--reveal]
+ *   pnpm --filter @repo/api master-key kdf <scrypt|hkdf> --versions=1,2
+ *
+ * split reads the key version from the configured environment; kdf uses
+ * MASTER_KEY_PASSPHRASE or MASTER_KEY_SEED if set to print the derived
+ * keys' fingerprints, and generates a seed for hkdf otherwise.
+ */
+
+import "dotenv/config";
+import { randomBytes } from "node:crypto";
+import {
+  buildKeyRegistry,
+  combineMasterKeyShares,
+  createKdfConfig,
+  deriveMasterKeys,
+  getKey,
+  keyFingerprint,
+  splitMasterKey,
+  validateHex,
+  KDF_ALGORITHMS,
+  type KdfAlgorithm,
+} from "@repo/crypto";
+
+const USAGE = `Usage:
+  master-key generate [--shares=N --threshold=K]
+  master-key split <version> --shares=N --threshold=K
+  master-key combine <share> <share> ... [--reveal]
+  master-key kdf <scrypt|hkdf> --versions=1,2`;
+
+const [command, ...args] = process.argv.slice(2);
+const positional = args.filter((arg) => !arg.startsWith("--"));
+const env = process.env as Record<string, string | undefined>;
+
+function option(name: string): string | undefined {
+  const arg = args.find((candidate) => candidate.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+function integerOption(name: string): number {
+  const value = Number(option(name));
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`--${name} must be a positive integer\n\n${USAGE}`);
+  }
+  return value;
+}
+
+function printShares(key: Buffer): void {
+  const shares = splitMasterKey(key, integerOption("shares"), integerOption("threshold"));
+  console.log(`Fingerprint: ${keyFingerprint(key)}`);
+  console.log("Give each share to a different operator:");
+  for (const share of shares) {
+    console.log(`  ${share}`);
+  }
+}
+
+try {
+  switch (command) {
+    case "generate": {
+      const key = randomBytes(32);
+      if (option("shares") !== undefined || option("threshold") !== undefined) {
+        printShares(key);
+      } else {
+        console.log(`Key:         ${key.toString("hex")}`);
+        console.log(`Fingerprint: ${keyFingerprint(key)}`);
+      }
+      key.fill(0);
+      break;
+    }
+
+    case "split": {
+      const version = Number(positional[0]);
+      if (!Number.isInteger(version) || version < 1) {
+        throw new Error(`split needs a key version\n\n${USAGE}`);
+      }
+      printShares(getKey(buildKeyRegistry(env), version));
+      break;
+    }
+
+    case "combine": {
+      const key = combineMasterKeyShares(positional.flatMap((arg) => arg.split(",")));
+      console.log(`Fingerprint: ${keyFingerprint(key)}`);
+      if (args.includes("--reveal")) {
+        console.log(`Key:         ${key.toString("hex")}`);
+      }
+      key.fill(0);
+      break;
+    }
+
+    case "kdf": {
+      const kdf = positional[0] as KdfAlgorithm;
+      if (!KDF_ALGORITHMS.includes(kdf)) {
+        throw new Error(`kdf needs one of: ${KDF_ALGORITHMS.join(", ")}\n\n${USAGE}`);
+      }
+      const versions = (option("versions") ?? "1").split(",").map(Number);
+      const config = createKdfConfig(kdf, versions);
+      console.log(`MASTER_KEY_KDF=${JSON.stringify(config)}`);
+
+      let secret: string | Buffer | undefined =
+        kdf === "scrypt"
+          ? env.MASTER_KEY_PASSPHRASE
+          : env.MASTER_KEY_SEED && validateHex(env.MASTER_KEY_SEED, "MASTER_KEY_SEED");
+      if (!secret && kdf === "hkdf") {
+        secret = randomBytes(32);
+        console.log(`MASTER_KEY_SEED=${secret.toString("hex")}`);
+      }
+
+      if (secret) {
+        for (const [version, key] of Object.entries(deriveMasterKeys(config, secret))) {
+          console.log(`  V${version} fingerprint: ${keyFingerprint(key)}`);
+        }
+      } else {
+        console.log("Set MASTER_KEY_PASSPHRASE to see the fingerprints of the derived keys.");
+      }
+      break;
+    }
+
+    default:
+      console.error(USAGE);
+      process.exitCode = 1;
+  }
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
@@ -0,0 +1,64 @@
+/**
+ * Master key rotation command.
+ *
+ * Re-wraps every stored record to the latest master key version (or the
+ * version given as the first argument) against the configured storage,
+ * printing progress and the per-version record counts when done.
+ * Each re-wrap is recorded in the audit log with actor "cli". A run cut
+ * short by --limit prints a cursor; pass it as --cursor to continue there.
+ *
+ * Usage:
+ *   pnpm --filter @repo/api rotate-keys [targetVersion] [--limit=N] [--cursor=C]
+ */
+
+import "dotenv/config";
+import { getKeyProvider } from "../keys.js";
+import { rotateRecords } from "../rotation.js";
+import { decodeCursor, encodeCursor } from "../pagination.js";
+import { AuditLog, readAuditKey } from "../audit.js";
+import { openStorage, readStoreConfig } from "../store/index.js";
+
+const args = process.argv.slice(2);
+const limitArg = args.find((arg) => arg.startsWith("--limit="));
+const cursorArg = args.find((arg) => arg.startsWith("--cursor="));
+const versionArg = args.find((arg) => !arg.startsWith("--"));
+
+const env = process.env as Record<string, string | undefined>;
+const storage = openStorage(readStoreConfig(env));
+
+try {
+  const report = await rotateRecords(storage.tx, getKeyProvider(), {
+    targetVersion: versionArg !== undefined ? Number(versionArg) : undefined,
+    limit: limitArg !== undefined ? Number(limitArg.slice("--limit=".length)) : undefined,
+    after: cursorArg !== undefined ? decodeCursor(cursorArg.slice("--cursor=".length)) : undefined,
+    audit: new AuditLog(storage.audit, readAuditKey(env)),
+    actor: "cli",
+    partyKeys: storage.partyKeys,
+    onProgress: ({ processed, total }) => {
+      process.stdout.write(`\rRe-wrapped ${processed}/${total}`);
+    },
+  });
+
+  process.stdout.write("\n");
+  console.log(`Target version:  V${report.targetVersion}`);
+  console.log(`Re-wrapped:      ${report.rewrapped}`);
+  console.log(`Failed:          ${report.failed.length}`);
+  for (const failure of report.failed) {
+    console.log(`  ${failure.id} (V${failure.mk_version}): ${failure.error}`);
+  }
+  console.log("Records per version:");
+  for (const [version, count] of Object.entries(report.versions)) {
+    console.log(`  V${version}: ${count}`);
+  }
+  console.log(`Remaining:       ${report.remaining}`);
+  if (report.nextCursor) {
+    console.log(`Next cursor:     ${encodeCursor(report.nextCursor)}`);
+  }
+
+  process.exitCode = report.failed.length > 0 ? 1 : 0;
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+} finally {
+  await storage.close();
+}
@@ -0,0 +1,17 @@
+/**
+ * tx-admin command (see ../admin.ts for the subcommands).
+ *
+ * Usage:
+ *   pnpm --filter @repo/api tx-admin <command> [options]
+ */
+
+import "dotenv/config";
+import { cliContext, runAdmin } from "../admin.js";
+
+const context = cliContext(process.env as Record<string, string | undefined>);
+
+try {
+  process.exitCode = await runAdmin(process.argv.slice(2), context);
+} finally {
+  await context.close();
+}
@@ -0,0 +1,53 @@
+/**
+ * Blob directory — one file per stored blob, used by the persistent
+ * backends for encrypted attachment content.
+ *
+ * Content is written to a temporary file and renamed into place once the
+ * stream has been fully consumed, so a failed or interrupted upload never
+ * leaves a partial blob under its final name.
+ */
+
+import { createReadStream, createWriteStream, mkdirSync, renameSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+const BLOB_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+export class BlobDirectory {
+  /**
+   * @param dir - directory holding the blobs (created if missing)
+   */
+  constructor(private readonly dir: string) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  async write(id: string, content: Readable): Promise<void> {
+    const path = this.pathOf(id);
+    const partial = `${path}.partial`;
+
+    try {
+      await pipeline(content, createWriteStream(partial, { mode: 0o600 }));
+      renameSync(partial, path);
+    } catch (err) {
+      rmSync(partial, { force: true });
+      throw err;
+    }
+  }
+
+  read(id: string): Readable {
+    return createReadStream(this.pathOf(id));
+  }
+
+  remove(id: string): void {
+    rmSync(this.pathOf(id), { force: true });
+  }
+
+  /** Blob ids become file names — reject anything that could escape the directory */
+  private pathOf(id: string): string {
+    if (!BLOB_ID.test(id)) {
+      throw new Error(`Invalid blob id: ${id}`);
+    }
+    return join(this.dir, `${id}.bin`);
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Storage factory — selects a storage backend from configuration.
+ *
+ * Environment variables:
+ *   TX_STORE=memory|sqlite|jsonl   (default: memory)
+ *   TX_STORE_PATH=<path>           sqlite: database file (default: ./data/tx.db)
+ *                                  jsonl:  data directory (default: ./data)
+ *
+ * The jsonl backend used to keep only a transaction log, and TX_STORE_PATH
+ * named that file (default: ./data/tx.jsonl). A path to an existing
+ * tx.jsonl file is still accepted and opens the directory holding it, where
+ * the log is already in place; any other file is refused with a hint.
+ */
+
+import { statSync } from "node:fs";
+import { basename, dirname } from "node:path";
+import { createMemoryStorage } from "./memory.js";
+import { createSqliteStorage } from "./sqlite.js";
+import { createJsonlStorage } from "./jsonl.js";
+import type { StoreConfig, StoreDriver, Storage } from "./types.js";
+
+export type {
+  TxStore,
+  TxQuery,
+  TxCursor,
+  AuditStore,
+  AuditEntry,
+  AuditEvent,
+  AuditListOptions,
+  AttachmentMeta,
+  AttachmentStore,
+  IdempotencyEntry,
+  IdempotencyStore,
+  LimitCounter,
+  LimitStore,
+  PartyKeyStore,
+  Storage,
+  StoreConfig,
+  StoreDriver,
+} from "./types.js";
+export {
+  MemoryTxStore,
+  MemoryAuditStore,
+  MemoryAttachmentStore,
+  MemoryIdempotencyStore,
+  MemoryPartyKeyStore,
+  MemoryLimitStore,
+  createMemoryStorage,
+} from "./memory.js";
+export {
+  SqliteTxStore,
+  SqliteAuditStore,
+  SqliteAttachmentStore,
+  SqliteIdempotencyStore,
+  SqlitePartyKeyStore,
+  SqliteLimitStore,
+  createSqliteStorage,
+} from "./sqlite.js";
+export {
+  JsonlTxStore,
+  JsonlAuditStore,
+  JsonlAttachmentStore,
+  JsonlIdempotencyStore,
+  JsonlPartyKeyStore,
+  JsonlLimitStore,
+  createJsonlStorage,
+} from "./jsonl.js";
+export { BlobDirectory } from "./blobs.js";
+
+const DEFAULT_PATHS: Record<Exclude<StoreDriver, "memory">, string> = {
+  sqlite: "./data/tx.db",
+  jsonl: "./data",
+};
+
+/**
+ * Read the store configuration from environment variables.
+ *
+ * @throws if TX_STORE names an unknown driver
+ */
+export function readStoreConfig(env: Record<string, string | undefined>): StoreConfig {
+  const driver = (env.TX_STORE || "memory").trim().toLowerCase();
+
+  if (driver !== "memory" && driver !== "sqlite" && driver !== "jsonl") {
+    throw new Error(`Unknown TX_STORE driver "${driver}". Expected memory, sqlite or jsonl.`);
+  }
+
+  return { driver, path: env.TX_STORE_PATH || undefined };
+}
+
+/**
+ * Open the storage backend for the given configuration.
+ */
+export function openStorage(config: StoreConfig): Storage {
+  switch (config.driver) {
+    case "memory":
+      return createMemoryStorage();
+    case "sqlite":
+      return createSqliteStorage(config.path ?? DEFAULT_PATHS.sqlite);
+    case "jsonl":
+      return createJsonlStorage(jsonlDataDir(config.path ?? DEFAULT_PATHS.jsonl));
+  }
+}
+
+/**
+ * The jsonl data directory for TX_STORE_PATH, accepting the single log file
+ * that older versions were configured with.
+ *
+ * @throws if the path is a file other than a tx.jsonl log
+ */
+function jsonlDataDir(path: string): string {
+  if (!statSync(path, { throwIfNoEntry: false })?.isFile()) {
+    return path;
+  }
+  if (basename(path) === "tx.jsonl") {
+    return dirname(path);
+  }
+  throw new Error(
+    `TX_STORE_PATH "${path}" is a file, but the jsonl store now needs a data directory. ` +
+      `Move the file to <dir>/tx.jsonl and set TX_STORE_PATH=<dir>.`
+  );
+}
@@ -0,0 +1,622 @@
+/**
+ * JSON-lines storage — persistent, append-only file storage.
+ *
+ * A data directory holds one file per repository:
+ *
+ *   tx.jsonl — an operation log, one JSON object per line:
+ *     {"op":"put","record":{...}}
+ *     {"op":"delete","id":"..."}
+ *
+ *   audit.jsonl — one audit entry per line, in seq order
+ *
+ *   attachments.jsonl — attachment metadata, an operation log like tx.jsonl
+ *   attachments/      — encrypted attachment content, one file each
+ *
+ *   idempotency.jsonl — Idempotency-Key entries, an operation log like tx.jsonl
+ *
+ *   party-keys.jsonl — wrapped per-party keys, one per line
+ *
+ *   party-erasures.jsonl — when a party's keys were destroyed, one
+ *     {"partyId":"...","shreddedAt":"..."} per erasure
+ *
+ *   limits.jsonl — rate limit and lockout counters, an operation log of
+ *     {"op":"set","counter":{...}} and {"op":"delete","key":"..."}
+ *
+ * On open each file is replayed into an in-memory index; every mutation is
+ * appended synchronously, so operations hit the file in the order they
+ * were issued. A partially written final line (e.g. after a crash) is
+ * ignored during replay and cut off the file, so later appends are not
+ * glued onto it.
+ *
+ * audit.jsonl may be shared with other processes (e.g. the tx-admin CLI
+ * next to a running API): an append takes audit.jsonl.lock, reads any
+ * entries appended by others and only then chains the new entry onto the
+ * last one, so the hash chain never forks. Its torn tail is likewise only
+ * cut off under the lock, since on open it may be another process's append
+ * still in progress.
+ *
+ * party-keys.jsonl is the exception: destroying a party's keys must not
+ * leave them in the log, so the file is rewritten without them instead.
+ * limits.jsonl is compacted on open to the counters still live, since
+ * every request through a rate limit appends to it. Counters and
+ * Idempotency-Key reservations in this backend survive restarts but are
+ * not shared between processes; use the sqlite backend for that.
+ */
+
+import {
+  appendFileSync,
+  closeSync,
+  mkdirSync,
+  openSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  truncateSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import type { Readable } from "node:stream";
+import type { PartyKey, TxSecureRecord } from "@repo/crypto";
+import { BlobDirectory } from "./blobs.js";
+import type {
+  AttachmentMeta,
+  AttachmentStore,
+  AuditEntry,
+  AuditListOptions,
+  AuditStore,
+  IdempotencyEntry,
+  IdempotencyStore,
+  LimitCounter,
+  LimitStore,
+  PartyKeyStore,
+  Storage,
+  TxQuery,
+  TxStore,
+} from "./types.js";
+import { queryRecords } from "./query.js";
+
+type LogEntry =
+  | { op: "put"; record: TxSecureRecord }
+  | { op: "delete"; id: string };
+
+type AttachmentLogEntry =
+  | { op: "put"; meta: AttachmentMeta }
+  | { op: "delete"; id: string };
+
+type IdempotencyLogEntry =
+  | { op: "put"; entry: IdempotencyEntry }
+  | { op: "delete"; actor: string; key: string };
+
+type LimitLogEntry =
+  | { op: "set"; counter: LimitCounter }
+  | { op: "delete"; key: string };
+
+type PartyErasure = { partyId: string; shreddedAt: string };
+
+export class JsonlTxStore implements TxStore {
+  private readonly records = new Map<string, TxSecureRecord>();
+
+  /**
+   * @param path - log file path (created if missing)
+   */
+  constructor(private readonly path: string) {
+    this.replay(readLog(path));
+  }
+
+  async get(id: string): Promise<TxSecureRecord | undefined> {
+    return this.records.get(id);
+  }
+
+  async put(record: TxSecureRecord): Promise<void> {
+    this.append({ op: "put", record });
+    this.records.set(record.id, record);
+  }
+
+  async list(): Promise<TxSecureRecord[]> {
+    return Array.from(this.records.values());
+  }
+
+  async query(query: TxQuery): Promise<TxSecureRecord[]> {
+    return queryRecords(this.records.values(), query);
+  }
+
+  async findByIndex(field: string, token: string): Promise<TxSecureRecord[]> {
+    return Array.from(this.records.values()).filter((record) => record.blind_index?.[field] === token);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.records.has(id)) {
+      return false;
+    }
+    this.append({ op: "delete", id });
+    return this.records.delete(id);
+  }
+
+  // ----- Internals -----
+
+  private append(entry: LogEntry): void {
+    appendFileSync(this.path, JSON.stringify(entry) + "\n", "utf-8");
+  }
+
+  private replay(entries: LogEntry[]): void {
+    for (const entry of entries) {
+      if (entry.op === "put") {
+        this.records.set(entry.record.id, entry.record);
+      } else if (entry.op === "delete") {
+        this.records.delete(entry.id);
+      }
+    }
+  }
+}
+
+export class JsonlAuditStore implements AuditStore {
+  private readonly entries: AuditEntry[] = [];
+
+  /** Bytes of the log read into `entries` so far */
+  private size = 0;
+
+  /**
+   * @param path - log file path (created if missing)
+   */
+  constructor(private readonly path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    // Repairs wait for appendNext, which holds the lock
+    this.catchUp(false);
+  }
+
+  async appendNext(next: (last: AuditEntry | undefined) => AuditEntry): Promise<AuditEntry> {
+    return withFileLock(this.path, () => {
+      // Another process may have appended since this one last looked
+      this.catchUp(true);
+      const entry = next(this.entries[this.entries.length - 1]);
+      const line = JSON.stringify(entry) + "\n";
+      appendFileSync(this.path, line, "utf-8");
+      this.entries.push(entry);
+      this.size += Buffer.byteLength(line, "utf-8");
+      return entry;
+    });
+  }
+
+  async list(options: AuditListOptions = {}): Promise<AuditEntry[]> {
+    this.catchUp(false);
+    const after = this.entries.filter((entry) => entry.seq > (options.afterSeq ?? 0));
+    return options.limit !== undefined ? after.slice(0, options.limit) : after;
+  }
+
+  async last(): Promise<AuditEntry | undefined> {
+    this.catchUp(false);
+    return this.entries[this.entries.length - 1];
+  }
+
+  // ----- Internals -----
+
+  /** Read entries appended to the file since it was last read */
+  private catchUp(repair: boolean): void {
+    const { entries, size } = readLogFrom<AuditEntry>(this.path, this.size, repair);
+    this.entries.push(...entries);
+    this.size = size;
+  }
+}
+
+export class JsonlAttachmentStore implements AttachmentStore {
+  private readonly metas = new Map<string, AttachmentMeta>();
+
+  /**
+   * @param path  - metadata log file path (created if missing)
+   * @param blobs - where encrypted content is kept
+   */
+  constructor(
+    private readonly path: string,
+    private readonly blobs: BlobDirectory
+  ) {
+    this.replay(readLog(path));
+  }
+
+  writeContent(id: string, content: Readable): Promise<void> {
+    return this.blobs.write(id, content);
+  }
+
+  readContent(id: string): Readable {
+    return this.blobs.read(id);
+  }
+
+  async put(meta: AttachmentMeta): Promise<void> {
+    this.append({ op: "put", meta });
+    this.metas.set(meta.id, meta);
+  }
+
+  async get(id: string): Promise<AttachmentMeta | undefined> {
+    return this.metas.get(id);
+  }
+
+  async listByTx(txId: string): Promise<AttachmentMeta[]> {
+    return Array.from(this.metas.values()).filter((meta) => meta.txId === txId);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.blobs.remove(id);
+    if (!this.metas.has(id)) {
+      return false;
+    }
+    this.append({ op: "delete", id });
+    return this.metas.delete(id);
+  }
+
+  // ----- Internals -----
+
+  private append(entry: AttachmentLogEntry): void {
+    appendFileSync(this.path, JSON.stringify(entry) + "\n", "utf-8");
+  }
+
+  private replay(entries: AttachmentLogEntry[]): void {
+    for (const entry of entries) {
+      if (entry.op === "put") {
+        this.metas.set(entry.meta.id, entry.meta);
+      } else if (entry.op === "delete") {
+        this.metas.delete(entry.id);
+      }
+    }
+  }
+}
+
+export class JsonlIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, IdempotencyEntry>();
+
+  /**
+   * @param path - log file path (created if missing)
+   */
+  constructor(private readonly path: string) {
+    this.replay(readLog(path));
+  }
+
+  async get(actor: string, key: string): Promise<IdempotencyEntry | undefined> {
+    return this.entries.get(entryId(actor, key));
+  }
+
+  async add(entry: IdempotencyEntry): Promise<IdempotencyEntry | undefined> {
+    const existing = this.entries.get(entryId(entry.actor, entry.key));
+    if (existing) {
+      return existing;
+    }
+    this.append({ op: "put", entry });
+    this.entries.set(entryId(entry.actor, entry.key), entry);
+    return undefined;
+  }
+
+  async put(entry: IdempotencyEntry): Promise<void> {
+    this.append({ op: "put", entry });
+    this.entries.set(entryId(entry.actor, entry.key), entry);
+  }
+
+  async delete(entry: IdempotencyEntry): Promise<boolean> {
+    const stored = this.entries.get(entryId(entry.actor, entry.key));
+    if (!stored || JSON.stringify(stored) !== JSON.stringify(entry)) {
+      return false;
+    }
+    this.append({ op: "delete", actor: entry.actor, key: entry.key });
+    return this.entries.delete(entryId(entry.actor, entry.key));
+  }
+
+  async deleteBefore(createdAt: string): Promise<number> {
+    let removed = 0;
+    for (const [id, entry] of this.entries) {
+      if (entry.createdAt < createdAt) {
+        this.append({ op: "delete", actor: entry.actor, key: entry.key });
+        this.entries.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // ----- Internals -----
+
+  private append(entry: IdempotencyLogEntry): void {
+    appendFileSync(this.path, JSON.stringify(entry) + "\n", "utf-8");
+  }
+
+  private replay(entries: IdempotencyLogEntry[]): void {
+    for (const entry of entries) {
+      if (entry.op === "put") {
+        this.entries.set(entryId(entry.entry.actor, entry.entry.key), entry.entry);
+      } else if (entry.op === "delete") {
+        this.entries.delete(entryId(entry.actor, entry.key));
+      }
+    }
+  }
+}
+
+export class JsonlPartyKeyStore implements PartyKeyStore {
+  private readonly keys: PartyKey[] = [];
+  private readonly shredded = new Map<string, string>();
+
+  /**
+   * @param path         - key file path (created if missing)
+   * @param erasuresPath - erasure log path (created if missing)
+   */
+  constructor(
+    private readonly path: string,
+    private readonly erasuresPath: string
+  ) {
+    this.keys.push(...readLog<PartyKey>(path));
+    for (const erasure of readLog<PartyErasure>(erasuresPath)) {
+      this.shredded.set(erasure.partyId, erasure.shreddedAt);
+    }
+  }
+
+  async list(partyId: string): Promise<PartyKey[]> {
+    return this.keys.filter((key) => key.partyId === partyId);
+  }
+
+  async add(key: PartyKey): Promise<PartyKey> {
+    const existing = this.keys.find(
+      (stored) => stored.partyId === key.partyId && stored.mk_version === key.mk_version
+    );
+    if (existing) {
+      return existing;
+    }
+    appendFileSync(this.path, JSON.stringify(key) + "\n", "utf-8");
+    this.keys.push(key);
+    return key;
+  }
+
+  async destroy(partyId: string, at: Date = new Date()): Promise<number> {
+    const erasure: PartyErasure = { partyId, shreddedAt: at.toISOString() };
+    appendFileSync(this.erasuresPath, JSON.stringify(erasure) + "\n", "utf-8");
+    this.shredded.set(partyId, erasure.shreddedAt);
+
+    const kept = this.keys.filter((key) => key.partyId !== partyId);
+    const removed = this.keys.length - kept.length;
+    if (removed === 0) {
+      return 0;
+    }
+
+    // Write the remaining keys to a new file and swap it in atomically
+    const next = `${this.path}.tmp`;
+    writeFileSync(next, kept.map((key) => JSON.stringify(key) + "\n").join(""), "utf-8");
+    renameSync(next, this.path);
+
+    this.keys.splice(0, this.keys.length, ...kept);
+    return removed;
+  }
+
+  async shreddedAt(partyId: string): Promise<string | undefined> {
+    return this.shredded.get(partyId);
+  }
+}
+
+export class JsonlLimitStore implements LimitStore {
+  private readonly counters = new Map<string, LimitCounter>();
+
+  /**
+   * @param path - log file path (created if missing; compacted when opened)
+   */
+  constructor(private readonly path: string) {
+    this.replay(readLog(path));
+    this.compact();
+  }
+
+  async hit(key: string, windowMs: number, now: Date = new Date()): Promise<LimitCounter> {
+    const live = await this.get(key, now);
+    const counter = live
+      ? { ...live, count: live.count + 1 }
+      : { key, count: 1, resetAt: now.getTime() + windowMs };
+    this.append({ op: "set", counter });
+    this.counters.set(key, counter);
+    return { ...counter };
+  }
+
+  async get(key: string, now: Date = new Date()): Promise<LimitCounter | undefined> {
+    const counter = this.counters.get(key);
+    return counter && counter.resetAt > now.getTime() ? { ...counter } : undefined;
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.counters.delete(key)) {
+      this.append({ op: "delete", key });
+    }
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    let removed = 0;
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now.getTime()) {
+        this.append({ op: "delete", key });
+        this.counters.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // ----- Internals -----
+
+  private append(entry: LimitLogEntry): void {
+    appendFileSync(this.path, JSON.stringify(entry) + "\n", "utf-8");
+  }
+
+  private replay(entries: LimitLogEntry[]): void {
+    for (const entry of entries) {
+      if (entry.op === "set") {
+        this.counters.set(entry.counter.key, entry.counter);
+      } else if (entry.op === "delete") {
+        this.counters.delete(entry.key);
+      }
+    }
+  }
+
+  /** Rewrite the log as one entry per live counter, swapped in atomically */
+  private compact(): void {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+
+    const next = `${this.path}.tmp`;
+    const lines = [...this.counters.values()].map((counter) => JSON.stringify({ op: "set", counter }) + "\n");
+    writeFileSync(next, lines.join(""), "utf-8");
+    renameSync(next, this.path);
+  }
+}
+
+/**
+ * Open (or create) a JSON-lines storage backend in a data directory.
+ *
+ * @param dir - directory holding tx.jsonl, audit.jsonl, attachments,
+ *              idempotency.jsonl, party-keys.jsonl and limits.jsonl
+ *              (created if missing)
+ */
+export function createJsonlStorage(dir: string): Storage {
+  return {
+    tx: new JsonlTxStore(join(dir, "tx.jsonl")),
+    audit: new JsonlAuditStore(join(dir, "audit.jsonl")),
+    attachments: new JsonlAttachmentStore(
+      join(dir, "attachments.jsonl"),
+      new BlobDirectory(join(dir, "attachments"))
+    ),
+    idempotency: new JsonlIdempotencyStore(join(dir, "idempotency.jsonl")),
+    partyKeys: new JsonlPartyKeyStore(join(dir, "party-keys.jsonl"), join(dir, "party-erasures.jsonl")),
+    limits: new JsonlLimitStore(join(dir, "limits.jsonl")),
+    close: async () => {},
+  };
+}
+
+// ----- Helpers -----
+
+/** How long an append waits for another process's lock file */
+const LOCK_TIMEOUT_MS = 5_000;
+
+/** Delay between attempts to take a lock file */
+const LOCK_RETRY_MS = 5;
+
+/** Age after which a lock file is taken to be left by a crashed process */
+const LOCK_STALE_MS = 10_000;
+
+/** Map key of an idempotency entry */
+function entryId(actor: string, key: string): string {
+  return JSON.stringify([actor, key]);
+}
+
+/**
+ * Read a JSON-lines file (creating its directory if missing), repairing a
+ * torn tail as readLogFrom does.
+ */
+function readLog<T>(path: string): T[] {
+  mkdirSync(dirname(path), { recursive: true });
+  return readLogFrom<T>(path, 0, true).entries;
+}
+
+/**
+ * Read the lines of a JSON-lines file from a byte offset.
+ *
+ * Without `repair`, a last line with no newline yet is left for a later
+ * read, since another process may still be writing it. With `repair` (for
+ * the file's only writer), a torn final line (e.g. from a crash mid-append)
+ * is skipped and cut off the file, and a final line missing its newline
+ * gets one, so the next append starts on a line of its own instead of being
+ * glued to the tail.
+ *
+ * @returns the parsed entries, and the file's size up to the last entry read
+ */
+function readLogFrom<T>(path: string, offset: number, repair: boolean): { entries: T[]; size: number } {
+  const stored = statSync(path, { throwIfNoEntry: false })?.size ?? 0;
+  if (stored <= offset) {
+    return { entries: [], size: offset };
+  }
+
+  const buffer = Buffer.alloc(stored - offset);
+  const fd = openSync(path, "r");
+  try {
+    readSync(fd, buffer, 0, buffer.length, offset);
+  } finally {
+    closeSync(fd);
+  }
+
+  let contents = buffer.toString("utf-8");
+  if (!repair) {
+    contents = contents.slice(0, contents.lastIndexOf("\n") + 1);
+  }
+  const { entries, end } = parseLines<T>(path, contents);
+  const kept = contents.slice(0, end);
+  const size = offset + Buffer.byteLength(kept, "utf-8");
+
+  if (repair && end < contents.length) {
+    truncateSync(path, size);
+  }
+  if (repair && kept.length > 0 && !kept.endsWith("\n")) {
+    appendFileSync(path, "\n", "utf-8");
+    return { entries, size: size + 1 };
+  }
+  return { entries, size };
+}
+
+/**
+ * Run `fn` holding an exclusive lock on a file, so writers in other
+ * processes take turns. The lock is a `<path>.lock` file created with O_EXCL;
+ * one left behind by a crashed process is removed once it is stale.
+ *
+ * @throws if the lock cannot be taken within LOCK_TIMEOUT_MS
+ */
+async function withFileLock<T>(path: string, fn: () => T): Promise<T> {
+  const lock = `${path}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      closeSync(openSync(lock, "wx"));
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+
+    const held = statSync(lock, { throwIfNoEntry: false });
+    if (held && Date.now() - held.mtimeMs > LOCK_STALE_MS) {
+      rmSync(lock, { force: true });
+    } else if (Date.now() > deadline) {
+      throw new Error(`${path}: timed out waiting for ${lock}`);
+    } else {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    rmSync(lock, { force: true });
+  }
+}
+
+/**
+ * Parse JSON-lines contents, tolerating a torn final line.
+ *
+ * @returns the parsed entries, and the length of the contents up to the
+ *          end of the last line that parsed (a torn line starts there)
+ */
+function parseLines<T>(path: string, contents: string): { entries: T[]; end: number } {
+  const entries: T[] = [];
+  let offset = 0;
+  let end = 0;
+  let line = 0;
+
+  while (offset < contents.length) {
+    const newline = contents.indexOf("\n", offset);
+    const next = newline === -1 ? contents.length : newline + 1;
+    const text = contents.slice(offset, next).trim();
+
+    if (text.length > 0) {
+      line++;
+      try {
+        entries.push(JSON.parse(text) as T);
+      } catch {
+        // Only the last line may be torn by an interrupted write
+        if (contents.slice(next).trim().length === 0) break;
+        throw new Error(`${path}: corrupt log entry on line ${line}`);
+      }
+    }
+    offset = next;
+    end = next;
+  }
+
+  return { entries, end };
+}
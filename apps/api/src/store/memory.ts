@@ -0,0 +1,221 @@
+/**
+ * In-memory storage — records are lost on server restart.
+ * Suitable for demos and unit tests.
+ */
+
+import { Buffer } from "node:buffer";
+import { Readable } from "node:stream";
+import type { PartyKey, TxSecureRecord } from "@repo/crypto";
+import type {
+  AttachmentMeta,
+  AttachmentStore,
+  AuditEntry,
+  AuditListOptions,
+  AuditStore,
+  IdempotencyEntry,
+  IdempotencyStore,
+  LimitCounter,
+  LimitStore,
+  PartyKeyStore,
+  Storage,
+  TxQuery,
+  TxStore,
+} from "./types.js";
+import { queryRecords } from "./query.js";
+
+export class MemoryTxStore implements TxStore {
+  private readonly records = new Map<string, TxSecureRecord>();
+
+  async get(id: string): Promise<TxSecureRecord | undefined> {
+    return this.records.get(id);
+  }
+
+  async put(record: TxSecureRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async list(): Promise<TxSecureRecord[]> {
+    return Array.from(this.records.values());
+  }
+
+  async query(query: TxQuery): Promise<TxSecureRecord[]> {
+    return queryRecords(this.records.values(), query);
+  }
+
+  async findByIndex(field: string, token: string): Promise<TxSecureRecord[]> {
+    return Array.from(this.records.values()).filter((record) => record.blind_index?.[field] === token);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+}
+
+export class MemoryAuditStore implements AuditStore {
+  private readonly entries: AuditEntry[] = [];
+
+  async appendNext(next: (last: AuditEntry | undefined) => AuditEntry): Promise<AuditEntry> {
+    const entry = next(this.entries[this.entries.length - 1]);
+    this.entries.push(entry);
+    return entry;
+  }
+
+  async list(options: AuditListOptions = {}): Promise<AuditEntry[]> {
+    const after = this.entries.filter((entry) => entry.seq > (options.afterSeq ?? 0));
+    return options.limit !== undefined ? after.slice(0, options.limit) : after;
+  }
+
+  async last(): Promise<AuditEntry | undefined> {
+    return this.entries[this.entries.length - 1];
+  }
+}
+
+export class MemoryAttachmentStore implements AttachmentStore {
+  private readonly metas = new Map<string, AttachmentMeta>();
+  private readonly contents = new Map<string, Buffer>();
+
+  async writeContent(id: string, content: Readable): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of content) {
+      chunks.push(Buffer.from(chunk as Uint8Array));
+    }
+    this.contents.set(id, Buffer.concat(chunks));
+  }
+
+  readContent(id: string): Readable {
+    const content = this.contents.get(id);
+    if (!content) {
+      const missing = new Readable({ read() {} });
+      missing.destroy(new Error(`Attachment content not found: ${id}`));
+      return missing;
+    }
+    return Readable.from([content]);
+  }
+
+  async put(meta: AttachmentMeta): Promise<void> {
+    this.metas.set(meta.id, meta);
+  }
+
+  async get(id: string): Promise<AttachmentMeta | undefined> {
+    return this.metas.get(id);
+  }
+
+  async listByTx(txId: string): Promise<AttachmentMeta[]> {
+    return Array.from(this.metas.values()).filter((meta) => meta.txId === txId);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.contents.delete(id);
+    return this.metas.delete(id);
+  }
+}
+
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, IdempotencyEntry>();
+
+  async get(actor: string, key: string): Promise<IdempotencyEntry | undefined> {
+    return this.entries.get(JSON.stringify([actor, key]));
+  }
+
+  async add(entry: IdempotencyEntry): Promise<IdempotencyEntry | undefined> {
+    const existing = this.entries.get(JSON.stringify([entry.actor, entry.key]));
+    if (existing) {
+      return existing;
+    }
+    this.entries.set(JSON.stringify([entry.actor, entry.key]), entry);
+    return undefined;
+  }
+
+  async put(entry: IdempotencyEntry): Promise<void> {
+    this.entries.set(JSON.stringify([entry.actor, entry.key]), entry);
+  }
+
+  async delete(entry: IdempotencyEntry): Promise<boolean> {
+    const id = JSON.stringify([entry.actor, entry.key]);
+    const stored = this.entries.get(id);
+    return stored !== undefined && JSON.stringify(stored) === JSON.stringify(entry) && this.entries.delete(id);
+  }
+
+  async deleteBefore(createdAt: string): Promise<number> {
+    let removed = 0;
+    for (const [id, entry] of this.entries) {
+      if (entry.createdAt < createdAt && this.entries.delete(id)) removed++;
+    }
+    return removed;
+  }
+}
+
+export class MemoryPartyKeyStore implements PartyKeyStore {
+  private readonly keys = new Map<string, PartyKey[]>();
+  private readonly shredded = new Map<string, string>();
+
+  async list(partyId: string): Promise<PartyKey[]> {
+    return [...(this.keys.get(partyId) ?? [])];
+  }
+
+  async add(key: PartyKey): Promise<PartyKey> {
+    const keys = this.keys.get(key.partyId) ?? [];
+    const existing = keys.find((stored) => stored.mk_version === key.mk_version);
+    if (existing) {
+      return existing;
+    }
+    this.keys.set(key.partyId, [...keys, key]);
+    return key;
+  }
+
+  async destroy(partyId: string, at: Date = new Date()): Promise<number> {
+    const removed = this.keys.get(partyId)?.length ?? 0;
+    this.keys.delete(partyId);
+    this.shredded.set(partyId, at.toISOString());
+    return removed;
+  }
+
+  async shreddedAt(partyId: string): Promise<string | undefined> {
+    return this.shredded.get(partyId);
+  }
+}
+
+export class MemoryLimitStore implements LimitStore {
+  private readonly counters = new Map<string, LimitCounter>();
+
+  async hit(key: string, windowMs: number, now: Date = new Date()): Promise<LimitCounter> {
+    const live = await this.get(key, now);
+    const counter = live
+      ? { ...live, count: live.count + 1 }
+      : { key, count: 1, resetAt: now.getTime() + windowMs };
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  async get(key: string, now: Date = new Date()): Promise<LimitCounter | undefined> {
+    const counter = this.counters.get(key);
+    return counter && counter.resetAt > now.getTime() ? { ...counter } : undefined;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    let removed = 0;
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now.getTime() && this.counters.delete(key)) removed++;
+    }
+    return removed;
+  }
+}
+
+/**
+ * Create a fresh, empty in-memory storage backend.
+ */
+export function createMemoryStorage(): Storage {
+  return {
+    tx: new MemoryTxStore(),
+    audit: new MemoryAuditStore(),
+    attachments: new MemoryAttachmentStore(),
+    idempotency: new MemoryIdempotencyStore(),
+    partyKeys: new MemoryPartyKeyStore(),
+    limits: new MemoryLimitStore(),
+    close: async () => {},
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * TxQuery evaluation for backends that keep records in memory (memory,
+ * jsonl). Ordering matches the SQLite backend: createdAt, then id, compared
+ * as plain strings.
+ */
+
+import type { TxSecureRecord } from "@repo/crypto";
+import type { TxCursor, TxQuery } from "./types.js";
+
+/** Ascending sort order of records */
+function compare(a: TxCursor, b: TxCursor): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
+
+/**
+ * Filter, sort and page a set of records.
+ */
+export function queryRecords(records: Iterable<TxSecureRecord>, query: TxQuery): TxSecureRecord[] {
+  const direction = query.order === "asc" ? 1 : -1;
+  const parties = query.partyIds ? new Set(query.partyIds) : undefined;
+  const { after } = query;
+
+  const matches = Array.from(records).filter(
+    (record) =>
+      (!parties || parties.has(record.partyId)) &&
+      (query.mk_version === undefined || record.mk_version === query.mk_version) &&
+      (query.alg === undefined || record.alg === query.alg) &&
+      (query.createdFrom === undefined || record.createdAt >= query.createdFrom) &&
+      (query.createdTo === undefined || record.createdAt < query.createdTo) &&
+      (query.expiredBy === undefined || (record.expiresAt !== undefined && record.expiresAt <= query.expiredBy)) &&
+      (query.activeAt === undefined || record.expiresAt === undefined || record.expiresAt > query.activeAt) &&
+      (!after || compare(record, after) * direction > 0)
+  );
+
+  return matches.sort((a, b) => compare(a, b) * direction).slice(0, query.limit);
+}
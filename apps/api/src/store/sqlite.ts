@@ -0,0 +1,467 @@
+/**
+ * SQLite storage — embedded, persistent storage via better-sqlite3.
+ *
+ * One database file holds every table:
+ *   - tx_records — each record stored as its JSON form, alongside a few
+ *                  plain columns (party_id, created_at) that can be indexed
+ *   - tx_blind_index — one row per blind index token of a record, kept in
+ *                  step with tx_records for exact-match search
+ *   - audit_log  — audit entries keyed by seq; triggers reject UPDATE and
+ *                  DELETE so the log is append-only at the database level
+ *   - attachments — attachment metadata, indexed by tx_id
+ *   - idempotency_keys — Idempotency-Key entries, keyed by (actor, key)
+ *   - party_keys — wrapped per-party keys, keyed by (party_id, mk_version)
+ *   - party_erasures — when each party's keys were last destroyed
+ *   - limits     — rate limit and lockout counters, keyed by name
+ *
+ * Encrypted attachment content is kept out of the database, as one file
+ * per attachment in an "attachments" directory next to the database file.
+ *
+ * WAL mode is enabled so reads don't block the single writer. secure_delete
+ * is on so deleted rows (notably destroyed party keys) are overwritten in
+ * the database file rather than left in free pages. Several API instances
+ * may share one database file (limit counters are meant to be shared), so
+ * writers wait briefly for the lock instead of failing.
+ */
+
+import { mkdirSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import type { Readable } from "node:stream";
+import Database from "better-sqlite3";
+import type { PartyKey, TxSecureRecord } from "@repo/crypto";
+import { BlobDirectory } from "./blobs.js";
+import type {
+  AttachmentMeta,
+  AttachmentStore,
+  AuditEntry,
+  AuditListOptions,
+  AuditStore,
+  IdempotencyEntry,
+  IdempotencyStore,
+  LimitCounter,
+  LimitStore,
+  PartyKeyStore,
+  Storage,
+  TxQuery,
+  TxStore,
+} from "./types.js";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tx_records (
+    id         TEXT PRIMARY KEY,
+    party_id   TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    record     TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tx_records_party_created
+    ON tx_records (party_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS tx_blind_index (
+    tx_id TEXT NOT NULL REFERENCES tx_records (id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    token TEXT NOT NULL,
+    PRIMARY KEY (tx_id, field)
+  );
+  CREATE INDEX IF NOT EXISTS tx_blind_index_lookup
+    ON tx_blind_index (field, token);
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    seq   INTEGER PRIMARY KEY,
+    entry TEXT NOT NULL
+  );
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+    BEFORE UPDATE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+    BEFORE DELETE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+
+  CREATE TABLE IF NOT EXISTS attachments (
+    id    TEXT PRIMARY KEY,
+    tx_id TEXT NOT NULL,
+    meta  TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS attachments_tx ON attachments (tx_id);
+
+  CREATE TABLE IF NOT EXISTS idempotency_keys (
+    actor      TEXT NOT NULL,
+    key        TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    entry      TEXT NOT NULL,
+    PRIMARY KEY (actor, key)
+  );
+  CREATE INDEX IF NOT EXISTS idempotency_keys_created ON idempotency_keys (created_at);
+
+  CREATE TABLE IF NOT EXISTS party_keys (
+    party_id   TEXT NOT NULL,
+    mk_version INTEGER NOT NULL,
+    key        TEXT NOT NULL,
+    PRIMARY KEY (party_id, mk_version)
+  );
+
+  CREATE TABLE IF NOT EXISTS party_erasures (
+    party_id    TEXT PRIMARY KEY,
+    shredded_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS limits (
+    key      TEXT PRIMARY KEY,
+    count    INTEGER NOT NULL,
+    reset_at INTEGER NOT NULL
+  );
+`;
+
+export class SqliteTxStore implements TxStore {
+  constructor(private readonly db: Database.Database) {}
+
+  async get(id: string): Promise<TxSecureRecord | undefined> {
+    const row = this.db
+      .prepare("SELECT record FROM tx_records WHERE id = ?")
+      .get(id) as { record: string } | undefined;
+    return row ? (JSON.parse(row.record) as TxSecureRecord) : undefined;
+  }
+
+  async put(record: TxSecureRecord): Promise<void> {
+    const upsert = this.db.prepare(
+      `INSERT INTO tx_records (id, party_id, created_at, record)
+       VALUES (@id, @partyId, @createdAt, @record)
+       ON CONFLICT (id) DO UPDATE SET
+         party_id = excluded.party_id,
+         created_at = excluded.created_at,
+         record = excluded.record`
+    );
+    const clearIndex = this.db.prepare("DELETE FROM tx_blind_index WHERE tx_id = ?");
+    const addIndex = this.db.prepare("INSERT INTO tx_blind_index (tx_id, field, token) VALUES (?, ?, ?)");
+
+    // Record and index rows change together
+    this.db.transaction(() => {
+      upsert.run({
+        id: record.id,
+        partyId: record.partyId,
+        createdAt: record.createdAt,
+        record: JSON.stringify(record),
+      });
+      clearIndex.run(record.id);
+      for (const [field, token] of Object.entries(record.blind_index ?? {})) {
+        addIndex.run(record.id, field, token);
+      }
+    })();
+  }
+
+  async list(): Promise<TxSecureRecord[]> {
+    const rows = this.db.prepare("SELECT record FROM tx_records").all() as { record: string }[];
+    return rows.map((row) => JSON.parse(row.record) as TxSecureRecord);
+  }
+
+  async query(query: TxQuery): Promise<TxSecureRecord[]> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.partyIds) {
+      if (query.partyIds.length === 0) return [];
+      where.push(`party_id IN (${query.partyIds.map(() => "?").join(", ")})`);
+      params.push(...query.partyIds);
+    }
+    if (query.mk_version !== undefined) {
+      where.push("json_extract(record, '$.mk_version') = ?");
+      params.push(query.mk_version);
+    }
+    if (query.alg !== undefined) {
+      where.push("json_extract(record, '$.alg') = ?");
+      params.push(query.alg);
+    }
+    if (query.createdFrom !== undefined) {
+      where.push("created_at >= ?");
+      params.push(query.createdFrom);
+    }
+    if (query.createdTo !== undefined) {
+      where.push("created_at < ?");
+      params.push(query.createdTo);
+    }
+    if (query.expiredBy !== undefined) {
+      where.push("json_extract(record, '$.expiresAt') <= ?");
+      params.push(query.expiredBy);
+    }
+    if (query.activeAt !== undefined) {
+      where.push("(json_extract(record, '$.expiresAt') IS NULL OR json_extract(record, '$.expiresAt') > ?)");
+      params.push(query.activeAt);
+    }
+
+    const desc = query.order !== "asc";
+    if (query.after) {
+      const op = desc ? "<" : ">";
+      where.push(`(created_at ${op} ? OR (created_at = ? AND id ${op} ?))`);
+      params.push(query.after.createdAt, query.after.createdAt, query.after.id);
+    }
+
+    const direction = desc ? "DESC" : "ASC";
+    const rows = this.db
+      .prepare(
+        `SELECT record FROM tx_records
+         ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY created_at ${direction}, id ${direction}
+         LIMIT ?`
+      )
+      .all(...params, query.limit) as { record: string }[];
+    return rows.map((row) => JSON.parse(row.record) as TxSecureRecord);
+  }
+
+  async findByIndex(field: string, token: string): Promise<TxSecureRecord[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT r.record FROM tx_blind_index i
+         JOIN tx_records r ON r.id = i.tx_id
+         WHERE i.field = ? AND i.token = ?`
+      )
+      .all(field, token) as { record: string }[];
+    return rows.map((row) => JSON.parse(row.record) as TxSecureRecord);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare("DELETE FROM tx_records WHERE id = ?").run(id);
+    return result.changes > 0;
+  }
+}
+
+export class SqliteAuditStore implements AuditStore {
+  constructor(private readonly db: Database.Database) {}
+
+  async appendNext(next: (last: AuditEntry | undefined) => AuditEntry): Promise<AuditEntry> {
+    const insert = this.db.prepare("INSERT INTO audit_log (seq, entry) VALUES (?, ?)");
+
+    // IMMEDIATE takes the write lock before reading the head, so other
+    // instances on this database wait instead of chaining onto it too
+    return this.db
+      .transaction(() => {
+        const entry = next(this.lastEntry());
+        insert.run(entry.seq, JSON.stringify(entry));
+        return entry;
+      })
+      .immediate();
+  }
+
+  async list(options: AuditListOptions = {}): Promise<AuditEntry[]> {
+    const rows = this.db
+      .prepare("SELECT entry FROM audit_log WHERE seq > ? ORDER BY seq LIMIT ?")
+      .all(options.afterSeq ?? 0, options.limit ?? -1) as { entry: string }[];
+    return rows.map((row) => JSON.parse(row.entry) as AuditEntry);
+  }
+
+  async last(): Promise<AuditEntry | undefined> {
+    return this.lastEntry();
+  }
+
+  private lastEntry(): AuditEntry | undefined {
+    const row = this.db
+      .prepare("SELECT entry FROM audit_log ORDER BY seq DESC LIMIT 1")
+      .get() as { entry: string } | undefined;
+    return row ? (JSON.parse(row.entry) as AuditEntry) : undefined;
+  }
+}
+
+export class SqliteAttachmentStore implements AttachmentStore {
+  constructor(
+    private readonly db: Database.Database,
+    private readonly blobs: BlobDirectory
+  ) {}
+
+  writeContent(id: string, content: Readable): Promise<void> {
+    return this.blobs.write(id, content);
+  }
+
+  readContent(id: string): Readable {
+    return this.blobs.read(id);
+  }
+
+  async put(meta: AttachmentMeta): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO attachments (id, tx_id, meta) VALUES (@id, @txId, @meta)
+         ON CONFLICT (id) DO UPDATE SET tx_id = excluded.tx_id, meta = excluded.meta`
+      )
+      .run({ id: meta.id, txId: meta.txId, meta: JSON.stringify(meta) });
+  }
+
+  async get(id: string): Promise<AttachmentMeta | undefined> {
+    const row = this.db
+      .prepare("SELECT meta FROM attachments WHERE id = ?")
+      .get(id) as { meta: string } | undefined;
+    return row ? (JSON.parse(row.meta) as AttachmentMeta) : undefined;
+  }
+
+  async listByTx(txId: string): Promise<AttachmentMeta[]> {
+    const rows = this.db
+      .prepare("SELECT meta FROM attachments WHERE tx_id = ?")
+      .all(txId) as { meta: string }[];
+    return rows.map((row) => JSON.parse(row.meta) as AttachmentMeta);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare("DELETE FROM attachments WHERE id = ?").run(id);
+    this.blobs.remove(id);
+    return result.changes > 0;
+  }
+}
+
+export class SqliteIdempotencyStore implements IdempotencyStore {
+  constructor(private readonly db: Database.Database) {}
+
+  async get(actor: string, key: string): Promise<IdempotencyEntry | undefined> {
+    const row = this.db
+      .prepare("SELECT entry FROM idempotency_keys WHERE actor = ? AND key = ?")
+      .get(actor, key) as { entry: string } | undefined;
+    return row ? (JSON.parse(row.entry) as IdempotencyEntry) : undefined;
+  }
+
+  async add(entry: IdempotencyEntry): Promise<IdempotencyEntry | undefined> {
+    const inserted = this.db
+      .prepare(
+        `INSERT INTO idempotency_keys (actor, key, created_at, entry)
+         VALUES (@actor, @key, @createdAt, @entry)
+         ON CONFLICT (actor, key) DO NOTHING`
+      )
+      .run({ actor: entry.actor, key: entry.key, createdAt: entry.createdAt, entry: JSON.stringify(entry) });
+    return inserted.changes > 0 ? undefined : this.get(entry.actor, entry.key);
+  }
+
+  async put(entry: IdempotencyEntry): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO idempotency_keys (actor, key, created_at, entry)
+         VALUES (@actor, @key, @createdAt, @entry)
+         ON CONFLICT (actor, key) DO UPDATE SET
+           created_at = excluded.created_at,
+           entry = excluded.entry`
+      )
+      .run({ actor: entry.actor, key: entry.key, createdAt: entry.createdAt, entry: JSON.stringify(entry) });
+  }
+
+  async delete(entry: IdempotencyEntry): Promise<boolean> {
+    const deleted = this.db
+      .prepare("DELETE FROM idempotency_keys WHERE actor = ? AND key = ? AND entry = ?")
+      .run(entry.actor, entry.key, JSON.stringify(entry));
+    return deleted.changes > 0;
+  }
+
+  async deleteBefore(createdAt: string): Promise<number> {
+    return this.db.prepare("DELETE FROM idempotency_keys WHERE created_at < ?").run(createdAt).changes;
+  }
+}
+
+export class SqlitePartyKeyStore implements PartyKeyStore {
+  constructor(private readonly db: Database.Database) {}
+
+  async list(partyId: string): Promise<PartyKey[]> {
+    const rows = this.db
+      .prepare("SELECT key FROM party_keys WHERE party_id = ?")
+      .all(partyId) as { key: string }[];
+    return rows.map((row) => JSON.parse(row.key) as PartyKey);
+  }
+
+  async add(key: PartyKey): Promise<PartyKey> {
+    this.db
+      .prepare(
+        `INSERT INTO party_keys (party_id, mk_version, key) VALUES (?, ?, ?)
+         ON CONFLICT (party_id, mk_version) DO NOTHING`
+      )
+      .run(key.partyId, key.mk_version, JSON.stringify(key));
+
+    const row = this.db
+      .prepare("SELECT key FROM party_keys WHERE party_id = ? AND mk_version = ?")
+      .get(key.partyId, key.mk_version) as { key: string };
+    return JSON.parse(row.key) as PartyKey;
+  }
+
+  async destroy(partyId: string, at: Date = new Date()): Promise<number> {
+    const removed = this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO party_erasures (party_id, shredded_at) VALUES (?, ?)
+           ON CONFLICT (party_id) DO UPDATE SET shredded_at = excluded.shredded_at`
+        )
+        .run(partyId, at.toISOString());
+      return this.db.prepare("DELETE FROM party_keys WHERE party_id = ?").run(partyId).changes;
+    })();
+
+    // Copy the overwritten pages back from the WAL and empty it, so no old page
+    // still holding the keys is left behind in the -wal file
+    this.db.pragma("wal_checkpoint(TRUNCATE)");
+    return removed;
+  }
+
+  async shreddedAt(partyId: string): Promise<string | undefined> {
+    const row = this.db
+      .prepare("SELECT shredded_at FROM party_erasures WHERE party_id = ?")
+      .get(partyId) as { shredded_at: string } | undefined;
+    return row?.shredded_at;
+  }
+}
+
+export class SqliteLimitStore implements LimitStore {
+  constructor(private readonly db: Database.Database) {}
+
+  async hit(key: string, windowMs: number, now: Date = new Date()): Promise<LimitCounter> {
+    // One statement, so concurrent hits from other instances are never lost
+    const row = this.db
+      .prepare(
+        `INSERT INTO limits (key, count, reset_at) VALUES (@key, 1, @now + @windowMs)
+         ON CONFLICT (key) DO UPDATE SET
+           count = CASE WHEN reset_at <= @now THEN 1 ELSE count + 1 END,
+           reset_at = CASE WHEN reset_at <= @now THEN excluded.reset_at ELSE reset_at END
+         RETURNING key, count, reset_at AS resetAt`
+      )
+      .get({ key, now: now.getTime(), windowMs }) as LimitCounter;
+    return { ...row };
+  }
+
+  async get(key: string, now: Date = new Date()): Promise<LimitCounter | undefined> {
+    const row = this.db
+      .prepare("SELECT key, count, reset_at AS resetAt FROM limits WHERE key = ? AND reset_at > ?")
+      .get(key, now.getTime()) as LimitCounter | undefined;
+    return row ? { ...row } : undefined;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare("DELETE FROM limits WHERE key = ?").run(key);
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    return this.db.prepare("DELETE FROM limits WHERE reset_at <= ?").run(now.getTime()).changes;
+  }
+}
+
+/**
+ * Open (or create) a SQLite storage backend.
+ *
+ * @param path - database file path, or ":memory:" for a throwaway database
+ *               (attachment content then goes to a temporary directory)
+ */
+export function createSqliteStorage(path: string): Storage {
+  let blobDir: string;
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+    blobDir = join(dirname(path), "attachments");
+  } else {
+    blobDir = mkdtempSync(join(tmpdir(), "tx-attachments-"));
+  }
+
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  db.pragma("foreign_keys = ON");
+  db.pragma("secure_delete = ON");
+  db.exec(SCHEMA);
+
+  return {
+    tx: new SqliteTxStore(db),
+    audit: new SqliteAuditStore(db),
+    attachments: new SqliteAttachmentStore(db, new BlobDirectory(blobDir)),
+    idempotency: new SqliteIdempotencyStore(db),
+    partyKeys: new SqlitePartyKeyStore(db),
+    limits: new SqliteLimitStore(db),
+    close: async () => {
+      db.close();
+    },
+  };
+}
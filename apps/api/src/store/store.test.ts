@@ -0,0 +1,525 @@
+/**
+ * Storage Backend Tests
+ * ======================
+ *
+ * Runs the same contract against every backend:
+ *   1. put → get round-trip
+ *   2. put replaces an existing record
+ *   3. list returns all records
+ *   4. delete removes a record and reports whether it existed
+ *   5. findByIndex matches blind index tokens and follows replaces and deletes
+ *   6. query filters (including by expiry), orders and pages records by cursor
+ *   7. Audit entries are returned in seq order and paged by afterSeq/limit
+ *   8. Attachment content and metadata round-trip; a failed write keeps nothing
+ *   9. Idempotency entries are scoped per actor, replaceable and expire by age;
+ *      add reserves a key only once, and delete removes only unchanged entries
+ *  10. Party keys: add keeps the first key per version; destroy removes a party's
+ *      keys and remembers when
+ *  11. Limit counters count hits in fixed windows, restart when a window ends,
+ *      and can be deleted one by one or once expired
+ *  12. Persistent backends (sqlite, jsonl) survive close + reopen, and destroyed
+ *      party keys are gone from the files while their erasure time is kept
+ *  13. Two sqlite backends open on one file share their limit counters
+ *  14. jsonl cuts a torn final line off each log when opened, so the next
+ *      append survives another reopen
+ *  15. A jsonl TX_STORE_PATH naming an old tx.jsonl log opens its directory;
+ *      other files are refused
+ *  16. Opening a jsonl backend leaves an audit entry another process is
+ *      still appending (holding audit.jsonl.lock) intact
+ *  16. Audit appends from several backends open on one sqlite file or jsonl
+ *      directory chain onto each other instead of forking
+ *
+ * Persistent backends use a fresh temporary directory per test.
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { randomBytes } from "node:crypto";
+import { Readable } from "node:stream";
+import { buildKeyRegistry, createPartyKey, envelopeEncrypt, type TxSecureRecord } from "@repo/crypto";
+import {
+  openStorage,
+  type AttachmentMeta,
+  type AttachmentStore,
+  type AuditEntry,
+  type StoreDriver,
+  type TxQuery,
+} from "./index.js";
+
+// ----- Test helpers -----
+
+const registry = buildKeyRegistry({ MASTER_KEY_V1: randomBytes(32).toString("hex") });
+
+function makeRecord(id: string, partyId = "party-1"): TxSecureRecord {
+  return envelopeEncrypt(registry, id, partyId, { amount: 100, currency: "AED" });
+}
+
+function makeAuditEntry(seq: number): AuditEntry {
+  return {
+    seq,
+    timestamp: new Date().toISOString(),
+    event: "encrypt",
+    outcome: "success",
+    actor: "test",
+    txId: `tx-${seq}`,
+    prev_mac: "",
+    mac: "00",
+  };
+}
+
+function makeAttachmentMeta(id: string, txId = "tx-1"): AttachmentMeta {
+  return {
+    id,
+    txId,
+    partyId: "party-1",
+    filename: "receipt.pdf",
+    contentType: "application/pdf",
+    size: 3,
+    mk_version: 1,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+async function readAll(attachments: AttachmentStore, id: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of attachments.readContent(id)) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+const BACKENDS: { driver: StoreDriver; file?: string }[] = [
+  { driver: "memory" },
+  { driver: "sqlite", file: "tx.db" },
+  { driver: "jsonl", file: "jsonl-data" },
+];
+
+// ----- Tests -----
+
+for (const { driver, file } of BACKENDS) {
+  describe(`Storage (${driver})`, () => {
+    let dir: string;
+    let path: string | undefined;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "txstore-"));
+      path = file ? join(dir, file) : undefined;
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should store and retrieve a record", async () => {
+      const storage = openStorage({ driver, path });
+      const store = storage.tx;
+      const record = makeRecord("tx-1");
+
+      await store.put(record);
+
+      assert.deepEqual(await store.get("tx-1"), record);
+      assert.equal(await store.get("missing"), undefined);
+      await storage.close();
+    });
+
+    it("should replace a record with the same id", async () => {
+      const storage = openStorage({ driver, path });
+      const store = storage.tx;
+      await store.put(makeRecord("tx-1", "party-1"));
+      await store.put(makeRecord("tx-1", "party-2"));
+
+      const stored = await store.get("tx-1");
+      assert.equal(stored?.partyId, "party-2");
+      assert.equal((await store.list()).length, 1);
+      await storage.close();
+    });
+
+    it("should list all records", async () => {
+      const storage = openStorage({ driver, path });
+      const store = storage.tx;
+      await store.put(makeRecord("tx-1"));
+      await store.put(makeRecord("tx-2"));
+      await store.put(makeRecord("tx-3"));
+
+      const ids = (await store.list()).map((record) => record.id).sort();
+      assert.deepEqual(ids, ["tx-1", "tx-2", "tx-3"]);
+      await storage.close();
+    });
+
+    it("should delete a record", async () => {
+      const storage = openStorage({ driver, path });
+      const store = storage.tx;
+      await store.put(makeRecord("tx-1"));
+
+      assert.equal(await store.delete("tx-1"), true);
+      assert.equal(await store.delete("tx-1"), false);
+      assert.equal(await store.get("tx-1"), undefined);
+      await storage.close();
+    });
+
+    it("should find records by blind index token", async () => {
+      const storage = openStorage({ driver, path });
+      const store = storage.tx;
+      await store.put({ ...makeRecord("tx-1"), blind_index: { merchant: "aa".repeat(32) } });
+      await store.put({ ...makeRecord("tx-2"), blind_index: { merchant: "aa".repeat(32), amount: "bb".repeat(32) } });
+      await store.put(makeRecord("tx-3"));
+
+      const ids = async (field: string, token: string) =>
+        (await store.findByIndex(field, token)).map((record) => record.id).sort();
+
+      assert.deepEqual(await ids("merchant", "aa".repeat(32)), ["tx-1", "tx-2"]);
+      assert.deepEqual(await ids("amount", "bb".repeat(32)), ["tx-2"]);
+      assert.deepEqual(await ids("amount", "aa".repeat(32)), []);
+
+      // Replacing or deleting a record updates its index entries
+      await store.put({ ...makeRecord("tx-1"), blind_index: { merchant: "cc".repeat(32) } });
+      await store.delete("tx-2");
+      assert.deepEqual(await ids("merchant", "aa".repeat(32)), []);
+      assert.deepEqual(await ids("merchant", "cc".repeat(32)), ["tx-1"]);
+      await storage.close();
+    });
+
+    it("should filter, order and page records", async () => {
+      const storage = openStorage({ driver, path });
+      const store = storage.tx;
+      const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString();
+
+      // tx-2 and tx-3 share a timestamp, so the id breaks the tie
+      await store.put({ ...makeRecord("tx-1", "party-1"), createdAt: at(1) });
+      await store.put({ ...makeRecord("tx-2", "party-2"), createdAt: at(2) });
+      await store.put({ ...makeRecord("tx-3", "party-1"), createdAt: at(2), mk_version: 2 });
+      await store.put({ ...makeRecord("tx-4", "party-1"), createdAt: at(3), alg: "ChaCha20-Poly1305" });
+
+      const ids = async (query: Omit<TxQuery, "limit"> & { limit?: number }) =>
+        (await store.query({ limit: 10, ...query })).map((record) => record.id);
+
+      assert.deepEqual(await ids({}), ["tx-4", "tx-3", "tx-2", "tx-1"]);
+      assert.deepEqual(await ids({ order: "asc" }), ["tx-1", "tx-2", "tx-3", "tx-4"]);
+      assert.deepEqual(await ids({ partyIds: ["party-1"] }), ["tx-4", "tx-3", "tx-1"]);
+      assert.deepEqual(await ids({ partyIds: [] }), []);
+      assert.deepEqual(await ids({ mk_version: 2 }), ["tx-3"]);
+      assert.deepEqual(await ids({ alg: "ChaCha20-Poly1305" }), ["tx-4"]);
+      assert.deepEqual(await ids({ createdFrom: at(2), createdTo: at(3) }), ["tx-3", "tx-2"]);
+
+      // Paging with the last record as cursor visits every record once
+      const first = await store.query({ limit: 2 });
+      const last = first[first.length - 1];
+      assert.deepEqual(await ids({ after: { createdAt: last.createdAt, id: last.id } }), ["tx-2", "tx-1"]);
+      assert.deepEqual(await ids({ order: "asc", after: { createdAt: at(2), id: "tx-2" }, limit: 1 }), ["tx-3"]);
+      await storage.close();
+    });
+
+    it("should filter records by expiry", async () => {
+      const storage = openStorage({ driver, path });
+      const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString();
+
+      await storage.tx.put({ ...makeRecord("tx-1"), createdAt: at(1), expiresAt: at(10) });
+      await storage.tx.put({ ...makeRecord("tx-2"), createdAt: at(2), expiresAt: at(20) });
+      await storage.tx.put({ ...makeRecord("tx-3"), createdAt: at(3) });
+
+      const ids = async (query: Omit<TxQuery, "limit">) =>
+        (await storage.tx.query({ limit: 10, order: "asc", ...query })).map((record) => record.id);
+
+      assert.deepEqual(await ids({ expiredBy: at(5) }), []);
+      assert.deepEqual(await ids({ expiredBy: at(10) }), ["tx-1"]);
+      assert.deepEqual(await ids({ activeAt: at(10) }), ["tx-2", "tx-3"]);
+      assert.deepEqual(await ids({ activeAt: at(30) }), ["tx-3"]);
+      await storage.close();
+    });
+
+    it("should append and page audit entries in seq order", async () => {
+      const storage = openStorage({ driver, path });
+      for (let i = 0; i < 5; i++) {
+        const appended = await storage.audit.appendNext((last) => makeAuditEntry((last?.seq ?? 0) + 1));
+        assert.equal(appended.seq, i + 1);
+      }
+
+      const all = await storage.audit.list();
+      assert.deepEqual(all.map((entry) => entry.seq), [1, 2, 3, 4, 5]);
+
+      const page = await storage.audit.list({ afterSeq: 2, limit: 2 });
+      assert.deepEqual(page.map((entry) => entry.seq), [3, 4]);
+
+      assert.equal((await storage.audit.last())?.seq, 5);
+      await storage.close();
+    });
+
+    it("should store attachment content and metadata", async () => {
+      const storage = openStorage({ driver, path });
+      const content = randomBytes(1000);
+
+      await storage.attachments.writeContent("att-1", Readable.from([content.subarray(0, 400), content.subarray(400)]));
+      await storage.attachments.put(makeAttachmentMeta("att-1"));
+      await storage.attachments.put(makeAttachmentMeta("att-2", "tx-2"));
+
+      assert.deepEqual(await readAll(storage.attachments, "att-1"), content);
+      assert.equal((await storage.attachments.get("att-1"))?.filename, "receipt.pdf");
+      assert.deepEqual((await storage.attachments.listByTx("tx-1")).map((meta) => meta.id), ["att-1"]);
+
+      // A stream that fails part-way leaves no content behind
+      const failing = new Readable({
+        read() {
+          this.push(Buffer.from("partial"));
+          this.destroy(new Error("upload aborted"));
+        },
+      });
+      await assert.rejects(storage.attachments.writeContent("att-3", failing), /upload aborted/);
+      await assert.rejects(readAll(storage.attachments, "att-3"));
+
+      assert.equal(await storage.attachments.delete("att-1"), true);
+      assert.equal(await storage.attachments.get("att-1"), undefined);
+      await assert.rejects(readAll(storage.attachments, "att-1"));
+      await storage.close();
+    });
+
+    it("should store and expire idempotency entries", async () => {
+      const storage = openStorage({ driver, path });
+      const entry = (actor: string, txId: string, createdAt: string) => ({
+        actor,
+        key: "key-1",
+        requestHash: "ab",
+        txId,
+        createdAt,
+      });
+
+      await storage.idempotency.put(entry("client-a", "tx-1", "2024-01-01T00:00:00.000Z"));
+      await storage.idempotency.put(entry("client-b", "tx-2", "2024-01-03T00:00:00.000Z"));
+      assert.equal((await storage.idempotency.get("client-a", "key-1"))?.txId, "tx-1");
+      assert.equal((await storage.idempotency.get("client-b", "key-1"))?.txId, "tx-2");
+      assert.equal(await storage.idempotency.get("client-a", "key-2"), undefined);
+
+      await storage.idempotency.put(entry("client-a", "tx-3", "2024-01-02T00:00:00.000Z"));
+      assert.equal((await storage.idempotency.get("client-a", "key-1"))?.txId, "tx-3");
+
+      assert.equal(await storage.idempotency.deleteBefore("2024-01-03T00:00:00.000Z"), 1);
+      assert.equal(await storage.idempotency.get("client-a", "key-1"), undefined);
+      assert.equal((await storage.idempotency.get("client-b", "key-1"))?.txId, "tx-2");
+      await storage.close();
+    });
+
+    it("should reserve idempotency keys once and delete only unchanged entries", async () => {
+      const storage = openStorage({ driver, path });
+      const reservation = { actor: "client-a", key: "key-1", requestHash: "ab", createdAt: "2024-01-01T00:00:00.000Z" };
+
+      assert.equal(await storage.idempotency.add(reservation), undefined);
+      assert.deepEqual(await storage.idempotency.add({ ...reservation, requestHash: "cd" }), reservation);
+      assert.equal(await storage.idempotency.add({ ...reservation, actor: "client-b" }), undefined);
+
+      // A completed entry is no longer the reservation, so releasing that is a no-op
+      const completed = { ...reservation, txId: "tx-1" };
+      await storage.idempotency.put(completed);
+      assert.equal(await storage.idempotency.delete(reservation), false);
+      assert.deepEqual(await storage.idempotency.get("client-a", "key-1"), completed);
+      assert.equal(await storage.idempotency.delete(completed), true);
+      assert.equal(await storage.idempotency.get("client-a", "key-1"), undefined);
+      await storage.close();
+    });
+
+    it("should add and destroy party keys", async () => {
+      const storage = openStorage({ driver, path });
+      const first = createPartyKey(registry, "party-1");
+
+      assert.deepEqual(await storage.partyKeys.add(first), first);
+      // A second key for the same party and version loses to the stored one
+      assert.deepEqual(await storage.partyKeys.add(createPartyKey(registry, "party-1")), first);
+      await storage.partyKeys.add(createPartyKey(registry, "party-2"));
+
+      assert.deepEqual(await storage.partyKeys.list("party-1"), [first]);
+      assert.equal(await storage.partyKeys.shreddedAt("party-1"), undefined);
+      assert.equal(await storage.partyKeys.destroy("party-1", new Date("2024-01-01T00:00:00.000Z")), 1);
+      assert.deepEqual(await storage.partyKeys.list("party-1"), []);
+      assert.equal((await storage.partyKeys.list("party-2")).length, 1);
+      assert.equal(await storage.partyKeys.destroy("party-1", new Date("2024-02-01T00:00:00.000Z")), 0);
+
+      // Each erasure is remembered, the latest one counts
+      assert.equal(await storage.partyKeys.shreddedAt("party-1"), "2024-02-01T00:00:00.000Z");
+      assert.equal(await storage.partyKeys.shreddedAt("party-2"), undefined);
+      await storage.close();
+    });
+
+    it("should count limit hits in fixed windows", async () => {
+      const storage = openStorage({ driver, path });
+      const start = new Date("2024-01-01T00:00:00.000Z");
+      const at = (ms: number) => new Date(start.getTime() + ms);
+      const resetAt = start.getTime() + 1000;
+
+      assert.deepEqual(await storage.limits.hit("a", 1000, start), { key: "a", count: 1, resetAt });
+      assert.deepEqual(await storage.limits.hit("a", 1000, at(500)), { key: "a", count: 2, resetAt });
+      await storage.limits.hit("b", 5000, start);
+      assert.deepEqual(await storage.limits.get("a", at(999)), { key: "a", count: 2, resetAt });
+
+      // Once the window has ended the counter is gone, and the next hit starts a new one
+      assert.equal(await storage.limits.get("a", at(1000)), undefined);
+      assert.deepEqual(await storage.limits.hit("a", 1000, at(1500)), { key: "a", count: 1, resetAt: resetAt + 1500 });
+
+      await storage.limits.delete("a");
+      assert.equal(await storage.limits.get("a", at(1500)), undefined);
+
+      await storage.limits.hit("c", 1000, start);
+      assert.equal(await storage.limits.deleteExpired(at(2000)), 1);
+      assert.equal((await storage.limits.get("b", at(2000)))?.count, 1);
+      await storage.close();
+    });
+
+    if (driver !== "memory") {
+      it("should persist every repository across close and reopen", async () => {
+        const first = openStorage({ driver, path });
+        const kept = makeRecord("tx-kept");
+        await first.tx.put(kept);
+        await first.tx.put(makeRecord("tx-deleted"));
+        await first.tx.delete("tx-deleted");
+        const entry = makeAuditEntry(1);
+        await first.audit.appendNext(() => entry);
+        const meta = makeAttachmentMeta("att-kept");
+        await first.attachments.writeContent("att-kept", Readable.from([Buffer.from("abc")]));
+        await first.attachments.put(meta);
+        const idempotencyEntry = {
+          actor: "a",
+          key: "k",
+          requestHash: "ab",
+          txId: "tx-kept",
+          createdAt: kept.createdAt,
+        };
+        await first.idempotency.put(idempotencyEntry);
+        const partyKey = await first.partyKeys.add(createPartyKey(registry, "party-kept"));
+        const destroyed = await first.partyKeys.add(createPartyKey(registry, "party-destroyed"));
+        await first.partyKeys.destroy("party-destroyed");
+        await first.limits.hit("limit-kept", 60_000);
+        await first.limits.hit("limit-kept", 60_000);
+        await first.limits.hit("limit-deleted", 60_000);
+        await first.limits.delete("limit-deleted");
+        await first.close();
+
+        // No trace of the destroyed key's wrapped bytes in the backend's files
+        const files = driver === "sqlite" ? [path!] : [join(path!, "party-keys.jsonl")];
+        for (const stored of files) {
+          assert.equal(readFileSync(stored).includes(Buffer.from(destroyed.ct)), false);
+        }
+
+        const second = openStorage({ driver, path });
+        assert.deepEqual(await second.tx.get("tx-kept"), kept);
+        assert.equal(await second.tx.get("tx-deleted"), undefined);
+        assert.equal((await second.tx.list()).length, 1);
+        assert.deepEqual(await second.audit.list(), [entry]);
+        assert.deepEqual(await second.attachments.get("att-kept"), meta);
+        assert.equal((await readAll(second.attachments, "att-kept")).toString(), "abc");
+        assert.deepEqual(await second.idempotency.get("a", "k"), idempotencyEntry);
+        assert.deepEqual(await second.partyKeys.list("party-kept"), [partyKey]);
+        assert.deepEqual(await second.partyKeys.list("party-destroyed"), []);
+        assert.ok(await second.partyKeys.shreddedAt("party-destroyed"));
+        assert.equal((await second.limits.get("limit-kept"))?.count, 2);
+        assert.equal(await second.limits.get("limit-deleted"), undefined);
+        await second.close();
+      });
+    }
+
+    if (driver !== "memory") {
+      it("should chain audit appends from several backends open on one log", async () => {
+        const first = openStorage({ driver, path });
+        const second = openStorage({ driver, path });
+        const next = (last: AuditEntry | undefined) => ({
+          ...makeAuditEntry((last?.seq ?? 0) + 1),
+          prev_mac: last?.mac ?? "",
+          mac: randomBytes(4).toString("hex"),
+        });
+
+        // Each backend chains onto the entries the other one appended
+        await Promise.all([
+          first.audit.appendNext(next),
+          second.audit.appendNext(next),
+          first.audit.appendNext(next),
+          second.audit.appendNext(next),
+        ]);
+
+        for (const storage of [first, second]) {
+          const entries = await storage.audit.list();
+          assert.deepEqual(entries.map((entry) => entry.seq), [1, 2, 3, 4]);
+          entries.slice(1).forEach((entry, i) => assert.equal(entry.prev_mac, entries[i].mac));
+        }
+        await first.close();
+        await second.close();
+      });
+    }
+
+    if (driver === "jsonl") {
+      it("should cut a torn final line off the log before appending", async () => {
+        const first = openStorage({ driver, path });
+        const kept = makeRecord("tx-kept");
+        await first.tx.put(kept);
+        await first.audit.appendNext(() => makeAuditEntry(1));
+        await first.close();
+
+        // Simulate a crash halfway through writing the next line of each log
+        for (const name of ["tx.jsonl", "audit.jsonl"]) {
+          appendFileSync(join(path!, name), '{"op":"put","rec');
+        }
+
+        const second = openStorage({ driver, path });
+        assert.deepEqual(await second.tx.list(), [kept]);
+        const added = makeRecord("tx-added");
+        await second.tx.put(added);
+        await second.audit.appendNext(() => makeAuditEntry(2));
+        await second.close();
+
+        const third = openStorage({ driver, path });
+        assert.deepEqual(await third.tx.get("tx-added"), added);
+        assert.deepEqual((await third.audit.list()).map((entry) => entry.seq), [1, 2]);
+        assert.doesNotMatch(readFileSync(join(path!, "tx.jsonl"), "utf-8"), /"rec\{/);
+        await third.close();
+      });
+
+      it("should not cut off an audit entry another process is still appending", async () => {
+        const first = openStorage({ driver, path });
+        await first.audit.appendNext(() => makeAuditEntry(1));
+        await first.close();
+
+        // Another process holds the lock and has written half of its entry
+        const log = join(path!, "audit.jsonl");
+        const line = JSON.stringify(makeAuditEntry(2)) + "\n";
+        writeFileSync(`${log}.lock`, "");
+        appendFileSync(log, line.slice(0, 20));
+
+        const second = openStorage({ driver, path });
+        assert.deepEqual((await second.audit.list()).map((entry) => entry.seq), [1]);
+
+        appendFileSync(log, line.slice(20));
+        rmSync(`${log}.lock`);
+        assert.deepEqual((await second.audit.list()).map((entry) => entry.seq), [1, 2]);
+        await second.close();
+      });
+
+      it("should open the directory of a tx.jsonl file configured as the path", async () => {
+        mkdirSync(path!);
+        const record = makeRecord("tx-old");
+        writeFileSync(join(path!, "tx.jsonl"), JSON.stringify({ op: "put", record }) + "\n");
+
+        const storage = openStorage({ driver, path: join(path!, "tx.jsonl") });
+        assert.deepEqual(await storage.tx.get("tx-old"), record);
+        await storage.audit.appendNext(() => makeAuditEntry(1));
+        await storage.close();
+        assert.ok(existsSync(join(path!, "audit.jsonl")));
+
+        writeFileSync(join(dir, "records.jsonl"), "");
+        assert.throws(
+          () => openStorage({ driver, path: join(dir, "records.jsonl") }),
+          /is a file, but the jsonl store now needs a data directory/
+        );
+      });
+    }
+
+    if (driver === "sqlite") {
+      it("should share limit counters between backends open on one file", async () => {
+        const first = openStorage({ driver, path });
+        const second = openStorage({ driver, path });
+
+        await first.limits.hit("shared", 60_000);
+        await second.limits.hit("shared", 60_000);
+        assert.equal((await first.limits.hit("shared", 60_000)).count, 3);
+
+        await first.close();
+        await second.close();
+      });
+    }
+  });
+}
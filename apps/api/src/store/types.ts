@@ -0,0 +1,324 @@
+/**
+ * Storage abstractions for the API.
+ *
+ * A Storage backend bundles every repository the API needs over one
+ * underlying medium (a SQLite database, a data directory, or memory):
+ *   - TxStore         — encrypted transaction records
+ *   - AuditStore      — append-only audit log entries
+ *   - AttachmentStore — encrypted file attachments linked to a record
+ *   - IdempotencyStore — Idempotency-Key replay entries for POST /tx/encrypt
+ *   - PartyKeyStore   — per-party key-encryption keys, wrapped under master keys
+ *   - LimitStore      — rate limit and lockout counters, shared by every
+ *                       instance using the backend
+ *
+ * Records and attachment contents are already encrypted, so backends never
+ * see plaintext payloads and need no crypto of their own.
+ *
+ * All operations are async so network-backed stores can be added later
+ * without changing the route handlers.
+ */
+
+import type { Readable } from "node:stream";
+import type { PartyKey, TxSecureRecord } from "@repo/crypto";
+
+export interface TxStore {
+  /** Fetch a record by ID, or undefined if it does not exist */
+  get(id: string): Promise<TxSecureRecord | undefined>;
+
+  /** Insert or replace a record (keyed by record.id) */
+  put(record: TxSecureRecord): Promise<void>;
+
+  /** Return every stored record (unordered) */
+  list(): Promise<TxSecureRecord[]>;
+
+  /** One page of records matching a query, in createdAt (then id) order */
+  query(query: TxQuery): Promise<TxSecureRecord[]>;
+
+  /** Records whose blind_index has this token for this field (unordered) */
+  findByIndex(field: string, token: string): Promise<TxSecureRecord[]>;
+
+  /** Delete a record by ID. Resolves true if a record was removed. */
+  delete(id: string): Promise<boolean>;
+}
+
+/** Sort position of a record; a page continues strictly after it */
+export interface TxCursor {
+  createdAt: string;
+  id: string;
+}
+
+/** Filters, order and page bounds for TxStore.query */
+export interface TxQuery {
+  /** Only records of these parties (default: all parties) */
+  partyIds?: readonly string[];
+
+  mk_version?: number;
+  alg?: string;
+
+  /** Earliest createdAt, inclusive (ISO-8601 as produced by toISOString) */
+  createdFrom?: string;
+
+  /** Latest createdAt, exclusive (ISO-8601 as produced by toISOString) */
+  createdTo?: string;
+
+  /** Only records whose expiresAt is at or before this time (ISO-8601) */
+  expiredBy?: string;
+
+  /** Leave out records whose expiresAt is at or before this time (ISO-8601) */
+  activeAt?: string;
+
+  /** "desc" (newest first, default) or "asc" */
+  order?: "asc" | "desc";
+
+  /** Start after this position (the last record of the previous page) */
+  after?: TxCursor;
+
+  /** Maximum number of records to return */
+  limit: number;
+}
+
+/** Audited operation types */
+export type AuditEvent = "encrypt" | "decrypt" | "rotate" | "shred" | "expire" | "export" | "import";
+
+/**
+ * One entry in the tamper-evident audit log.
+ * Entries never contain payload data — only identifiers and metadata.
+ */
+export interface AuditEntry {
+  /** Position in the chain, starting at 1 with no gaps */
+  seq: number;
+
+  /** ISO-8601 timestamp of the operation */
+  timestamp: string;
+
+  event: AuditEvent;
+  outcome: "success" | "failure";
+
+  /** Caller id that performed the operation (or e.g. "cli" for offline tools) */
+  actor: string;
+
+  txId?: string;
+  partyId?: string;
+  mk_version?: number;
+
+  /** Short non-sensitive context (e.g. error message, "1 → 2" for rotation) */
+  detail?: string;
+
+  /** MAC of the previous entry, hex ("" for the first entry) */
+  prev_mac: string;
+
+  /** HMAC-SHA256 over prev_mac and this entry's canonical form, hex */
+  mac: string;
+}
+
+export interface AuditListOptions {
+  /** Only return entries with seq greater than this */
+  afterSeq?: number;
+
+  /** Maximum number of entries to return */
+  limit?: number;
+}
+
+export interface AuditStore {
+  /**
+   * Append the entry `next` builds from the current last entry (undefined
+   * if the log is empty). Reading the last entry and inserting the new one
+   * is a single step, also for other processes sharing the backend, so two
+   * writers can never both chain onto the same entry. Entries are never
+   * updated or deleted.
+   *
+   * @returns the appended entry
+   */
+  appendNext(next: (last: AuditEntry | undefined) => AuditEntry): Promise<AuditEntry>;
+
+  /** Entries in seq order, optionally starting after a given seq */
+  list(options?: AuditListOptions): Promise<AuditEntry[]>;
+
+  /** The most recent entry, or undefined if the log is empty */
+  last(): Promise<AuditEntry | undefined>;
+}
+
+/** Metadata of an encrypted attachment; its content is stored separately */
+export interface AttachmentMeta {
+  id: string;
+
+  /** Transaction record the attachment belongs to */
+  txId: string;
+
+  /** Owning party (same as the record's partyId) */
+  partyId: string;
+
+  /** Original file name and media type, as uploaded */
+  filename: string;
+  contentType: string;
+
+  /** Plaintext size in bytes */
+  size: number;
+
+  /** Master key version the content's DEK is wrapped with */
+  mk_version: number;
+
+  /**
+   * "party" when the content's DEK is wrapped under the party's key for
+   * mk_version (see ../party-keys.ts) rather than under the master key itself
+   */
+  key_scope?: "party";
+
+  /** ISO-8601 upload timestamp */
+  createdAt: string;
+}
+
+export interface AttachmentStore {
+  /**
+   * Consume an encrypted content stream and store it under an attachment id.
+   * Rejects (and keeps nothing) if the stream errors.
+   */
+  writeContent(id: string, content: Readable): Promise<void>;
+
+  /** Stream back stored encrypted content; the stream errors if none exists */
+  readContent(id: string): Readable;
+
+  /** Insert or replace attachment metadata (keyed by meta.id) */
+  put(meta: AttachmentMeta): Promise<void>;
+
+  /** Fetch attachment metadata by ID, or undefined if it does not exist */
+  get(id: string): Promise<AttachmentMeta | undefined>;
+
+  /** Metadata of every attachment of a record (unordered) */
+  listByTx(txId: string): Promise<AttachmentMeta[]>;
+
+  /** Delete metadata and content. Resolves true if metadata was removed. */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Remembers which record an Idempotency-Key created, so a retried request
+ * gets the original record back instead of creating a duplicate. While the
+ * first request is still running the entry is a reservation, without txId.
+ */
+export interface IdempotencyEntry {
+  /** Caller id the key belongs to — keys are scoped per caller */
+  actor: string;
+
+  /** Client-supplied Idempotency-Key header value */
+  key: string;
+
+  /** SHA-256 of the canonical JSON request body, hex */
+  requestHash: string;
+
+  /** Record created by the original request; absent while it is in progress */
+  txId?: string;
+
+  /** ISO-8601 time of the original request (of the reservation, until it completes) */
+  createdAt: string;
+}
+
+export interface IdempotencyStore {
+  /** Fetch the entry of a caller's key, or undefined if there is none */
+  get(actor: string, key: string): Promise<IdempotencyEntry | undefined>;
+
+  /**
+   * Insert an entry unless the caller's key already has one. Checking and
+   * inserting is a single step, also for other processes sharing the
+   * backend, so only one request can reserve a key.
+   *
+   * @returns undefined if the entry was inserted, else the existing entry
+   */
+  add(entry: IdempotencyEntry): Promise<IdempotencyEntry | undefined>;
+
+  /** Insert or replace an entry (keyed by actor and key) */
+  put(entry: IdempotencyEntry): Promise<void>;
+
+  /** Delete an entry if it is still stored unchanged; resolves whether it was */
+  delete(entry: IdempotencyEntry): Promise<boolean>;
+
+  /** Delete entries created before a timestamp; resolves the number removed */
+  deleteBefore(createdAt: string): Promise<number>;
+}
+
+/**
+ * Per-party key-encryption keys (see @repo/crypto party-keys.ts). Keys are
+ * stored wrapped; destroying them is what crypto-shreds a party's records,
+ * so destroy() must not leave recoverable copies behind in the backend.
+ */
+export interface PartyKeyStore {
+  /** Every stored key of a party (unordered) */
+  list(partyId: string): Promise<PartyKey[]>;
+
+  /**
+   * Store a key unless the party already has one for its master key version.
+   * Resolves the key stored for that version — the existing one if any, so
+   * concurrent callers all end up using the same key.
+   */
+  add(key: PartyKey): Promise<PartyKey>;
+
+  /**
+   * Destroy every key of a party and remember when (see shreddedAt);
+   * resolves the number removed
+   */
+  destroy(partyId: string, at?: Date): Promise<number>;
+
+  /**
+   * ISO-8601 time the party's keys were last destroyed, if ever. Archives
+   * taken before then must not bring the party's keys or records back.
+   */
+  shreddedAt(partyId: string): Promise<string | undefined>;
+}
+
+/**
+ * A fixed-window counter: `count` hits since the window started, until
+ * `resetAt`. Rate limits and decryption lockouts are built on these (see
+ * ../limits.ts).
+ */
+export interface LimitCounter {
+  key: string;
+  count: number;
+
+  /** End of the window, in epoch milliseconds */
+  resetAt: number;
+}
+
+/**
+ * Rate limit and lockout counters. Counters are shared through the backend,
+ * so limits hold across restarts and instances; hit() must be atomic.
+ */
+export interface LimitStore {
+  /**
+   * Count one hit. Starts a new window of `windowMs` if the key has no live
+   * counter at `now`. Resolves the counter after the hit.
+   */
+  hit(key: string, windowMs: number, now?: Date): Promise<LimitCounter>;
+
+  /** The live counter of a key at `now`, or undefined */
+  get(key: string, now?: Date): Promise<LimitCounter | undefined>;
+
+  /** Delete a key's counter */
+  delete(key: string): Promise<void>;
+
+  /** Delete counters whose window ended by `now`; resolves the number removed */
+  deleteExpired(now?: Date): Promise<number>;
+}
+
+/** All repositories of one storage backend */
+export interface Storage {
+  tx: TxStore;
+  audit: AuditStore;
+  attachments: AttachmentStore;
+  idempotency: IdempotencyStore;
+  partyKeys: PartyKeyStore;
+  limits: LimitStore;
+
+  /** Release any underlying resources (file handles, DB connections) */
+  close(): Promise<void>;
+}
+
+/** Supported storage backends */
+export type StoreDriver = "memory" | "sqlite" | "jsonl";
+
+/** Backend selection, usually read from the environment */
+export interface StoreConfig {
+  driver: StoreDriver;
+
+  /** Database file (sqlite) or data directory (jsonl) */
+  path?: string;
+}
@@ -1,15 +1,18 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { TxClient, type TxSummary } from "@repo/client";
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+// API client for this demo UI — its API key must be listed in the API's API_KEYS.
+// NEXT_PUBLIC_* values are shipped to the browser, so use a non-admin key
+// limited to demo parties, never an admin or ["*"] key.
+const api = new TxClient({
+  baseUrl: process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001",
+  apiKey: process.env.NEXT_PUBLIC_API_KEY || "",
+});
 
-interface TxSummary {
-  id: string;
-  partyId: string;
-  createdAt: string;
-  alg: string;
-}
+// Records fetched per page of the recent-transactions list
+const PAGE_SIZE = 20;
 
 export default function Home() {
   // ----- Form state -----
@@ -21,6 +24,8 @@ export default function Home() {
 
   // ----- Data state -----
   const [transactions, setTransactions] = useState<TxSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [encryptedRecord, setEncryptedRecord] = useState<object | null>(null);
   const [decryptedResult, setDecryptedResult] = useState<object | null>(null);
   const [selectedTxId, setSelectedTxId] = useState<string | null>(null);
@@ -33,12 +38,15 @@ export default function Home() {
   const [loading, setLoading] = useState(false);
 
   // ----- Fetch transaction list -----
-  const fetchTransactions = useCallback(async () => {
+  // Without a cursor the list restarts at the newest record; with one, the
+  // next page is appended.
+  const fetchTransactions = useCallback(async (cursor?: string) => {
     try {
-      const res = await fetch(`${API_URL}/tx`);
+      const res = await api.list({ limit: String(PAGE_SIZE), cursor });
       if (res.ok) {
-        const data = await res.json();
-        setTransactions(data);
+        const { items, nextCursor } = res.data;
+        setTransactions((prev) => (cursor ? [...prev, ...items] : items));
+        setNextCursor(nextCursor ?? null);
       }
     } catch {
       /* silent */
@@ -49,6 +57,24 @@ export default function Home() {
     fetchTransactions();
   }, [fetchTransactions]);
 
+  // ----- Infinite scroll: load the next page when the list end comes into view -----
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loadingMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (!entries[0].isIntersecting) return;
+      observer.disconnect();
+      setLoadingMore(true);
+      fetchTransactions(nextCursor).finally(() => setLoadingMore(false));
+    });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, fetchTransactions]);
+
   // ----- Helpers -----
   function showError(msg: string) {
     setStatus({ type: "error", msg });
@@ -69,7 +95,7 @@ export default function Home() {
 
     if (!partyId.trim()) return showError("Party ID is required");
 
-    let payload: object;
+    let payload: Record<string, unknown>;
     try {
       payload = JSON.parse(payloadText);
       if (typeof payload !== "object" || Array.isArray(payload) || payload === null)
@@ -80,15 +106,10 @@ export default function Home() {
 
     setLoading(true);
     try {
-      const res = await fetch(`${API_URL}/tx/encrypt`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ partyId: partyId.trim(), payload }),
-      });
-      const data = await res.json();
-
-      if (!res.ok) return showError(data.error || "Encryption failed");
+      const res = await api.encrypt({ partyId: partyId.trim(), payload });
+      if (!res.ok) return showError(res.error);
 
+      const data = res.data;
       setEncryptedRecord(data);
       setSelectedTxId(data.id);
       setLookupId(data.id);
@@ -111,12 +132,10 @@ export default function Home() {
 
     setLoading(true);
     try {
-      const res = await fetch(`${API_URL}/tx/${txId}`);
-      const data = await res.json();
-
-      if (!res.ok) return showError(data.error || "Fetch failed");
+      const res = await api.get(txId);
+      if (!res.ok) return showError(res.error);
 
-      setEncryptedRecord(data);
+      setEncryptedRecord(res.data);
       setSelectedTxId(txId);
       setLookupId(txId);
       showSuccess("Encrypted record fetched");
@@ -136,12 +155,10 @@ export default function Home() {
 
     setLoading(true);
     try {
-      const res = await fetch(`${API_URL}/tx/${txId}/decrypt`, { method: "POST" });
-      const data = await res.json();
+      const res = await api.decrypt(txId);
+      if (!res.ok) return showError(res.error);
 
-      if (!res.ok) return showError(data.error || "Decryption failed");
-
-      setDecryptedResult(data);
+      setDecryptedResult(res.data);
       showSuccess("Decrypted successfully");
     } catch (err) {
       showError(`Network error: ${err instanceof Error ? err.message : "unknown"}`);
@@ -182,7 +199,7 @@ export default function Home() {
             <input
               id="partyId"
               type="text"
-              placeholder="e.g. party_123"
+              placeholder="e.g. demo_party_a"
               value={partyId}
               onChange={(e) => setPartyId(e.target.value)}
             />
@@ -297,6 +314,11 @@ export default function Home() {
                 </div>
               </button>
             ))}
+            {nextCursor && (
+              <div ref={sentinelRef} className="tx-more">
+                {loadingMore ? "Loading more…" : ""}
+              </div>
+            )}
           </div>
         )}
       </section>
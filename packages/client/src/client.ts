@@ -0,0 +1,263 @@
+/**
+ * Typed API Client
+ * =================
+ *
+ * A thin fetch wrapper for the API, typed from its OpenAPI document: request
+ * bodies, query parameters and responses all come from ./schema.ts, which is
+ * generated — never edit it by hand. After changing a route schema:
+ *
+ *   pnpm --filter @repo/api openapi          # writes packages/client/openapi.json
+ *   pnpm --filter @repo/client generate      # regenerates src/schema.ts
+ *
+ * Every method resolves to an ApiResult rather than throwing on an error
+ * status, so callers can branch on the API's stable error `code` and show
+ * its message (and any payload schema violations). Network failures still
+ * reject, as with fetch.
+ */
+
+import type { components, paths } from "./schema.js";
+
+// ----- Types -----
+
+type Schemas = components["schemas"];
+
+export type TxSecureRecord = Schemas["TxSecureRecord"];
+export type TxSummary = Schemas["TxSummary"];
+export type EncryptRequest = Schemas["EncryptRequest"];
+export type DecryptResult = Schemas["DecryptResult"];
+export type AttachmentMeta = Schemas["AttachmentMeta"];
+export type AuditEntry = Schemas["AuditEntry"];
+export type SchemaDefinition = Schemas["SchemaDefinition"];
+export type RecordArchive = Schemas["RecordArchive"];
+export type SignatureVerification = Schemas["SignatureVerification"];
+export type SchemaViolation = Schemas["SchemaViolation"];
+export type PayloadAlgorithm = Schemas["PayloadAlgorithm"];
+export type ErrorResponse = Schemas["ErrorResponse"];
+export type ErrorCode = ErrorResponse["code"];
+
+type Method = "get" | "post" | "delete";
+type Operation<P extends keyof paths, M extends Method> = NonNullable<paths[P][M]>;
+
+/** JSON body of a route's response with the given status */
+type JsonResponse<P extends keyof paths, M extends Method, S extends number> =
+  Operation<P, M> extends { responses: { [K in S]: { content: { "application/json": infer T } } } } ? T : never;
+
+/** Query parameters of a route */
+type QueryOf<P extends keyof paths, M extends Method> =
+  Operation<P, M> extends { parameters: { query?: infer Q } } ? NonNullable<Q> : never;
+
+/** JSON request body of a route */
+type BodyOf<P extends keyof paths, M extends Method> =
+  Operation<P, M> extends { requestBody?: { content: { "application/json": infer B } } } ? B : never;
+
+export type TxPage = JsonResponse<"/tx", "get", 200>;
+export type ListQuery = QueryOf<"/tx", "get">;
+export type SearchQuery = QueryOf<"/tx/search", "get">;
+export type AuditQuery = QueryOf<"/audit", "get">;
+export type BatchEncryptResponse = JsonResponse<"/tx/batch/encrypt", "post", 200>;
+export type BatchDecryptResponse = JsonResponse<"/tx/batch/decrypt", "post", 200>;
+export type ShredReport = JsonResponse<"/parties/{partyId}", "delete", 200>;
+export type KeyStatus = JsonResponse<"/keys/status", "get", 200>;
+export type RotateRequest = BodyOf<"/keys/rotate", "post">;
+export type RotationReport = JsonResponse<"/keys/rotate", "post", 200>;
+export type AuditVerification = JsonResponse<"/audit/verify", "get", 200>;
+export type ExportQuery = QueryOf<"/tx/export", "get">;
+export type ImportReport = JsonResponse<"/tx/import", "post", 200>;
+export type SigningKeys = JsonResponse<"/signing-keys", "get", 200>;
+
+/**
+ * Outcome of one API call: the response body, or the API's error. `code` is
+ * absent only when the response did not come from the API (e.g. a proxy error).
+ */
+export type ApiResult<T> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; status: number; code?: ErrorCode; error: string; violations?: SchemaViolation[] };
+
+export interface ClientOptions {
+  /** API origin, e.g. http://localhost:3001 */
+  baseUrl: string;
+
+  /** API key, sent as a bearer token */
+  apiKey: string;
+
+  /** fetch implementation (default: the global fetch) */
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  query?: Record<string, string | undefined>;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+// ----- Client -----
+
+export class TxClient {
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: ClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  // --- Transactions ---
+
+  /** POST /tx/encrypt — an idempotency key makes retries return the original record */
+  encrypt(body: EncryptRequest, options: { idempotencyKey?: string } = {}): Promise<ApiResult<TxSecureRecord>> {
+    const headers = options.idempotencyKey ? { "idempotency-key": options.idempotencyKey } : undefined;
+    return this.json("POST", "/tx/encrypt", { body, headers });
+  }
+
+  /** GET /tx — one page of record summaries; pass nextCursor back as `cursor` */
+  list(query: ListQuery = {}): Promise<ApiResult<TxPage>> {
+    return this.json("GET", "/tx", { query });
+  }
+
+  /** GET /tx/search — records whose blind-indexed field equals a value */
+  search(query: SearchQuery): Promise<ApiResult<TxSummary[]>> {
+    return this.json("GET", "/tx/search", { query });
+  }
+
+  /** GET /tx/:id — the encrypted record, in JSON form */
+  get(id: string): Promise<ApiResult<TxSecureRecord>> {
+    return this.json("GET", `/tx/${encodeURIComponent(id)}`);
+  }
+
+  /** POST /tx/:id/decrypt — the payload, or only the given top-level fields */
+  decrypt(id: string, fields?: string[]): Promise<ApiResult<DecryptResult>> {
+    return this.json("POST", `/tx/${encodeURIComponent(id)}/decrypt`, { body: fields ? { fields } : {} });
+  }
+
+  /** POST /tx/batch/encrypt — per-item results, in request order */
+  batchEncrypt(items: EncryptRequest[]): Promise<ApiResult<BatchEncryptResponse>> {
+    return this.json("POST", "/tx/batch/encrypt", { body: { items } });
+  }
+
+  /** POST /tx/batch/decrypt — per-item results, in request order */
+  batchDecrypt(items: { id: string; fields?: string[] }[]): Promise<ApiResult<BatchDecryptResponse>> {
+    return this.json("POST", "/tx/batch/decrypt", { body: { items } });
+  }
+
+  // --- Attachments ---
+
+  /** POST /tx/:id/attachments — upload a file to a record */
+  async uploadAttachment(id: string, file: Blob, filename: string): Promise<ApiResult<AttachmentMeta>> {
+    const form = new FormData();
+    form.append("file", file, filename);
+    return this.send("POST", `/tx/${encodeURIComponent(id)}/attachments`, { body: form }, (res) => res.json());
+  }
+
+  /** GET /tx/:id/attachments/:attachmentId — the decrypted file */
+  downloadAttachment(id: string, attachmentId: string): Promise<ApiResult<Blob>> {
+    const path = `/tx/${encodeURIComponent(id)}/attachments/${encodeURIComponent(attachmentId)}`;
+    return this.send("GET", path, {}, (res) => res.blob());
+  }
+
+  // --- Payload schemas ---
+
+  /** GET /schemas — every registered payload schema version */
+  listSchemas(): Promise<ApiResult<JsonResponse<"/schemas", "get", 200>>> {
+    return this.json("GET", "/schemas");
+  }
+
+  /** GET /schemas/:type — a transaction type's latest schema, or the given version */
+  getSchema(type: string, version?: number): Promise<ApiResult<SchemaDefinition>> {
+    const query = { version: version !== undefined ? String(version) : undefined };
+    return this.json("GET", `/schemas/${encodeURIComponent(type)}`, { query });
+  }
+
+  // --- Record signing ---
+
+  /** GET /signing-keys — public keys to verify record signatures with (no API key needed) */
+  signingKeys(): Promise<ApiResult<SigningKeys>> {
+    return this.json("GET", "/signing-keys");
+  }
+
+  // --- Administration (admin API keys only) ---
+
+  /** DELETE /parties/:partyId — crypto-shred a party */
+  shredParty(partyId: string): Promise<ApiResult<ShredReport>> {
+    return this.json("DELETE", `/parties/${encodeURIComponent(partyId)}`);
+  }
+
+  /** GET /keys/status — master key versions and record counts */
+  keyStatus(): Promise<ApiResult<KeyStatus>> {
+    return this.json("GET", "/keys/status");
+  }
+
+  /** POST /keys/rotate — re-wrap records to the latest (or a given) master key version */
+  rotateKeys(body: RotateRequest = {}): Promise<ApiResult<RotationReport>> {
+    return this.json("POST", "/keys/rotate", { body });
+  }
+
+  /** GET /tx/export — stored records (or one party's) as a signed archive */
+  exportArchive(query: ExportQuery = {}): Promise<ApiResult<RecordArchive>> {
+    return this.json("GET", "/tx/export", { query });
+  }
+
+  /** POST /tx/import — verify an archive and store its records, optionally re-wrapping their DEKs */
+  importArchive(archive: RecordArchive, options: { rewrap?: boolean } = {}): Promise<ApiResult<ImportReport>> {
+    const query = { rewrap: options.rewrap ? "true" : undefined };
+    return this.json("POST", "/tx/import", { query, body: archive });
+  }
+
+  /** GET /audit — audit entries in seq order */
+  auditLog(query: AuditQuery = {}): Promise<ApiResult<AuditEntry[]>> {
+    return this.json("GET", "/audit", { query });
+  }
+
+  /** GET /audit/verify — whether the audit chain is intact */
+  verifyAudit(): Promise<ApiResult<AuditVerification>> {
+    return this.json("GET", "/audit/verify");
+  }
+
+  // --- Requests ---
+
+  /** Send a request with an optional JSON body and parse a JSON response */
+  private json<T>(method: string, path: string, options: RequestOptions = {}): Promise<ApiResult<T>> {
+    const { query, body, headers } = options;
+    const init = body !== undefined
+      ? { query, body: JSON.stringify(body), headers: { "content-type": "application/json", ...headers } }
+      : { query, headers };
+    return this.send(method, path, init, (res) => res.json() as Promise<T>);
+  }
+
+  /**
+   * Send a request and read a successful response with `read`. Error
+   * responses are read as the API's { error, code, violations? } body.
+   */
+  private async send<T>(
+    method: string,
+    path: string,
+    options: Omit<RequestOptions, "body"> & { body?: BodyInit },
+    read: (res: Response) => Promise<T>
+  ): Promise<ApiResult<T>> {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) params.set(name, value);
+    }
+    const search = params.toString() ? `?${params}` : "";
+
+    const res = await this.fetch(`${this.baseUrl}${path}${search}`, {
+      method,
+      headers: { authorization: `Bearer ${this.apiKey}`, ...options.headers },
+      body: options.body,
+    });
+
+    if (res.ok) {
+      return { ok: true, status: res.status, data: await read(res) };
+    }
+
+    const failure = (await res.json().catch(() => ({}))) as Partial<ErrorResponse>;
+    return {
+      ok: false,
+      status: res.status,
+      ...(failure.code ? { code: failure.code } : {}),
+      error: failure.error ?? `Request failed with status ${res.status}`,
+      ...(failure.violations ? { violations: failure.violations } : {}),
+    };
+  }
+}
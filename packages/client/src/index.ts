@@ -0,0 +1,38 @@
+/**
+ * @repo/client — Typed client for the transactions API
+ *
+ * Re-exports the client and the API types generated from its OpenAPI document.
+ */
+export {
+  TxClient,
+  type ApiResult,
+  type ClientOptions,
+  type TxSecureRecord,
+  type TxSummary,
+  type TxPage,
+  type EncryptRequest,
+  type DecryptResult,
+  type ListQuery,
+  type SearchQuery,
+  type BatchEncryptResponse,
+  type BatchDecryptResponse,
+  type AttachmentMeta,
+  type SchemaDefinition,
+  type SchemaViolation,
+  type ErrorResponse,
+  type ErrorCode,
+  type PayloadAlgorithm,
+  type ShredReport,
+  type KeyStatus,
+  type RotateRequest,
+  type RotationReport,
+  type AuditEntry,
+  type AuditQuery,
+  type AuditVerification,
+  type RecordArchive,
+  type ExportQuery,
+  type ImportReport,
+  type SigningKeys,
+  type SignatureVerification,
+} from "./client.js";
+export type { components, paths } from "./schema.js";
@@ -0,0 +1,115 @@
+/**
+ * AAD (Additional Authenticated Data) construction per record format.
+ *
+ * Formats 1 and 2 bind only the partyId (UTF-8) to both layers.
+ *
+ * Format 3 binds the record's metadata as canonical JSON:
+ *   payload layer — { v, id, partyId, createdAt, expiresAt?, alg, context?, payload_schema? }
+ *   DEK wrapping  — the same, plus mk_version and key_scope (when set)
+ *
+ * Format 4 (field-level) uses the format 3 payload AAD as a base:
+ *   each encrypted field — base + { field: name }
+ *   payload layer        — base + { clear_fields, enc_fields: [sorted names] }
+ *
+ * mk_version is only bound to the wrapping layer because key rotation
+ * re-wraps the DEK under a new version without touching the payload
+ * ciphertext. Swapping payload or wrapping fields between records, editing
+ * any bound field, or rewriting `v` to an older format all make
+ * authentication fail.
+ *
+ * Internal module — not re-exported from the package entry point.
+ */
+
+import { Buffer } from "node:buffer";
+import type { TxSecureRecord } from "./types.js";
+import { canonicalJson } from "./utils.js";
+import { FIELD_LEVEL_FORMAT_VERSION } from "./algorithms.js";
+
+/** First format version with metadata-bound AAD */
+const CONTEXT_AAD_VERSION = 3;
+
+/** Record fields covered by the AAD */
+type AadFields = Pick<
+  TxSecureRecord,
+  | "v"
+  | "id"
+  | "partyId"
+  | "createdAt"
+  | "expiresAt"
+  | "alg"
+  | "context"
+  | "payload_schema"
+  | "mk_version"
+  | "key_scope"
+  | "clear_fields"
+  | "enc_fields"
+>;
+
+/** The metadata bound by format 3+ records */
+function metadataOf(record: AadFields) {
+  const { v, id, partyId, createdAt, expiresAt, alg, context, payload_schema } = record;
+  return { v, id, partyId, createdAt, expiresAt, alg, context, payload_schema };
+}
+
+function bindsMetadata(record: AadFields): boolean {
+  return (record.v ?? 1) >= CONTEXT_AAD_VERSION;
+}
+
+/** AAD for the payload layer */
+export function payloadAad(record: AadFields): Buffer {
+  if (!bindsMetadata(record)) {
+    return Buffer.from(record.partyId, "utf-8");
+  }
+
+  if (record.v === FIELD_LEVEL_FORMAT_VERSION) {
+    const fieldSet = {
+      clear_fields: record.clear_fields ?? {},
+      enc_fields: Object.keys(record.enc_fields ?? {}).sort(),
+    };
+    return Buffer.from(canonicalJson({ ...metadataOf(record), ...fieldSet }), "utf-8");
+  }
+
+  return Buffer.from(canonicalJson(metadataOf(record)), "utf-8");
+}
+
+/** AAD for one individually encrypted field (format 4) */
+export function fieldAad(record: AadFields, field: string): Buffer {
+  return Buffer.from(canonicalJson({ ...metadataOf(record), field }), "utf-8");
+}
+
+/** AAD for the DEK wrapping layer */
+export function wrapAad(record: AadFields): Buffer {
+  if (!bindsMetadata(record)) {
+    return Buffer.from(record.partyId, "utf-8");
+  }
+
+  const { mk_version, key_scope } = record;
+  return Buffer.from(canonicalJson({ ...metadataOf(record), mk_version, key_scope }), "utf-8");
+}
+
+/**
+ * Validate caller-supplied encryption context: a flat map of short strings.
+ *
+ * @throws on non-string values, empty keys, or oversized entries
+ */
+export function validateContext(context: unknown): Record<string, string> {
+  if (!context || typeof context !== "object" || Array.isArray(context)) {
+    throw new Error("context must be an object of string values");
+  }
+
+  const entries = Object.entries(context as Record<string, unknown>);
+  if (entries.length > 32) {
+    throw new Error("context may have at most 32 entries");
+  }
+
+  for (const [key, value] of entries) {
+    if (key.length === 0 || key.length > 128) {
+      throw new Error("context keys must be 1-128 characters");
+    }
+    if (typeof value !== "string" || value.length > 1024) {
+      throw new Error(`context.${key} must be a string of at most 1024 characters`);
+    }
+  }
+
+  return context as Record<string, string>;
+}
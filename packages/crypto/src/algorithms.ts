@@ -0,0 +1,176 @@
+/**
+ * Record Format Versions & Payload Algorithms
+ * =============================================
+ *
+ * Every TxSecureRecord describes how it was produced:
+ *   - `v`   — record format version. Absent on records written before the
+ *             field existed; those are format 1.
+ *   - `alg` — AEAD cipher used for the payload layer.
+ *
+ * Format versions:
+ *   1 — legacy. Payload is always AES-256-GCM; `alg` was written but never read.
+ *   2 — `alg` selects the payload cipher from the table below.
+ *   3 — as 2, with the record's metadata bound as AAD instead of only
+ *       partyId (see aad.ts).
+ *   4 — as 3, with payload fields encrypted individually or kept in
+ *       authenticated cleartext (see fields.ts).
+ *
+ * Payload algorithms (all: 32-byte key, 12-byte nonce, 16-byte tag):
+ *   AES-256-GCM        — default; hardware-accelerated on most servers
+ *   ChaCha20-Poly1305  — constant-time in software, no AES-NI needed
+ *   AES-256-GCM-SIV    — nonce-misuse resistant; registered only when the
+ *                        running Node/OpenSSL build supports it as an AEAD
+ *
+ * The DEK wrapping layer is owned by the KeyProvider and is not affected
+ * by `alg`.
+ */
+
+import { Buffer } from "node:buffer";
+import { getCiphers } from "node:crypto";
+import { aeadEncrypt, aeadDecrypt, type EncryptResult } from "./cipher.js";
+import { UnsupportedFormatError } from "./errors.js";
+
+// ----- Format Versions -----
+
+/** Format assumed for records without a `v` field */
+export const LEGACY_FORMAT_VERSION = 1;
+
+/** Format written by envelopeEncrypt */
+export const CURRENT_FORMAT_VERSION = 3;
+
+/** Format written by envelopeEncrypt for field-level records */
+export const FIELD_LEVEL_FORMAT_VERSION = 4;
+
+const SUPPORTED_FORMAT_VERSIONS: readonly number[] = [
+  LEGACY_FORMAT_VERSION,
+  2,
+  CURRENT_FORMAT_VERSION,
+  FIELD_LEVEL_FORMAT_VERSION,
+];
+
+/**
+ * Resolve a record's format version, defaulting legacy records to 1.
+ *
+ * @throws UnsupportedFormatError if the version is not one this library can read
+ */
+export function formatVersionOf(record: { v?: number }): number {
+  const version = record.v ?? LEGACY_FORMAT_VERSION;
+  if (!SUPPORTED_FORMAT_VERSIONS.includes(version)) {
+    throw new UnsupportedFormatError(
+      `Unsupported record format version ${String(record.v)}. Supported versions: ${SUPPORTED_FORMAT_VERSIONS.join(", ")}`
+    );
+  }
+  return version;
+}
+
+// ----- Algorithm Table -----
+
+/** Payload algorithm identifiers as stored in TxSecureRecord.alg */
+export type PayloadAlgorithm = "AES-256-GCM" | "ChaCha20-Poly1305" | "AES-256-GCM-SIV";
+
+/** Default payload algorithm for new records */
+export const DEFAULT_ALGORITHM: PayloadAlgorithm = "AES-256-GCM";
+
+interface AlgorithmSpec {
+  /** Node/OpenSSL cipher name */
+  cipher: string;
+  /** Whether this Node build can run the cipher */
+  available: boolean;
+}
+
+const ALGORITHMS: Record<PayloadAlgorithm, AlgorithmSpec> = {
+  "AES-256-GCM": { cipher: "aes-256-gcm", available: true },
+  "ChaCha20-Poly1305": { cipher: "chacha20-poly1305", available: true },
+  "AES-256-GCM-SIV": { cipher: "aes-256-gcm-siv", available: probeAead("aes-256-gcm-siv") },
+};
+
+/**
+ * Check that a cipher is both listed by OpenSSL and usable through Node's
+ * AEAD API (auth tag + AAD). Some builds list ciphers Node cannot drive.
+ */
+function probeAead(cipher: string): boolean {
+  if (!getCiphers().includes(cipher)) {
+    return false;
+  }
+  try {
+    const key = Buffer.alloc(32);
+    const enc = aeadEncrypt(cipher, key, Buffer.from("probe"), Buffer.from("aad"));
+    aeadDecrypt(cipher, key, enc.nonce, enc.ct, enc.tag, Buffer.from("aad"));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Payload algorithms usable on this Node build */
+export function supportedAlgorithms(): PayloadAlgorithm[] {
+  return (Object.keys(ALGORITHMS) as PayloadAlgorithm[]).filter((alg) => ALGORITHMS[alg].available);
+}
+
+/** Type guard for algorithm identifiers usable on this Node build */
+export function isSupportedAlgorithm(alg: unknown): alg is PayloadAlgorithm {
+  return typeof alg === "string" && supportedAlgorithms().includes(alg as PayloadAlgorithm);
+}
+
+/**
+ * Check that an algorithm is in the table, whether or not this build can run it.
+ * Lets key rotation handle records whose payload cipher is unavailable here.
+ *
+ * @throws UnsupportedFormatError if the algorithm is not in the table
+ */
+export function assertKnownAlgorithm(alg: unknown): asserts alg is PayloadAlgorithm {
+  specFor(alg);
+}
+
+function specFor(alg: unknown): AlgorithmSpec {
+  const spec =
+    typeof alg === "string" ? (ALGORITHMS as Record<string, AlgorithmSpec | undefined>)[alg] : undefined;
+  if (!spec) {
+    throw new UnsupportedFormatError(
+      `Unknown algorithm "${String(alg)}". Supported algorithms: ${supportedAlgorithms().join(", ")}`
+    );
+  }
+  return spec;
+}
+
+/**
+ * Look up the Node cipher for a payload algorithm.
+ *
+ * @throws UnsupportedFormatError if the algorithm is unknown or not available
+ *         on this Node build
+ */
+export function cipherFor(alg: string): string {
+  const spec = specFor(alg);
+  if (!spec.available) {
+    throw new UnsupportedFormatError(`Algorithm "${alg}" is not supported by this Node.js build (${process.version})`);
+  }
+  return spec.cipher;
+}
+
+// ----- Dispatch -----
+
+/**
+ * Encrypt payload bytes with the given algorithm.
+ *
+ * @throws on unknown or unavailable algorithms
+ */
+export function encryptPayload(alg: string, key: Buffer, data: Buffer, aad?: Buffer): EncryptResult {
+  return aeadEncrypt(cipherFor(alg), key, data, aad);
+}
+
+/**
+ * Decrypt payload bytes with the given algorithm.
+ *
+ * @throws on unknown or unavailable algorithms, or IntegrityFailureError on
+ *         authentication failure
+ */
+export function decryptPayload(
+  alg: string,
+  key: Buffer,
+  nonceHex: string,
+  ctHex: string,
+  tagHex: string,
+  aad?: Buffer
+): Buffer {
+  return aeadDecrypt(cipherFor(alg), key, nonceHex, ctHex, tagHex, aad);
+}
@@ -0,0 +1,65 @@
+/**
+ * Blind Index Tests
+ * ==================
+ *
+ * Tests cover:
+ *   1. envelopeEncrypt stores tokens for the configured fields only
+ *   2. Tokens match the same value regardless of type (1500 vs "1500")
+ *   3. Tokens differ per field, per party and per index key
+ *   4. Non-indexable values are skipped; malformed tokens are rejected
+ *
+ * Uses Node's built-in test runner (node:test).
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { envelopeEncrypt, envelopeDecrypt, blindIndexToken, buildKeyRegistry } from "./index.js";
+
+// ----- Test data -----
+
+const registry = buildKeyRegistry({ MASTER_KEY_V1: randomBytes(32).toString("hex") });
+const INDEX_KEY = randomBytes(32);
+const TEST_PARTY_ID = "test-party-42";
+const TEST_PAYLOAD = { amount: 1500, currency: "USD", merchant: "Acme Corp", tags: ["a"] };
+
+// ----- Tests -----
+
+describe("Blind Indexes", () => {
+  it("should store tokens for the configured fields on the record", () => {
+    const record = envelopeEncrypt(registry, "tx-001", TEST_PARTY_ID, TEST_PAYLOAD, {
+      index: { key: INDEX_KEY, fields: ["merchant", "amount", "tags", "missing"] },
+    });
+
+    assert.deepEqual(Object.keys(record.blind_index ?? {}).sort(), ["amount", "merchant"]);
+    assert.equal(record.blind_index?.merchant, blindIndexToken(INDEX_KEY, TEST_PARTY_ID, "merchant", "Acme Corp"));
+    assert.equal(record.blind_index?.amount, blindIndexToken(INDEX_KEY, TEST_PARTY_ID, "amount", "1500"));
+    assert.deepEqual(envelopeDecrypt(registry, record), TEST_PAYLOAD);
+
+    const plain = envelopeEncrypt(registry, "tx-002", TEST_PARTY_ID, TEST_PAYLOAD);
+    assert.equal(plain.blind_index, undefined);
+  });
+
+  it("should derive unrelated tokens per field, party and key", () => {
+    const token = blindIndexToken(INDEX_KEY, TEST_PARTY_ID, "merchant", "Acme Corp");
+
+    assert.notEqual(token, blindIndexToken(INDEX_KEY, TEST_PARTY_ID, "memo", "Acme Corp"));
+    assert.notEqual(token, blindIndexToken(INDEX_KEY, "other-party", "merchant", "Acme Corp"));
+    assert.notEqual(token, blindIndexToken(randomBytes(32), TEST_PARTY_ID, "merchant", "Acme Corp"));
+    assert.notEqual(token, blindIndexToken(INDEX_KEY, TEST_PARTY_ID, "merchant", "acme corp"));
+  });
+
+  it("should skip non-indexable values and reject bad keys or tokens", () => {
+    assert.equal(blindIndexToken(INDEX_KEY, TEST_PARTY_ID, "x", null), undefined);
+    assert.equal(blindIndexToken(INDEX_KEY, TEST_PARTY_ID, "x", { a: 1 }), undefined);
+    assert.equal(blindIndexToken(INDEX_KEY, TEST_PARTY_ID, "x", Number.NaN), undefined);
+
+    assert.throws(() => blindIndexToken(randomBytes(16), TEST_PARTY_ID, "x", "v"), /expected 32 bytes, got 16 bytes/);
+
+    const record = envelopeEncrypt(registry, "tx-003", TEST_PARTY_ID, TEST_PAYLOAD);
+    assert.throws(
+      () => envelopeDecrypt(registry, { ...record, blind_index: { merchant: "zz" } }),
+      /blind_index.merchant: expected a 64-character hex token/
+    );
+  });
+});
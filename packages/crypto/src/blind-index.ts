@@ -0,0 +1,120 @@
+/**
+ * Blind Indexes for Exact-Match Search
+ * ======================================
+ *
+ * A blind index is a keyed hash of a plaintext payload value, stored next to
+ * the encrypted record so records can be looked up by that value without
+ * decrypting anything:
+ *
+ *   fieldKey = HKDF-SHA256(indexKey, salt = "", info = "tx-blind-index:" + field)
+ *   token    = HMAC-SHA256(fieldKey, canonicalJson({ partyId, value }))
+ *
+ * Properties:
+ *   - The index key is separate from the master keys; without it, tokens
+ *     cannot be computed or brute-forced from guessed values.
+ *   - Each field has its own derived key, so equal values in different
+ *     fields produce unrelated tokens.
+ *   - partyId is part of the hashed input, so the same value in two
+ *     parties' records does not link them.
+ *   - Tokens reveal equality: anyone who can read stored records can tell
+ *     which records of a party share a value. Only index fields where that
+ *     is acceptable.
+ *
+ * Values are matched exactly after converting strings, finite numbers and
+ * booleans to strings (so 1500 and "1500" match). Other values (objects,
+ * arrays, null) are not indexed.
+ *
+ * Tokens are not part of the record's AAD: they are a lookup aid only, and
+ * can be rebuilt under a new index key without touching the ciphertext.
+ */
+
+import { createHmac, hkdfSync } from "node:crypto";
+import { Buffer } from "node:buffer";
+import type { BlindIndexOptions } from "./types.js";
+import { canonicalJson } from "./utils.js";
+
+const INDEX_KEY_BYTES = 32;
+const TOKEN_HEX_LENGTH = 64;
+
+/** Derive the per-field HMAC key */
+function fieldKey(indexKey: Buffer, field: string): Buffer {
+  return Buffer.from(hkdfSync("sha256", indexKey, Buffer.alloc(0), `tx-blind-index:${field}`, INDEX_KEY_BYTES));
+}
+
+/** The string form a value is indexed under, or undefined if it is not indexable */
+function indexValue(value: unknown): string | undefined {
+  if (typeof value === "string" || typeof value === "boolean") {
+    return String(value);
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Compute the blind index token of one field value.
+ *
+ * @param indexKey - 32-byte index key
+ * @param partyId  - owning party of the record (hashed with the value)
+ * @param field    - payload field name
+ * @param value    - the plaintext value
+ * @returns hex token, or undefined if the value is not indexable
+ * @throws if the index key is not 32 bytes
+ */
+export function blindIndexToken(indexKey: Buffer, partyId: string, field: string, value: unknown): string | undefined {
+  if (indexKey.length !== INDEX_KEY_BYTES) {
+    throw new Error(`Blind index key: expected ${INDEX_KEY_BYTES} bytes, got ${indexKey.length} bytes`);
+  }
+
+  const normalized = indexValue(value);
+  if (normalized === undefined) {
+    return undefined;
+  }
+
+  return createHmac("sha256", fieldKey(indexKey, field))
+    .update(canonicalJson({ partyId, value: normalized }), "utf-8")
+    .digest("hex");
+}
+
+/**
+ * Compute the blind index tokens of a payload's configured fields.
+ * Fields that are missing or not indexable are left out.
+ *
+ * @returns field name → token
+ */
+export function buildBlindIndex(
+  options: BlindIndexOptions,
+  partyId: string,
+  payload: Record<string, unknown>
+): Record<string, string> {
+  const entries: [string, string][] = [];
+
+  for (const field of options.fields) {
+    if (!Object.hasOwn(payload, field)) continue;
+
+    const token = blindIndexToken(options.key, partyId, field, payload[field]);
+    if (token !== undefined) {
+      entries.push([field, token]);
+    }
+  }
+
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Validate the blind_index map on a record.
+ *
+ * @throws if it is not an object of hex tokens
+ */
+export function validateBlindIndex(index: unknown): void {
+  if (!index || typeof index !== "object" || Array.isArray(index)) {
+    throw new Error("blind_index: expected an object");
+  }
+
+  for (const [field, token] of Object.entries(index)) {
+    if (typeof token !== "string" || !/^[0-9a-f]+$/.test(token) || token.length !== TOKEN_HEX_LENGTH) {
+      throw new Error(`blind_index.${field}: expected a ${TOKEN_HEX_LENGTH}-character hex token`);
+    }
+  }
+}
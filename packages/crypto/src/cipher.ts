@@ -0,0 +1,177 @@
+/**
+ * Low-level AEAD primitives shared by envelope encryption and key providers.
+ *
+ * Every supported cipher uses the same shape:
+ *   - 256-bit (32-byte) key
+ *   - 96-bit (12-byte) nonce/IV
+ *   - 128-bit (16-byte) authentication tag (provides integrity + authenticity)
+ *
+ * DEK wrapping always uses AES-256-GCM; payload encryption picks its cipher
+ * from the algorithm table in algorithms.ts.
+ *
+ * Internal module — not re-exported from the package entry point.
+ */
+
+import { randomBytes, createCipheriv, createDecipheriv, type CipherGCMTypes } from "node:crypto";
+import { Buffer } from "node:buffer";
+import { IntegrityFailureError } from "./errors.js";
+import { validateHex } from "./utils.js";
+
+// ----- Constants -----
+
+const AES_256_GCM = "aes-256-gcm" as const;
+export const NONCE_BYTES = 12;  // 96-bit nonce (NIST recommendation for GCM)
+export const TAG_BYTES = 16;    // 128-bit auth tag
+
+// ----- Generic AEAD -----
+
+export interface EncryptResult {
+  nonce: string;  // hex
+  ct: string;     // hex
+  tag: string;    // hex
+}
+
+/**
+ * Encrypt plaintext bytes with an AEAD cipher under a caller-supplied nonce.
+ * The caller is responsible for never reusing a nonce with the same key.
+ *
+ * @param cipherName - Node cipher name (e.g. "aes-256-gcm", "chacha20-poly1305")
+ * @param key        - 32-byte encryption key
+ * @param nonce      - 12-byte nonce
+ * @param data       - plaintext buffer to encrypt
+ * @param aad        - optional Additional Authenticated Data (authenticated but not encrypted)
+ * @returns raw ciphertext and auth tag
+ */
+export function aeadSeal(
+  cipherName: string,
+  key: Buffer,
+  nonce: Buffer,
+  data: Buffer,
+  aad?: Buffer
+): { ct: Buffer; tag: Buffer } {
+  const cipher = createCipheriv(cipherName as CipherGCMTypes, key, nonce, {
+    authTagLength: TAG_BYTES,
+  });
+
+  // AAD binds contextual data (e.g. partyId) to the ciphertext.
+  // If AAD is modified after encryption, the auth tag won't match during decryption.
+  if (aad) {
+    cipher.setAAD(aad);
+  }
+
+  const ct = Buffer.concat([cipher.update(data), cipher.final()]);
+  return { ct, tag: cipher.getAuthTag() };
+}
+
+/**
+ * Decrypt raw ciphertext with an AEAD cipher.
+ * Throws on any integrity failure (tampered ciphertext, wrong key, wrong tag, wrong AAD).
+ *
+ * @param cipherName - Node cipher name the data was encrypted with
+ * @param key        - 32-byte decryption key
+ * @param nonce      - 12-byte nonce
+ * @param ct         - ciphertext
+ * @param tag        - 16-byte auth tag
+ * @param aad        - optional AAD that must match what was used during encryption
+ * @returns decrypted plaintext buffer
+ */
+export function aeadOpen(
+  cipherName: string,
+  key: Buffer,
+  nonce: Buffer,
+  ct: Buffer,
+  tag: Buffer,
+  aad?: Buffer
+): Buffer {
+  const decipher = createDecipheriv(cipherName as CipherGCMTypes, key, nonce, {
+    authTagLength: TAG_BYTES,
+  });
+
+  // AAD must exactly match what was provided during encryption.
+  // Mismatched AAD causes authentication to fail.
+  if (aad) {
+    decipher.setAAD(aad);
+  }
+
+  // Set the authentication tag BEFORE calling update/final.
+  // If the tag doesn't match, final() will throw.
+  decipher.setAuthTag(tag);
+
+  try {
+    return Buffer.concat([decipher.update(ct), decipher.final()]);
+  } catch (err) {
+    // Authentication failure — ciphertext, tag, or AAD has been tampered with
+    throw new IntegrityFailureError(
+      `Decryption failed: authentication tag mismatch (data may be tampered). ${err instanceof Error ? err.message : ""}`
+    );
+  }
+}
+
+/**
+ * Encrypt plaintext bytes with an AEAD cipher.
+ * Generates a cryptographically random 12-byte nonce per call.
+ *
+ * @param cipherName - Node cipher name (e.g. "aes-256-gcm", "chacha20-poly1305")
+ * @param key        - 32-byte encryption key
+ * @param data       - plaintext buffer to encrypt
+ * @param aad        - optional Additional Authenticated Data (authenticated but not encrypted)
+ * @returns nonce, ciphertext, and auth tag as hex strings
+ */
+export function aeadEncrypt(cipherName: string, key: Buffer, data: Buffer, aad?: Buffer): EncryptResult {
+  // Generate a fresh random nonce for each encryption operation.
+  // Nonce reuse with the same key completely breaks GCM and ChaCha20-Poly1305 security.
+  const nonce = randomBytes(NONCE_BYTES);
+  const { ct, tag } = aeadSeal(cipherName, key, nonce, data, aad);
+
+  return {
+    nonce: nonce.toString("hex"),
+    ct: ct.toString("hex"),
+    tag: tag.toString("hex"),
+  };
+}
+
+/**
+ * Decrypt hex-encoded ciphertext with an AEAD cipher.
+ * Validates nonce length, tag length, and hex encoding before attempting decryption.
+ *
+ * @param cipherName - Node cipher name the data was encrypted with
+ * @param key        - 32-byte decryption key
+ * @param nonceHex   - 12-byte nonce as hex
+ * @param ctHex      - ciphertext as hex
+ * @param tagHex     - 16-byte auth tag as hex
+ * @param aad        - optional AAD that must match what was used during encryption
+ * @returns decrypted plaintext buffer
+ */
+export function aeadDecrypt(
+  cipherName: string,
+  key: Buffer,
+  nonceHex: string,
+  ctHex: string,
+  tagHex: string,
+  aad?: Buffer
+): Buffer {
+  // Validate all inputs before decryption
+  const nonce = validateHex(nonceHex, "nonce", NONCE_BYTES);
+  const ct = validateHex(ctHex, "ciphertext");
+  const tag = validateHex(tagHex, "auth_tag", TAG_BYTES);
+
+  return aeadOpen(cipherName, key, nonce, ct, tag, aad);
+}
+
+// ----- AES-256-GCM -----
+
+/** Encrypt with AES-256-GCM — used for DEK wrapping by key providers */
+export function aesGcmEncrypt(key: Buffer, data: Buffer, aad?: Buffer): EncryptResult {
+  return aeadEncrypt(AES_256_GCM, key, data, aad);
+}
+
+/** Decrypt with AES-256-GCM — used for DEK unwrapping by key providers */
+export function aesGcmDecrypt(
+  key: Buffer,
+  nonceHex: string,
+  ctHex: string,
+  tagHex: string,
+  aad?: Buffer
+): Buffer {
+  return aeadDecrypt(AES_256_GCM, key, nonceHex, ctHex, tagHex, aad);
+}
@@ -9,17 +9,43 @@
  *   4. Wrong master key version → decryption fails
  *   5. Modified partyId → decryption fails (AAD mismatch)
  *   6. Key registry backward compatibility
+ *   7. Re-wrapping a DEK to a new master key version (rotation)
+ *   8. Format versions and algorithm dispatch (ChaCha20-Poly1305, legacy v1
+ *      records, unknown alg / version errors)
+ *   9. Metadata AAD (v3): cross-record swaps, edited metadata, format
+ *      downgrades and encryption context changes are detected; legacy
+ *      partyId-only records still decrypt and re-wrap
+ *  10. Field-level records (v4): cleartext and encrypted fields, selective
+ *      decryption, and detection of edited, moved or removed fields
+ *  11. Expiry: expired records are refused, and expiresAt cannot be edited,
+ *      removed or added to legacy records
+ *  12. Payload schema: the schema reference is stored, authenticated and validated
+ *  13. Typed errors: failures carry stable codes (InvalidHex, UnknownKeyVersion,
+ *      IntegrityFailure, CorruptPayload, UnsupportedFormat, RecordExpired,
+ *      ContextMismatch), stored-data problems such as a malformed expiresAt
+ *      or a key scope mismatch included
  *
  * Uses Node's built-in test runner (node:test).
  */
 
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { randomBytes } from "node:crypto";
+import { createCipheriv, randomBytes } from "node:crypto";
 import {
   envelopeEncrypt,
   envelopeDecrypt,
+  rewrapRecord,
+  isExpired,
   buildKeyRegistry,
+  supportedAlgorithms,
+  CryptoError,
+  CorruptPayloadError,
+  UnsupportedFormatError,
+  RecordExpiredError,
+  ContextMismatchError,
+  IntegrityFailureError,
+  InvalidHexError,
+  UnknownKeyVersionError,
   type KeyRegistry,
   type TxSecureRecord,
 } from "./index.js";
@@ -41,6 +67,47 @@ function cloneRecord(record: TxSecureRecord): TxSecureRecord {
   return JSON.parse(JSON.stringify(record));
 }
 
+/**
+ * Build a pre-v3 record the way older releases did: AES-256-GCM with only
+ * partyId as AAD on both layers. `v` is omitted for format 1. A string
+ * payload is encrypted as-is instead of as JSON.
+ */
+function legacyRecord(
+  mkHex: string,
+  id: string,
+  partyId: string,
+  payload: Record<string, unknown> | string,
+  v?: 2
+): TxSecureRecord {
+  const aad = Buffer.from(partyId, "utf-8");
+  const seal = (key: Buffer, data: Buffer) => {
+    const nonce = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, nonce).setAAD(aad);
+    const ct = Buffer.concat([cipher.update(data), cipher.final()]);
+    return { nonce: nonce.toString("hex"), ct: ct.toString("hex"), tag: cipher.getAuthTag().toString("hex") };
+  };
+
+  const dek = randomBytes(32);
+  const plaintext = typeof payload === "string" ? payload : JSON.stringify(payload);
+  const payloadEnc = seal(dek, Buffer.from(plaintext, "utf-8"));
+  const dekEnc = seal(Buffer.from(mkHex, "hex"), dek);
+
+  return {
+    ...(v ? { v } : {}),
+    id,
+    partyId,
+    createdAt: new Date().toISOString(),
+    payload_nonce: payloadEnc.nonce,
+    payload_ct: payloadEnc.ct,
+    payload_tag: payloadEnc.tag,
+    dek_wrap_nonce: dekEnc.nonce,
+    dek_wrapped: dekEnc.ct,
+    dek_wrap_tag: dekEnc.tag,
+    alg: "AES-256-GCM",
+    mk_version: 1,
+  };
+}
+
 // ----- Test data -----
 
 const TEST_KEY_V1 = randomKeyHex();
@@ -60,6 +127,7 @@ describe("Envelope Encryption", () => {
     assert.equal(record.id, "tx-001");
     assert.equal(record.partyId, TEST_PARTY_ID);
     assert.equal(record.alg, "AES-256-GCM");
+    assert.equal(record.v, 3);
     assert.equal(record.mk_version, 1);
     assert.equal(record.payload_nonce.length, 24); // 12 bytes = 24 hex chars
     assert.equal(record.payload_tag.length, 32);   // 16 bytes = 32 hex chars
@@ -185,4 +253,376 @@ describe("Envelope Encryption", () => {
       /expected 12 bytes, got 16 bytes/
     );
   });
+
+  it("should re-wrap a DEK to the latest version without touching the payload", () => {
+    const registryV1 = singleKeyRegistry(TEST_KEY_V1);
+    const record = envelopeEncrypt(registryV1, "tx-009", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const multiRegistry = buildKeyRegistry({
+      MASTER_KEY_V1: TEST_KEY_V1,
+      MASTER_KEY_V2: TEST_KEY_V2,
+    });
+    const rewrapped = rewrapRecord(multiRegistry, record);
+
+    // Only the wrapping layer changes
+    assert.equal(rewrapped.mk_version, 2);
+    assert.equal(rewrapped.payload_nonce, record.payload_nonce);
+    assert.equal(rewrapped.payload_ct, record.payload_ct);
+    assert.equal(rewrapped.payload_tag, record.payload_tag);
+    assert.notEqual(rewrapped.dek_wrapped, record.dek_wrapped);
+
+    // V1 can now be retired — a V2-only registry decrypts the rewrapped record
+    const registryV2Only = buildKeyRegistry({ MASTER_KEY_V2: TEST_KEY_V2 });
+    assert.deepEqual(envelopeDecrypt(registryV2Only, rewrapped), TEST_PAYLOAD);
+
+    // Re-wrapping to the version a record is already on is a no-op
+    assert.equal(rewrapRecord(multiRegistry, rewrapped, 2), rewrapped);
+  });
+
+  it("should refuse to re-wrap a record whose partyId was modified", () => {
+    const registryV1 = singleKeyRegistry(TEST_KEY_V1);
+    const record = envelopeEncrypt(registryV1, "tx-010", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const tampered = cloneRecord(record);
+    tampered.partyId = "attacker-party-99";
+
+    const multiRegistry = buildKeyRegistry({
+      MASTER_KEY_V1: TEST_KEY_V1,
+      MASTER_KEY_V2: TEST_KEY_V2,
+    });
+
+    assert.throws(
+      () => rewrapRecord(multiRegistry, tampered, 2),
+      /Decryption failed|authentication tag mismatch/
+    );
+  });
+
+  it("should encrypt and decrypt with every supported algorithm", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    assert.ok(supportedAlgorithms().includes("ChaCha20-Poly1305"));
+
+    for (const alg of supportedAlgorithms()) {
+      const record = envelopeEncrypt(registry, "tx-011", TEST_PARTY_ID, TEST_PAYLOAD, { alg });
+      assert.equal(record.alg, alg);
+      assert.deepEqual(envelopeDecrypt(registry, record), TEST_PAYLOAD);
+    }
+  });
+
+  it("should fail when alg is switched on a stored record", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const record = envelopeEncrypt(registry, "tx-012", TEST_PARTY_ID, TEST_PAYLOAD, {
+      alg: "ChaCha20-Poly1305",
+    });
+
+    const tampered = cloneRecord(record);
+    tampered.alg = "AES-256-GCM";
+
+    assert.throws(() => envelopeDecrypt(registry, tampered), /Decryption failed|authentication tag mismatch/);
+  });
+
+  it("should decrypt legacy v1 records that have no format version", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const legacy = legacyRecord(TEST_KEY_V1, "tx-013", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    assert.deepEqual(envelopeDecrypt(registry, legacy), TEST_PAYLOAD);
+
+    // v1 only ever meant AES-256-GCM
+    assert.throws(
+      () => envelopeDecrypt(registry, { ...legacy, alg: "ChaCha20-Poly1305" }),
+      /Legacy \(v1\) records must use AES-256-GCM/
+    );
+  });
+
+  it("should reject unknown algorithms and format versions", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const record = envelopeEncrypt(registry, "tx-014", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const unknownAlg = { ...cloneRecord(record), alg: "ROT13" } as unknown as TxSecureRecord;
+    assert.throws(() => envelopeDecrypt(registry, unknownAlg), /Unknown algorithm "ROT13"/);
+
+    assert.throws(
+      () => envelopeEncrypt(registry, "tx-015", TEST_PARTY_ID, TEST_PAYLOAD, { alg: "ROT13" as never }),
+      /Unknown algorithm "ROT13"/
+    );
+
+    assert.throws(
+      () => envelopeDecrypt(registry, { ...record, v: 99 }),
+      /Unsupported record format version 99/
+    );
+  });
+
+  it("should fail when ciphertext is swapped between records of the same party", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const first = envelopeEncrypt(registry, "tx-016", TEST_PARTY_ID, { amount: 1 });
+    const second = envelopeEncrypt(registry, "tx-017", TEST_PARTY_ID, { amount: 1_000_000 });
+
+    // Whole encrypted body (payload + wrapped DEK) moved onto another record id
+    const swapped: TxSecureRecord = {
+      ...first,
+      payload_nonce: second.payload_nonce,
+      payload_ct: second.payload_ct,
+      payload_tag: second.payload_tag,
+      dek_wrap_nonce: second.dek_wrap_nonce,
+      dek_wrapped: second.dek_wrapped,
+      dek_wrap_tag: second.dek_wrap_tag,
+    };
+    assert.throws(() => envelopeDecrypt(registry, swapped), /Decryption failed|authentication tag mismatch/);
+
+    // Only the payload layer swapped
+    const payloadOnly: TxSecureRecord = {
+      ...first,
+      payload_nonce: second.payload_nonce,
+      payload_ct: second.payload_ct,
+      payload_tag: second.payload_tag,
+    };
+    assert.throws(() => envelopeDecrypt(registry, payloadOnly), /Decryption failed|authentication tag mismatch/);
+
+    // The same swap goes undetected on legacy partyId-only records — the reason for v3
+    const legacyFirst = legacyRecord(TEST_KEY_V1, "tx-018", TEST_PARTY_ID, { amount: 1 }, 2);
+    const legacySecond = legacyRecord(TEST_KEY_V1, "tx-019", TEST_PARTY_ID, { amount: 1_000_000 }, 2);
+    const legacySwapped = { ...legacySecond, id: legacyFirst.id, createdAt: legacyFirst.createdAt };
+    assert.deepEqual(envelopeDecrypt(registry, legacySwapped), { amount: 1_000_000 });
+  });
+
+  it("should fail when bound metadata is edited or the format is downgraded", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const record = envelopeEncrypt(registry, "tx-020", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const edits: Partial<TxSecureRecord>[] = [
+      { id: "tx-other" },
+      { createdAt: new Date(0).toISOString() },
+      { v: 2 },
+      { context: { purpose: "injected" } },
+    ];
+    for (const edit of edits) {
+      assert.throws(
+        () => envelopeDecrypt(registry, { ...record, ...edit }),
+        /Decryption failed|authentication tag mismatch/,
+        JSON.stringify(edit)
+      );
+    }
+  });
+
+  it("should bind and check an encryption context", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const context = { purpose: "refund", region: "ae" };
+    const record = envelopeEncrypt(registry, "tx-021", TEST_PARTY_ID, TEST_PAYLOAD, { context });
+
+    assert.deepEqual(record.context, context);
+    assert.deepEqual(envelopeDecrypt(registry, record, { expectedContext: { purpose: "refund" } }), TEST_PAYLOAD);
+
+    assert.throws(
+      () => envelopeDecrypt(registry, record, { expectedContext: { purpose: "payout" } }),
+      /Encryption context mismatch: purpose/
+    );
+    assert.throws(
+      () => envelopeDecrypt(registry, { ...record, context: { ...context, region: "us" } }),
+      /Decryption failed|authentication tag mismatch/
+    );
+    assert.throws(
+      () => envelopeEncrypt(registry, "tx-022", TEST_PARTY_ID, TEST_PAYLOAD, { context: { n: 1 } as never }),
+      /context.n must be a string/
+    );
+  });
+
+  it("should re-wrap v3 and legacy records and still detect mk_version edits", () => {
+    const multiRegistry = buildKeyRegistry({ MASTER_KEY_V1: TEST_KEY_V1, MASTER_KEY_V2: TEST_KEY_V2 });
+    const current = envelopeEncrypt(singleKeyRegistry(TEST_KEY_V1), "tx-023", TEST_PARTY_ID, TEST_PAYLOAD);
+    const legacy = legacyRecord(TEST_KEY_V1, "tx-024", TEST_PARTY_ID, TEST_PAYLOAD, 2);
+
+    for (const record of [current, legacy]) {
+      const rewrapped = rewrapRecord(multiRegistry, record);
+      assert.equal(rewrapped.mk_version, 2);
+      assert.deepEqual(envelopeDecrypt(multiRegistry, rewrapped), TEST_PAYLOAD);
+    }
+
+    // Relabelling mk_version fails even when both versions hold the same key,
+    // because the wrap AAD covers mk_version
+    const sameKeyRegistry = buildKeyRegistry({ MASTER_KEY_V1: TEST_KEY_V1, MASTER_KEY_V2: TEST_KEY_V1 });
+    const relabelled = { ...rewrapRecord(sameKeyRegistry, current), mk_version: 1 };
+    assert.throws(() => envelopeDecrypt(sameKeyRegistry, relabelled), /Decryption failed|authentication tag mismatch/);
+  });
+
+  it("should encrypt fields individually and decrypt only the requested ones", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const record = envelopeEncrypt(registry, "tx-025", TEST_PARTY_ID, TEST_PAYLOAD, {
+      fields: { currency: "clear" },
+    });
+
+    assert.equal(record.v, 4);
+    assert.deepEqual(record.clear_fields, { currency: "USD" });
+    assert.deepEqual(Object.keys(record.enc_fields ?? {}).sort(), ["amount", "merchant"]);
+    assert.ok(!JSON.stringify(record).includes("Acme Corp"));
+
+    assert.deepEqual(envelopeDecrypt(registry, record), TEST_PAYLOAD);
+    assert.deepEqual(envelopeDecrypt(registry, record, { fields: ["amount", "currency", "missing"] }), {
+      amount: 1500,
+      currency: "USD",
+    });
+
+    // Selective decryption also works on whole-payload records
+    const whole = envelopeEncrypt(registry, "tx-026", TEST_PARTY_ID, TEST_PAYLOAD);
+    assert.deepEqual(envelopeDecrypt(registry, whole, { fields: ["merchant"] }), { merchant: "Acme Corp" });
+
+    assert.throws(
+      () => envelopeEncrypt(registry, "tx-027", TEST_PARTY_ID, TEST_PAYLOAD, { fields: { amount: "hide" } as never }),
+      /fields.amount must be "encrypt" or "clear"/
+    );
+  });
+
+  it("should detect edited, moved or removed fields on field-level records", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const record = envelopeEncrypt(registry, "tx-028", TEST_PARTY_ID, TEST_PAYLOAD, {
+      fields: { currency: "clear" },
+    });
+    const other = envelopeEncrypt(registry, "tx-029", TEST_PARTY_ID, TEST_PAYLOAD, {
+      fields: { currency: "clear" },
+    });
+
+    const editedClear = cloneRecord(record);
+    editedClear.clear_fields = { currency: "EUR" };
+
+    const removed = cloneRecord(record);
+    delete removed.enc_fields!.merchant;
+
+    const renamed = cloneRecord(record);
+    renamed.enc_fields = { amount: record.enc_fields!.merchant, merchant: record.enc_fields!.amount };
+
+    const moved = cloneRecord(record);
+    moved.enc_fields!.amount = other.enc_fields!.amount;
+
+    for (const tampered of [editedClear, removed, renamed, moved]) {
+      assert.throws(
+        () => envelopeDecrypt(registry, tampered, { fields: ["amount"] }),
+        /Decryption failed|authentication tag mismatch/
+      );
+    }
+
+    // Field data is rejected on other formats and must be well-formed on v4
+    const whole = envelopeEncrypt(registry, "tx-030", TEST_PARTY_ID, TEST_PAYLOAD);
+    assert.throws(() => envelopeDecrypt(registry, { ...whole, clear_fields: {} }), /only valid on format 4 records/);
+    assert.throws(() => envelopeDecrypt(registry, { ...record, enc_fields: undefined }), /enc_fields: expected an object/);
+  });
+
+  // ----- 11. Expiry -----
+
+  it("should refuse records once they expire", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const expiresAt = new Date(Date.now() + 60_000);
+    const record = envelopeEncrypt(registry, "tx-031", TEST_PARTY_ID, TEST_PAYLOAD, { expiresAt });
+
+    assert.equal(record.expiresAt, expiresAt.toISOString());
+    assert.equal(isExpired(record), false);
+    assert.deepEqual(envelopeDecrypt(registry, record), TEST_PAYLOAD);
+
+    const later = new Date(expiresAt.getTime() + 1);
+    assert.equal(isExpired(record, later), true);
+    assert.throws(() => envelopeDecrypt(registry, record, { now: later }), /Record tx-031 expired at/);
+
+    // Expiry survives re-wrapping
+    const rotated = rewrapRecord(buildKeyRegistry({ MASTER_KEY_V1: TEST_KEY_V1, MASTER_KEY_V2: TEST_KEY_V2 }), record);
+    assert.equal(rotated.expiresAt, record.expiresAt);
+
+    assert.throws(
+      () => envelopeEncrypt(registry, "tx-032", TEST_PARTY_ID, TEST_PAYLOAD, { expiresAt: "2000-01-01T00:00:00Z" }),
+      /expiresAt must be in the future/
+    );
+    assert.throws(
+      () => envelopeEncrypt(registry, "tx-032", TEST_PARTY_ID, TEST_PAYLOAD, { expiresAt: "soon" }),
+      /expiresAt must be an ISO-8601 timestamp/
+    );
+  });
+
+  it("should authenticate expiresAt", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const record = envelopeEncrypt(registry, "tx-033", TEST_PARTY_ID, TEST_PAYLOAD, {
+      expiresAt: new Date(Date.now() + 60_000),
+      fields: { currency: "clear" },
+    });
+
+    const extended = { ...record, expiresAt: new Date(Date.now() + 86_400_000).toISOString() };
+    const removed = { ...record, expiresAt: undefined };
+    const added = { ...envelopeEncrypt(registry, "tx-034", TEST_PARTY_ID, TEST_PAYLOAD), expiresAt: record.expiresAt };
+
+    for (const tampered of [extended, removed, added]) {
+      assert.throws(() => envelopeDecrypt(registry, tampered), /Decryption failed|authentication tag mismatch/);
+    }
+
+    const legacy = legacyRecord(TEST_KEY_V1, "tx-035", TEST_PARTY_ID, TEST_PAYLOAD);
+    assert.throws(
+      () => envelopeDecrypt(registry, { ...legacy, expiresAt: record.expiresAt }),
+      /expiresAt is only valid on format 3\+ records/
+    );
+  });
+
+  // ----- 12. Payload schema -----
+
+  it("should store and authenticate the payload schema reference", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const payloadSchema = { id: "payment", version: 2 };
+    const record = envelopeEncrypt(registry, "tx-036", TEST_PARTY_ID, TEST_PAYLOAD, { payloadSchema });
+
+    assert.deepEqual(record.payload_schema, payloadSchema);
+    assert.deepEqual(envelopeDecrypt(registry, record), TEST_PAYLOAD);
+
+    const relabelled = { ...record, payload_schema: { id: "refund", version: 2 } };
+    const removed = { ...record, payload_schema: undefined };
+    for (const tampered of [relabelled, removed]) {
+      assert.throws(() => envelopeDecrypt(registry, tampered), /Decryption failed|authentication tag mismatch/);
+    }
+
+    assert.throws(
+      () => envelopeEncrypt(registry, "tx-037", TEST_PARTY_ID, TEST_PAYLOAD, { payloadSchema: { id: "", version: 1 } }),
+      /payloadSchema.id: expected a non-empty string/
+    );
+    assert.throws(
+      () => envelopeDecrypt(registry, { ...record, payload_schema: { id: "payment", version: 0 } }),
+      /payload_schema.version: expected a positive integer/
+    );
+  });
+
+  it("should throw typed errors with stable codes", () => {
+    const registry = singleKeyRegistry(TEST_KEY_V1);
+    const record = envelopeEncrypt(registry, "tx-038", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const cases: [TxSecureRecord, KeyRegistry, new (...args: never[]) => CryptoError, string][] = [
+      [{ ...record, payload_ct: "zz" + record.payload_ct.slice(2) }, registry, InvalidHexError, "INVALID_HEX"],
+      [{ ...record, mk_version: 7 }, registry, UnknownKeyVersionError, "UNKNOWN_KEY_VERSION"],
+      [{ ...record, key_scope: "party" }, registry, UnknownKeyVersionError, "UNKNOWN_KEY_VERSION"],
+      [record, singleKeyRegistry(randomKeyHex()), IntegrityFailureError, "INTEGRITY_FAILURE"],
+      [
+        legacyRecord(TEST_KEY_V1, "tx-039", TEST_PARTY_ID, "not json"),
+        registry,
+        CorruptPayloadError,
+        "CORRUPT_PAYLOAD",
+      ],
+      [{ ...record, expiresAt: "next week" }, registry, CorruptPayloadError, "CORRUPT_PAYLOAD"],
+      [{ ...record, v: 99 }, registry, UnsupportedFormatError, "UNSUPPORTED_FORMAT"],
+      [{ ...record, alg: "ROT13" as never }, registry, UnsupportedFormatError, "UNSUPPORTED_FORMAT"],
+    ];
+
+    for (const [input, keys, errorClass, code] of cases) {
+      assert.throws(
+        () => envelopeDecrypt(keys, input),
+        (err: unknown) => err instanceof errorClass && err instanceof CryptoError && err.code === code
+      );
+    }
+
+    // Intact records refused by the caller's expectations
+    const expiresAt = new Date(Date.now() + 60_000);
+    const expiring = envelopeEncrypt(registry, "tx-040", TEST_PARTY_ID, TEST_PAYLOAD, { expiresAt });
+    assert.throws(
+      () => envelopeDecrypt(registry, expiring, { now: new Date(expiresAt.getTime() + 1) }),
+      (err: unknown) =>
+        err instanceof RecordExpiredError && err.code === "EXPIRED" && err.expiresAt === expiring.expiresAt
+    );
+
+    const withContext = envelopeEncrypt(registry, "tx-041", TEST_PARTY_ID, TEST_PAYLOAD, {
+      context: { purpose: "refund" },
+    });
+    assert.throws(
+      () => envelopeDecrypt(registry, withContext, { expectedContext: { purpose: "payout" } }),
+      (err: unknown) => err instanceof ContextMismatchError && err.code === "CONTEXT_MISMATCH" && err.key === "purpose"
+    );
+  });
 });
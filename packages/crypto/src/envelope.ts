@@ -1,17 +1,23 @@
 /**
- * Envelope Encryption using AES-256-GCM
+ * Envelope Encryption using AEAD ciphers
  * ========================================
  *
  * Envelope encryption is a two-layer encryption strategy:
  *
  * Layer 1 — Data Encryption:
  *   - A fresh random Data Encryption Key (DEK) is generated per record.
- *   - The plaintext payload is encrypted with AES-256-GCM using the DEK.
+ *   - The plaintext payload is encrypted with the record's `alg`
+ *     (AES-256-GCM by default, see algorithms.ts) using the DEK.
  *   - This produces: ciphertext + nonce + authentication tag.
  *
  * Layer 2 — Key Wrapping:
  *   - The DEK itself is encrypted ("wrapped") using the Master Key (MK).
  *   - This produces: wrapped DEK + nonce + authentication tag.
+ *   - Wrapping is delegated to a KeyProvider (see provider.ts), so master
+ *     keys can live in the environment or behind a KMS-like service.
+ *   - With a party key provider (see party-keys.ts) the DEK is wrapped
+ *     under the party's own key instead, which is itself wrapped under the
+ *     master key; such records carry `key_scope: "party"`.
  *
  * Benefits:
  *   - The Master Key never directly touches user data.
@@ -19,142 +25,226 @@
  *   - Each record uses a unique DEK, limiting blast radius of key compromise.
  *
  * AAD (Additional Authenticated Data):
- *   - partyId is bound as AAD to both the payload encryption and DEK wrapping.
- *   - AAD is NOT encrypted, but it IS authenticated — if anyone modifies the
- *     partyId on a stored record, decryption will fail with an auth tag mismatch.
- *   - This prevents an attacker from re-associating encrypted data to a
- *     different party without detection.
+ *   - The record's metadata (v, id, partyId, createdAt, alg and any
+ *     caller-supplied context, expiry and payload schema) is bound as canonical-JSON AAD to the payload
+ *     encryption; the DEK wrapping additionally binds mk_version (see aad.ts).
+ *   - AAD is NOT encrypted, but it IS authenticated — if anyone modifies a
+ *     bound field, or moves ciphertext between records (even of the same
+ *     party), decryption will fail with an auth tag mismatch.
+ *   - Records written before format 3 bind only partyId and still decrypt.
+ *
+ * Expiry:
+ *   - options.expiresAt stores an `expiresAt` time on the record, bound as
+ *     AAD with the rest of the metadata. From that time on envelopeDecrypt
+ *     refuses the record, and moving the time later breaks authentication.
+ *
+ * Field-level records (format 4, options.fields):
+ *   - Each payload field is encrypted on its own or kept in cleartext per
+ *     the schema, and callers can decrypt just the fields they need (see
+ *     fields.ts).
+ *   - The payload layer then seals an empty plaintext whose AAD covers the
+ *     cleartext values and the encrypted field names.
  *
  * Key Rotation:
  *   - Multiple master keys can coexist (V1, V2, ...).
- *   - Encryption always uses the latest version.
- *   - Decryption looks up the key by the record's mk_version field.
+ *   - Encryption uses the provider's active version (see keys.ts: an
+ *     explicitly configured version, or the newest that may encrypt now).
+ *   - Decryption looks up the key by the record's mk_version field;
+ *     decrypt-only keys still decrypt, revoked keys do not.
  *   - Old records continue to decrypt with their original key.
+ *   - rewrapRecord moves a record to a newer key by re-wrapping its DEK;
+ *     the payload ciphertext is left untouched.
+ *
+ * Signatures:
+ *   - With options.sign the finished record is signed with Ed25519 (see
+ *     signing.ts), so parties without the master key can check who produced
+ *     it. Signatures do not cover the key wrapping, so rewrapRecord keeps them.
+ *
+ * Record format:
+ *   - New records carry `v: 3` (`v: 4` when field-level); records without `v` are legacy v1 records
+ *     and are always decrypted as AES-256-GCM. v2 records dispatch on `alg`
+ *     but bind only partyId as AAD.
+ *   - Unknown format versions and algorithms are rejected before any key
+ *     material is touched.
  *
- * AES-256-GCM specifics:
+ * Cipher specifics (all algorithms):
  *   - 256-bit (32-byte) key
- *   - 96-bit (12-byte) nonce/IV (NIST recommended for GCM)
+ *   - 96-bit (12-byte) nonce/IV
  *   - 128-bit (16-byte) authentication tag (provides integrity + authenticity)
  */
 
-import { randomBytes, createCipheriv, createDecipheriv } from "node:crypto";
+import { randomBytes } from "node:crypto";
 import { Buffer } from "node:buffer";
-import type { TxSecureRecord } from "./types.js";
+import type { DecryptOptions, EncryptOptions, PayloadSchemaRef, TxSecureRecord } from "./types.js";
+import {
+  ContextMismatchError,
+  CorruptPayloadError,
+  CryptoError,
+  RecordExpiredError,
+  UnknownKeyVersionError,
+  UnsupportedFormatError,
+} from "./errors.js";
 import { validateHex } from "./utils.js";
-import { type KeyRegistry, getLatestVersion, getKey } from "./keys.js";
+import { NONCE_BYTES, TAG_BYTES } from "./cipher.js";
+import {
+  CURRENT_FORMAT_VERSION,
+  DEFAULT_ALGORITHM,
+  FIELD_LEVEL_FORMAT_VERSION,
+  LEGACY_FORMAT_VERSION,
+  assertKnownAlgorithm,
+  decryptPayload,
+  encryptPayload,
+  formatVersionOf,
+} from "./algorithms.js";
+import { type KeyProvider, type KeySource, type WrappedKey, toKeyProvider } from "./provider.js";
+import { payloadAad, validateContext, wrapAad } from "./aad.js";
+import { openFields, sealFields, validateFieldSchema, validateFields } from "./fields.js";
+import { buildBlindIndex, validateBlindIndex } from "./blind-index.js";
+import { signRecord, validateSignature } from "./signing.js";
 
 // ----- Constants -----
 
-const ALGORITHM = "aes-256-gcm" as const;
 const DEK_BYTES = 32;    // 256-bit DEK
-const NONCE_BYTES = 12;  // 96-bit nonce (NIST recommendation for GCM)
-const TAG_BYTES = 16;    // 128-bit auth tag
 
-// ----- Low-level helpers -----
-
-interface EncryptResult {
-  nonce: string;  // hex
-  ct: string;     // hex
-  tag: string;    // hex
-}
+// ----- Record Validation -----
 
 /**
- * Encrypt plaintext bytes with AES-256-GCM.
- * Generates a cryptographically random 12-byte nonce per call.
+ * Validate the format version, algorithm and all hex fields on a TxSecureRecord
+ * before attempting decryption.
+ * This provides early, descriptive errors instead of cryptic crypto failures.
  *
- * @param key  - 32-byte encryption key
- * @param data - plaintext buffer to encrypt
- * @param aad  - optional Additional Authenticated Data (authenticated but not encrypted)
- * @returns nonce, ciphertext, and auth tag as hex strings
+ * @throws UnsupportedFormatError on an unsupported format version, an
+ *         algorithm the format does not allow, an unknown key_scope, or
+ *         field-level data, expiresAt or payload_schema on a format that does
+ *         not bind them; InvalidHexError on any invalid hex field, wrong nonce
+ *         length, or wrong tag length; CorruptPayloadError on any other
+ *         malformed field (expiresAt, payload_schema, fields, blind index or
+ *         signature)
  */
-function aesGcmEncrypt(key: Buffer, data: Buffer, aad?: Buffer): EncryptResult {
-  // Generate a fresh random nonce for each encryption operation.
-  // Nonce reuse with the same key completely breaks GCM security.
-  const nonce = randomBytes(NONCE_BYTES);
-
-  const cipher = createCipheriv(ALGORITHM, key, nonce, {
-    authTagLength: TAG_BYTES,
-  });
-
-  // AAD binds contextual data (e.g. partyId) to the ciphertext.
-  // If AAD is modified after encryption, the auth tag won't match during decryption.
-  if (aad) {
-    cipher.setAAD(aad);
+export function validateRecord(record: TxSecureRecord): void {
+  try {
+    checkRecord(record);
+  } catch (err) {
+    // A stored record in the wrong shape is a data problem; keep it typed
+    throw err instanceof CryptoError ? err : new CorruptPayloadError(err instanceof Error ? err.message : String(err));
   }
+}
 
-  const ct = Buffer.concat([cipher.update(data), cipher.final()]);
-  const tag = cipher.getAuthTag();
+function checkRecord(record: TxSecureRecord): void {
+  const version = formatVersionOf(record);
+  if (version === LEGACY_FORMAT_VERSION && record.alg !== "AES-256-GCM") {
+    throw new UnsupportedFormatError(`Legacy (v1) records must use AES-256-GCM, got "${String(record.alg)}"`);
+  }
+  assertKnownAlgorithm(record.alg);
 
-  return {
-    nonce: nonce.toString("hex"),
-    ct: ct.toString("hex"),
-    tag: tag.toString("hex"),
-  };
+  validateHex(record.payload_nonce, "payload_nonce", NONCE_BYTES);
+  validateHex(record.payload_ct, "payload_ct");
+  validateHex(record.payload_tag, "payload_tag", TAG_BYTES);
+  validateHex(record.dek_wrap_nonce, "dek_wrap_nonce", NONCE_BYTES);
+  validateHex(record.dek_wrapped, "dek_wrapped");
+  validateHex(record.dek_wrap_tag, "dek_wrap_tag", TAG_BYTES);
+
+  if (version === FIELD_LEVEL_FORMAT_VERSION) {
+    validateFields(record);
+  } else if (record.clear_fields !== undefined || record.enc_fields !== undefined) {
+    throw new UnsupportedFormatError(
+      `clear_fields and enc_fields are only valid on format ${FIELD_LEVEL_FORMAT_VERSION} records`
+    );
+  }
+
+  if (record.blind_index !== undefined) {
+    validateBlindIndex(record.blind_index);
+  }
+
+  if (record.key_scope !== undefined && record.key_scope !== "party") {
+    throw new UnsupportedFormatError(`Unknown key_scope "${String(record.key_scope)}"`);
+  }
+
+  if (record.expiresAt !== undefined) {
+    if (version < CURRENT_FORMAT_VERSION) {
+      throw new UnsupportedFormatError(`expiresAt is only valid on format ${CURRENT_FORMAT_VERSION}+ records`);
+    }
+    if (typeof record.expiresAt !== "string" || Number.isNaN(Date.parse(record.expiresAt))) {
+      throw new Error("expiresAt: expected an ISO-8601 timestamp");
+    }
+  }
+
+  if (record.payload_schema !== undefined) {
+    if (version < CURRENT_FORMAT_VERSION) {
+      throw new UnsupportedFormatError(`payload_schema is only valid on format ${CURRENT_FORMAT_VERSION}+ records`);
+    }
+    validateSchemaRef(record.payload_schema, "payload_schema");
+  }
+
+  if (record.signature !== undefined) {
+    validateSignature(record.signature);
+  }
 }
 
 /**
- * Decrypt ciphertext with AES-256-GCM.
- * Validates nonce length, tag length, and hex encoding before attempting decryption.
- * Throws on any integrity failure (tampered ciphertext, wrong key, wrong tag, wrong AAD).
+ * Whether a record has expired: it carries an expiresAt at or before `now`.
+ * Records without expiresAt never expire.
+ */
+export function isExpired(record: Pick<TxSecureRecord, "expiresAt">, now: Date = new Date()): boolean {
+  return record.expiresAt !== undefined && Date.parse(record.expiresAt) <= now.getTime();
+}
+
+/**
+ * Normalize an expiry time to the ISO-8601 form stored on records.
  *
- * @param key      - 32-byte decryption key
- * @param nonceHex - 12-byte nonce as hex
- * @param ctHex    - ciphertext as hex
- * @param tagHex   - 16-byte auth tag as hex
- * @param aad      - optional AAD that must match what was used during encryption
- * @returns decrypted plaintext buffer
+ * @throws if it is not a valid time, or not after createdAt
  */
-function aesGcmDecrypt(
-  key: Buffer,
-  nonceHex: string,
-  ctHex: string,
-  tagHex: string,
-  aad?: Buffer
-): Buffer {
-  // Validate all inputs before decryption
-  const nonce = validateHex(nonceHex, "nonce", NONCE_BYTES);
-  const ct = validateHex(ctHex, "ciphertext");
-  const tag = validateHex(tagHex, "auth_tag", TAG_BYTES);
-
-  const decipher = createDecipheriv(ALGORITHM, key, nonce, {
-    authTagLength: TAG_BYTES,
-  });
-
-  // AAD must exactly match what was provided during encryption.
-  // Mismatched AAD causes GCM authentication to fail.
-  if (aad) {
-    decipher.setAAD(aad);
+function normalizeExpiry(value: Date | string, createdAt: string): string {
+  const expiresAt = new Date(value);
+  if (Number.isNaN(expiresAt.getTime())) {
+    throw new Error("expiresAt must be an ISO-8601 timestamp");
   }
-
-  // Set the authentication tag BEFORE calling update/final.
-  // If the tag doesn't match, final() will throw.
-  decipher.setAuthTag(tag);
-
-  try {
-    return Buffer.concat([decipher.update(ct), decipher.final()]);
-  } catch (err) {
-    // GCM authentication failure — ciphertext, tag, or AAD has been tampered with
-    throw new Error(
-      `Decryption failed: authentication tag mismatch (data may be tampered). ${err instanceof Error ? err.message : ""}`
-    );
+  if (expiresAt.getTime() <= Date.parse(createdAt)) {
+    throw new Error("expiresAt must be in the future");
   }
+  return expiresAt.toISOString();
 }
 
-// ----- Record Validation -----
+/**
+ * Check a payload schema reference: a non-empty id and a positive integer version.
+ *
+ * @throws naming `label` if it is malformed
+ */
+function validateSchemaRef(ref: PayloadSchemaRef, label: string): PayloadSchemaRef {
+  if (!ref || typeof ref !== "object" || typeof ref.id !== "string" || ref.id.length === 0) {
+    throw new Error(`${label}.id: expected a non-empty string`);
+  }
+  if (!Number.isInteger(ref.version) || ref.version < 1) {
+    throw new Error(`${label}.version: expected a positive integer`);
+  }
+  return { id: ref.id, version: ref.version };
+}
 
 /**
- * Validate all hex fields on a TxSecureRecord before attempting decryption.
- * This provides early, descriptive errors instead of cryptic crypto failures.
+ * Check that a provider wraps at the record's key scope, so a record wrapped
+ * under a party key is not handed to the master key directly (or vice versa).
  *
- * @throws on any invalid hex field, wrong nonce length, or wrong tag length
+ * @throws UnknownKeyVersionError on a mismatch: the provider has no key the
+ *         record is wrapped under
  */
-export function validateRecord(record: TxSecureRecord): void {
-  validateHex(record.payload_nonce, "payload_nonce", NONCE_BYTES);
-  validateHex(record.payload_ct, "payload_ct");
-  validateHex(record.payload_tag, "payload_tag", TAG_BYTES);
-  validateHex(record.dek_wrap_nonce, "dek_wrap_nonce", NONCE_BYTES);
-  validateHex(record.dek_wrapped, "dek_wrapped");
-  validateHex(record.dek_wrap_tag, "dek_wrap_tag", TAG_BYTES);
+function assertKeyScope(provider: KeyProvider, record: TxSecureRecord): void {
+  if (provider.scope !== record.key_scope) {
+    const wrappedUnder = record.key_scope === "party" ? "its party's key" : "a master key";
+    throw new UnknownKeyVersionError(
+      record.mk_version,
+      `Record ${record.id} is wrapped under ${wrappedUnder}; key provider "${provider.name}" cannot unwrap it`
+    );
+  }
+}
+
+/** Keep only the named top-level fields of a payload */
+function pickFields(payload: Record<string, unknown>, names: readonly string[]): Record<string, unknown> {
+  return Object.fromEntries(names.filter((name) => Object.hasOwn(payload, name)).map((name) => [name, payload[name]]));
+}
+
+/** Extract the wrapped-DEK fields of a record in KeyProvider form */
+function wrappedKeyOf(record: TxSecureRecord): WrappedKey {
+  return { nonce: record.dek_wrap_nonce, ct: record.dek_wrapped, tag: record.dek_wrap_tag };
 }
 
 // ----- Public API -----
@@ -163,47 +253,84 @@ export function validateRecord(record: TxSecureRecord): void {
  * Encrypt a payload using envelope encryption with key versioning and AAD.
  *
  * Steps:
- *   1. Look up the latest master key version from the registry
- *   2. Generate a random 32-byte Data Encryption Key (DEK)
- *   3. Encrypt the JSON payload with the DEK (AES-256-GCM), using partyId as AAD
- *   4. Wrap (encrypt) the DEK with the Master Key (AES-256-GCM), using partyId as AAD
- *   5. Return a TxSecureRecord containing all encrypted components
+ *   1. Look up the active master key version from the key provider
+ *   2. Fix the record metadata (id, partyId, createdAt, expiresAt, alg, context, payload_schema) that forms the AAD
+ *   3. Generate a random 32-byte Data Encryption Key (DEK)
+ *   4. Encrypt the JSON payload with the DEK (options.alg), binding the metadata as AAD;
+ *      with options.fields, encrypt each field separately and seal the field set instead
+ *   5. Have the provider wrap the DEK with the Master Key, binding the metadata and mk_version as AAD
+ *   6. Return a TxSecureRecord containing all encrypted components, plus blind
+ *      index tokens for options.index fields, signed with options.sign
  *
- * @param registry - master key registry (version → key buffer)
- * @param id       - unique record identifier
- * @param partyId  - party/entity identifier (also used as AAD)
+ * @param keys     - master key registry (version → key buffer) or KeyProvider
+ * @param id       - unique record identifier (bound as AAD)
+ * @param partyId  - party/entity identifier (bound as AAD)
  * @param payload  - JSON-serializable payload to encrypt
+ * @param options  - payload algorithm (default: AES-256-GCM) and optional
+ *                   encryption context, stored on the record and bound as AAD;
+ *                   a field schema switches to field-level encryption;
+ *                   index fields get blind index tokens (see blind-index.ts);
+ *                   expiresAt sets when the record stops decrypting;
+ *                   payloadSchema records the schema the payload was validated against;
+ *                   sign signs the record (see signing.ts)
  * @returns TxSecureRecord with all fields populated
+ * @throws KeyNotActiveError if no master key may encrypt now (see keys.ts);
+ *         an Error if the algorithm is unknown or unavailable on this Node
+ *         build, or the context, field schema, expiry time or payload schema
+ *         is invalid, or the signing registry has no private key
  */
 export function envelopeEncrypt(
-  registry: KeyRegistry,
+  keys: KeySource,
   id: string,
   partyId: string,
-  payload: Record<string, unknown>
+  payload: Record<string, unknown>,
+  options: EncryptOptions = {}
 ): TxSecureRecord {
-  // Step 1: Use the latest master key version for new encryptions
-  const mkVersion = getLatestVersion(registry);
-  const masterKey = getKey(registry, mkVersion);
-
-  // AAD: partyId is cryptographically bound to the ciphertext.
-  // This prevents re-associating encrypted data to a different party.
-  const aad = Buffer.from(partyId, "utf-8");
+  const provider = toKeyProvider(keys);
+  const alg = options.alg ?? DEFAULT_ALGORITHM;
+  const context = options.context !== undefined ? { ...validateContext(options.context) } : undefined;
+  const schema = options.fields !== undefined ? validateFieldSchema(options.fields) : undefined;
+
+  // Step 1: Use the active master key version for new encryptions
+  const mkVersion = provider.latestVersion();
+
+  // Step 2: Everything in the AAD is fixed before encrypting
+  const createdAt = new Date().toISOString();
+  const expiresAt = options.expiresAt !== undefined ? normalizeExpiry(options.expiresAt, createdAt) : undefined;
+  const payloadSchema =
+    options.payloadSchema !== undefined ? validateSchemaRef(options.payloadSchema, "payloadSchema") : undefined;
+  const metadata = {
+    v: schema ? FIELD_LEVEL_FORMAT_VERSION : CURRENT_FORMAT_VERSION,
+    id,
+    partyId,
+    createdAt,
+    ...(expiresAt ? { expiresAt } : {}),
+    alg,
+    ...(context ? { context } : {}),
+    ...(payloadSchema ? { payload_schema: payloadSchema } : {}),
+    mk_version: mkVersion,
+    ...(provider.scope ? { key_scope: provider.scope } : {}),
+  };
 
-  // Step 2: Generate a fresh random DEK for this record
+  // Step 3: Generate a fresh random DEK for this record
   const dek = randomBytes(DEK_BYTES);
 
-  // Step 3: Encrypt payload with DEK, binding partyId as AAD
-  const plaintext = Buffer.from(JSON.stringify(payload), "utf-8");
-  const payloadEnc = aesGcmEncrypt(dek, plaintext, aad);
+  // Step 4: Encrypt payload with DEK, binding the record metadata as AAD.
+  // Field-level records encrypt each field and seal only the field set here.
+  const fieldSet = schema ? sealFields(dek, metadata, payload, schema) : undefined;
+  const plaintext = fieldSet ? Buffer.alloc(0) : Buffer.from(JSON.stringify(payload), "utf-8");
+  const payloadEnc = encryptPayload(alg, dek, plaintext, payloadAad({ ...metadata, ...fieldSet }));
 
-  // Step 4: Wrap DEK with Master Key, also binding partyId as AAD
-  const dekEnc = aesGcmEncrypt(masterKey, dek, aad);
+  // Step 5: Wrap DEK with Master Key, binding the metadata and mk_version as AAD
+  const dekEnc = provider.wrapKey(mkVersion, dek, wrapAad(metadata));
 
-  // Step 5: Assemble the secure record
-  return {
-    id,
-    partyId,
-    createdAt: new Date().toISOString(),
+  // Step 6: Assemble the secure record
+  const blindIndex = options.index ? buildBlindIndex(options.index, partyId, payload) : undefined;
+
+  const record: TxSecureRecord = {
+    ...metadata,
+    ...fieldSet,
+    ...(blindIndex ? { blind_index: blindIndex } : {}),
 
     payload_nonce: payloadEnc.nonce,
     payload_ct: payloadEnc.ct,
@@ -212,62 +339,138 @@ export function envelopeEncrypt(
     dek_wrap_nonce: dekEnc.nonce,
     dek_wrapped: dekEnc.ct,
     dek_wrap_tag: dekEnc.tag,
-
-    alg: "AES-256-GCM",
-    mk_version: mkVersion,
   };
+
+  return options.sign ? signRecord(options.sign, record) : record;
 }
 
 /**
  * Decrypt a TxSecureRecord using envelope decryption with key versioning and AAD.
  *
  * Steps:
- *   1. Validate all hex fields on the record
- *   2. Look up the master key by the record's mk_version
- *   3. Unwrap the DEK using the Master Key (AES-256-GCM decrypt), verifying partyId AAD
- *   4. Decrypt the payload using the recovered DEK (AES-256-GCM decrypt), verifying partyId AAD
- *   5. Parse and return the original JSON payload
+ *   1. Validate the format version, algorithm and all hex fields on the record
+ *   2. Refuse expired records; check the record's context against the expected
+ *      context, if one is given
+ *   3. Have the key provider unwrap the DEK with the record's mk_version, verifying the wrap AAD
+ *   4. Decrypt the payload using the recovered DEK and the record's alg, verifying the payload AAD
+ *   5. Parse and return the original JSON payload; for field-level records,
+ *      decrypt the requested fields and merge them with the cleartext ones
  *
- * @param registry - master key registry (version → key buffer)
+ * @param keys     - master key registry (version → key buffer) or KeyProvider
  * @param record   - the encrypted TxSecureRecord
- * @returns the original JSON payload
- * @throws on tampered data, invalid hex, wrong key version, AAD mismatch, or parse errors
+ * @param options  - optional context entries the record must carry, the
+ *                   top-level fields to return (default: all), and the time
+ *                   to check expiry against (default: now)
+ * @returns the original JSON payload, or the requested subset of it
+ * @throws IntegrityFailureError on tampered data or an AAD mismatch,
+ *         InvalidHexError on invalid hex, UnknownKeyVersionError on a missing
+ *         key version or a provider of the wrong key scope, KeyRevokedError
+ *         on a revoked one, CorruptPayloadError on unparseable plaintext or a
+ *         malformed field, UnsupportedFormatError on an unknown format
+ *         version or algorithm, RecordExpiredError on an expired record,
+ *         ContextMismatchError on a context mismatch (see errors.ts)
  */
 export function envelopeDecrypt(
-  registry: KeyRegistry,
-  record: TxSecureRecord
+  keys: KeySource,
+  record: TxSecureRecord,
+  options: DecryptOptions = {}
 ): Record<string, unknown> {
-  // Step 1: Validate all hex fields before any crypto operations
+  // Step 1: Validate all fields before any crypto operations
   validateRecord(record);
 
-  // Step 2: Look up the master key used when this record was encrypted
-  const masterKey = getKey(registry, record.mk_version);
+  // Step 2: expiresAt and the context are authenticated below; here we check
+  // the record is still live and carries the context the caller expects
+  if (record.expiresAt !== undefined && isExpired(record, options.now)) {
+    throw new RecordExpiredError(record.expiresAt, `Record ${record.id} expired at ${record.expiresAt}`);
+  }
 
-  // AAD must match what was used during encryption
-  const aad = Buffer.from(record.partyId, "utf-8");
+  for (const [key, value] of Object.entries(options.expectedContext ?? {})) {
+    if (record.context?.[key] !== value) {
+      throw new ContextMismatchError(key, `Encryption context mismatch: ${key}`);
+    }
+  }
 
-  // Step 3: Unwrap the DEK using the Master Key, with partyId as AAD
-  const dek = aesGcmDecrypt(
-    masterKey,
-    record.dek_wrap_nonce,
-    record.dek_wrapped,
-    record.dek_wrap_tag,
-    aad
-  );
+  // Step 3: Unwrap the DEK with the master key version used at encryption
+  const provider = toKeyProvider(keys);
+  assertKeyScope(provider, record);
+  const dek = provider.unwrapKey(record.mk_version, wrappedKeyOf(record), wrapAad(record));
 
-  // Step 4: Decrypt payload using the recovered DEK, with partyId as AAD
-  const plaintext = aesGcmDecrypt(
+  // Step 4: Decrypt payload using the recovered DEK
+  const plaintext = decryptPayload(
+    record.alg,
     dek,
     record.payload_nonce,
     record.payload_ct,
     record.payload_tag,
-    aad
+    payloadAad(record)
   );
 
-  // Step 5: Parse JSON payload
+  // Step 5: Field-level records only decrypt what was asked for
+  if (record.v === FIELD_LEVEL_FORMAT_VERSION) {
+    if (plaintext.length !== 0) {
+      throw new CorruptPayloadError("Field-level record has a non-empty payload — possible data corruption");
+    }
+    return openFields(dek, record, options.fields);
+  }
+
+  let payload: Record<string, unknown>;
   try {
-    return JSON.parse(plaintext.toString("utf-8")) as Record<string, unknown>;
+    payload = JSON.parse(plaintext.toString("utf-8")) as Record<string, unknown>;
   } catch {
-    throw new Error("Decryption produced invalid JSON — possible data corruption");
+    throw new CorruptPayloadError("Decryption produced invalid JSON — possible data corruption");
+  }
+
+  return options.fields ? pickFields(payload, options.fields) : payload;
+}
+
+/**
+ * Re-wrap a record's DEK under a different master key version.
+ *
+ * Only the DEK wrapping layer changes — payload_nonce, payload_ct and
+ * payload_tag are carried over byte-for-byte, so the payload is never
+ * decrypted. This is what makes master key rotation cheap.
+ *
+ * Steps:
+ *   1. Validate all hex fields on the record
+ *   2. Unwrap the DEK with the record's current master key, verifying the wrap AAD
+ *   3. Wrap the DEK with the target master key, binding the new mk_version in the AAD
+ *   4. Return a copy of the record with the new wrapping fields and mk_version
+ *
+ * @param keys          - master key registry or KeyProvider; must hold both the current and target versions
+ * @param record        - the encrypted TxSecureRecord
+ * @param targetVersion - master key version to re-wrap under (defaults to the active one)
+ * @returns a new TxSecureRecord; the input record is returned unchanged if it
+ *          is already on the target version
+ * @throws on tampered wrapping data, invalid hex, a missing key version, a
+ *         target version that may not encrypt (KeyNotActiveError) or a revoked
+ *         version (KeyRevokedError), or a provider of the wrong key scope
+ */
+export function rewrapRecord(
+  keys: KeySource,
+  record: TxSecureRecord,
+  targetVersion?: number
+): TxSecureRecord {
+  const provider = toKeyProvider(keys);
+  const target = targetVersion ?? provider.latestVersion();
+
+  validateRecord(record);
+  assertKeyScope(provider, record);
+
+  if (record.mk_version === target) {
+    return record;
   }
+
+  // Unwrap with the old master key — fails if the wrapping or bound metadata was tampered with
+  const dek = provider.unwrapKey(record.mk_version, wrappedKeyOf(record), wrapAad(record));
+
+  // Re-wrap with the target master key under a fresh nonce
+  const rewrapped = { ...record, mk_version: target };
+  const dekEnc = provider.wrapKey(target, dek, wrapAad(rewrapped));
+
+  return {
+    ...rewrapped,
+    dek_wrap_nonce: dekEnc.nonce,
+    dek_wrapped: dekEnc.ct,
+    dek_wrap_tag: dekEnc.tag,
+  };
 }
@@ -0,0 +1,140 @@
+/**
+ * Crypto Errors — typed failures with stable codes
+ * ==================================================
+ *
+ * Failures a caller may need to tell apart are thrown as subclasses of
+ * CryptoError, each with a stable, machine-readable `code`:
+ *
+ *   InvalidHexError         INVALID_HEX          a hex field is malformed or the wrong length
+ *   UnknownKeyVersionError  UNKNOWN_KEY_VERSION  no key is available for a record's key version
+ *   IntegrityFailureError   INTEGRITY_FAILURE    authentication failed: the data, tag or AAD
+ *                                                was tampered with, or the wrong key was used
+ *   CorruptPayloadError     CORRUPT_PAYLOAD      data authenticated but cannot be read, or a
+ *                                                record field is malformed
+ *   UnsupportedFormatError  UNSUPPORTED_FORMAT   a record's format version, algorithm or key
+ *                                                scope is not one this library (or Node
+ *                                                build) can read
+ *   KeyNotActiveError       KEY_NOT_ACTIVE       no master key may encrypt now, or the one
+ *                                                asked for is decrypt-only or outside its
+ *                                                not-before/not-after window (see keys.ts)
+ *   KeyRevokedError         KEY_REVOKED          the master key version was revoked and
+ *                                                may no longer be used at all
+ *   SignatureError          INVALID_SIGNATURE    a record is unsigned, signed with an
+ *                                                unknown key, or its signature does not
+ *                                                match (see signing.ts)
+ *   RecordExpiredError      EXPIRED              a record is past its expiresAt
+ *   ContextMismatchError    CONTEXT_MISMATCH     a record's encryption context is not the
+ *                                                one the caller expects
+ *
+ * Messages stay descriptive and may name internal details (field labels,
+ * key versions); services should map errors to a response by `code` (or
+ * class) rather than passing the message on to their clients.
+ *
+ * Other invalid input (bad options, malformed encrypt input) still throws
+ * a plain Error.
+ */
+
+/** Stable codes of the CryptoError subclasses */
+export type CryptoErrorCode =
+  | "INVALID_HEX"
+  | "UNKNOWN_KEY_VERSION"
+  | "INTEGRITY_FAILURE"
+  | "CORRUPT_PAYLOAD"
+  | "UNSUPPORTED_FORMAT"
+  | "KEY_NOT_ACTIVE"
+  | "KEY_REVOKED"
+  | "INVALID_SIGNATURE"
+  | "EXPIRED"
+  | "CONTEXT_MISMATCH";
+
+/** Base class of the typed errors thrown by this library */
+export abstract class CryptoError extends Error {
+  abstract readonly code: CryptoErrorCode;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** A hex-encoded value is not valid hex, or does not decode to the expected length */
+export class InvalidHexError extends CryptoError {
+  readonly code = "INVALID_HEX";
+
+  /** @param label - name of the offending field */
+  constructor(readonly label: string, message: string) {
+    super(message);
+  }
+}
+
+/** No key is available for a master key version (or a party's key under it) */
+export class UnknownKeyVersionError extends CryptoError {
+  readonly code = "UNKNOWN_KEY_VERSION";
+
+  constructor(readonly version: number, message: string) {
+    super(message);
+  }
+}
+
+/** AEAD authentication failed — tampered ciphertext, tag or AAD, or the wrong key */
+export class IntegrityFailureError extends CryptoError {
+  readonly code = "INTEGRITY_FAILURE";
+}
+
+/** Decrypted or framed data, or a record field, is not in the expected shape */
+export class CorruptPayloadError extends CryptoError {
+  readonly code = "CORRUPT_PAYLOAD";
+}
+
+/** A record's format version, algorithm or key scope cannot be read here */
+export class UnsupportedFormatError extends CryptoError {
+  readonly code = "UNSUPPORTED_FORMAT";
+}
+
+/** A master key may not encrypt: none is active now, or the requested version is not */
+export class KeyNotActiveError extends CryptoError {
+  readonly code = "KEY_NOT_ACTIVE";
+
+  /** @param version - the version asked for, or undefined if no active version was found */
+  constructor(readonly version: number | undefined, message: string) {
+    super(message);
+  }
+}
+
+/** A master key version was revoked: it neither encrypts nor decrypts */
+export class KeyRevokedError extends CryptoError {
+  readonly code = "KEY_REVOKED";
+
+  constructor(readonly version: number, message: string) {
+    super(message);
+  }
+}
+
+/** A record's Ed25519 signature is missing, from an unknown key, or does not verify */
+export class SignatureError extends CryptoError {
+  readonly code = "INVALID_SIGNATURE";
+}
+
+/** A record's expiresAt has passed; it is refused even though it is intact */
+export class RecordExpiredError extends CryptoError {
+  readonly code = "EXPIRED";
+
+  constructor(readonly expiresAt: string, message: string) {
+    super(message);
+  }
+}
+
+/** A record's encryption context differs from the one the caller expects */
+export class ContextMismatchError extends CryptoError {
+  readonly code = "CONTEXT_MISMATCH";
+
+  /** @param key - the first context key whose value differs */
+  constructor(readonly key: string, message: string) {
+    super(message);
+  }
+}
+
+/** Whether a value is one of this library's typed errors */
+export function isCryptoError(err: unknown): err is CryptoError {
+  return err instanceof CryptoError;
+}
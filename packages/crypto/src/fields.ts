@@ -0,0 +1,152 @@
+/**
+ * Field-Level Encryption (record format 4)
+ * ==========================================
+ *
+ * Instead of one ciphertext for the whole payload, each top-level payload
+ * field is either:
+ *   - encrypted on its own with the record's DEK (enc_fields), so a reader
+ *     can decrypt just the fields it needs, or
+ *   - kept in cleartext (clear_fields) for non-sensitive values such as a
+ *     currency code, readable without any key.
+ *
+ * A FieldSchema marks fields as "encrypt" or "clear"; anything it does not
+ * mention is encrypted.
+ *
+ * Integrity (see aad.ts):
+ *   - every encrypted field binds the record metadata and its own name, so
+ *     field ciphertexts cannot be moved between fields or records;
+ *   - the payload layer seals an empty plaintext whose AAD covers the
+ *     cleartext values and the list of encrypted field names, so editing a
+ *     cleartext value or adding/removing a field is detected on decrypt.
+ *
+ * Cleartext fields are authenticated only when the record is decrypted;
+ * reading them straight off a stored record trusts the store.
+ *
+ * Only validateFieldSchema is re-exported from the package entry point.
+ */
+
+import { Buffer } from "node:buffer";
+import type { EncryptedField, FieldSchema, TxSecureRecord } from "./types.js";
+import { decryptPayload, encryptPayload } from "./algorithms.js";
+import { fieldAad } from "./aad.js";
+import { CorruptPayloadError } from "./errors.js";
+import { validateHex } from "./utils.js";
+import { NONCE_BYTES, TAG_BYTES } from "./cipher.js";
+
+/** Record metadata needed to seal or open fields */
+type FieldRecord = Pick<
+  TxSecureRecord,
+  "v" | "id" | "partyId" | "createdAt" | "expiresAt" | "alg" | "context" | "payload_schema" | "mk_version"
+>;
+
+/**
+ * Validate a field schema.
+ *
+ * @throws if it is not an object of "encrypt" | "clear" values
+ */
+export function validateFieldSchema(schema: unknown): FieldSchema {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error('fields must be an object mapping field names to "encrypt" or "clear"');
+  }
+
+  for (const [name, mode] of Object.entries(schema as Record<string, unknown>)) {
+    if (mode !== "encrypt" && mode !== "clear") {
+      throw new Error(`fields.${name} must be "encrypt" or "clear"`);
+    }
+  }
+
+  return schema as FieldSchema;
+}
+
+/**
+ * Split a payload per schema and encrypt the non-clear fields individually.
+ *
+ * @param dek     - the record's DEK
+ * @param record  - record metadata (bound as AAD per field)
+ * @param payload - the plaintext payload
+ * @param schema  - which fields stay in cleartext
+ */
+export function sealFields(
+  dek: Buffer,
+  record: FieldRecord,
+  payload: Record<string, unknown>,
+  schema: FieldSchema
+): { clear_fields: Record<string, unknown>; enc_fields: Record<string, EncryptedField> } {
+  const clear: [string, unknown][] = [];
+  const encrypted: [string, EncryptedField][] = [];
+
+  for (const [name, value] of Object.entries(payload)) {
+    if (value === undefined) continue;
+
+    if (schema[name] === "clear") {
+      clear.push([name, value]);
+    } else {
+      const plaintext = Buffer.from(JSON.stringify(value), "utf-8");
+      encrypted.push([name, encryptPayload(record.alg, dek, plaintext, fieldAad(record, name))]);
+    }
+  }
+
+  // fromEntries defines own properties, so names like "__proto__" stay plain keys
+  return { clear_fields: Object.fromEntries(clear), enc_fields: Object.fromEntries(encrypted) };
+}
+
+/**
+ * Validate the field-level parts of a record.
+ *
+ * @throws if clear_fields / enc_fields are missing or malformed
+ */
+export function validateFields(record: TxSecureRecord): void {
+  const { clear_fields, enc_fields } = record;
+
+  if (!clear_fields || typeof clear_fields !== "object" || Array.isArray(clear_fields)) {
+    throw new Error("clear_fields: expected an object");
+  }
+  if (!enc_fields || typeof enc_fields !== "object" || Array.isArray(enc_fields)) {
+    throw new Error("enc_fields: expected an object");
+  }
+
+  for (const [name, field] of Object.entries(enc_fields)) {
+    if (Object.hasOwn(clear_fields, name)) {
+      throw new Error(`Field "${name}" is both encrypted and in cleartext`);
+    }
+    validateHex(field?.nonce, `enc_fields.${name}.nonce`, NONCE_BYTES);
+    validateHex(field?.ct, `enc_fields.${name}.ct`);
+    validateHex(field?.tag, `enc_fields.${name}.tag`, TAG_BYTES);
+  }
+}
+
+/**
+ * Decrypt the requested fields of a field-level record and merge them with
+ * its cleartext fields. The record's payload tag must already be verified.
+ *
+ * @param dek    - the record's DEK
+ * @param record - a validated format 4 record
+ * @param names  - fields to return (default: all)
+ * @returns the requested payload fields; names the record lacks are omitted
+ */
+export function openFields(dek: Buffer, record: TxSecureRecord, names?: readonly string[]): Record<string, unknown> {
+  const clear = record.clear_fields ?? {};
+  const encrypted = record.enc_fields ?? {};
+  const wanted = names ?? [...Object.keys(clear), ...Object.keys(encrypted)];
+
+  const entries: [string, unknown][] = [];
+  for (const name of wanted) {
+    if (Object.hasOwn(clear, name)) {
+      entries.push([name, clear[name]]);
+    } else if (Object.hasOwn(encrypted, name)) {
+      const { nonce, ct, tag } = encrypted[name];
+      const plaintext = decryptPayload(record.alg, dek, nonce, ct, tag, fieldAad(record, name));
+      entries.push([name, parseField(name, plaintext)]);
+    }
+  }
+
+  return Object.fromEntries(entries);
+}
+
+function parseField(name: string, plaintext: Buffer): unknown {
+  try {
+    return JSON.parse(plaintext.toString("utf-8"));
+  } catch {
+    throw new CorruptPayloadError(`Decryption of field "${name}" produced invalid JSON — possible data corruption`);
+  }
+}
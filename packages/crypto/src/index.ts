@@ -3,7 +3,111 @@
  *
  * Re-exports all public types and functions for consumers.
  */
-export { envelopeEncrypt, envelopeDecrypt, validateRecord } from "./envelope.js";
-export type { TxSecureRecord, EncryptInput, DecryptResult } from "./types.js";
-export { parseMasterKey, validateHex } from "./utils.js";
-export { buildKeyRegistry, getLatestVersion, getKey, type KeyRegistry } from "./keys.js";
+export { envelopeEncrypt, envelopeDecrypt, rewrapRecord, validateRecord, isExpired } from "./envelope.js";
+export type {
+  TxSecureRecord,
+  EncryptInput,
+  EncryptOptions,
+  DecryptOptions,
+  DecryptResult,
+  EncryptedField,
+  PayloadSchemaRef,
+  FieldSchema,
+  BlindIndexOptions,
+} from "./types.js";
+export {
+  CURRENT_FORMAT_VERSION,
+  LEGACY_FORMAT_VERSION,
+  FIELD_LEVEL_FORMAT_VERSION,
+  DEFAULT_ALGORITHM,
+  supportedAlgorithms,
+  isSupportedAlgorithm,
+  type PayloadAlgorithm,
+} from "./algorithms.js";
+export {
+  createEncryptStream,
+  createDecryptStream,
+  DEFAULT_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  type StreamHeader,
+  type StreamEncryptOptions,
+  type StreamDecryptOptions,
+} from "./stream.js";
+export { serializeRecord, parseRecord, type RecordEncoding } from "./serialize.js";
+export { parseMasterKey, validateHex, canonicalJson } from "./utils.js";
+export {
+  CryptoError,
+  InvalidHexError,
+  UnknownKeyVersionError,
+  IntegrityFailureError,
+  CorruptPayloadError,
+  UnsupportedFormatError,
+  KeyNotActiveError,
+  KeyRevokedError,
+  SignatureError,
+  RecordExpiredError,
+  ContextMismatchError,
+  isCryptoError,
+  type CryptoErrorCode,
+} from "./errors.js";
+export { validateContext } from "./aad.js";
+export { validateFieldSchema } from "./fields.js";
+export { blindIndexToken } from "./blind-index.js";
+export {
+  buildKeyRegistry,
+  createKeyRegistry,
+  parseKeyConfig,
+  keyFingerprint,
+  getActiveVersion,
+  getKey,
+  getKeyMetadata,
+  assertKeyUsable,
+  splitMasterKey,
+  combineMasterKeyShares,
+  KEY_STATES,
+  type KeyRegistry,
+  type KeyConfig,
+  type KeyMetadata,
+  type KeyState,
+  type KeyUse,
+} from "./keys.js";
+export {
+  parseKdfConfig,
+  createKdfConfig,
+  deriveMasterKeys,
+  KDF_ALGORITHMS,
+  DEFAULT_SCRYPT_PARAMS,
+  type KdfAlgorithm,
+  type KdfConfig,
+  type ScryptKdfConfig,
+  type HkdfKdfConfig,
+} from "./kdf.js";
+export { splitSecret, combineShares, type SecretShare } from "./shamir.js";
+export {
+  registryKeyProvider,
+  toKeyProvider,
+  isKeyProvider,
+  type KeyProvider,
+  type KeySource,
+  type KeyScope,
+  type WrappedKey,
+} from "./provider.js";
+export { createPartyKey, partyKeyProvider, type PartyKey } from "./party-keys.js";
+export { MockKmsProvider } from "./mock-kms.js";
+export {
+  buildSigningKeyRegistry,
+  createSigningKeyRegistry,
+  generateSigningKey,
+  signingKeyId,
+  signingPublicKeys,
+  signRecord,
+  verifyRecordSignature,
+  checkRecordSignature,
+  validateSignature,
+  SIGNATURE_ALGORITHM,
+  type RecordSignature,
+  type SigningKey,
+  type SigningKeyRegistry,
+  type SigningPublicKey,
+  type SignatureVerification,
+} from "./signing.js";
@@ -0,0 +1,138 @@
+/**
+ * Master Key Derivation Tests
+ * ============================
+ *
+ * Tests cover:
+ *   1. MASTER_KEY_KDF is parsed and rejected with clear errors when malformed
+ *   2. Derivation is deterministic, gives each version its own key, and
+ *      depends on the secret and every parameter
+ *   3. The secret must match the KDF: a passphrase for scrypt, a seed of
+ *      at least 32 bytes for hkdf
+ *   4. buildKeyRegistry derives the configured versions from the
+ *      passphrase or seed, and refuses a version set more than once
+ *
+ * Uses Node's built-in test runner (node:test).
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import {
+  buildKeyRegistry,
+  createKdfConfig,
+  deriveMasterKeys,
+  envelopeDecrypt,
+  envelopeEncrypt,
+  keyFingerprint,
+  parseKdfConfig,
+  type KdfConfig,
+} from "./index.js";
+
+// ----- Test data -----
+
+/** Cheap scrypt costs, so the tests stay fast */
+const TEST_SCRYPT = { N: 1024, r: 8, p: 1 };
+const PASSPHRASE = "correct horse battery staple";
+const SEED = randomBytes(32);
+
+const TEST_PARTY_ID = "test-party-42";
+const TEST_PAYLOAD = { amount: 1500, currency: "USD" };
+
+// ----- Tests -----
+
+describe("Master Key Derivation", () => {
+  it("should reject malformed derivation configs", () => {
+    const salt = "00".repeat(16);
+    assert.deepEqual(parseKdfConfig(`{"kdf":"hkdf","salt":"${salt.toUpperCase()}","versions":[1,2]}`), {
+      kdf: "hkdf",
+      salt,
+      versions: [1, 2],
+    });
+
+    assert.throws(() => parseKdfConfig("{"), /must be valid JSON/);
+    assert.throws(() => parseKdfConfig(`{"kdf":"pbkdf2","salt":"${salt}","versions":[1]}`), /kdf must be one of/);
+    assert.throws(() => parseKdfConfig('{"kdf":"hkdf","salt":"00ff","versions":[1]}'), /at least 16 bytes of hex/);
+    assert.throws(() => parseKdfConfig('{"kdf":"hkdf","salt":"zz","versions":[1]}'), /invalid hex encoding/);
+    assert.throws(() => parseKdfConfig(`{"kdf":"hkdf","salt":"${salt}","versions":[]}`), /non-empty array/);
+    assert.throws(() => parseKdfConfig(`{"kdf":"hkdf","salt":"${salt}","versions":[1,1]}`), /must not repeat/);
+    assert.throws(
+      () => parseKdfConfig(`{"kdf":"scrypt","salt":"${salt}","versions":[1],"N":1000,"r":8,"p":1}`),
+      /N must be a power of two/
+    );
+    assert.throws(
+      () => parseKdfConfig(`{"kdf":"scrypt","salt":"${salt}","versions":[1],"N":1024,"r":0,"p":1}`),
+      /r and p must be positive integers/
+    );
+  });
+
+  it("should derive independent, reproducible keys per version", () => {
+    const config = createKdfConfig("scrypt", [1, 2, 3], TEST_SCRYPT);
+    assert.equal(config.kdf, "scrypt");
+    assert.match(config.salt, /^[0-9a-f]{32}$/);
+
+    const keys = deriveMasterKeys(config, PASSPHRASE);
+    assert.deepEqual(Object.keys(keys), ["1", "2", "3"]);
+    assert.equal(new Set(Object.values(keys).map((key) => key.toString("hex"))).size, 3);
+    assert.ok(Object.values(keys).every((key) => key.length === 32));
+
+    // Same inputs, same keys; adding a version leaves the others alone
+    assert.deepEqual(deriveMasterKeys(parseKdfConfig(JSON.stringify(config)), PASSPHRASE), keys);
+    assert.deepEqual(deriveMasterKeys({ ...config, versions: [2] }, PASSPHRASE)[2], keys[2]);
+
+    // Any change to the secret or a parameter changes the keys
+    const variants: [KdfConfig, string][] = [
+      [config, PASSPHRASE + "!"],
+      [{ ...config, salt: "11".repeat(16) }, PASSPHRASE],
+      [{ ...config, N: 2048 } as KdfConfig, PASSPHRASE],
+      [{ ...config, p: 2 } as KdfConfig, PASSPHRASE],
+    ];
+    for (const [variant, secret] of variants) {
+      assert.notDeepEqual(deriveMasterKeys(variant, secret)[1], keys[1]);
+    }
+
+    const seeded = createKdfConfig("hkdf", [1]);
+    assert.deepEqual(deriveMasterKeys(seeded, SEED), deriveMasterKeys(seeded, Buffer.from(SEED)));
+    assert.notDeepEqual(deriveMasterKeys(seeded, SEED)[1], deriveMasterKeys(seeded, randomBytes(32))[1]);
+  });
+
+  it("should require the kind of secret the KDF expects", () => {
+    const scrypt = createKdfConfig("scrypt", [1], TEST_SCRYPT);
+    const hkdf = createKdfConfig("hkdf", [1]);
+
+    assert.throws(() => deriveMasterKeys(scrypt, ""), /needs a non-empty passphrase/);
+    assert.throws(() => deriveMasterKeys(scrypt, SEED), /needs a non-empty passphrase/);
+    assert.throws(() => deriveMasterKeys(hkdf, PASSPHRASE), /needs seed bytes, not a passphrase/);
+    assert.throws(() => deriveMasterKeys(hkdf, randomBytes(16)), /at least 32 bytes, got 16/);
+  });
+
+  it("should derive registry keys from MASTER_KEY_KDF", () => {
+    const config = createKdfConfig("scrypt", [1, 2], TEST_SCRYPT);
+    const env = { MASTER_KEY_KDF: JSON.stringify(config), MASTER_KEY_PASSPHRASE: PASSPHRASE };
+    const registry = buildKeyRegistry(env);
+    const expected = deriveMasterKeys(config, PASSPHRASE);
+
+    assert.deepEqual(registry.keys, expected);
+    assert.equal(registry.metadata[2].fingerprint, keyFingerprint(expected[2]));
+
+    // A restarted process with the same passphrase and parameters decrypts
+    const record = envelopeEncrypt(registry, "tx-001", TEST_PARTY_ID, TEST_PAYLOAD);
+    assert.equal(record.mk_version, 2);
+    assert.deepEqual(envelopeDecrypt(buildKeyRegistry({ ...env }), record), TEST_PAYLOAD);
+
+    // Derived and hex keys mix, one source per version
+    const mixed = buildKeyRegistry({ ...env, MASTER_KEY_V3: randomBytes(32).toString("hex") });
+    assert.deepEqual(Object.keys(mixed.keys), ["1", "2", "3"]);
+    assert.throws(
+      () => buildKeyRegistry({ ...env, MASTER_KEY_V2: randomBytes(32).toString("hex") }),
+      /version 2 is set more than once \(MASTER_KEY_V2 and MASTER_KEY_KDF\)/
+    );
+    assert.throws(() => buildKeyRegistry({ MASTER_KEY_KDF: env.MASTER_KEY_KDF }), /set MASTER_KEY_PASSPHRASE/);
+
+    const seeded = createKdfConfig("hkdf", [1]);
+    assert.deepEqual(
+      buildKeyRegistry({ MASTER_KEY_KDF: JSON.stringify(seeded), MASTER_KEY_SEED: SEED.toString("hex") }).keys,
+      deriveMasterKeys(seeded, SEED)
+    );
+    assert.throws(() => buildKeyRegistry({ MASTER_KEY_KDF: JSON.stringify(seeded) }), /set MASTER_KEY_SEED/);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Master Key Derivation
+ * ======================
+ *
+ * Derives versioned master keys from one secret instead of storing each
+ * key as hex, with the derivation parameters stored next to it:
+ *
+ *   scrypt   root = scrypt(NFKC(passphrase), salt, N, r, p)   for a passphrase
+ *   hkdf     root = seed                                      for a random seed (>= 32 bytes)
+ *
+ *   master key V<n> = HKDF-SHA256(root, salt, "tx-secure master key v<n>", 32 bytes)
+ *
+ * Each version gets an independent key, so adding a version never changes
+ * the keys of the others. The parameters (MASTER_KEY_KDF) are not secret:
+ *
+ *   { "kdf": "scrypt", "salt": "<hex>", "N": 32768, "r": 8, "p": 1, "versions": [1, 2] }
+ *   { "kdf": "hkdf", "salt": "<hex>", "versions": [1, 2] }
+ *
+ * Changing any parameter, or the secret, changes every derived key, so
+ * records encrypted under the old keys no longer decrypt. Generate the
+ * parameters once (createKdfConfig) and keep them with the deployment.
+ *
+ * The scrypt root is cached for the last passphrase and parameters, since
+ * providers are rebuilt per request and scrypt is deliberately slow.
+ */
+
+import { createHash, hkdfSync, randomBytes, scryptSync } from "node:crypto";
+import { Buffer } from "node:buffer";
+import { validateHex } from "./utils.js";
+
+export const KDF_ALGORITHMS = ["scrypt", "hkdf"] as const;
+
+export type KdfAlgorithm = (typeof KDF_ALGORITHMS)[number];
+
+interface KdfConfigBase {
+  /** Hex salt, at least 16 bytes */
+  salt: string;
+
+  /** Master key versions to derive */
+  versions: number[];
+}
+
+export interface ScryptKdfConfig extends KdfConfigBase {
+  kdf: "scrypt";
+
+  /** CPU/memory cost: a power of two */
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface HkdfKdfConfig extends KdfConfigBase {
+  kdf: "hkdf";
+}
+
+/** Stored derivation parameters (MASTER_KEY_KDF) */
+export type KdfConfig = ScryptKdfConfig | HkdfKdfConfig;
+
+/** Default scrypt cost: 32 MiB of memory, on the order of 100 ms */
+export const DEFAULT_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 } as const;
+
+const KEY_BYTES = 32;
+const MIN_SALT_BYTES = 16;
+const MIN_SEED_BYTES = 32;
+const MAX_SCRYPT_N = 2 ** 20;
+
+let scryptCache: { id: string; root: Buffer } | undefined;
+
+/**
+ * Parse a MASTER_KEY_KDF value.
+ *
+ * @throws if it is not valid JSON describing a supported KDF with a salt
+ *         of at least 16 bytes, sane scrypt costs and positive integer versions
+ */
+export function parseKdfConfig(json: string): KdfConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("MASTER_KEY_KDF must be valid JSON");
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("MASTER_KEY_KDF must be an object with kdf, salt and versions");
+  }
+
+  const { kdf, salt, versions, N, r, p } = parsed as Record<string, unknown>;
+  if (!KDF_ALGORITHMS.includes(kdf as KdfAlgorithm)) {
+    throw new Error(`MASTER_KEY_KDF kdf must be one of: ${KDF_ALGORITHMS.join(", ")}`);
+  }
+  if (typeof salt !== "string" || validateHex(salt, "MASTER_KEY_KDF salt").length < MIN_SALT_BYTES) {
+    throw new Error(`MASTER_KEY_KDF salt must be at least ${MIN_SALT_BYTES} bytes of hex`);
+  }
+  if (!Array.isArray(versions) || versions.length === 0 || !versions.every(isVersion)) {
+    throw new Error("MASTER_KEY_KDF versions must be a non-empty array of positive integers");
+  }
+  if (new Set(versions).size !== versions.length) {
+    throw new Error("MASTER_KEY_KDF versions must not repeat");
+  }
+
+  const base = { salt: salt.toLowerCase(), versions: [...versions] };
+  if (kdf === "hkdf") {
+    return { kdf: "hkdf", ...base };
+  }
+
+  if (!isInteger(N) || N < 2 || N > MAX_SCRYPT_N || (N & (N - 1)) !== 0) {
+    throw new Error(`MASTER_KEY_KDF N must be a power of two from 2 to ${MAX_SCRYPT_N}`);
+  }
+  if (!isInteger(r) || r < 1 || !isInteger(p) || p < 1) {
+    throw new Error("MASTER_KEY_KDF r and p must be positive integers");
+  }
+  return { kdf: "scrypt", ...base, N, r, p };
+}
+
+/**
+ * Create derivation parameters with a fresh random salt.
+ *
+ * @param kdf      - scrypt for a passphrase, hkdf for a random seed
+ * @param versions - master key versions to derive
+ * @param scrypt   - scrypt costs (default DEFAULT_SCRYPT_PARAMS)
+ */
+export function createKdfConfig(
+  kdf: KdfAlgorithm,
+  versions: number[],
+  scrypt: { N: number; r: number; p: number } = DEFAULT_SCRYPT_PARAMS
+): KdfConfig {
+  const salt = randomBytes(MIN_SALT_BYTES).toString("hex");
+  const config = kdf === "scrypt" ? { kdf, salt, versions, ...scrypt } : { kdf, salt, versions };
+  // Validate through the parser so created and stored configs obey the same rules
+  return parseKdfConfig(JSON.stringify(config));
+}
+
+/**
+ * Derive the configured master key versions.
+ *
+ * @param config - derivation parameters (see parseKdfConfig)
+ * @param secret - the passphrase (scrypt) or the seed bytes (hkdf)
+ * @returns 32-byte master keys by version
+ * @throws if the secret is of the wrong kind, empty, or a seed shorter than 32 bytes
+ */
+export function deriveMasterKeys(config: KdfConfig, secret: string | Buffer): Record<number, Buffer> {
+  const root = config.kdf === "scrypt" ? scryptRoot(config, secret) : hkdfRoot(secret);
+  const salt = Buffer.from(config.salt, "hex");
+
+  const keys: Record<number, Buffer> = {};
+  for (const version of config.versions) {
+    keys[version] = Buffer.from(hkdfSync("sha256", root, salt, `tx-secure master key v${version}`, KEY_BYTES));
+  }
+  return keys;
+}
+
+// ----- Helpers -----
+
+function scryptRoot(config: ScryptKdfConfig, passphrase: string | Buffer): Buffer {
+  if (typeof passphrase !== "string" || passphrase.length === 0) {
+    throw new Error("scrypt key derivation needs a non-empty passphrase");
+  }
+
+  const normalized = passphrase.normalize("NFKC");
+  const { salt, N, r, p } = config;
+  const id = createHash("sha256").update(JSON.stringify([salt, N, r, p, normalized])).digest("hex");
+  if (scryptCache?.id !== id) {
+    // scrypt needs about 128 * N * r bytes; Node's 32 MiB default is too tight for N = 2^15
+    const root = scryptSync(normalized, Buffer.from(salt, "hex"), KEY_BYTES, { N, r, p, maxmem: 256 * N * r });
+    scryptCache = { id, root };
+  }
+  return scryptCache.root;
+}
+
+function hkdfRoot(seed: string | Buffer): Buffer {
+  if (!Buffer.isBuffer(seed)) {
+    throw new Error("hkdf key derivation needs seed bytes, not a passphrase");
+  }
+  if (seed.length < MIN_SEED_BYTES) {
+    throw new Error(`hkdf key derivation needs a seed of at least ${MIN_SEED_BYTES} bytes, got ${seed.length}`);
+  }
+  return seed;
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value);
+}
+
+function isVersion(value: unknown): value is number {
+  return isInteger(value) && value > 0;
+}
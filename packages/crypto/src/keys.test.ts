@@ -0,0 +1,174 @@
+/**
+ * Key Registry Tests
+ * ===================
+ *
+ * Tests cover:
+ *   1. MASTER_KEY_CONFIG is parsed and rejected with clear errors when malformed
+ *   2. Fingerprints identify keys; a mismatching configured fingerprint is rejected
+ *   3. The active version: newest key without a config, the configured one with
+ *      it, and keys with a notBefore take over at that time
+ *   4. envelopeEncrypt refuses decrypt-only, revoked and out-of-window keys;
+ *      envelopeDecrypt accepts decrypt-only keys and refuses revoked ones
+ *   5. Party keys follow the state of their master key
+ *
+ * Uses Node's built-in test runner (node:test).
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import {
+  envelopeEncrypt,
+  envelopeDecrypt,
+  rewrapRecord,
+  buildKeyRegistry,
+  createPartyKey,
+  getActiveVersion,
+  keyFingerprint,
+  parseKeyConfig,
+  partyKeyProvider,
+  registryKeyProvider,
+  KeyNotActiveError,
+  KeyRevokedError,
+} from "./index.js";
+
+// ----- Test data -----
+
+const KEY_V1 = randomBytes(32).toString("hex");
+const KEY_V2 = randomBytes(32).toString("hex");
+const KEY_V3 = randomBytes(32).toString("hex");
+
+const TEST_PARTY_ID = "test-party-42";
+const TEST_PAYLOAD = { amount: 1500, currency: "USD" };
+
+function registryWith(config?: unknown) {
+  return buildKeyRegistry({
+    MASTER_KEY_V1: KEY_V1,
+    MASTER_KEY_V2: KEY_V2,
+    MASTER_KEY_V3: KEY_V3,
+    ...(config !== undefined ? { MASTER_KEY_CONFIG: JSON.stringify(config) } : {}),
+  });
+}
+
+// ----- Tests -----
+
+describe("Key Registry", () => {
+  it("should reject malformed key configs", () => {
+    assert.deepEqual(parseKeyConfig('{"active":2,"keys":{"1":{"state":"decrypt-only"}}}'), {
+      active: 2,
+      keys: { "1": { state: "decrypt-only" } },
+    });
+
+    assert.throws(() => parseKeyConfig("{"), /must be valid JSON/);
+    assert.throws(() => parseKeyConfig('{"active":"2"}'), /active must be a positive integer/);
+    assert.throws(() => parseKeyConfig('{"keys":{"x":{}}}'), /versions must be positive integers/);
+    assert.throws(() => parseKeyConfig('{"keys":{"1":{"state":"retired"}}}'), /state must be one of/);
+    assert.throws(() => parseKeyConfig('{"keys":{"1":{"notAfter":"soon"}}}'), /notAfter must be an ISO-8601 time/);
+    assert.throws(
+      () => parseKeyConfig('{"keys":{"1":{"notBefore":"2026-02-01T00:00:00Z","notAfter":"2026-01-01T00:00:00Z"}}}'),
+      /notBefore must be before notAfter/
+    );
+
+    assert.throws(() => registryWith({ keys: { "4": {} } }), /describes key version 4, which is not loaded/);
+    assert.throws(
+      () => registryWith({ active: 1, keys: { "1": { state: "revoked" } } }),
+      /active version 1 is revoked/
+    );
+  });
+
+  it("should fingerprint keys and check configured fingerprints", () => {
+    const registry = registryWith();
+    const fingerprint = keyFingerprint(Buffer.from(KEY_V2, "hex"));
+
+    assert.match(fingerprint, /^[0-9a-f]{16}$/);
+    assert.notEqual(fingerprint, keyFingerprint(Buffer.from(KEY_V1, "hex")));
+    assert.equal(registry.metadata[2].fingerprint, fingerprint);
+    assert.doesNotMatch(fingerprint, new RegExp(KEY_V2.slice(0, 8)));
+
+    const declared = registryWith({ keys: { "2": { fingerprint: fingerprint.toUpperCase() } } });
+    assert.equal(declared.metadata[2].state, "decrypt-only");
+    assert.throws(
+      () => registryWith({ keys: { "2": { fingerprint: keyFingerprint(Buffer.from(KEY_V1, "hex")) } } }),
+      /Master key version 2 does not match its configured fingerprint/
+    );
+  });
+
+  it("should pick the active version", () => {
+    // Without a config every key is active and the newest encrypts
+    assert.equal(getActiveVersion(registryWith()), 3);
+
+    // With one, unlisted keys are decrypt-only: adding V3 does not switch to it
+    const pinned = registryWith({ active: 2 });
+    assert.equal(getActiveVersion(pinned), 2);
+    assert.deepEqual(
+      Object.values(pinned.metadata).map(({ version, state }) => [version, state]),
+      [
+        [1, "decrypt-only"],
+        [2, "active"],
+        [3, "decrypt-only"],
+      ]
+    );
+
+    // A scheduled key takes over at its notBefore; the old one stops at its notAfter
+    const scheduled = registryWith({
+      keys: {
+        "2": { state: "active", notAfter: "2026-01-01T00:00:00Z" },
+        "3": { state: "active", notBefore: "2026-01-01T00:00:00Z" },
+      },
+    });
+    assert.equal(getActiveVersion(scheduled, new Date("2025-12-31T23:59:59Z")), 2);
+    assert.equal(getActiveVersion(scheduled, new Date("2026-01-01T00:00:00Z")), 3);
+
+    const expired = registryWith({ keys: { "3": { state: "active", notAfter: "2026-01-01T00:00:00Z" } } });
+    assert.throws(() => getActiveVersion(expired, new Date("2026-06-01T00:00:00Z")), KeyNotActiveError);
+  });
+
+  it("should honor key states when encrypting and decrypting", () => {
+    const open = registryWith();
+    const v1Record = envelopeEncrypt(registryWith({ active: 1 }), "tx-001", TEST_PARTY_ID, TEST_PAYLOAD);
+    assert.equal(v1Record.mk_version, 1);
+
+    // Decrypt-only keys still decrypt, but records are not re-wrapped under them
+    const v1DecryptOnly = registryWith({ active: 3 });
+    assert.deepEqual(envelopeDecrypt(v1DecryptOnly, v1Record), TEST_PAYLOAD);
+    assert.throws(
+      () => rewrapRecord(v1DecryptOnly, envelopeEncrypt(open, "tx-002", TEST_PARTY_ID, TEST_PAYLOAD), 1),
+      (err: unknown) => err instanceof KeyNotActiveError && err.code === "KEY_NOT_ACTIVE" && err.version === 1
+    );
+
+    // Revoked keys do neither
+    const revoked = registryWith({ active: 3, keys: { "1": { state: "revoked" } } });
+    assert.throws(
+      () => envelopeDecrypt(revoked, v1Record),
+      (err: unknown) =>
+        err instanceof KeyRevokedError && err.code === "KEY_REVOKED" && /version 1 is revoked/.test(err.message)
+    );
+
+    // A pinned active key outside its window refuses new records
+    const notYet = registryWith({ active: 3, keys: { "3": { state: "active", notBefore: "2999-01-01T00:00:00Z" } } });
+    assert.throws(
+      () => envelopeEncrypt(notYet, "tx-003", TEST_PARTY_ID, TEST_PAYLOAD),
+      /Master key version 3 may not encrypt before 2999-01-01T00:00:00.000Z/
+    );
+
+    assert.equal(registryKeyProvider(revoked).keyMetadata?.(1)?.state, "revoked");
+  });
+
+  it("should apply master key states to party keys", () => {
+    const open = registryWith();
+    const partyKeys = [createPartyKey(open, TEST_PARTY_ID, 2), createPartyKey(open, TEST_PARTY_ID, 3)];
+    const v2Record = rewrapRecord(
+      partyKeyProvider(open, TEST_PARTY_ID, partyKeys),
+      envelopeEncrypt(partyKeyProvider(open, TEST_PARTY_ID, partyKeys), "tx-004", TEST_PARTY_ID, TEST_PAYLOAD),
+      2
+    );
+
+    const v2DecryptOnly = partyKeyProvider(registryWith({ active: 3 }), TEST_PARTY_ID, partyKeys);
+    assert.deepEqual(envelopeDecrypt(v2DecryptOnly, v2Record), TEST_PAYLOAD);
+    assert.throws(() => rewrapRecord(v2DecryptOnly, rewrapRecord(v2DecryptOnly, v2Record), 2), KeyNotActiveError);
+
+    const v2Revoked = partyKeyProvider(registryWith({ keys: { "2": { state: "revoked" } } }), TEST_PARTY_ID, partyKeys);
+    assert.throws(() => envelopeDecrypt(v2Revoked, v2Record), KeyRevokedError);
+    assert.throws(() => createPartyKey(registryWith({ active: 3 }), "other-party", 2), KeyNotActiveError);
+  });
+});
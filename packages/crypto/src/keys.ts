@@ -8,80 +8,480 @@
  * existing data. Each record stores the mk_version it was encrypted with,
  * so decryption always uses the correct key.
  *
+ * Every version carries metadata:
+ *
+ *   state         active        encrypts (if within its window) and decrypts
+ *                 decrypt-only  only decrypts records it already protects
+ *                 revoked       neither encrypts nor decrypts
+ *   notBefore     the key does not encrypt before this time (ISO-8601)
+ *   notAfter      the key does not encrypt from this time on (ISO-8601);
+ *                 it still decrypts until it is revoked
+ *   fingerprint   a checksum of the key (see keyFingerprint), safe to log
+ *                 and compare, to catch a wrong or mistyped key
+ *
+ * New records are encrypted under the active version: the configured
+ * `active` version if there is one, else the newest version that may
+ * encrypt now. So a key with a future notBefore takes over at that time,
+ * and adding a key to the environment alone does not switch encryption
+ * to it once a config is in place.
+ *
  * Environment variables:
  *   MASTER_KEY_V1=<64 hex chars>
  *   MASTER_KEY_V2=<64 hex chars>  (optional, for rotation)
  *   MASTER_KEY_V3=...             (optional)
+ *   MASTER_KEY_CONFIG=<JSON>      (optional) key metadata:
+ *
+ *     {
+ *       "active": 2,
+ *       "keys": {
+ *         "1": { "state": "decrypt-only", "fingerprint": "3f0c…" },
+ *         "2": { "state": "active", "notAfter": "2027-01-01T00:00:00Z" },
+ *         "3": { "state": "active", "notBefore": "2027-01-01T00:00:00Z" }
+ *       }
+ *     }
+ *
+ *   Without MASTER_KEY_CONFIG every loaded version is active and the newest
+ *   one encrypts. With it, versions not listed are decrypt-only (unless
+ *   named as `active`), and a listed fingerprint must match the key.
+ *
+ * Instead of storing a version as hex, it can be derived or reconstructed:
+ *   MASTER_KEY_KDF=<JSON>          derivation parameters (see kdf.ts), with
+ *   MASTER_KEY_PASSPHRASE=<text>   the passphrase (scrypt), or
+ *   MASTER_KEY_SEED=<hex>          the seed (hkdf, at least 32 bytes)
+ *   MASTER_KEY_V2_SHARES=<share>,<share>,...
+ *                                  Shamir shares of V2 (see splitMasterKey);
+ *                                  at least the threshold, from different operators
+ *   Each version must come from exactly one source.
  *
  * Backward compatibility:
  *   If only MASTER_KEY is set (no versioned keys), it is treated as V1.
  */
 
+import { createHash } from "node:crypto";
 import { Buffer } from "node:buffer";
+import { KeyNotActiveError, KeyRevokedError, UnknownKeyVersionError } from "./errors.js";
+import { deriveMasterKeys, parseKdfConfig } from "./kdf.js";
+import { combineShares, splitSecret } from "./shamir.js";
 import { validateHex } from "./utils.js";
 
-/** Immutable map of version numbers to decoded master key buffers */
-export type KeyRegistry = Readonly<Record<number, Buffer>>;
+export const KEY_STATES = ["active", "decrypt-only", "revoked"] as const;
+
+/** Lifecycle state of a master key version */
+export type KeyState = (typeof KEY_STATES)[number];
+
+/** What a key is about to be used for */
+export type KeyUse = "encrypt" | "decrypt";
+
+/** Metadata of one master key version; never includes key material */
+export interface KeyMetadata {
+  version: number;
+  state: KeyState;
+
+  /** ISO-8601; the key does not encrypt before this time */
+  notBefore?: string;
+
+  /** ISO-8601; the key does not encrypt from this time on */
+  notAfter?: string;
+
+  /** keyFingerprint() of the key */
+  fingerprint: string;
+}
+
+/** Master keys by version, with their metadata */
+export interface KeyRegistry {
+  readonly keys: Readonly<Record<number, Buffer>>;
+  readonly metadata: Readonly<Record<number, Readonly<KeyMetadata>>>;
+
+  /** Explicitly configured active version, if any */
+  readonly active?: number;
+}
+
+/** Declared metadata of the key versions (MASTER_KEY_CONFIG) */
+export interface KeyConfig {
+  /** Version new records are encrypted under (default: the newest that may encrypt) */
+  active?: number;
+
+  /** Metadata per version; the fingerprint, if given, must match the key */
+  keys?: Record<string, Partial<Omit<KeyMetadata, "version">>>;
+}
+
+const FINGERPRINT_CONTEXT = "tx-secure master key fingerprint v1";
+const SHARE_PREFIX = "txs1";
+
+/**
+ * Fingerprint of a master key: the first 8 bytes of a domain-separated
+ * SHA-256 of the key, as 16 hex characters. Identifies a key without
+ * revealing it.
+ */
+export function keyFingerprint(key: Buffer): string {
+  return createHash("sha256").update(FINGERPRINT_CONTEXT).update(key).digest("hex").slice(0, 16);
+}
+
+/**
+ * Parse a MASTER_KEY_CONFIG value.
+ *
+ * @throws if it is not valid JSON in the KeyConfig shape, with valid states
+ *         and ISO-8601 times, notBefore before notAfter
+ */
+export function parseKeyConfig(json: string): KeyConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("MASTER_KEY_CONFIG must be valid JSON");
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("MASTER_KEY_CONFIG must be an object with optional active and keys");
+  }
+
+  const { active, keys = {} } = parsed as { active?: unknown; keys?: unknown };
+  if (active !== undefined && !isVersion(active)) {
+    throw new Error("MASTER_KEY_CONFIG active must be a positive integer key version");
+  }
+
+  if (!keys || typeof keys !== "object" || Array.isArray(keys)) {
+    throw new Error("MASTER_KEY_CONFIG keys must be an object of version to key metadata");
+  }
+
+  const config: KeyConfig = { ...(active !== undefined ? { active } : {}), keys: {} };
+
+  for (const [version, entry] of Object.entries(keys)) {
+    const label = `MASTER_KEY_CONFIG keys["${version}"]`;
+    if (!isVersion(Number(version))) {
+      throw new Error(`${label}: key versions must be positive integers`);
+    }
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`${label} must be an object`);
+    }
+
+    const { state, notBefore, notAfter, fingerprint } = entry as Record<string, unknown>;
+    if (state !== undefined && !KEY_STATES.includes(state as KeyState)) {
+      throw new Error(`${label}.state must be one of: ${KEY_STATES.join(", ")}`);
+    }
+    if (fingerprint !== undefined && (typeof fingerprint !== "string" || !/^[0-9a-f]{16}$/i.test(fingerprint))) {
+      throw new Error(`${label}.fingerprint must be 16 hex characters`);
+    }
+
+    const window = {
+      ...(notBefore !== undefined ? { notBefore: isoTime(notBefore, `${label}.notBefore`) } : {}),
+      ...(notAfter !== undefined ? { notAfter: isoTime(notAfter, `${label}.notAfter`) } : {}),
+    };
+    if (window.notBefore && window.notAfter && window.notBefore >= window.notAfter) {
+      throw new Error(`${label}: notBefore must be before notAfter`);
+    }
+
+    config.keys![version] = {
+      ...(state !== undefined ? { state: state as KeyState } : {}),
+      ...window,
+      ...(fingerprint !== undefined ? { fingerprint: (fingerprint as string).toLowerCase() } : {}),
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Build a key registry from decoded keys and their declared metadata.
+ *
+ * Without a config every version is active. With one, versions it does not
+ * list are decrypt-only, except the configured active version.
+ *
+ * @param keys   - 32-byte master keys by version
+ * @param config - declared metadata (see parseKeyConfig)
+ * @throws if there are no keys, the config names a version that is not
+ *         loaded, a fingerprint does not match its key, or the active
+ *         version is not in the active state
+ */
+export function createKeyRegistry(keys: Readonly<Record<number, Buffer>>, config?: KeyConfig): KeyRegistry {
+  const versions = Object.keys(keys).map(Number);
+  if (versions.length === 0) {
+    throw new Error("No master keys found. Set MASTER_KEY_V1 (or MASTER_KEY) environment variable.");
+  }
+
+  for (const version of Object.keys(config?.keys ?? {}).map(Number)) {
+    if (!keys[version]) {
+      throw new Error(`MASTER_KEY_CONFIG describes key version ${version}, which is not loaded`);
+    }
+  }
+
+  const metadata: Record<number, Readonly<KeyMetadata>> = {};
+  for (const version of versions) {
+    const declared = config?.keys?.[version] ?? {};
+    const fingerprint = keyFingerprint(keys[version]);
+    if (declared.fingerprint !== undefined && declared.fingerprint !== fingerprint) {
+      throw new Error(
+        `Master key version ${version} does not match its configured fingerprint ` +
+          `(expected ${declared.fingerprint}, got ${fingerprint})`
+      );
+    }
+
+    const fallback: KeyState = !config || config.active === version ? "active" : "decrypt-only";
+    metadata[version] = Object.freeze({ ...declared, version, state: declared.state ?? fallback, fingerprint });
+  }
+
+  if (config?.active !== undefined) {
+    const active = metadata[config.active];
+    if (!active) {
+      throw new Error(`MASTER_KEY_CONFIG active version ${config.active} is not loaded`);
+    }
+    if (active.state !== "active") {
+      throw new Error(`MASTER_KEY_CONFIG active version ${config.active} is ${active.state}`);
+    }
+  }
+
+  return Object.freeze({
+    keys: Object.freeze({ ...keys }),
+    metadata: Object.freeze(metadata),
+    ...(config?.active !== undefined ? { active: config.active } : {}),
+  });
+}
 
 /**
  * Build a key registry from environment variables.
  *
  * Scans for MASTER_KEY_V1, MASTER_KEY_V2, ... and validates each
- * as a 32-byte (64 hex char) AES-256 key.
+ * as a 32-byte (64 hex char) AES-256 key, then applies MASTER_KEY_CONFIG.
+ *
+ * Also derives the versions listed in MASTER_KEY_KDF and reconstructs
+ * versions from MASTER_KEY_V<n>_SHARES.
  *
  * Falls back to MASTER_KEY (unversioned) as version 1 for backward compatibility.
  *
  * @param env - process.env or equivalent key-value map
- * @returns KeyRegistry mapping version numbers to decoded key buffers
- * @throws if no master keys are found or any key is invalid
+ * @returns KeyRegistry with the decoded keys and their metadata
+ * @throws if no master keys are found, any key, derivation config or share
+ *         set is invalid, a version is set more than once, or the config
+ *         is invalid or does not match the keys (see createKeyRegistry)
  */
 export function buildKeyRegistry(env: Record<string, string | undefined>): KeyRegistry {
-  const registry: Record<number, Buffer> = {};
+  const keys: Record<number, Buffer> = {};
+  const sources: Record<number, string> = {};
 
-  // Scan for versioned keys: MASTER_KEY_V1, MASTER_KEY_V2, ...
+  const add = (version: number, key: Buffer, source: string) => {
+    if (sources[version]) {
+      throw new Error(`Master key version ${version} is set more than once (${sources[version]} and ${source})`);
+    }
+    keys[version] = key;
+    sources[version] = source;
+  };
+
+  // Scan for versioned keys: MASTER_KEY_V1, MASTER_KEY_V2, ... and their shares
   for (const [key, value] of Object.entries(env)) {
-    const match = key.match(/^MASTER_KEY_V(\d+)$/);
+    const match = key.match(/^MASTER_KEY_V(\d+)(_SHARES)?$/);
     if (match && value) {
       const version = parseInt(match[1], 10);
-      registry[version] = validateHex(value, `MASTER_KEY_V${version}`, 32);
+      add(
+        version,
+        match[2] ? combineMasterKeyShares(value.split(","), key) : validateHex(value, key, 32),
+        key
+      );
+    }
+  }
+
+  if (env.MASTER_KEY_KDF) {
+    const config = parseKdfConfig(env.MASTER_KEY_KDF);
+    const name = config.kdf === "scrypt" ? "MASTER_KEY_PASSPHRASE" : "MASTER_KEY_SEED";
+    const secret = config.kdf === "scrypt" ? env[name] : env[name] && validateHex(env[name], name);
+    if (!secret) {
+      throw new Error(`MASTER_KEY_KDF uses ${config.kdf}: set ${name}`);
+    }
+    for (const [version, key] of Object.entries(deriveMasterKeys(config, secret))) {
+      add(Number(version), key, "MASTER_KEY_KDF");
     }
   }
 
   // Backward compatibility: fall back to MASTER_KEY as V1
-  if (Object.keys(registry).length === 0 && env.MASTER_KEY) {
-    registry[1] = validateHex(env.MASTER_KEY, "MASTER_KEY", 32);
+  if (Object.keys(keys).length === 0 && env.MASTER_KEY) {
+    keys[1] = validateHex(env.MASTER_KEY, "MASTER_KEY", 32);
   }
 
-  if (Object.keys(registry).length === 0) {
-    throw new Error(
-      "No master keys found. Set MASTER_KEY_V1 (or MASTER_KEY) environment variable."
-    );
+  const config = env.MASTER_KEY_CONFIG ? parseKeyConfig(env.MASTER_KEY_CONFIG) : undefined;
+  return createKeyRegistry(keys, config);
+}
+
+/**
+ * Check that a key version may be used now.
+ *
+ * @throws KeyRevokedError if it is revoked; KeyNotActiveError if it is to
+ *         encrypt but is decrypt-only or outside its notBefore/notAfter window
+ */
+export function assertKeyUsable(metadata: KeyMetadata, use: KeyUse, now: Date = new Date()): void {
+  const { version, state, notBefore, notAfter } = metadata;
+
+  if (state === "revoked") {
+    throw new KeyRevokedError(version, `Master key version ${version} is revoked`);
+  }
+
+  if (use === "decrypt") {
+    return;
   }
 
-  return Object.freeze(registry);
+  if (state === "decrypt-only") {
+    throw new KeyNotActiveError(version, `Master key version ${version} is decrypt-only`);
+  }
+  if (notBefore && now < new Date(notBefore)) {
+    throw new KeyNotActiveError(version, `Master key version ${version} may not encrypt before ${notBefore}`);
+  }
+  if (notAfter && now >= new Date(notAfter)) {
+    throw new KeyNotActiveError(version, `Master key version ${version} may not encrypt after ${notAfter}`);
+  }
 }
 
 /**
- * Get the highest available master key version.
- * New encryptions always use the latest key.
+ * Get the master key version new records are encrypted under: the
+ * configured active version, else the newest version that may encrypt now.
+ *
+ * @throws KeyNotActiveError if the configured version may not encrypt now,
+ *         or no version may
  */
-export function getLatestVersion(registry: KeyRegistry): number {
-  const versions = Object.keys(registry).map(Number);
-  return Math.max(...versions);
+export function getActiveVersion(registry: KeyRegistry, now: Date = new Date()): number {
+  if (registry.active !== undefined) {
+    assertKeyUsable(getKeyMetadata(registry, registry.active), "encrypt", now);
+    return registry.active;
+  }
+
+  const usable = Object.values(registry.metadata)
+    .filter((metadata) => canEncrypt(metadata, now))
+    .map((metadata) => metadata.version);
+
+  if (usable.length === 0) {
+    throw new KeyNotActiveError(undefined, `No master key version may encrypt at ${now.toISOString()}`);
+  }
+  return Math.max(...usable);
 }
 
 /**
  * Get a master key by version number.
  * Used during decryption to look up the key that was used for wrapping.
  *
- * @throws if the requested version is not in the registry
+ * @throws UnknownKeyVersionError if the requested version is not in the registry
  */
 export function getKey(registry: KeyRegistry, version: number): Buffer {
-  const key = registry[version];
+  const key = registry.keys[version];
   if (!key) {
-    throw new Error(
-      `Master key version ${version} not found. Available versions: ${Object.keys(registry).join(", ")}`
-    );
+    throw unknownVersion(registry, version);
   }
   return key;
 }
+
+/**
+ * Get the metadata of a master key version.
+ *
+ * @throws UnknownKeyVersionError if the requested version is not in the registry
+ */
+export function getKeyMetadata(registry: KeyRegistry, version: number): KeyMetadata {
+  const metadata = registry.metadata[version];
+  if (!metadata) {
+    throw unknownVersion(registry, version);
+  }
+  return metadata;
+}
+
+// ----- Key shares -----
+
+/**
+ * Split a master key into Shamir shares for operators to hold separately.
+ *
+ * Each share is a string "txs1-<threshold>-<index>-<fingerprint>-<hex>":
+ * the fingerprint is the key's keyFingerprint(), so operators can tell
+ * which key a share belongs to and reconstruction can be checked.
+ *
+ * @param key       - 32-byte master key
+ * @param shares    - number of shares to create
+ * @param threshold - number of shares needed to reconstruct the key
+ * @throws if the key is not 32 bytes or the counts are out of range
+ */
+export function splitMasterKey(key: Buffer, shares: number, threshold: number): string[] {
+  if (key.length !== 32) {
+    throw new Error(`Master key: expected 32 bytes, got ${key.length} bytes`);
+  }
+
+  const fingerprint = keyFingerprint(key);
+  return splitSecret(key, shares, threshold).map(
+    ({ x, y }) => `${SHARE_PREFIX}-${threshold}-${x}-${fingerprint}-${y.toString("hex")}`
+  );
+}
+
+/**
+ * Reconstruct a master key from its shares (see splitMasterKey).
+ *
+ * Repeated copies of a share are ignored. All shares given are used, so a
+ * wrong share is detected even beyond the threshold.
+ *
+ * @param shares - at least `threshold` distinct shares of one key
+ * @param label  - where the shares came from, for error messages
+ * @returns the 32-byte master key
+ * @throws if a share is malformed, the shares belong to different keys,
+ *         there are fewer than the threshold, or the result does not
+ *         match the key's fingerprint (a share is wrong)
+ */
+export function combineMasterKeyShares(shares: readonly string[], label = "Master key shares"): Buffer {
+  const parsed = new Map<number, { threshold: number; fingerprint: string; share: string; y: Buffer }>();
+
+  for (const raw of shares.map((share) => share.trim()).filter(Boolean)) {
+    const match = raw.match(/^txs1-(\d+)-(\d+)-([0-9a-f]{16})-([0-9a-f]+)$/i);
+    if (!match) {
+      throw new Error(`${label}: malformed share "${raw.slice(0, 24)}…"`);
+    }
+
+    const share = raw.toLowerCase();
+    const [threshold, x] = [Number(match[1]), Number(match[2])];
+    const previous = parsed.get(x);
+    if (previous && previous.share !== share) {
+      throw new Error(`${label}: two different shares have index ${x}`);
+    }
+    parsed.set(x, { threshold, fingerprint: match[3].toLowerCase(), share, y: validateHex(match[4], label, 32) });
+  }
+
+  const entries = [...parsed.entries()];
+  if (entries.length === 0) {
+    throw new Error(`${label}: no shares given`);
+  }
+
+  const { threshold, fingerprint } = entries[0][1];
+  if (entries.some(([, share]) => share.threshold !== threshold || share.fingerprint !== fingerprint)) {
+    throw new Error(`${label}: the shares belong to different keys`);
+  }
+  if (entries.length < threshold) {
+    throw new Error(`${label}: ${entries.length} of the ${threshold} shares needed were given`);
+  }
+
+  const key = combineShares(entries.map(([x, { y }]) => ({ x, y })));
+  if (keyFingerprint(key) !== fingerprint) {
+    key.fill(0);
+    throw new Error(`${label}: the shares do not reconstruct key ${fingerprint}; at least one share is wrong`);
+  }
+  return key;
+}
+
+// ----- Helpers -----
+
+function unknownVersion(registry: KeyRegistry, version: number): UnknownKeyVersionError {
+  return new UnknownKeyVersionError(
+    version,
+    `Master key version ${version} not found. Available versions: ${Object.keys(registry.keys).join(", ")}`
+  );
+}
+
+function canEncrypt(metadata: KeyMetadata, now: Date): boolean {
+  try {
+    assertKeyUsable(metadata, "encrypt", now);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isVersion(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/** Normalize an ISO-8601 time from the config */
+function isoTime(value: unknown, label: string): string {
+  const time = typeof value === "string" ? new Date(value) : undefined;
+  if (!time || Number.isNaN(time.getTime())) {
+    throw new Error(`${label} must be an ISO-8601 time`);
+  }
+  return time.toISOString();
+}
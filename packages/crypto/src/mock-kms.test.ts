@@ -0,0 +1,100 @@
+/**
+ * Key Provider Tests
+ * ===================
+ *
+ * Tests cover:
+ *   1. Envelope round-trip through the file-backed mock KMS
+ *   2. Mock KMS keys persist across provider instances (same file)
+ *   3. A different mock KMS cannot unwrap another's DEKs
+ *   4. Mock KMS key rotation + re-wrapping
+ *   5. Registry provider and raw registry produce interchangeable records
+ *
+ * Uses Node's built-in test runner (node:test).
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { randomBytes } from "node:crypto";
+import {
+  envelopeEncrypt,
+  envelopeDecrypt,
+  rewrapRecord,
+  buildKeyRegistry,
+  registryKeyProvider,
+  MockKmsProvider,
+} from "./index.js";
+
+// ----- Test data -----
+
+const TEST_PARTY_ID = "test-party-42";
+const TEST_PAYLOAD = { amount: 1500, currency: "USD", merchant: "Acme Corp" };
+
+// ----- Tests -----
+
+describe("Key Providers", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mock-kms-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should encrypt and decrypt through the mock KMS", () => {
+    const kms = new MockKmsProvider(join(dir, "kms.json"));
+
+    const record = envelopeEncrypt(kms, "tx-101", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    assert.equal(record.mk_version, 1);
+    assert.deepEqual(envelopeDecrypt(kms, record), TEST_PAYLOAD);
+  });
+
+  it("should reload the same keys from the key file", () => {
+    const path = join(dir, "kms.json");
+    const record = envelopeEncrypt(new MockKmsProvider(path), "tx-102", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const reopened = new MockKmsProvider(path);
+    assert.deepEqual(envelopeDecrypt(reopened, record), TEST_PAYLOAD);
+  });
+
+  it("should not unwrap DEKs wrapped by a different mock KMS", () => {
+    const kmsA = new MockKmsProvider(join(dir, "a.json"));
+    const kmsB = new MockKmsProvider(join(dir, "b.json"));
+
+    const record = envelopeEncrypt(kmsA, "tx-103", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    assert.throws(
+      () => envelopeDecrypt(kmsB, record),
+      /Decryption failed|authentication tag mismatch/
+    );
+  });
+
+  it("should rotate mock KMS keys and re-wrap old records", () => {
+    const kms = new MockKmsProvider(join(dir, "kms.json"));
+    const record = envelopeEncrypt(kms, "tx-104", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    assert.equal(kms.createKeyVersion(), 2);
+    assert.deepEqual(kms.versions(), [1, 2]);
+
+    const rewrapped = rewrapRecord(kms, record);
+    assert.equal(rewrapped.mk_version, 2);
+    assert.equal(rewrapped.payload_ct, record.payload_ct);
+    assert.deepEqual(envelopeDecrypt(kms, rewrapped), TEST_PAYLOAD);
+  });
+
+  it("should produce records interchangeable with a raw key registry", () => {
+    const registry = buildKeyRegistry({ MASTER_KEY_V1: randomBytes(32).toString("hex") });
+    const provider = registryKeyProvider(registry);
+
+    const viaProvider = envelopeEncrypt(provider, "tx-105", TEST_PARTY_ID, TEST_PAYLOAD);
+    const viaRegistry = envelopeEncrypt(registry, "tx-106", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    assert.deepEqual(envelopeDecrypt(registry, viaProvider), TEST_PAYLOAD);
+    assert.deepEqual(envelopeDecrypt(provider, viaRegistry), TEST_PAYLOAD);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Mock KMS — local, file-backed KeyProvider
+ * ===========================================
+ *
+ * Stands in for an external key management service in development and
+ * tests, without any network access. Master keys live in a JSON file:
+ *
+ *   { "keys": { "1": "<64 hex chars>", "2": "<64 hex chars>" } }
+ *
+ * The file is created with a random V1 key if it does not exist, and
+ * createKeyVersion() adds a new random version (the equivalent of rotating
+ * a KMS key). Callers only ever see wrapped DEKs, as they would with a real KMS.
+ *
+ * NOT for production: key material is stored unencrypted on disk.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { randomBytes } from "node:crypto";
+import { Buffer } from "node:buffer";
+import { validateHex } from "./utils.js";
+import { type KeyMetadata, createKeyRegistry } from "./keys.js";
+import { type KeyProvider, type WrappedKey, registryKeyProvider } from "./provider.js";
+
+interface MockKmsFile {
+  keys: Record<string, string>;
+}
+
+export class MockKmsProvider implements KeyProvider {
+  readonly name = "mock-kms";
+
+  private keys: Record<number, Buffer> = {};
+
+  /**
+   * @param path - key file path (created with a random V1 key if missing)
+   * @throws if the file exists but holds no keys or an invalid key
+   */
+  constructor(private readonly path: string) {
+    if (existsSync(path)) {
+      this.load();
+    } else {
+      this.keys = { 1: randomBytes(32) };
+      this.save();
+    }
+  }
+
+  versions(): number[] {
+    return Object.keys(this.keys).map(Number);
+  }
+
+  latestVersion(): number {
+    return this.delegate().latestVersion();
+  }
+
+  keyMetadata(version: number): KeyMetadata | undefined {
+    return this.delegate().keyMetadata?.(version);
+  }
+
+  wrapKey(version: number, dek: Buffer, aad: Buffer): WrappedKey {
+    return this.delegate().wrapKey(version, dek, aad);
+  }
+
+  unwrapKey(version: number, wrapped: WrappedKey, aad: Buffer): Buffer {
+    return this.delegate().unwrapKey(version, wrapped, aad);
+  }
+
+  /**
+   * Generate a new random master key version and persist it.
+   * New wraps use it immediately; older versions remain available for unwrapping.
+   *
+   * @returns the new version number
+   */
+  createKeyVersion(): number {
+    const version = Math.max(...this.versions()) + 1;
+    this.keys = { ...this.keys, [version]: randomBytes(32) };
+    this.save();
+    return version;
+  }
+
+  // ----- Internals -----
+
+  /** Wrapping itself is AES-256-GCM, identical to the env registry; every version is active */
+  private delegate(): KeyProvider {
+    return registryKeyProvider(createKeyRegistry(this.keys));
+  }
+
+  private load(): void {
+    let parsed: MockKmsFile;
+    try {
+      parsed = JSON.parse(readFileSync(this.path, "utf-8")) as MockKmsFile;
+    } catch {
+      throw new Error(`${this.path}: mock KMS key file is not valid JSON`);
+    }
+
+    const keys: Record<number, Buffer> = {};
+    for (const [version, hex] of Object.entries(parsed.keys ?? {})) {
+      keys[Number(version)] = validateHex(hex, `mock KMS key V${version}`, 32);
+    }
+
+    if (Object.keys(keys).length === 0) {
+      throw new Error(`${this.path}: mock KMS key file contains no keys`);
+    }
+
+    this.keys = keys;
+  }
+
+  private save(): void {
+    const file: MockKmsFile = { keys: {} };
+    for (const [version, key] of Object.entries(this.keys)) {
+      file.keys[version] = key.toString("hex");
+    }
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(file, null, 2) + "\n", { encoding: "utf-8", mode: 0o600 });
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Party Key Tests
+ * ================
+ *
+ * Tests cover:
+ *   1. Records encrypted with a party key provider round-trip and carry key_scope
+ *   2. Without the party's keys (shredded), records no longer decrypt
+ *   3. Party keys cannot be used for another party or swapped between versions
+ *   4. Re-wrapping moves a party record to the party's key for the target version
+ *   5. Key scope mismatches and stripped key_scope are detected
+ *
+ * Uses Node's built-in test runner (node:test).
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import {
+  envelopeEncrypt,
+  envelopeDecrypt,
+  rewrapRecord,
+  buildKeyRegistry,
+  createPartyKey,
+  partyKeyProvider,
+} from "./index.js";
+
+// ----- Test data -----
+
+const registry = buildKeyRegistry({
+  MASTER_KEY_V1: randomBytes(32).toString("hex"),
+  MASTER_KEY_V2: randomBytes(32).toString("hex"),
+});
+const TEST_PARTY_ID = "test-party-42";
+const TEST_PAYLOAD = { amount: 1500, currency: "USD" };
+
+// ----- Tests -----
+
+describe("Party Keys", () => {
+  it("should round-trip records under the party's key", () => {
+    const partyKeys = [createPartyKey(registry, TEST_PARTY_ID)];
+    const provider = partyKeyProvider(registry, TEST_PARTY_ID, partyKeys);
+    const record = envelopeEncrypt(provider, "tx-001", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    assert.equal(record.key_scope, "party");
+    assert.equal(record.mk_version, 2);
+
+    // A fresh provider over the same stored keys decrypts it
+    assert.deepEqual(envelopeDecrypt(partyKeyProvider(registry, TEST_PARTY_ID, partyKeys), record), TEST_PAYLOAD);
+  });
+
+  it("should not decrypt once the party's keys are gone", () => {
+    const provider = partyKeyProvider(registry, TEST_PARTY_ID, [createPartyKey(registry, TEST_PARTY_ID)]);
+    const record = envelopeEncrypt(provider, "tx-002", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    assert.throws(
+      () => envelopeDecrypt(partyKeyProvider(registry, TEST_PARTY_ID, []), record),
+      /No key for party "test-party-42" under master key version 2/
+    );
+
+    // A new key for the same party does not bring old records back
+    const replacement = [createPartyKey(registry, TEST_PARTY_ID)];
+    assert.throws(
+      () => envelopeDecrypt(partyKeyProvider(registry, TEST_PARTY_ID, replacement), record),
+      /Decryption failed|authentication tag mismatch/
+    );
+  });
+
+  it("should bind stored keys to their party and master key version", () => {
+    const stolen = createPartyKey(registry, "other-party");
+
+    // Relabelled as this party's key: the KEK unwrap fails
+    const relabelled = [{ ...stolen, partyId: TEST_PARTY_ID }];
+    assert.throws(
+      () => envelopeEncrypt(partyKeyProvider(registry, TEST_PARTY_ID, relabelled), "tx-003", TEST_PARTY_ID, {}),
+      /Decryption failed|authentication tag mismatch/
+    );
+
+    // Another party's keys are ignored outright
+    assert.throws(
+      () => envelopeEncrypt(partyKeyProvider(registry, TEST_PARTY_ID, [stolen]), "tx-003", TEST_PARTY_ID, {}),
+      /No key for party/
+    );
+
+    // A version 1 key relabelled as version 2 also fails
+    const downgraded = [{ ...createPartyKey(registry, TEST_PARTY_ID, 1), mk_version: 2 }];
+    assert.throws(
+      () => envelopeEncrypt(partyKeyProvider(registry, TEST_PARTY_ID, downgraded), "tx-003", TEST_PARTY_ID, {}),
+      /Decryption failed|authentication tag mismatch/
+    );
+  });
+
+  it("should re-wrap party records under the party's key for the target version", () => {
+    const partyKeys = [createPartyKey(registry, TEST_PARTY_ID, 1), createPartyKey(registry, TEST_PARTY_ID, 2)];
+    const provider = partyKeyProvider(registry, TEST_PARTY_ID, partyKeys);
+    const record = rewrapRecord(provider, envelopeEncrypt(provider, "tx-004", TEST_PARTY_ID, TEST_PAYLOAD), 1);
+    assert.equal(record.mk_version, 1);
+
+    const rotated = rewrapRecord(provider, record, 2);
+    assert.equal(rotated.mk_version, 2);
+    assert.equal(rotated.key_scope, "party");
+    assert.equal(rotated.payload_ct, record.payload_ct);
+    assert.deepEqual(envelopeDecrypt(provider, rotated), TEST_PAYLOAD);
+    assert.deepEqual(provider.versions().sort(), [1, 2]);
+  });
+
+  it("should reject providers of the wrong key scope", () => {
+    const partyKeys = [createPartyKey(registry, TEST_PARTY_ID)];
+    const provider = partyKeyProvider(registry, TEST_PARTY_ID, partyKeys);
+    const partyRecord = envelopeEncrypt(provider, "tx-005", TEST_PARTY_ID, TEST_PAYLOAD);
+    const masterRecord = envelopeEncrypt(registry, "tx-006", TEST_PARTY_ID, TEST_PAYLOAD);
+
+    assert.throws(() => envelopeDecrypt(registry, partyRecord), /wrapped under its party's key/);
+    assert.throws(() => envelopeDecrypt(provider, masterRecord), /wrapped under a master key/);
+    assert.throws(() => rewrapRecord(registry, partyRecord, 1), /wrapped under its party's key/);
+
+    // key_scope is bound into the wrap AAD: stripping it does not turn the
+    // record into one the master key can unwrap
+    const stripped = { ...partyRecord, key_scope: undefined };
+    assert.throws(() => envelopeDecrypt(registry, stripped), /Decryption failed|authentication tag mismatch/);
+  });
+});
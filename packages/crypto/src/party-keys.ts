@@ -0,0 +1,131 @@
+/**
+ * Party Keys — per-party key-encryption keys for crypto-shredding
+ * =================================================================
+ *
+ * Records of a party can have their DEK wrapped under a key-encryption key
+ * (KEK) that belongs to that party alone, instead of directly under a
+ * master key:
+ *
+ *   master key (MK_v) ──wraps──▶ party KEK (P, v) ──wraps──▶ record DEK
+ *
+ * Each party has one random 32-byte KEK per master key version, stored
+ * wrapped under that master key version with the AAD
+ * canonicalJson({ purpose: "party-kek", partyId, mk_version }), so a stored
+ * KEK cannot be passed off as another party's or another version's.
+ *
+ * Destroying a party's stored KEKs makes every record wrapped under them
+ * permanently undecryptable — including copies in backups, replicas or
+ * append-only logs — without finding or rewriting those records. This is
+ * crypto-shredding: deleting one small key instead of all the data.
+ *
+ * partyKeyProvider() exposes a party's KEKs as a KeyProvider, so envelope
+ * encryption, decryption and rewrapRecord work unchanged. Its master key
+ * versions are those of the underlying provider: a record's mk_version
+ * names the KEK (and thereby the master key) its DEK is wrapped under, and
+ * rotating a record re-wraps its DEK under the party's KEK for the target
+ * version. Records wrapped this way carry `key_scope: "party"`, which is
+ * bound into the wrap AAD. The master key states apply to the KEKs under
+ * them: no wraps under a KEK whose master key may not encrypt, and nothing
+ * at all under a revoked one.
+ */
+
+import { randomBytes } from "node:crypto";
+import { Buffer } from "node:buffer";
+import { aesGcmEncrypt, aesGcmDecrypt } from "./cipher.js";
+import { UnknownKeyVersionError } from "./errors.js";
+import { type KeyUse, assertKeyUsable } from "./keys.js";
+import { canonicalJson } from "./utils.js";
+import { type KeyProvider, type KeySource, toKeyProvider } from "./provider.js";
+
+const KEK_BYTES = 32;
+
+/** A party's key-encryption key for one master key version, wrapped under that master key */
+export interface PartyKey {
+  partyId: string;
+  mk_version: number;
+  nonce: string;  // hex
+  ct: string;     // hex
+  tag: string;    // hex
+  /** ISO-8601 timestamp of key creation */
+  createdAt: string;
+}
+
+/** AAD binding a wrapped KEK to its party and master key version */
+function partyKeyAad(partyId: string, mkVersion: number): Buffer {
+  return Buffer.from(canonicalJson({ purpose: "party-kek", partyId, mk_version: mkVersion }), "utf-8");
+}
+
+/**
+ * Generate a new random KEK for a party and wrap it under a master key version.
+ *
+ * @param keys    - master key registry or KeyProvider
+ * @param partyId - party the key belongs to
+ * @param version - master key version to wrap under (defaults to the latest)
+ * @returns the wrapped key, ready to store
+ * @throws if the master key version is unknown
+ */
+export function createPartyKey(keys: KeySource, partyId: string, version?: number): PartyKey {
+  const provider = toKeyProvider(keys);
+  const mkVersion = version ?? provider.latestVersion();
+  const kek = randomBytes(KEK_BYTES);
+
+  const wrapped = provider.wrapKey(mkVersion, kek, partyKeyAad(partyId, mkVersion));
+
+  return { partyId, mk_version: mkVersion, ...wrapped, createdAt: new Date().toISOString() };
+}
+
+/**
+ * KeyProvider that wraps DEKs under a party's KEKs.
+ *
+ * KEKs are unwrapped with the master key provider on first use and cached
+ * for the lifetime of the returned provider.
+ *
+ * @param keys      - master key registry or KeyProvider the KEKs are wrapped under
+ * @param partyId   - party whose records are being encrypted or decrypted
+ * @param partyKeys - the party's stored KEKs (keys of other parties are ignored)
+ * @throws (from wrapKey / unwrapKey) if the party has no KEK for the requested
+ *         master key version — e.g. after it was destroyed — a stored KEK
+ *         fails authentication, or the master key version may not be used
+ */
+export function partyKeyProvider(keys: KeySource, partyId: string, partyKeys: readonly PartyKey[]): KeyProvider {
+  const master = toKeyProvider(keys);
+  const stored = new Map(partyKeys.filter((key) => key.partyId === partyId).map((key) => [key.mk_version, key]));
+  const unwrapped = new Map<number, Buffer>();
+
+  const kekFor = (version: number, use: KeyUse): Buffer => {
+    const metadata = master.keyMetadata?.(version);
+    if (metadata) {
+      assertKeyUsable(metadata, use);
+    }
+
+    const cached = unwrapped.get(version);
+    if (cached) {
+      return cached;
+    }
+
+    const key = stored.get(version);
+    if (!key) {
+      throw new UnknownKeyVersionError(version, `No key for party "${partyId}" under master key version ${version}`);
+    }
+
+    const kek = master.unwrapKey(version, key, partyKeyAad(partyId, version));
+    unwrapped.set(version, kek);
+    return kek;
+  };
+
+  return {
+    name: `${master.name}+party`,
+    scope: "party",
+
+    versions: () => master.versions().filter((version) => stored.has(version)),
+
+    latestVersion: () => master.latestVersion(),
+
+    keyMetadata: (version) => master.keyMetadata?.(version),
+
+    wrapKey: (version, dek, aad) => aesGcmEncrypt(kekFor(version, "encrypt"), dek, aad),
+
+    unwrapKey: (version, wrapped, aad) =>
+      aesGcmDecrypt(kekFor(version, "decrypt"), wrapped.nonce, wrapped.ct, wrapped.tag, aad),
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Key Providers — pluggable DEK wrapping
+ * ========================================
+ *
+ * A KeyProvider owns the master keys and performs the Layer 2 (key wrapping)
+ * operations of envelope encryption on behalf of envelopeEncrypt/Decrypt.
+ * Callers hand it a DEK and AAD and get back a wrapped key; master key bytes
+ * never need to leave the provider. This mirrors the encrypt/decrypt API of
+ * a cloud KMS, so an external service can be slotted in behind it.
+ *
+ * Implementations:
+ *   - registryKeyProvider — wraps with master keys loaded from the
+ *     environment (MASTER_KEY_V*) via buildKeyRegistry
+ *   - MockKmsProvider     — local, file-backed stand-in for a KMS (see mock-kms.ts)
+ *
+ * Wrapped keys keep the existing record layout (nonce + ciphertext + tag,
+ * hex-encoded), so records are interchangeable between providers that hold
+ * the same key material.
+ *
+ * Providers that know the state of their master keys (see keys.ts) report
+ * it through keyMetadata() and refuse to wrap under a version that may not
+ * encrypt, or to wrap or unwrap under a revoked one.
+ *
+ * Operations are synchronous to keep envelopeEncrypt/envelopeDecrypt
+ * synchronous; a provider backed by a remote KMS is expected to do its
+ * network work ahead of time (e.g. fetch or cache data keys at startup).
+ */
+
+import { Buffer } from "node:buffer";
+import { aesGcmEncrypt, aesGcmDecrypt } from "./cipher.js";
+import {
+  type KeyMetadata,
+  type KeyRegistry,
+  assertKeyUsable,
+  getActiveVersion,
+  getKey,
+  getKeyMetadata,
+} from "./keys.js";
+
+/** What a record's DEK is wrapped under, when it is not a master key */
+export type KeyScope = "party";
+
+/** A DEK wrapped under a master key version, hex-encoded */
+export interface WrappedKey {
+  nonce: string;  // hex
+  ct: string;     // hex
+  tag: string;    // hex
+}
+
+export interface KeyProvider {
+  /** Provider name, used in logs and error messages */
+  readonly name: string;
+
+  /**
+   * Set on providers that wrap DEKs under per-party keys (see party-keys.ts)
+   * rather than directly under master keys. Copied to new records as
+   * `key_scope`; records only unwrap with a provider of the same scope.
+   */
+  readonly scope?: KeyScope;
+
+  /** All master key versions this provider can unwrap with */
+  versions(): number[];
+
+  /**
+   * Master key version used for new wraps: the active version.
+   *
+   * @throws KeyNotActiveError if no version may encrypt now
+   */
+  latestVersion(): number;
+
+  /** State, validity window and fingerprint of a version, if the provider tracks them */
+  keyMetadata?(version: number): KeyMetadata | undefined;
+
+  /**
+   * Wrap (encrypt) a DEK under the given master key version.
+   * The AAD must be supplied again, unchanged, to unwrap.
+   *
+   * @throws if the version is unknown, KeyNotActiveError / KeyRevokedError
+   *         if it may not encrypt now
+   */
+  wrapKey(version: number, dek: Buffer, aad: Buffer): WrappedKey;
+
+  /**
+   * Unwrap (decrypt) a DEK previously wrapped under the given version.
+   *
+   * @throws if the version is unknown or the wrapped key / AAD was tampered
+   *         with, KeyRevokedError if it is revoked
+   */
+  unwrapKey(version: number, wrapped: WrappedKey, aad: Buffer): Buffer;
+}
+
+/** Anything the envelope functions accept as a source of master keys */
+export type KeySource = KeyRegistry | KeyProvider;
+
+/**
+ * Type guard distinguishing a KeyProvider from a plain KeyRegistry.
+ */
+export function isKeyProvider(keys: KeySource): keys is KeyProvider {
+  return typeof (keys as KeyProvider).wrapKey === "function";
+}
+
+/**
+ * Adapt an in-process KeyRegistry to the KeyProvider interface.
+ * DEKs are wrapped locally with AES-256-GCM under the registry's master keys,
+ * honoring each version's state and validity window.
+ */
+export function registryKeyProvider(registry: KeyRegistry): KeyProvider {
+  return {
+    name: "env",
+
+    versions: () => Object.keys(registry.keys).map(Number),
+
+    latestVersion: () => getActiveVersion(registry),
+
+    keyMetadata: (version) => registry.metadata[version],
+
+    wrapKey: (version, dek, aad) => {
+      assertKeyUsable(getKeyMetadata(registry, version), "encrypt");
+      return aesGcmEncrypt(getKey(registry, version), dek, aad);
+    },
+
+    unwrapKey: (version, wrapped, aad) => {
+      assertKeyUsable(getKeyMetadata(registry, version), "decrypt");
+      return aesGcmDecrypt(getKey(registry, version), wrapped.nonce, wrapped.ct, wrapped.tag, aad);
+    },
+  };
+}
+
+/**
+ * Normalize a KeySource to a KeyProvider.
+ * Registries are wrapped with registryKeyProvider; providers pass through.
+ */
+export function toKeyProvider(keys: KeySource): KeyProvider {
+  return isKeyProvider(keys) ? keys : registryKeyProvider(keys);
+}
@@ -0,0 +1,80 @@
+/**
+ * Record Serialization Tests
+ * ===========================
+ *
+ * Tests cover:
+ *   1. Binary and base64url forms round-trip losslessly with the JSON form
+ *   2. The compact forms are smaller than the JSON form
+ *   3. Legacy (v1) records and unknown extra fields survive a round-trip
+ *   4. Corrupt or truncated input is rejected with a clear error
+ *
+ * Uses Node's built-in test runner (node:test).
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import {
+  envelopeEncrypt,
+  envelopeDecrypt,
+  serializeRecord,
+  parseRecord,
+  buildKeyRegistry,
+  type TxSecureRecord,
+} from "./index.js";
+
+// ----- Test data -----
+
+const registry = buildKeyRegistry({ MASTER_KEY_V1: randomBytes(32).toString("hex") });
+const TEST_PARTY_ID = "test-party-42";
+const TEST_PAYLOAD = { amount: 1500, currency: "USD", memo: "x".repeat(200) };
+
+function makeRecord(): TxSecureRecord {
+  return envelopeEncrypt(registry, "tx-001", TEST_PARTY_ID, TEST_PAYLOAD, { alg: "ChaCha20-Poly1305" });
+}
+
+// ----- Tests -----
+
+describe("Record Serialization", () => {
+  it("should round-trip through the binary and base64url forms", () => {
+    const record = makeRecord();
+
+    const fromBinary = parseRecord(serializeRecord(record));
+    assert.deepEqual(fromBinary, record);
+    assert.deepEqual(envelopeDecrypt(registry, fromBinary), TEST_PAYLOAD);
+
+    const token = serializeRecord(record, "base64url");
+    assert.match(token, /^[A-Za-z0-9_-]+$/);
+    assert.deepEqual(parseRecord(token), record);
+  });
+
+  it("should be smaller than the JSON form", () => {
+    const record = makeRecord();
+    const jsonBytes = Buffer.byteLength(JSON.stringify(record));
+
+    assert.ok(serializeRecord(record).length < jsonBytes * 0.7);
+    assert.ok(serializeRecord(record, "base64url").length < jsonBytes);
+  });
+
+  it("should preserve legacy records and fields it does not know about", () => {
+    const { v: _v, ...legacy } = makeRecord();
+    assert.deepEqual(parseRecord(serializeRecord(legacy)), legacy);
+
+    // Uppercase hex is not what the encryptor writes — kept verbatim in the header
+    const extended = { ...makeRecord(), note: "kept", payload_tag: "ABCDEF" } as TxSecureRecord;
+    assert.deepEqual(parseRecord(serializeRecord(extended)), extended);
+  });
+
+  it("should reject corrupt or truncated input", () => {
+    const blob = serializeRecord(makeRecord());
+
+    assert.throws(() => parseRecord(blob.subarray(0, blob.length - 1)), /Invalid serialized record: truncated/);
+    assert.throws(() => parseRecord(Buffer.concat([blob, Buffer.from([0])])), /1 trailing bytes/);
+
+    const badMagic = Buffer.from(blob);
+    badMagic[3] = 0x02;
+    assert.throws(() => parseRecord(badMagic), /unrecognized magic or layout version/);
+
+    assert.throws(() => parseRecord("not a token!"), /token is not base64url/);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Compact Record Serialization
+ * ==============================
+ *
+ * The JSON form of a TxSecureRecord stores every binary value as hex, which
+ * doubles its size. serializeRecord packs a record into a length-prefixed
+ * binary blob (or a base64url token of that blob); parseRecord reverses it.
+ *
+ * Layout (all integers unsigned 32-bit big-endian):
+ *
+ *   "TXR" 0x01              magic + layout version
+ *   u32 N, N bytes          header: canonical JSON of every non-binary field,
+ *                           plus "$bin": the names of the binary fields below
+ *   per name in $bin:
+ *     u32 L, L bytes        the raw bytes of that field
+ *
+ * Round-trips are lossless: a field is only stored as raw bytes when its
+ * value is lowercase, even-length hex (what the encryptor writes); anything
+ * else — including fields added by later format versions — stays in the
+ * header as-is.
+ */
+
+import { Buffer } from "node:buffer";
+import type { TxSecureRecord } from "./types.js";
+import { canonicalJson } from "./utils.js";
+
+// ----- Constants -----
+
+const MAGIC = Buffer.from([0x54, 0x58, 0x52, 0x01]); // "TXR" + layout 1
+const BINARY_KEY = "$bin";
+
+/** Record fields that hold hex-encoded bytes */
+const BINARY_FIELDS = [
+  "payload_nonce",
+  "payload_ct",
+  "payload_tag",
+  "dek_wrap_nonce",
+  "dek_wrapped",
+  "dek_wrap_tag",
+] as const;
+
+/** Encodings supported by serializeRecord */
+export type RecordEncoding = "binary" | "base64url";
+
+// ----- Helpers -----
+
+function isLowerHex(value: unknown): value is string {
+  return typeof value === "string" && value.length % 2 === 0 && /^[0-9a-f]*$/.test(value);
+}
+
+function u32(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32BE(value);
+  return buf;
+}
+
+function invalid(reason: string): Error {
+  return new Error(`Invalid serialized record: ${reason}`);
+}
+
+// ----- Public API -----
+
+/**
+ * Serialize a record to the compact binary layout.
+ *
+ * @param record   - the TxSecureRecord (JSON form)
+ * @param encoding - "binary" (default) for raw bytes, "base64url" for a string token
+ */
+export function serializeRecord(record: TxSecureRecord, encoding?: "binary"): Buffer;
+export function serializeRecord(record: TxSecureRecord, encoding: "base64url"): string;
+export function serializeRecord(record: TxSecureRecord, encoding: RecordEncoding = "binary"): Buffer | string {
+  const fields = { ...record } as Record<string, unknown>;
+  const binaryNames: string[] = [];
+  const chunks: Buffer[] = [];
+
+  for (const name of BINARY_FIELDS) {
+    const value = fields[name];
+    if (!isLowerHex(value)) continue;
+
+    const bytes = Buffer.from(value, "hex");
+    binaryNames.push(name);
+    chunks.push(u32(bytes.length), bytes);
+    delete fields[name];
+  }
+
+  const header = Buffer.from(canonicalJson({ ...fields, [BINARY_KEY]: binaryNames }), "utf-8");
+  const blob = Buffer.concat([MAGIC, u32(header.length), header, ...chunks]);
+
+  return encoding === "base64url" ? blob.toString("base64url") : blob;
+}
+
+/**
+ * Parse a record produced by serializeRecord back into its JSON form.
+ *
+ * @param input - the binary blob, or its base64url token
+ * @returns the TxSecureRecord, identical to the one that was serialized
+ * @throws on a bad magic/layout version, truncated data or a malformed header
+ */
+export function parseRecord(input: Uint8Array | string): TxSecureRecord {
+  let blob: Buffer;
+  if (typeof input === "string") {
+    if (!/^[A-Za-z0-9_-]*$/.test(input)) {
+      throw invalid("token is not base64url");
+    }
+    blob = Buffer.from(input, "base64url");
+  } else {
+    blob = Buffer.from(input.buffer, input.byteOffset, input.byteLength);
+  }
+
+  if (blob.length < MAGIC.length + 4 || !blob.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw invalid("unrecognized magic or layout version");
+  }
+
+  let offset = MAGIC.length;
+
+  /** Read one length-prefixed section */
+  const readSection = (label: string): Buffer => {
+    if (offset + 4 > blob.length) {
+      throw invalid(`truncated before ${label}`);
+    }
+    const length = blob.readUInt32BE(offset);
+    offset += 4;
+    if (offset + length > blob.length) {
+      throw invalid(`truncated ${label}`);
+    }
+    const section = blob.subarray(offset, offset + length);
+    offset += length;
+    return section;
+  };
+
+  let header: unknown;
+  try {
+    header = JSON.parse(readSection("header").toString("utf-8"));
+  } catch (err) {
+    throw err instanceof Error && err.message.startsWith("Invalid serialized record")
+      ? err
+      : invalid("header is not valid JSON");
+  }
+
+  if (!header || typeof header !== "object" || Array.isArray(header)) {
+    throw invalid("header is not a JSON object");
+  }
+
+  const { [BINARY_KEY]: binaryNames, ...fields } = header as Record<string, unknown>;
+  if (!Array.isArray(binaryNames) || !binaryNames.every((name) => typeof name === "string")) {
+    throw invalid(`header is missing the ${BINARY_KEY} field list`);
+  }
+
+  for (const name of binaryNames as string[]) {
+    fields[name] = readSection(name).toString("hex");
+  }
+
+  if (offset !== blob.length) {
+    throw invalid(`${blob.length - offset} trailing bytes`);
+  }
+
+  return fields as TxSecureRecord;
+}
@@ -0,0 +1,144 @@
+/**
+ * Shamir Secret Sharing Tests
+ * ============================
+ *
+ * Tests cover:
+ *   1. Every k-of-n subset of shares reconstructs the secret; fewer do not
+ *   2. Share and threshold counts are validated
+ *   3. Master key shares carry the key's fingerprint and reconstruct it,
+ *      ignoring repeated copies of a share
+ *   4. Too few shares, shares of different keys and wrong shares are rejected
+ *   5. buildKeyRegistry reconstructs MASTER_KEY_V<n>_SHARES
+ *
+ * Uses Node's built-in test runner (node:test).
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import {
+  buildKeyRegistry,
+  combineMasterKeyShares,
+  combineShares,
+  envelopeDecrypt,
+  envelopeEncrypt,
+  keyFingerprint,
+  splitMasterKey,
+  splitSecret,
+  type SecretShare,
+} from "./index.js";
+
+// ----- Test data -----
+
+const MASTER_KEY = randomBytes(32);
+const TEST_PARTY_ID = "test-party-42";
+const TEST_PAYLOAD = { amount: 1500, currency: "USD" };
+
+/** All subsets of `size` items */
+function subsets<T>(items: readonly T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) => subsets(items.slice(i + 1), size - 1).map((rest) => [item, ...rest]));
+}
+
+// ----- Tests -----
+
+describe("Shamir Secret Sharing", () => {
+  it("should reconstruct the secret from any k of n shares", () => {
+    const secret = randomBytes(32);
+    const shares = splitSecret(secret, 5, 3);
+    assert.deepEqual(
+      shares.map(({ x }) => x),
+      [1, 2, 3, 4, 5]
+    );
+
+    for (const size of [3, 4, 5]) {
+      for (const subset of subsets(shares, size)) {
+        assert.deepEqual(combineShares(subset.reverse()), secret);
+      }
+    }
+
+    // Two shares of a 3-of-5 split say nothing useful about the secret
+    for (const subset of subsets(shares, 2)) {
+      assert.notDeepEqual(combineShares(subset), secret);
+    }
+
+    const pair = splitSecret(Buffer.from("a"), 2, 2);
+    assert.deepEqual(combineShares(pair), Buffer.from("a"));
+  });
+
+  it("should validate share counts and shares", () => {
+    const secret = randomBytes(16);
+    assert.throws(() => splitSecret(secret, 3, 1), /threshold must be an integer of at least 2/);
+    assert.throws(() => splitSecret(secret, 2, 3), /share count must be an integer from the threshold \(3\) to 255/);
+    assert.throws(() => splitSecret(secret, 256, 3), /to 255/);
+    assert.throws(() => splitSecret(Buffer.alloc(0), 3, 2), /must not be empty/);
+
+    const [first, second] = splitSecret(secret, 3, 2);
+    assert.throws(() => combineShares([]), /At least one Shamir share/);
+    assert.throws(() => combineShares([first, first]), /share 1 was given more than once/);
+    assert.throws(() => combineShares([first, { x: 0, y: second.y }]), /index must be an integer from 1 to 255/);
+    assert.throws(
+      () => combineShares([first, { x: 2, y: second.y.subarray(1) } satisfies SecretShare]),
+      /same length/
+    );
+  });
+});
+
+describe("Master Key Shares", () => {
+  it("should split a master key into fingerprinted shares and combine them", () => {
+    const shares = splitMasterKey(MASTER_KEY, 5, 3);
+    const fingerprint = keyFingerprint(MASTER_KEY);
+
+    assert.equal(shares.length, 5);
+    for (const [i, share] of shares.entries()) {
+      assert.match(share, new RegExp(`^txs1-3-${i + 1}-${fingerprint}-[0-9a-f]{64}$`));
+    }
+
+    for (const subset of subsets(shares, 3)) {
+      assert.deepEqual(combineMasterKeyShares(subset), MASTER_KEY);
+    }
+    const repeated = [shares[4], ` ${shares[1].toUpperCase()} `, shares[1], shares[2]];
+    assert.deepEqual(combineMasterKeyShares(repeated), MASTER_KEY);
+    assert.throws(() => splitMasterKey(randomBytes(16), 3, 2), /expected 32 bytes/);
+  });
+
+  it("should reject too few, mismatched and wrong shares", () => {
+    const shares = splitMasterKey(MASTER_KEY, 5, 3);
+    const other = splitMasterKey(randomBytes(32), 5, 3);
+
+    assert.throws(() => combineMasterKeyShares([shares[0], shares[1]]), /2 of the 3 shares needed were given/);
+    assert.throws(() => combineMasterKeyShares([shares[0], shares[1], other[2]]), /belong to different keys/);
+    assert.throws(() => combineMasterKeyShares(["txs1-3-1-nothex"]), /malformed share/);
+    assert.throws(() => combineMasterKeyShares([]), /no shares given/);
+
+    // Same index, different value
+    const [prefix, y] = [shares[0].slice(0, -64), shares[0].slice(-64)];
+    const flipped = prefix + (y[0] === "0" ? "1" : "0") + y.slice(1);
+    assert.throws(() => combineMasterKeyShares([shares[0], flipped, shares[1]]), /two different shares have index 1/);
+
+    // A corrupted share is caught by the fingerprint, even beyond the threshold
+    assert.throws(
+      () => combineMasterKeyShares([flipped, shares[1], shares[2], shares[3]]),
+      /shares do not reconstruct key [0-9a-f]{16}; at least one share is wrong/
+    );
+  });
+
+  it("should load a master key version from MASTER_KEY_V<n>_SHARES", () => {
+    const v1 = randomBytes(32);
+    const shares = splitMasterKey(v1, 3, 2);
+    const registry = buildKeyRegistry({ MASTER_KEY_V1_SHARES: `${shares[2]},${shares[0]}` });
+
+    assert.deepEqual(registry.keys[1], v1);
+    assert.equal(registry.metadata[1].fingerprint, keyFingerprint(v1));
+
+    const plain = buildKeyRegistry({ MASTER_KEY_V1: v1.toString("hex") });
+    const record = envelopeEncrypt(plain, "tx-001", TEST_PARTY_ID, TEST_PAYLOAD);
+    assert.deepEqual(envelopeDecrypt(registry, record), TEST_PAYLOAD);
+
+    assert.throws(
+      () => buildKeyRegistry({ MASTER_KEY_V1: v1.toString("hex"), MASTER_KEY_V1_SHARES: shares.join(",") }),
+      /Master key version 1 is set more than once \(MASTER_KEY_V1 and MASTER_KEY_V1_SHARES\)/
+    );
+    assert.throws(() => buildKeyRegistry({ MASTER_KEY_V1_SHARES: shares[0] }), /MASTER_KEY_V1_SHARES: 1 of the 2/);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Shamir Secret Sharing over GF(2^8)
+ * ====================================
+ *
+ * Splits a secret into `shares` shares so that any `threshold` of them
+ * reconstruct it, while fewer reveal nothing about it:
+ *
+ *   - every byte of the secret is the constant term of its own random
+ *     polynomial of degree threshold - 1 over GF(2^8)
+ *   - share x (1..shares) holds the value of every polynomial at x
+ *   - combining evaluates the interpolating polynomial at 0 (Lagrange)
+ *
+ * Field arithmetic uses the AES polynomial x^8 + x^4 + x^3 + x + 1 (0x11b)
+ * with log/exp tables for generator 3.
+ *
+ * Shares carry no checksum: combining a wrong share, or fewer than
+ * `threshold` shares, silently yields a wrong secret. Callers check the
+ * result (see splitMasterKey/combineMasterKeyShares in keys.ts, which
+ * carry the key's fingerprint).
+ */
+
+import { randomBytes } from "node:crypto";
+import { Buffer } from "node:buffer";
+
+/** One share: its x coordinate (1..255) and one y value per secret byte */
+export interface SecretShare {
+  x: number;
+  y: Buffer;
+}
+
+const MAX_SHARES = 255;
+
+// ----- GF(2^8) arithmetic -----
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+for (let i = 0, value = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = value;
+  LOG[value] = i;
+  // Multiply by the generator 3: value * 2 (reduced by 0x11b) xor value
+  value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+}
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+// ----- Split and combine -----
+
+/**
+ * Split a secret into shares.
+ *
+ * @param secret    - the secret bytes (not modified)
+ * @param shares    - number of shares to create (threshold..255)
+ * @param threshold - number of shares needed to reconstruct (at least 2)
+ * @returns shares with x = 1..shares
+ * @throws if the counts are out of range or the secret is empty
+ */
+export function splitSecret(secret: Buffer, shares: number, threshold: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error("Shamir threshold must be an integer of at least 2");
+  }
+  if (!Number.isInteger(shares) || shares < threshold || shares > MAX_SHARES) {
+    throw new Error(`Shamir share count must be an integer from the threshold (${threshold}) to ${MAX_SHARES}`);
+  }
+  if (secret.length === 0) {
+    throw new Error("Shamir secret must not be empty");
+  }
+
+  const result = Array.from({ length: shares }, (_, i) => ({ x: i + 1, y: Buffer.alloc(secret.length) }));
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    // coefficients[0] is the secret byte, the others are random
+    const coefficients = [secret[byte], ...randomBytes(threshold - 1)];
+
+    for (const share of result) {
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let i = coefficients.length - 1; i >= 0; i--) {
+        y = mul(y, share.x) ^ coefficients[i];
+      }
+      share.y[byte] = y;
+    }
+
+    coefficients.fill(0);
+  }
+
+  return result;
+}
+
+/**
+ * Reconstruct a secret from shares.
+ *
+ * @param shares - at least `threshold` shares of one secret, with distinct x
+ * @returns the secret (wrong, without error, if the shares do not belong
+ *          together or are fewer than the threshold)
+ * @throws if there are no shares, or they have duplicate or invalid x
+ *         coordinates or differing lengths
+ */
+export function combineShares(shares: readonly SecretShare[]): Buffer {
+  if (shares.length === 0) {
+    throw new Error("At least one Shamir share is required");
+  }
+
+  const length = shares[0].y.length;
+  const seen = new Set<number>();
+  for (const { x, y } of shares) {
+    if (!Number.isInteger(x) || x < 1 || x > MAX_SHARES) {
+      throw new Error(`Shamir share index must be an integer from 1 to ${MAX_SHARES}, got ${x}`);
+    }
+    if (seen.has(x)) {
+      throw new Error(`Shamir share ${x} was given more than once`);
+    }
+    if (y.length !== length) {
+      throw new Error("Shamir shares must all have the same length");
+    }
+    seen.add(x);
+  }
+
+  // Lagrange basis at 0: l_j(0) = prod over m != j of x_m / (x_m - x_j); subtraction is xor
+  const basis = shares.map((share, j) =>
+    shares.reduce((product, other, m) => (m === j ? product : mul(product, div(other.x, other.x ^ share.x))), 1)
+  );
+
+  const secret = Buffer.alloc(length);
+  for (let byte = 0; byte < length; byte++) {
+    let value = 0;
+    shares.forEach((share, j) => {
+      value ^= mul(share.y[byte], basis[j]);
+    });
+    secret[byte] = value;
+  }
+  return secret;
+}
@@ -0,0 +1,208 @@
+/**
+ * Record Signature Tests
+ * =======================
+ *
+ * Tests cover:
+ *   1. envelopeEncrypt signs with the active key; the signature verifies with
+ *      the registry or with the published public keys alone
+ *   2. Any change to the signed content, signer or kid fails verification,
+ *      while re-wrapping and the compact encoding keep the signature valid
+ *   3. Unsigned records and unknown or mismatched keys are rejected
+ *   4. buildSigningKeyRegistry loads private and verify-only versions, and
+ *      records signed by a retired version still verify
+ *   5. validateRecord rejects malformed signatures
+ *   6. checkRecordSignature verifies signed records, and requires a signature
+ *      only on records created from SIGNING_REQUIRED_FROM on
+ *
+ * Uses Node's built-in test runner (node:test).
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import {
+  buildKeyRegistry,
+  buildSigningKeyRegistry,
+  checkRecordSignature,
+  createSigningKeyRegistry,
+  envelopeDecrypt,
+  envelopeEncrypt,
+  generateSigningKey,
+  parseRecord,
+  rewrapRecord,
+  serializeRecord,
+  signingPublicKeys,
+  signRecord,
+  validateRecord,
+  verifyRecordSignature,
+  SignatureError,
+  type TxSecureRecord,
+} from "./index.js";
+
+// ----- Test data -----
+
+const MASTER_KEYS = buildKeyRegistry({
+  MASTER_KEY_V1: randomBytes(32).toString("hex"),
+  MASTER_KEY_V2: randomBytes(32).toString("hex"),
+});
+const TEST_PARTY_ID = "test-party-42";
+const TEST_PAYLOAD = { amount: 1500, currency: "USD" };
+
+const SIGNER = createSigningKeyRegistry("bank-a", { 1: randomBytes(32) });
+
+function signed(): TxSecureRecord {
+  return envelopeEncrypt(MASTER_KEYS, "tx-001", TEST_PARTY_ID, TEST_PAYLOAD, {
+    context: { purpose: "payment" },
+    sign: SIGNER,
+  });
+}
+
+// ----- Tests -----
+
+describe("Record signatures", () => {
+  it("should sign new records and verify them with the published keys", () => {
+    const record = signed();
+    const [published] = signingPublicKeys(SIGNER);
+
+    assert.equal(record.signature?.alg, "Ed25519");
+    assert.equal(record.signature?.signer, "bank-a");
+    assert.equal(record.signature?.kid, published.kid);
+    assert.match(record.signature?.sig ?? "", /^[0-9a-f]{128}$/);
+    assert.deepEqual(published, {
+      kid: published.kid,
+      version: 1,
+      signer: "bank-a",
+      alg: "Ed25519",
+      publicKey: published.publicKey,
+      active: true,
+    });
+
+    const expected = { signer: "bank-a", kid: published.kid, version: 1 };
+    assert.deepEqual(verifyRecordSignature(record, SIGNER), expected);
+    assert.deepEqual(verifyRecordSignature(JSON.parse(JSON.stringify(record)), [published]), expected);
+    assert.deepEqual(envelopeDecrypt(MASTER_KEYS, record), TEST_PAYLOAD);
+  });
+
+  it("should detect changes to the signed content but survive re-wrapping", () => {
+    const record = signed();
+    const ct = record.payload_ct;
+
+    const changes: Partial<TxSecureRecord>[] = [
+      { payload_ct: (ct[0] === "0" ? "1" : "0") + ct.slice(1) },
+      { partyId: "another-party" },
+      { context: { purpose: "refund" } },
+      { expiresAt: new Date(Date.now() + 60_000).toISOString() },
+      { signature: { ...record.signature!, signer: "bank-b" } },
+    ];
+    for (const change of changes) {
+      assert.throws(() => verifyRecordSignature({ ...record, ...change }, SIGNER), SignatureError);
+    }
+
+    // Key management leaves the signature valid
+    const rewrapped = rewrapRecord(MASTER_KEYS, record, 1);
+    assert.notEqual(rewrapped.dek_wrapped, record.dek_wrapped);
+    assert.equal(verifyRecordSignature(rewrapped, SIGNER).signer, "bank-a");
+    const compact = parseRecord(serializeRecord(record));
+    assert.equal(verifyRecordSignature(compact, SIGNER).kid, record.signature?.kid);
+  });
+
+  it("should reject unsigned records and unknown or mismatched keys", () => {
+    const record = signed();
+    const unsigned = envelopeEncrypt(MASTER_KEYS, "tx-002", TEST_PARTY_ID, TEST_PAYLOAD);
+    const other = createSigningKeyRegistry("bank-a", { 1: randomBytes(32) });
+    const [published] = signingPublicKeys(SIGNER);
+
+    assert.throws(() => verifyRecordSignature(unsigned, SIGNER), /Record tx-002 is not signed/);
+    assert.throws(() => verifyRecordSignature(record, other), /signed with unknown key/);
+    assert.throws(
+      () => verifyRecordSignature(record, [{ ...published, signer: "bank-b" }]),
+      /belongs to "bank-b", not "bank-a"/
+    );
+    assert.throws(
+      () => verifyRecordSignature(record, [{ ...published, publicKey: signingPublicKeys(other)[0].publicKey }]),
+      /does not match its id/
+    );
+
+    const verifyOnly = createSigningKeyRegistry("bank-a", {}, { 1: Buffer.from(published.publicKey, "hex") });
+    assert.equal(verifyOnly.activeVersion, undefined);
+    assert.throws(() => signRecord(verifyOnly, unsigned), /has no private signing key/);
+  });
+
+  it("should load signing keys from the environment", () => {
+    const v1 = generateSigningKey();
+    const v2 = generateSigningKey();
+
+    assert.equal(buildSigningKeyRegistry({}), undefined);
+    const before = buildSigningKeyRegistry({ SIGNING_KEY_V1: v1.seed, SIGNER_ID: "bank-a" })!;
+    const record = envelopeEncrypt(MASTER_KEYS, "tx-003", TEST_PARTY_ID, TEST_PAYLOAD, { sign: before });
+    assert.equal(record.signature?.kid, v1.kid);
+
+    // V1 retired to its public key; V2 signs from now on
+    const after = buildSigningKeyRegistry({
+      SIGNING_PUBLIC_KEY_V1: v1.publicKey,
+      SIGNING_KEY_V2: v2.seed,
+      SIGNER_ID: "bank-a",
+    })!;
+    assert.equal(after.activeVersion, 2);
+    assert.deepEqual(
+      signingPublicKeys(after).map(({ kid, active }) => [kid, active]),
+      [
+        [v1.kid, false],
+        [v2.kid, true],
+      ]
+    );
+    assert.deepEqual(verifyRecordSignature(record, after), { signer: "bank-a", kid: v1.kid, version: 1 });
+    assert.equal(signRecord(after, record).signature?.kid, v2.kid);
+
+    assert.equal(buildSigningKeyRegistry({ SIGNING_KEY_V1: v1.seed })!.signer, "tx-secure");
+    assert.throws(() => buildSigningKeyRegistry({ SIGNING_KEY_V1: "abcd" }), /SIGNING_KEY_V1: expected 32 bytes/);
+    assert.throws(
+      () => buildSigningKeyRegistry({ SIGNING_KEY_V1: v1.seed, SIGNING_PUBLIC_KEY_V1: v1.publicKey }),
+      /given both as a private and a public key/
+    );
+  });
+
+  it("should reject malformed signatures in validateRecord", () => {
+    const record = signed();
+    const signature = record.signature!;
+
+    assert.throws(
+      () => validateRecord({ ...record, signature: { ...signature, alg: "RSA" as "Ed25519" } }),
+      /unsupported algorithm "RSA"/
+    );
+    assert.throws(() => validateRecord({ ...record, signature: { ...signature, kid: "v1" } }), /kid must be 16/);
+    assert.throws(() => validateRecord({ ...record, signature: { ...signature, sig: "00" } }), /expected 64 bytes/);
+    assert.throws(
+      () => envelopeDecrypt(MASTER_KEYS, { ...record, signature: { ...signature, signer: "" } }),
+      /signer must be a non-empty string/
+    );
+  });
+  it("should require signatures only from the configured cutover on", () => {
+    const v1 = generateSigningKey();
+    const optional = buildSigningKeyRegistry({ SIGNING_KEY_V1: v1.seed })!;
+    const required = buildSigningKeyRegistry({
+      SIGNING_KEY_V1: v1.seed,
+      SIGNING_REQUIRED_FROM: "2024-06-01T04:00:00+04:00",
+    })!;
+    assert.equal(optional.requiredFrom, undefined);
+    assert.equal(required.requiredFrom, "2024-06-01T00:00:00.000Z");
+    assert.throws(
+      () => buildSigningKeyRegistry({ SIGNING_KEY_V1: v1.seed, SIGNING_REQUIRED_FROM: "soon" }),
+      /SIGNING_REQUIRED_FROM: expected an ISO-8601 timestamp/
+    );
+
+    const record = envelopeEncrypt(MASTER_KEYS, "tx-010", TEST_PARTY_ID, TEST_PAYLOAD);
+    const before = { ...record, createdAt: "2024-05-31T23:59:59.999Z" };
+    const since = { ...record, createdAt: "2024-06-01T00:00:00.000Z" };
+
+    // Unsigned records pass unless they were created after the cutover
+    assert.equal(checkRecordSignature(before, required), undefined);
+    assert.equal(checkRecordSignature(since, optional), undefined);
+    assert.throws(() => checkRecordSignature(since, required), SignatureError);
+
+    // Signed records are verified either way
+    const signedSince = signRecord(required, since);
+    assert.equal(checkRecordSignature(signedSince, required)?.kid, v1.kid);
+    assert.throws(() => checkRecordSignature({ ...signedSince, partyId: "party_x" }, optional), SignatureError);
+  });
+});
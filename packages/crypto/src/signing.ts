@@ -0,0 +1,394 @@
+/**
+ * Record Signatures — Ed25519 non-repudiation
+ * =============================================
+ *
+ * GCM tags only convince holders of the key that wrapped the DEK. A signed
+ * record also carries an Ed25519 signature that anyone with the signer's
+ * public key can check, e.g. a partner receiving an exported record:
+ *
+ *   "signature": {
+ *     "alg": "Ed25519",
+ *     "signer": "tx-secure-api",     who signed
+ *     "kid": "9b1e…",                which of the signer's keys (see signingKeyId)
+ *     "sig": "<64 bytes, hex>"
+ *   }
+ *
+ * What is signed is the canonical JSON (see utils.ts) of
+ *
+ *   { purpose: "tx-secure record signature", signer, kid, record }
+ *
+ * where `record` is the record without its signature and without the
+ * fields key management may change later: dek_wrap_nonce, dek_wrapped,
+ * dek_wrap_tag, mk_version, key_scope (rotation and re-wrapping) and
+ * blind_index (rebuilt under a new index key). The payload ciphertext, its
+ * tag and all AAD-bound metadata are covered, so a signature commits the
+ * signer to the exact content of the record and survives key rotation.
+ *
+ * Signing keys are versioned like master keys; the newest version with a
+ * private key signs, and older versions only need their public key to keep
+ * verifying the records they signed.
+ *
+ * Signing is optional, and records written before it was turned on stay
+ * unsigned. Services verify every signed record, and with a cutover
+ * (SIGNING_REQUIRED_FROM) also refuse unsigned records created since then,
+ * so a signature cannot simply be stripped off (see checkRecordSignature).
+ *
+ * Environment variables (see buildSigningKeyRegistry):
+ *   SIGNING_KEY_V1=<64 hex chars>         Ed25519 private key seed
+ *   SIGNING_KEY_V2=...                    (optional, for rotation)
+ *   SIGNING_PUBLIC_KEY_V1=<64 hex chars>  (optional) public key only, for a
+ *                                         retired version that only verifies
+ *   SIGNER_ID=<name>                      (optional) signer recorded on
+ *                                         signatures (default: tx-secure)
+ *   SIGNING_REQUIRED_FROM=<ISO-8601>      (optional) records created at or
+ *                                         after this time must be signed
+ */
+
+import { createHash, createPrivateKey, createPublicKey, randomBytes, sign, verify, type KeyObject } from "node:crypto";
+import { Buffer } from "node:buffer";
+import type { TxSecureRecord } from "./types.js";
+import { SignatureError } from "./errors.js";
+import { canonicalJson, validateHex } from "./utils.js";
+
+export const SIGNATURE_ALGORITHM = "Ed25519";
+
+const KEY_BYTES = 32;
+const SIGNATURE_BYTES = 64;
+const DEFAULT_SIGNER = "tx-secure";
+const KEY_ID_CONTEXT = "tx-secure signing key id v1";
+const SIGNATURE_PURPOSE = "tx-secure record signature";
+
+// DER prefixes that turn a raw 32-byte Ed25519 seed / public key into PKCS#8 / SPKI
+const PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+const SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/** Fields left out of the signed content because key management may change them */
+const UNSIGNED_FIELDS = [
+  "signature",
+  "dek_wrap_nonce",
+  "dek_wrapped",
+  "dek_wrap_tag",
+  "mk_version",
+  "key_scope",
+  "blind_index",
+] as const;
+
+/** The signature stored on a signed record */
+export interface RecordSignature {
+  alg: typeof SIGNATURE_ALGORITHM;
+
+  /** Who signed the record */
+  signer: string;
+
+  /** Id of the signing key (see signingKeyId) */
+  kid: string;
+
+  /** 64-byte Ed25519 signature, hex-encoded */
+  sig: string;
+}
+
+/** One version of a signer's key; `privateKey` is absent on verify-only versions */
+export interface SigningKey {
+  version: number;
+  kid: string;
+  publicKey: KeyObject;
+  privateKey?: KeyObject;
+}
+
+/** A signer's key versions, and the one new signatures are made with */
+export interface SigningKeyRegistry {
+  signer: string;
+  keys: Record<number, SigningKey>;
+
+  /** Newest version with a private key; undefined if every version is verify-only */
+  activeVersion?: number;
+
+  /**
+   * ISO-8601 time from which every record must be signed (by createdAt);
+   * records from before it may be unsigned. Undefined: only signed records
+   * are verified.
+   */
+  requiredFrom?: string;
+}
+
+/** A signing key as published to verifiers — never includes the private key */
+export interface SigningPublicKey {
+  kid: string;
+  version: number;
+  signer: string;
+  alg: typeof SIGNATURE_ALGORITHM;
+
+  /** Raw 32-byte Ed25519 public key, hex-encoded */
+  publicKey: string;
+
+  /** Whether new records are signed with this key */
+  active: boolean;
+}
+
+/** Who signed a record whose signature verified */
+export interface SignatureVerification {
+  signer: string;
+  kid: string;
+  version: number;
+}
+
+// ----- Keys -----
+
+/**
+ * Id of a signing key: a checksum of its public key (16 hex chars), so it
+ * is the same wherever the key is loaded and cannot name another key.
+ */
+export function signingKeyId(publicKey: Buffer): string {
+  return createHash("sha256").update(KEY_ID_CONTEXT).update(publicKey).digest("hex").slice(0, 16);
+}
+
+/** Generate a random signing key: its private seed, public key and id, hex-encoded */
+export function generateSigningKey(): { seed: string; publicKey: string; kid: string } {
+  const seed = randomBytes(KEY_BYTES);
+  const publicKey = rawPublicKey(privateKeyOf(seed));
+  return { seed: seed.toString("hex"), publicKey: publicKey.toString("hex"), kid: signingKeyId(publicKey) };
+}
+
+/**
+ * Build a signing key registry.
+ *
+ * @param signer     - signer name recorded on signatures
+ * @param seeds      - version → 32-byte Ed25519 private key seed
+ * @param publicKeys - version → 32-byte public key, for verify-only versions
+ * @throws on keys of the wrong length, a version given both ways, or a
+ *         registry without keys
+ */
+export function createSigningKeyRegistry(
+  signer: string,
+  seeds: Record<number, Buffer>,
+  publicKeys: Record<number, Buffer> = {}
+): SigningKeyRegistry {
+  if (!signer.trim()) {
+    throw new Error("Signer name must not be empty");
+  }
+
+  const keys: Record<number, SigningKey> = {};
+  for (const [version, seed] of Object.entries(seeds)) {
+    if (seed.length !== KEY_BYTES) {
+      throw new Error(`Signing key V${version}: expected ${KEY_BYTES} bytes, got ${seed.length} bytes`);
+    }
+    const privateKey = privateKeyOf(seed);
+    const publicKey = createPublicKey(privateKey);
+    const kid = signingKeyId(rawPublicKey(publicKey));
+    keys[Number(version)] = { version: Number(version), kid, publicKey, privateKey };
+  }
+
+  for (const [version, raw] of Object.entries(publicKeys)) {
+    if (keys[Number(version)]) {
+      throw new Error(`Signing key V${version} is given both as a private and a public key`);
+    }
+    if (raw.length !== KEY_BYTES) {
+      throw new Error(`Signing public key V${version}: expected ${KEY_BYTES} bytes, got ${raw.length} bytes`);
+    }
+    keys[Number(version)] = { version: Number(version), kid: signingKeyId(raw), publicKey: publicKeyOf(raw) };
+  }
+
+  const versions = Object.keys(keys).map(Number);
+  if (versions.length === 0) {
+    throw new Error("A signing key registry needs at least one key");
+  }
+
+  const signing = versions.filter((version) => keys[version].privateKey);
+  return { signer, keys, activeVersion: signing.length > 0 ? Math.max(...signing) : undefined };
+}
+
+/**
+ * Build a signing key registry from SIGNING_KEY_V<n>, SIGNING_PUBLIC_KEY_V<n>,
+ * SIGNER_ID and SIGNING_REQUIRED_FROM.
+ *
+ * @returns the registry, or undefined if no signing keys are set (signing is off)
+ * @throws if a key is not 32 bytes of hex, or SIGNING_REQUIRED_FROM is not a timestamp
+ */
+export function buildSigningKeyRegistry(env: Record<string, string | undefined>): SigningKeyRegistry | undefined {
+  const seeds: Record<number, Buffer> = {};
+  const publicKeys: Record<number, Buffer> = {};
+
+  for (const [name, value] of Object.entries(env)) {
+    const match = /^SIGNING_(PUBLIC_)?KEY_V(\d+)$/.exec(name);
+    if (!match || !value) continue;
+
+    const version = Number(match[2]);
+    if (version < 1) {
+      throw new Error(`${name}: signing key versions start at 1`);
+    }
+    (match[1] ? publicKeys : seeds)[version] = validateHex(value.trim(), name, KEY_BYTES);
+  }
+
+  if (Object.keys(seeds).length === 0 && Object.keys(publicKeys).length === 0) {
+    return undefined;
+  }
+  const registry = createSigningKeyRegistry(env.SIGNER_ID?.trim() || DEFAULT_SIGNER, seeds, publicKeys);
+
+  const requiredFrom = env.SIGNING_REQUIRED_FROM?.trim();
+  if (requiredFrom) {
+    const time = Date.parse(requiredFrom);
+    if (Number.isNaN(time)) {
+      throw new Error(`SIGNING_REQUIRED_FROM: expected an ISO-8601 timestamp, got "${requiredFrom}"`);
+    }
+    registry.requiredFrom = new Date(time).toISOString();
+  }
+  return registry;
+}
+
+/** The registry's keys as published to verifiers, oldest version first */
+export function signingPublicKeys(registry: SigningKeyRegistry): SigningPublicKey[] {
+  return Object.values(registry.keys)
+    .sort((a, b) => a.version - b.version)
+    .map(({ kid, version, publicKey }) => ({
+      kid,
+      version,
+      signer: registry.signer,
+      alg: SIGNATURE_ALGORITHM,
+      publicKey: rawPublicKey(publicKey).toString("hex"),
+      active: version === registry.activeVersion,
+    }));
+}
+
+// ----- Signing and verification -----
+
+/**
+ * Sign a record with the registry's active key.
+ *
+ * @returns a copy of the record carrying the signature (replacing any earlier one)
+ * @throws if the registry has no key with a private key
+ */
+export function signRecord(registry: SigningKeyRegistry, record: TxSecureRecord): TxSecureRecord {
+  const key = registry.activeVersion !== undefined ? registry.keys[registry.activeVersion] : undefined;
+  if (!key?.privateKey) {
+    throw new Error(`Signer "${registry.signer}" has no private signing key`);
+  }
+
+  const sig = sign(null, signedContent(record, registry.signer, key.kid), key.privateKey);
+  return {
+    ...record,
+    signature: { alg: SIGNATURE_ALGORITHM, signer: registry.signer, kid: key.kid, sig: sig.toString("hex") },
+  };
+}
+
+/**
+ * Verify a record's signature.
+ *
+ * Does not decrypt anything and needs no master key: a partner can check
+ * who produced a record with the signer's published keys alone.
+ *
+ * @param record - the signed record
+ * @param keys   - a signing key registry, or public keys as published (e.g. by the API)
+ * @returns the signer, key id and key version
+ * @throws SignatureError if the record is unsigned, its key is unknown or
+ *         belongs to another signer, or the signature does not match
+ */
+export function verifyRecordSignature(
+  record: TxSecureRecord,
+  keys: SigningKeyRegistry | readonly SigningPublicKey[]
+): SignatureVerification {
+  const { signature } = record;
+  if (signature === undefined) {
+    throw new SignatureError(`Record ${record.id} is not signed`);
+  }
+  validateSignature(signature);
+
+  const key = findKey(keys, signature.kid);
+  if (!key) {
+    throw new SignatureError(`Record ${record.id} is signed with unknown key ${signature.kid}`);
+  }
+  if (key.signer !== signature.signer) {
+    throw new SignatureError(`Key ${signature.kid} belongs to "${key.signer}", not "${signature.signer}"`);
+  }
+
+  const data = signedContent(record, signature.signer, signature.kid);
+  if (!verify(null, data, key.publicKey, Buffer.from(signature.sig, "hex"))) {
+    throw new SignatureError(`Signature of record ${record.id} does not match its content`);
+  }
+
+  return { signer: signature.signer, kid: signature.kid, version: key.version };
+}
+
+/**
+ * Verify a record's signature where the registry expects one: always for a
+ * signed record, and for an unsigned one if it was created at or after the
+ * registry's requiredFrom.
+ *
+ * @returns the signer, or undefined for an unsigned record from before the cutover
+ * @throws SignatureError as verifyRecordSignature
+ */
+export function checkRecordSignature(
+  record: TxSecureRecord,
+  registry: SigningKeyRegistry
+): SignatureVerification | undefined {
+  const required =
+    registry.requiredFrom !== undefined && Date.parse(record.createdAt) >= Date.parse(registry.requiredFrom);
+  return record.signature !== undefined || required ? verifyRecordSignature(record, registry) : undefined;
+}
+
+/**
+ * Check the shape of a record's signature (not whether it verifies).
+ *
+ * @throws on an unknown algorithm, a missing signer or kid, or a signature
+ *         that is not 64 bytes of hex
+ */
+export function validateSignature(signature: RecordSignature): void {
+  if (!signature || typeof signature !== "object") {
+    throw new Error("signature: expected an object");
+  }
+  if (signature.alg !== SIGNATURE_ALGORITHM) {
+    throw new Error(`signature: unsupported algorithm "${String(signature.alg)}"`);
+  }
+  if (typeof signature.signer !== "string" || !signature.signer) {
+    throw new Error("signature: signer must be a non-empty string");
+  }
+  if (typeof signature.kid !== "string" || !/^[0-9a-f]{16}$/.test(signature.kid)) {
+    throw new Error("signature: kid must be 16 lowercase hex chars");
+  }
+  validateHex(signature.sig, "signature.sig", SIGNATURE_BYTES);
+}
+
+// ----- Helpers -----
+
+/** The bytes a signature covers (see the header) */
+function signedContent(record: TxSecureRecord, signer: string, kid: string): Buffer {
+  const content: Record<string, unknown> = { ...record };
+  for (const field of UNSIGNED_FIELDS) {
+    delete content[field];
+  }
+  return Buffer.from(canonicalJson({ purpose: SIGNATURE_PURPOSE, signer, kid, record: content }), "utf-8");
+}
+
+/** The key with this id, with its signer */
+function findKey(
+  keys: SigningKeyRegistry | readonly SigningPublicKey[],
+  kid: string
+): { signer: string; version: number; publicKey: KeyObject } | undefined {
+  if (Array.isArray(keys)) {
+    const published = (keys as readonly SigningPublicKey[]).find((key) => key.kid === kid);
+    if (!published) return undefined;
+
+    const raw = validateHex(published.publicKey, `public key ${kid}`, KEY_BYTES);
+    if (signingKeyId(raw) !== kid) {
+      throw new SignatureError(`Public key ${kid} does not match its id`);
+    }
+    return { signer: published.signer, version: published.version, publicKey: publicKeyOf(raw) };
+  }
+
+  const registry = keys as SigningKeyRegistry;
+  const key = Object.values(registry.keys).find((candidate) => candidate.kid === kid);
+  return key ? { signer: registry.signer, version: key.version, publicKey: key.publicKey } : undefined;
+}
+
+function privateKeyOf(seed: Buffer): KeyObject {
+  return createPrivateKey({ key: Buffer.concat([PKCS8_PREFIX, seed]), format: "der", type: "pkcs8" });
+}
+
+function publicKeyOf(raw: Buffer): KeyObject {
+  return createPublicKey({ key: Buffer.concat([SPKI_PREFIX, raw]), format: "der", type: "spki" });
+}
+
+/** The raw 32-byte public key of a public or private key */
+function rawPublicKey(key: KeyObject): Buffer {
+  const publicKey = key.type === "private" ? createPublicKey(key) : key;
+  return publicKey.export({ format: "der", type: "spki" }).subarray(SPKI_PREFIX.length);
+}
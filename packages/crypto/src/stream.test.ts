@@ -0,0 +1,130 @@
+/**
+ * Streaming Encryption Tests
+ * ===========================
+ *
+ * Tests cover:
+ *   1. Round-trip across chunk boundaries (empty, partial, exact multiple, many chunks)
+ *   2. Round-trip with every supported algorithm
+ *   3. Truncation at a chunk boundary is detected
+ *   4. Reordered or tampered chunks are detected
+ *   5. A stream cannot be decrypted under a different id or partyId
+ *
+ * Uses Node's built-in test runner (node:test).
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { Readable, type Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+  createEncryptStream,
+  createDecryptStream,
+  buildKeyRegistry,
+  supportedAlgorithms,
+  type StreamEncryptOptions,
+} from "./index.js";
+
+// ----- Test helpers -----
+
+const registry = buildKeyRegistry({ MASTER_KEY_V1: randomBytes(32).toString("hex") });
+const BINDING = { id: "att-001", partyId: "test-party-42" };
+const CHUNK_SIZE = 16;
+const TAG_BYTES = 16;
+
+/** Run data through a transform in several small writes and collect the output */
+async function run(transform: Transform, data: Buffer): Promise<Buffer> {
+  const pieces: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += 7) {
+    pieces.push(data.subarray(offset, offset + 7));
+  }
+
+  const out: Buffer[] = [];
+  await pipeline(Readable.from(pieces), transform, async (source: AsyncIterable<Buffer>) => {
+    for await (const chunk of source) out.push(chunk);
+  });
+  return Buffer.concat(out);
+}
+
+function encrypt(data: Buffer, options: Partial<StreamEncryptOptions> = {}): Promise<Buffer> {
+  return run(createEncryptStream(registry, { ...BINDING, chunkSize: CHUNK_SIZE, ...options }), data);
+}
+
+function decrypt(sealed: Buffer, binding = BINDING): Promise<Buffer> {
+  return run(createDecryptStream(registry, binding), sealed);
+}
+
+/** Split an encrypted stream into its header and sealed chunks */
+function splitChunks(sealed: Buffer): { header: Buffer; chunks: Buffer[] } {
+  const headerEnd = 8 + sealed.readUInt32BE(4);
+  const chunks: Buffer[] = [];
+  for (let offset = headerEnd; offset < sealed.length; offset += CHUNK_SIZE + TAG_BYTES) {
+    chunks.push(sealed.subarray(offset, offset + CHUNK_SIZE + TAG_BYTES));
+  }
+  return { header: sealed.subarray(0, headerEnd), chunks };
+}
+
+// ----- Tests -----
+
+describe("Streaming Encryption", () => {
+  it("should round-trip inputs of any length", async () => {
+    for (const length of [0, 5, CHUNK_SIZE, CHUNK_SIZE * 3, CHUNK_SIZE * 3 + 1, 1000]) {
+      const data = randomBytes(length);
+      const sealed = await encrypt(data);
+
+      assert.deepEqual(await decrypt(sealed), data, `length ${length}`);
+      // The final chunk is always present, even for empty input
+      assert.equal(splitChunks(sealed).chunks.length, Math.max(1, Math.ceil(length / CHUNK_SIZE)));
+    }
+  });
+
+  it("should round-trip with every supported algorithm", async () => {
+    const data = randomBytes(100);
+    for (const alg of supportedAlgorithms()) {
+      assert.deepEqual(await decrypt(await encrypt(data, { alg })), data, alg);
+    }
+  });
+
+  it("should detect truncation at a chunk boundary", async () => {
+    const sealed = await encrypt(randomBytes(CHUNK_SIZE * 3 + 4));
+    const { header, chunks } = splitChunks(sealed);
+
+    const truncated = Buffer.concat([header, ...chunks.slice(0, 2)]);
+    await assert.rejects(decrypt(truncated), /Decryption failed.*chunk 1, final/);
+
+    await assert.rejects(decrypt(header), /final chunk missing/);
+    await assert.rejects(decrypt(header.subarray(0, 10)), /header incomplete/);
+  });
+
+  it("should detect reordered or tampered chunks", async () => {
+    const sealed = await encrypt(randomBytes(CHUNK_SIZE * 3 + 4));
+    const { header, chunks } = splitChunks(sealed);
+
+    const swapped = Buffer.concat([header, chunks[1], chunks[0], ...chunks.slice(2)]);
+    await assert.rejects(decrypt(swapped), /Decryption failed.*chunk 0/);
+
+    const tampered = Buffer.from(sealed);
+    tampered[header.length + CHUNK_SIZE + TAG_BYTES + 3] ^= 0x01;
+    await assert.rejects(decrypt(tampered), /Decryption failed.*chunk 1/);
+  });
+
+  it("should refuse to decrypt under a different id or partyId", async () => {
+    const sealed = await encrypt(randomBytes(40));
+
+    await assert.rejects(decrypt(sealed, { ...BINDING, partyId: "attacker-party-99" }), /belongs to att-001/);
+    await assert.rejects(decrypt(sealed, { ...BINDING, id: "att-002" }), /belongs to att-001/);
+
+    // Rewriting the header's partyId breaks the DEK unwrap AAD
+    const { header, chunks } = splitChunks(sealed);
+    const json = JSON.parse(header.subarray(8).toString("utf-8"));
+    const forgedJson = Buffer.from(JSON.stringify({ ...json, partyId: "attacker-party-99" }));
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(forgedJson.length);
+    const forged = Buffer.concat([header.subarray(0, 4), length, forgedJson, ...chunks]);
+
+    await assert.rejects(
+      decrypt(forged, { ...BINDING, partyId: "attacker-party-99" }),
+      /Decryption failed|authentication tag mismatch/
+    );
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Streaming Envelope Encryption
+ * ===============================
+ *
+ * envelopeEncrypt works on a whole payload in memory. For large documents
+ * and file attachments, createEncryptStream / createDecryptStream apply the
+ * same envelope scheme chunk by chunk as Node Transform streams.
+ *
+ * Stream layout (integers are unsigned 32-bit big-endian):
+ *
+ *   "TXS" 0x01              magic + layout version
+ *   u32 N, N bytes          header JSON (StreamHeader): record binding,
+ *                           algorithm, chunk size and the wrapped DEK
+ *   chunk 0 .. chunk n      each: ciphertext || 16-byte auth tag
+ *
+ * Chunking (the STREAM construction):
+ *   - Plaintext is cut into chunkSize-byte chunks; only the final chunk may
+ *     be shorter, and it is always present (an empty input yields one empty
+ *     final chunk).
+ *   - Chunk i is sealed under nonce = nonce_prefix (7 random bytes)
+ *     || u32 i || last flag (0x01 on the final chunk, 0x00 otherwise).
+ *   - Reordering, dropping or duplicating chunks changes the counter, and
+ *     truncating the stream at a chunk boundary leaves a final chunk that
+ *     was sealed with last = 0 — all of these fail authentication.
+ *   - Every chunk is sealed with AAD = canonical JSON of
+ *     { id, partyId, alg, chunkSize, nonce_prefix }; the DEK is wrapped by
+ *     the KeyProvider with the same AAD, so a stream cannot be re-associated
+ *     with another record or party.
+ *
+ * Plaintext is released one authenticated chunk at a time, so a consumer
+ * may have seen earlier chunks before a later one fails. Treat the output
+ * as untrusted until the stream ends without an error.
+ */
+
+import { randomBytes } from "node:crypto";
+import { Buffer } from "node:buffer";
+import { Transform, type TransformCallback } from "node:stream";
+import { NONCE_BYTES, TAG_BYTES, aeadOpen, aeadSeal } from "./cipher.js";
+import { DEFAULT_ALGORITHM, assertKnownAlgorithm, cipherFor, type PayloadAlgorithm } from "./algorithms.js";
+import { type KeyProvider, type KeySource, toKeyProvider } from "./provider.js";
+import { CorruptPayloadError, IntegrityFailureError } from "./errors.js";
+import { canonicalJson, validateHex } from "./utils.js";
+
+// ----- Constants -----
+
+const MAGIC = Buffer.from([0x54, 0x58, 0x53, 0x01]); // "TXS" + layout 1
+const DEK_BYTES = 32;
+const PREFIX_BYTES = NONCE_BYTES - 5;   // 7 bytes; the rest is counter + last flag
+const MAX_HEADER_BYTES = 64 * 1024;
+const MAX_CHUNKS = 2 ** 32;
+
+/** Default plaintext chunk size (64 KiB) */
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/** Largest accepted chunk size (16 MiB) — bounds memory per chunk */
+export const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+// ----- Types -----
+
+/** Header written at the start of every encrypted stream */
+export interface StreamHeader {
+  id: string;
+  partyId: string;
+  alg: PayloadAlgorithm;
+  chunkSize: number;
+  nonce_prefix: string;   // hex, 7 bytes
+  mk_version: number;
+  dek_wrap_nonce: string; // hex
+  dek_wrapped: string;    // hex
+  dek_wrap_tag: string;   // hex
+}
+
+export interface StreamEncryptOptions {
+  /** Identifier the stream is bound to (e.g. an attachment id) */
+  id: string;
+  /** Owning party, bound like a record's partyId */
+  partyId: string;
+  /** Payload algorithm (default: AES-256-GCM) */
+  alg?: PayloadAlgorithm;
+  /** Plaintext bytes per chunk (default: 64 KiB) */
+  chunkSize?: number;
+}
+
+export interface StreamDecryptOptions {
+  /** Identifier the stream must be bound to */
+  id: string;
+  /** Party the stream must belong to */
+  partyId: string;
+}
+
+// ----- Helpers -----
+
+/** Header fields that bind a stream to its record, party and parameters */
+type StreamBinding = Pick<StreamHeader, "id" | "partyId" | "alg" | "chunkSize" | "nonce_prefix">;
+
+/** AAD shared by the wrapped DEK and every chunk */
+function streamAad(header: StreamBinding): Buffer {
+  const { id, partyId, alg, chunkSize, nonce_prefix } = header;
+  return Buffer.from(canonicalJson({ id, partyId, alg, chunkSize, nonce_prefix }), "utf-8");
+}
+
+function chunkNonce(prefix: Buffer, index: number, last: boolean): Buffer {
+  if (index >= MAX_CHUNKS) {
+    throw new Error(`Stream exceeds the maximum of ${MAX_CHUNKS} chunks`);
+  }
+  const nonce = Buffer.alloc(NONCE_BYTES);
+  prefix.copy(nonce, 0);
+  nonce.writeUInt32BE(index, PREFIX_BYTES);
+  nonce[NONCE_BYTES - 1] = last ? 1 : 0;
+  return nonce;
+}
+
+function validateChunkSize(chunkSize: unknown): number {
+  if (!Number.isInteger(chunkSize) || (chunkSize as number) < 1 || (chunkSize as number) > MAX_CHUNK_SIZE) {
+    throw new Error(`chunkSize must be an integer between 1 and ${MAX_CHUNK_SIZE}`);
+  }
+  return chunkSize as number;
+}
+
+function toBuffer(chunk: unknown): Buffer {
+  return Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array);
+}
+
+// ----- Encryption -----
+
+class EncryptStream extends Transform {
+  private pending = Buffer.alloc(0);
+  private index = 0;
+
+  constructor(
+    private readonly cipher: string,
+    private readonly dek: Buffer,
+    private readonly prefix: Buffer,
+    private readonly chunkSize: number,
+    private readonly aad: Buffer,
+    header: StreamHeader
+  ) {
+    super();
+    const headerBytes = Buffer.from(JSON.stringify(header), "utf-8");
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(headerBytes.length);
+    this.push(Buffer.concat([MAGIC, length, headerBytes]));
+  }
+
+  override _transform(chunk: unknown, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.pending = Buffer.concat([this.pending, toBuffer(chunk)]);
+
+      // Hold back at least one byte: a full chunk is only known not to be
+      // the final one once more data has arrived after it.
+      while (this.pending.length > this.chunkSize) {
+        this.seal(this.pending.subarray(0, this.chunkSize), false);
+        this.pending = this.pending.subarray(this.chunkSize);
+      }
+      callback();
+    } catch (err) {
+      callback(err as Error);
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    try {
+      this.seal(this.pending, true);
+      this.pending = Buffer.alloc(0);
+      callback();
+    } catch (err) {
+      callback(err as Error);
+    }
+  }
+
+  private seal(plaintext: Buffer, last: boolean): void {
+    const nonce = chunkNonce(this.prefix, this.index++, last);
+    const { ct, tag } = aeadSeal(this.cipher, this.dek, nonce, plaintext, this.aad);
+    this.push(Buffer.concat([ct, tag]));
+  }
+}
+
+/**
+ * Create a Transform stream that envelope-encrypts everything written to it.
+ *
+ * Steps:
+ *   1. Generate a random DEK and nonce prefix for this stream
+ *   2. Have the key provider wrap the DEK with the latest master key, using the stream AAD
+ *   3. Emit the stream header, then one sealed chunk per chunkSize bytes of input
+ *
+ * @param keys    - master key registry or KeyProvider
+ * @param options - id/partyId binding, algorithm and chunk size
+ * @returns a Transform: plaintext in, encrypted stream out
+ * @throws if the algorithm is unknown/unavailable or chunkSize is out of range,
+ *         KeyNotActiveError if no master key may encrypt now
+ */
+export function createEncryptStream(keys: KeySource, options: StreamEncryptOptions): Transform {
+  const provider = toKeyProvider(keys);
+  const alg = options.alg ?? DEFAULT_ALGORITHM;
+  const cipher = cipherFor(alg);
+  const chunkSize = validateChunkSize(options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+
+  const dek = randomBytes(DEK_BYTES);
+  const prefix = randomBytes(PREFIX_BYTES);
+  const mkVersion = provider.latestVersion();
+
+  const binding: StreamBinding = {
+    id: options.id,
+    partyId: options.partyId,
+    alg,
+    chunkSize,
+    nonce_prefix: prefix.toString("hex"),
+  };
+  const aad = streamAad(binding);
+  const wrapped = provider.wrapKey(mkVersion, dek, aad);
+
+  const header: StreamHeader = {
+    ...binding,
+    mk_version: mkVersion,
+    dek_wrap_nonce: wrapped.nonce,
+    dek_wrapped: wrapped.ct,
+    dek_wrap_tag: wrapped.tag,
+  };
+
+  return new EncryptStream(cipher, dek, prefix, chunkSize, aad, header);
+}
+
+// ----- Decryption -----
+
+interface OpenedStream {
+  cipher: string;
+  dek: Buffer;
+  prefix: Buffer;
+  chunkSize: number;
+  aad: Buffer;
+}
+
+class DecryptStream extends Transform {
+  private pending = Buffer.alloc(0);
+  private index = 0;
+  private opened: OpenedStream | null = null;
+
+  constructor(
+    private readonly provider: KeyProvider,
+    private readonly expected: StreamDecryptOptions
+  ) {
+    super();
+  }
+
+  override _transform(chunk: unknown, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.pending = Buffer.concat([this.pending, toBuffer(chunk)]);
+
+      if (!this.opened) {
+        this.opened = this.readHeader();
+        if (!this.opened) return callback();
+      }
+
+      // As when encrypting, a full chunk is only known not to be the final
+      // one once at least one more byte follows it.
+      const sealedSize = this.opened.chunkSize + TAG_BYTES;
+      while (this.pending.length > sealedSize) {
+        this.open(this.opened, this.pending.subarray(0, sealedSize), false);
+        this.pending = this.pending.subarray(sealedSize);
+      }
+      callback();
+    } catch (err) {
+      callback(err as Error);
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    try {
+      if (!this.opened) {
+        throw new CorruptPayloadError("Encrypted stream is truncated: header incomplete");
+      }
+      if (this.pending.length < TAG_BYTES) {
+        throw new CorruptPayloadError("Encrypted stream is truncated: final chunk missing");
+      }
+      this.open(this.opened, this.pending, true);
+      this.pending = Buffer.alloc(0);
+      callback();
+    } catch (err) {
+      callback(err as Error);
+    }
+  }
+
+  /** Parse and verify the header once enough bytes have arrived; null until then */
+  private readHeader(): OpenedStream | null {
+    if (this.pending.length < MAGIC.length + 4) {
+      return null;
+    }
+    if (!this.pending.subarray(0, MAGIC.length).equals(MAGIC)) {
+      throw new CorruptPayloadError("Not an encrypted stream: unrecognized magic or layout version");
+    }
+
+    const length = this.pending.readUInt32BE(MAGIC.length);
+    if (length > MAX_HEADER_BYTES) {
+      throw new CorruptPayloadError(`Encrypted stream header too large (${length} bytes)`);
+    }
+
+    const start = MAGIC.length + 4;
+    if (this.pending.length < start + length) {
+      return null;
+    }
+
+    let header: StreamHeader;
+    try {
+      header = JSON.parse(this.pending.subarray(start, start + length).toString("utf-8")) as StreamHeader;
+    } catch {
+      throw new CorruptPayloadError("Encrypted stream header is not valid JSON");
+    }
+    this.pending = this.pending.subarray(start + length);
+
+    if (header.id !== this.expected.id || header.partyId !== this.expected.partyId) {
+      throw new IntegrityFailureError(
+        `Encrypted stream belongs to ${String(header.id)} (party ${String(header.partyId)}), ` +
+          `expected ${this.expected.id} (party ${this.expected.partyId})`
+      );
+    }
+
+    assertKnownAlgorithm(header.alg);
+    const cipher = cipherFor(header.alg);
+    const chunkSize = validateChunkSize(header.chunkSize);
+    const prefix = validateHex(header.nonce_prefix, "nonce_prefix", PREFIX_BYTES);
+    validateHex(header.dek_wrap_nonce, "dek_wrap_nonce", NONCE_BYTES);
+    validateHex(header.dek_wrapped, "dek_wrapped");
+    validateHex(header.dek_wrap_tag, "dek_wrap_tag", TAG_BYTES);
+
+    const aad = streamAad(header);
+    const dek = this.provider.unwrapKey(
+      header.mk_version,
+      { nonce: header.dek_wrap_nonce, ct: header.dek_wrapped, tag: header.dek_wrap_tag },
+      aad
+    );
+
+    return { cipher, dek, prefix, chunkSize, aad };
+  }
+
+  private open(opened: OpenedStream, sealed: Buffer, last: boolean): void {
+    const index = this.index++;
+    const nonce = chunkNonce(opened.prefix, index, last);
+    const ct = sealed.subarray(0, sealed.length - TAG_BYTES);
+    const tag = sealed.subarray(sealed.length - TAG_BYTES);
+
+    try {
+      this.push(aeadOpen(opened.cipher, opened.dek, nonce, ct, tag, opened.aad));
+    } catch (err) {
+      throw new IntegrityFailureError(`${(err as Error).message} (chunk ${index}${last ? ", final" : ""})`);
+    }
+  }
+}
+
+/**
+ * Create a Transform stream that decrypts a stream produced by createEncryptStream.
+ *
+ * The header must name the expected id and partyId; the DEK is then unwrapped
+ * with the header's mk_version and every chunk is authenticated before its
+ * plaintext is emitted.
+ *
+ * @param keys    - master key registry or KeyProvider
+ * @param options - the id/partyId the stream must be bound to
+ * @returns a Transform: encrypted stream in, plaintext out. Errors (tampering,
+ *          truncation, wrong binding, missing key version) surface as stream errors.
+ */
+export function createDecryptStream(keys: KeySource, options: StreamDecryptOptions): Transform {
+  return new DecryptStream(toKeyProvider(keys), options);
+}
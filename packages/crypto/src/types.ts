@@ -1,3 +1,7 @@
+import type { PayloadAlgorithm } from "./algorithms.js";
+import type { KeyScope } from "./provider.js";
+import type { RecordSignature, SignatureVerification, SigningKeyRegistry } from "./signing.js";
+
 /**
  * TxSecureRecord — the envelope-encrypted transaction record.
  *
@@ -5,6 +9,9 @@
  * are stored as lowercase hex strings for safe JSON serialization.
  */
 export type TxSecureRecord = {
+  /** Record format version — absent on legacy (v1) records */
+  v?: number;
+
   /** Unique identifier for this encrypted record */
   id: string;
 
@@ -14,17 +21,33 @@ export type TxSecureRecord = {
   /** ISO-8601 timestamp of record creation */
   createdAt: string;
 
+  /**
+   * ISO-8601 time from which the record must no longer be decrypted (v3+,
+   * optional). Bound as AAD, so it cannot be extended without detection.
+   */
+  expiresAt?: string;
+
   // --- Payload encryption (DEK → plaintext) ---
 
   /** 12-byte nonce used for payload encryption, hex-encoded (24 chars) */
   payload_nonce: string;
 
-  /** AES-256-GCM ciphertext of the JSON payload, hex-encoded */
+  /** Ciphertext of the JSON payload (cipher given by `alg`), hex-encoded */
   payload_ct: string;
 
   /** 16-byte authentication tag from payload encryption, hex-encoded (32 chars) */
   payload_tag: string;
 
+  // --- Field-level encryption (v4 only) ---
+  // payload_* then seals an empty plaintext: its tag authenticates the
+  // cleartext fields and the set of encrypted field names.
+
+  /** Payload fields kept in cleartext — readable without decryption, but authenticated */
+  clear_fields?: Record<string, unknown>;
+
+  /** Payload fields encrypted individually with the record's DEK */
+  enc_fields?: Record<string, EncryptedField>;
+
   // --- DEK wrapping (Master Key → DEK) ---
 
   /** 12-byte nonce used for DEK wrapping, hex-encoded (24 chars) */
@@ -38,16 +61,115 @@ export type TxSecureRecord = {
 
   // --- Algorithm metadata ---
 
-  /** Encryption algorithm identifier */
-  alg: "AES-256-GCM";
+  /** Payload encryption algorithm — always AES-256-GCM on v1 records */
+  alg: PayloadAlgorithm;
+
+  /**
+   * Caller-supplied encryption context (v3+). Not secret — stored in the
+   * clear — but bound as AAD, so it cannot be changed without detection.
+   */
+  context?: Record<string, string>;
+
+  /**
+   * The JSON Schema the payload was validated against before encryption
+   * (v3+, optional). Bound as AAD, so a record cannot be relabelled as a
+   * different transaction type without detection.
+   */
+  payload_schema?: PayloadSchemaRef;
+
+  /**
+   * Blind index tokens of selected payload fields (field → hex HMAC), for
+   * exact-match search without decryption. Not bound as AAD — see blind-index.ts.
+   */
+  blind_index?: Record<string, string>;
 
   /** Master key version used for wrapping — supports key rotation */
   mk_version: number;
+
+  /**
+   * "party" when the DEK is wrapped under the party's key for mk_version
+   * (see party-keys.ts) rather than under the master key itself. Bound as AAD.
+   */
+  key_scope?: KeyScope;
+
+  /**
+   * Ed25519 signature of the record's content by whoever encrypted it
+   * (optional) — verifiable with public keys alone, see signing.ts.
+   */
+  signature?: RecordSignature;
 };
 
+/** Identifies a registered payload schema: the transaction type and schema version */
+export interface PayloadSchemaRef {
+  id: string;
+  version: number;
+}
+
+/** One individually encrypted payload field, hex-encoded */
+export interface EncryptedField {
+  nonce: string;
+  ct: string;
+  tag: string;
+}
+
+/**
+ * Field-level encryption schema: how each top-level payload field is stored.
+ * Fields not listed are encrypted.
+ */
+export type FieldSchema = Record<string, "encrypt" | "clear">;
+
+/** Which payload fields get blind index tokens, and the key to compute them with */
+export interface BlindIndexOptions {
+  /** 32-byte index key — keep it separate from the master keys */
+  key: Buffer;
+
+  /** Top-level payload fields to index */
+  fields: readonly string[];
+}
+
+/** Options for envelopeEncrypt */
+export interface EncryptOptions {
+  /** Payload algorithm (default: AES-256-GCM) */
+  alg?: PayloadAlgorithm;
+
+  /** Encryption context to store on the record and bind as AAD */
+  context?: Record<string, string>;
+
+  /** Encrypt fields individually (format v4) instead of as one payload */
+  fields?: FieldSchema;
+
+  /** Store blind index tokens for these payload fields on the record */
+  index?: BlindIndexOptions;
+
+  /** When the record expires (stored as ISO-8601 and bound as AAD); must be in the future */
+  expiresAt?: Date | string;
+
+  /** Schema the payload was validated against (stored and bound as AAD) */
+  payloadSchema?: PayloadSchemaRef;
+
+  /** Sign the record with this registry's active key (see signing.ts) */
+  sign?: SigningKeyRegistry;
+}
+
+/** Options for envelopeDecrypt */
+export interface DecryptOptions {
+  /** Context entries the record must carry, e.g. { purpose: "refund" } */
+  expectedContext?: Record<string, string>;
+
+  /** Only return these top-level payload fields (field-level records only decrypt these) */
+  fields?: string[];
+
+  /** Time to check the record's expiry against (default: the current time) */
+  now?: Date;
+}
+
 /** Input for the encrypt operation */
 export interface EncryptInput {
   partyId: string;
+  alg?: PayloadAlgorithm;
+  context?: Record<string, string>;
+  fields?: FieldSchema;
+  expiresAt?: string;
   payload: Record<string, unknown>;
 }
 
@@ -56,4 +178,7 @@ export interface DecryptResult {
   id: string;
   partyId: string;
   payload: Record<string, unknown>;
+
+  /** Who signed the record, when its signature was verified */
+  signature?: SignatureVerification;
 }
@@ -1,23 +1,26 @@
 /**
- * Utility helpers for hex encoding/decoding and input validation.
+ * Utility helpers for hex encoding/decoding, input validation and
+ * canonical serialization.
  * All crypto values are stored as hex strings to ensure safe JSON transport.
  */
 import { Buffer } from "node:buffer";
+import { InvalidHexError } from "./errors.js";
 
 /**
  * Validates that a string is valid hexadecimal and optionally checks byte length.
- * @throws Error if the string is not valid hex or does not match expected byte length.
+ * @throws InvalidHexError if the string is not valid hex or does not match expected byte length.
  */
 export function validateHex(value: string, label: string, expectedBytes?: number): Buffer {
   // Hex strings must have even length and contain only hex characters
   if (!/^[0-9a-f]*$/i.test(value) || value.length % 2 !== 0) {
-    throw new Error(`${label}: invalid hex encoding`);
+    throw new InvalidHexError(label, `${label}: invalid hex encoding`);
   }
 
   const buf = Buffer.from(value, "hex");
 
   if (expectedBytes !== undefined && buf.length !== expectedBytes) {
-    throw new Error(
+    throw new InvalidHexError(
+      label,
       `${label}: expected ${expectedBytes} bytes, got ${buf.length} bytes`
     );
   }
@@ -35,3 +38,27 @@ export function parseMasterKey(hexKey: string): Buffer {
   }
   return validateHex(hexKey, "MASTER_KEY", 32);
 }
+
+/**
+ * Deterministic JSON serialization for hashing, MACs and AAD.
+ *
+ * Object keys are sorted recursively and undefined-valued properties are
+ * omitted, so logically equal values always produce identical bytes
+ * regardless of property insertion order.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(",")}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(",")}}`;
+}